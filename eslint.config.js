@@ -24,5 +24,11 @@ export default tseslint.config(
         { allowConstantExport: true },
       ],
     },
+  },
+  {
+    files: ['src/pwa/serviceWorker.ts'],
+    languageOptions: {
+      globals: globals.serviceworker,
+    },
   }
 );
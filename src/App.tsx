@@ -1,113 +1,467 @@
-import React, { useState, useEffect } from 'react';
-import { Calendar, Heart, Share2, Copy, Baby, Clock, Menu, X, Info, Shield, HelpCircle, Mail, Home } from 'lucide-react';
-
-interface CalculationResults {
-  dueDate: Date;
-  conceptionDate: Date;
-  currentWeek: number;
-  daysRemaining: number;
-  trimester: number;
-}
-
-type Page = 'home' | 'about' | 'disclaimer' | 'privacy' | 'faq' | 'contact';
+import { MouseEvent, useEffect, useMemo, useState } from 'react';
+import { Calendar, Heart, Share2, Copy, Baby, Clock, Menu, X, Info, Shield, HelpCircle, Mail, Home, Scale, CalendarPlus, Printer, Languages, Monitor, Sun, Moon, Contrast } from 'lucide-react';
+import {
+  CYCLE_LENGTH_RANGE,
+  DEFAULT_CYCLE_LENGTH,
+  DEFAULT_LUTEAL_PHASE_LENGTH,
+  EMBRYO_AGES,
+  EmbryoAge,
+  LUTEAL_PHASE_RANGE,
+  CalculationInput,
+  CalculationMethod,
+  LATE_TERM_DAYS,
+  POST_TERM_DAYS,
+  PREGNANCY_LENGTH_DAYS,
+  calculateFromDueDate,
+  calculatePregnancy,
+  formatGestationalAge,
+  getOvulationDay
+} from './lib/pregnancy';
+import { reconcileDating } from './lib/redating';
+import { ValidationIssue, checkDateInput, checkNumberInput, checkResults } from './lib/validation';
+import { PlainDate, addDays, diffDays, parsePlainDate, toIsoDateString, today } from './lib/plainDate';
+import {
+  CRL_RANGE_MM,
+  SCAN_DAYS_RANGE,
+  SCAN_WEEKS_RANGE,
+  UltrasoundMeasurement,
+  gestationalAgeFromCRL
+} from './lib/ultrasound';
+import { buildPregnancyCalendar } from './lib/ics';
+import {
+  BABY_COUNTS,
+  BabyCount,
+  Gestation,
+  SINGLETON,
+  TwinChorionicity,
+  getDeliveryOutlook,
+  getGestationMilestones
+} from './lib/multiples';
+import {
+  SharedCalculation,
+  buildShareUrl,
+  fromShareParams,
+  getSharedDueDate,
+  toDueDateOnly,
+  toShareParams
+} from './lib/shareLink';
+import { buildShareText } from './lib/shareText';
+import { NOT_FOUND_ROUTE, Page, ROUTES, getPageFromPath } from './lib/routes';
+import {
+  SavedCalculation,
+  browserStorage,
+  clearSavedCalculations,
+  loadSavedCalculations,
+  storeSavedCalculations
+} from './lib/savedCalculations';
+import {
+  NotificationFrequency,
+  NotificationSettings,
+  buildProgressNotifications,
+  loadNotificationSettings,
+  storeNotificationSettings
+} from './lib/notifications';
+import {
+  cancelProgressNotifications,
+  getNotificationAccess,
+  requestNotificationAccess,
+  scheduleProgressNotifications
+} from './pwa/progressNotifications';
+import { getContactTransport } from './lib/contact';
+import { getFaqSections } from './content/faq';
+import { useI18n } from './i18n/context';
+import { LOCALES, Locale } from './i18n/locales';
+import { getCalendarWeek } from './i18n/translate';
+import { useTheme } from './theme/context';
+import { THEME_PREFERENCES, ThemePreference } from './theme/themes';
+import PregnancyTimeline from './components/PregnancyTimeline';
+import DeliveryDistributionChart from './components/DeliveryDistributionChart';
+import FetalDevelopmentCard from './components/FetalDevelopmentCard';
+import ContactForm from './components/ContactForm';
+import FaqAccordion from './components/FaqAccordion';
+import PrintSummary from './components/PrintSummary';
+import SavedCalculationsPanel from './components/SavedCalculationsPanel';
+import NotificationSettingsPanel from './components/NotificationSettingsPanel';
+
+// Labels and descriptions live in the message catalogs under method.<id>.*
+const calculationMethods: {
+  id: CalculationMethod;
+  selectedClass: string;
+  idleClass: string;
+}[] = [
+  {
+    id: 'lmp',
+    selectedClass: 'border-pink-300 bg-pink-50 shadow-md',
+    idleClass: 'hover:border-pink-200 hover:bg-pink-50/50'
+  },
+  {
+    id: 'dueDate',
+    selectedClass: 'border-blue-300 bg-blue-50 shadow-md',
+    idleClass: 'hover:border-blue-200 hover:bg-blue-50/50'
+  },
+  {
+    id: 'conception',
+    selectedClass: 'border-purple-300 bg-purple-50 shadow-md',
+    idleClass: 'hover:border-purple-200 hover:bg-purple-50/50'
+  },
+  {
+    id: 'eggRetrieval',
+    selectedClass: 'border-green-300 bg-green-50 shadow-md',
+    idleClass: 'hover:border-green-200 hover:bg-green-50/50'
+  },
+  {
+    id: 'embryoTransfer',
+    selectedClass: 'border-teal-300 bg-teal-50 shadow-md',
+    idleClass: 'hover:border-teal-200 hover:bg-teal-50/50'
+  },
+  {
+    id: 'ultrasound',
+    selectedClass: 'border-indigo-300 bg-indigo-50 shadow-md',
+    idleClass: 'hover:border-indigo-200 hover:bg-indigo-50/50'
+  }
+];
+
+// The date input that results-level validation messages are shown next to
+const primaryDateFieldIds: Record<CalculationMethod, string> = {
+  lmp: 'lmp-date',
+  dueDate: 'due-date',
+  conception: 'conception-date',
+  eggRetrieval: 'retrieval-date',
+  embryoTransfer: 'transfer-date',
+  ultrasound: 'scan-date'
+};
+
+// Chosen once from the build's environment, see .env.example
+const contactTransport = getContactTransport(import.meta.env);
+
+const chorionicityOptions: TwinChorionicity[] = ['dichorionic', 'monochorionic', 'monoamniotic'];
+
+const themeIcons: Record<ThemePreference, typeof Sun> = {
+  system: Monitor,
+  light: Sun,
+  dark: Moon,
+  contrast: Contrast
+};
+
+// Blank, non-numeric or out-of-range fields parse as undefined
+const parseNumberInRange = (
+  value: string,
+  range: { min: number; max: number },
+  integer = true
+): number | undefined => {
+  const number = Number(value);
+  return value.trim() !== '' && (integer ? Number.isInteger(number) : Number.isFinite(number)) &&
+    number >= range.min && number <= range.max
+    ? number
+    : undefined;
+};
+
+// Form values for a shared link or saved calculation, or the blank form for null
+const getFormValues = (shared: SharedCalculation | null) => {
+  const input = shared?.input;
+  const dateValue = (date: PlainDate | undefined) => (date ? toIsoDateString(date) : '');
+  const numberValue = (number: number | undefined) => (number === undefined ? '' : String(number));
+  const measurement = input?.method === 'ultrasound' ? input.measurement : undefined;
+
+  return {
+    method: input?.method ?? 'lmp',
+    lmp: dateValue(input?.method === 'lmp' ? input.lmp : shared?.scanLmp),
+    dueDate: dateValue(input?.method === 'dueDate' ? input.dueDate : undefined),
+    conceptionDate: dateValue(input?.method === 'conception' ? input.conceptionDate : undefined),
+    retrievalDate: dateValue(input?.method === 'eggRetrieval' ? input.retrievalDate : undefined),
+    transferDate: dateValue(input?.method === 'embryoTransfer' ? input.transferDate : undefined),
+    embryoAge: input?.method === 'embryoTransfer' ? input.embryoAge : 5,
+    scanDate: dateValue(input?.method === 'ultrasound' ? input.scanDate : undefined),
+    scanInputMode: measurement?.kind ?? 'gestationalAge',
+    scanWeeks: numberValue(measurement?.kind === 'gestationalAge' ? measurement.weeks : undefined),
+    scanDays: numberValue(measurement?.kind === 'gestationalAge' ? measurement.days : undefined),
+    crl: numberValue(measurement?.kind === 'crl' ? measurement.crlMm : undefined),
+    cycleLength: numberValue(input?.method === 'lmp' ? input.cycleLength : undefined),
+    lutealPhase: numberValue(input?.method === 'lmp' ? input.lutealPhaseLength : undefined),
+    referenceDate: dateValue(shared?.asOf),
+    babies: shared?.gestation?.babies ?? 1,
+    chorionicity: shared?.gestation?.chorionicity ?? 'dichorionic'
+  };
+};
 
 function App() {
-  const [currentPage, setCurrentPage] = useState<Page>('home');
+  const { locale, setLocale, t, formatDate } = useI18n();
+  const { preference: themePreference, setPreference: setThemePreference } = useTheme();
+  const [initialForm] = useState(() => getFormValues(fromShareParams(new URLSearchParams(window.location.search))));
+  // null when the URL matches no page, which shows the 404 view
+  const [currentPage, setCurrentPage] = useState<Page | null>(() => getPageFromPath(window.location.pathname));
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const [calculationMethod, setCalculationMethod] = useState<'lmp' | 'dueDate'>('lmp');
-  const [lmpDate, setLmpDate] = useState<string>('');
-  const [dueDateInput, setDueDateInput] = useState<string>('');
-  const [results, setResults] = useState<CalculationResults | null>(null);
+  const [calculationMethod, setCalculationMethod] = useState<CalculationMethod>(initialForm.method);
+  const [lmpDate, setLmpDate] = useState<string>(initialForm.lmp);
+  const [dueDateInput, setDueDateInput] = useState<string>(initialForm.dueDate);
+  const [conceptionDateInput, setConceptionDateInput] = useState<string>(initialForm.conceptionDate);
+  const [retrievalDateInput, setRetrievalDateInput] = useState<string>(initialForm.retrievalDate);
+  const [transferDateInput, setTransferDateInput] = useState<string>(initialForm.transferDate);
+  const [embryoAge, setEmbryoAge] = useState<EmbryoAge>(initialForm.embryoAge);
+  const [scanDateInput, setScanDateInput] = useState<string>(initialForm.scanDate);
+  const [scanInputMode, setScanInputMode] = useState<UltrasoundMeasurement['kind']>(initialForm.scanInputMode);
+  const [scanWeeksInput, setScanWeeksInput] = useState<string>(initialForm.scanWeeks);
+  const [scanDaysInput, setScanDaysInput] = useState<string>(initialForm.scanDays);
+  const [crlInput, setCrlInput] = useState<string>(initialForm.crl);
+  const [cycleLengthInput, setCycleLengthInput] = useState<string>(initialForm.cycleLength);
+  const [lutealPhaseInput, setLutealPhaseInput] = useState<string>(initialForm.lutealPhase);
+  const [referenceDateInput, setReferenceDateInput] = useState<string>(initialForm.referenceDate);
+  const [babyCount, setBabyCount] = useState<BabyCount>(initialForm.babies);
+  const [twinChorionicity, setTwinChorionicity] = useState<TwinChorionicity>(initialForm.chorionicity);
+  const [shareDueDateOnly, setShareDueDateOnly] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [savedCalculations, setSavedCalculations] = useState(() => loadSavedCalculations(browserStorage));
+  const [openSavedId, setOpenSavedId] = useState<string | null>(null);
+  const [savingFailed, setSavingFailed] = useState(false);
+  const [notificationSettings, setNotificationSettings] = useState(() => loadNotificationSettings(browserStorage));
+  const [notificationAccess, setNotificationAccess] = useState(getNotificationAccess);
+  const [notificationsFailed, setNotificationsFailed] = useState(false);
+
+  // Back and forward buttons move between pages without reloading
+  useEffect(() => {
+    const handlePopState = () => setCurrentPage(getPageFromPath(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
 
-  // Calculate results based on input method
   useEffect(() => {
-    if (calculationMethod === 'lmp' && lmpDate) {
-      calculateFromLMP(new Date(lmpDate));
-    } else if (calculationMethod === 'dueDate' && dueDateInput) {
-      calculateFromDueDate(new Date(dueDateInput));
-    } else {
-      setResults(null);
-    }
-  }, [calculationMethod, lmpDate, dueDateInput]);
+    const route = currentPage ? ROUTES[currentPage] : NOT_FOUND_ROUTE;
+    document.title = t(route.title, { site: t('app.name') });
+    document.querySelector('meta[name="description"]')?.setAttribute('content', t(route.description));
+  }, [currentPage, t]);
 
-  const calculateFromLMP = (lmp: Date) => {
-    // Due date is 280 days (40 weeks) from LMP
-    const dueDate = new Date(lmp.getTime() + (280 * 24 * 60 * 60 * 1000));
-    
-    // Conception typically occurs ~14 days after LMP (ovulation)
-    const conceptionDate = new Date(lmp.getTime() + (14 * 24 * 60 * 60 * 1000));
-    
-    // Calculate current pregnancy week
-    const today = new Date();
-    const daysSinceLMP = Math.floor((today.getTime() - lmp.getTime()) / (24 * 60 * 60 * 1000));
-    const currentWeek = Math.floor(daysSinceLMP / 7);
-    
-    // Days remaining until due date
-    const daysRemaining = Math.max(0, Math.floor((dueDate.getTime() - today.getTime()) / (24 * 60 * 60 * 1000)));
-    
-    // Determine trimester
-    const trimester = currentWeek <= 12 ? 1 : currentWeek <= 27 ? 2 : 3;
-    
-    setResults({
-      dueDate,
-      conceptionDate,
-      currentWeek: Math.max(0, currentWeek),
-      daysRemaining,
-      trimester
-    });
-  };
+  // Rebuilt from the followed pregnancy on every visit, which is also when browsers without background sync notify
+  useEffect(() => {
+    if (!notificationSettings || notificationAccess !== 'granted') return;
 
-  const calculateFromDueDate = (dueDate: Date) => {
-    // LMP is 280 days before due date
-    const lmp = new Date(dueDate.getTime() - (280 * 24 * 60 * 60 * 1000));
-    
-    // Conception is ~14 days after LMP
-    const conceptionDate = new Date(lmp.getTime() + (14 * 24 * 60 * 60 * 1000));
-    
-    // Calculate current pregnancy week
-    const today = new Date();
-    const daysSinceLMP = Math.floor((today.getTime() - lmp.getTime()) / (24 * 60 * 60 * 1000));
-    const currentWeek = Math.floor(daysSinceLMP / 7);
-    
-    // Days remaining until due date
-    const daysRemaining = Math.max(0, Math.floor((dueDate.getTime() - today.getTime()) / (24 * 60 * 60 * 1000)));
-    
-    // Determine trimester
-    const trimester = currentWeek <= 12 ? 1 : currentWeek <= 27 ? 2 : 3;
-    
-    setResults({
-      dueDate,
-      conceptionDate,
-      currentWeek: Math.max(0, currentWeek),
-      daysRemaining,
-      trimester
+    const { calculation, frequency, locale: notificationLocale } = notificationSettings;
+    const notifications = buildProgressNotifications(getSharedDueDate(calculation), frequency, {
+      from: today(),
+      milestones: getGestationMilestones(calculation.gestation ?? SINGLETON),
+      locale: notificationLocale
     });
-  };
+    scheduleProgressNotifications(notifications).catch(() => setNotificationsFailed(true));
+  }, [notificationSettings, notificationAccess]);
 
-  const formatDate = (date: Date): string => {
-    return date.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  const navigateTo = (page: Page) => {
+    if (window.location.pathname !== ROUTES[page].path) {
+      window.history.pushState(null, '', ROUTES[page].path);
+    }
+    setCurrentPage(page);
+    setMobileMenuOpen(false);
+    window.scrollTo(0, 0);
   };
 
-  const getShareText = () => {
-    if (!results) return '';
-    
-    return `🤱 My Pregnancy Calculator Results:
+  // Real links, so pages can be crawled and opened in a new tab; plain clicks stay in the app
+  const getLinkProps = (page: Page) => ({
+    href: ROUTES[page].path,
+    onClick: (e: MouseEvent<HTMLAnchorElement>) => {
+      if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      navigateTo(page);
+    }
+  });
+
+  const cycleOptions = useMemo(() => ({
+    // Blank or out-of-range cycle details fall back to the engine defaults
+    cycleLength: parseNumberInRange(cycleLengthInput, CYCLE_LENGTH_RANGE),
+    lutealPhaseLength: parseNumberInRange(lutealPhaseInput, LUTEAL_PHASE_RANGE)
+  }), [cycleLengthInput, lutealPhaseInput]);
+
+  const ultrasoundMeasurement = useMemo((): UltrasoundMeasurement | null => {
+    if (scanInputMode === 'crl') {
+      const crlMm = parseNumberInRange(crlInput, CRL_RANGE_MM, false);
+      return crlMm === undefined ? null : { kind: 'crl', crlMm };
+    }
+
+    // Reports often give whole weeks only, so a blank days field means +0d
+    const weeks = parseNumberInRange(scanWeeksInput, SCAN_WEEKS_RANGE);
+    const days = scanDaysInput.trim() === '' ? 0 : parseNumberInRange(scanDaysInput, SCAN_DAYS_RANGE);
+    return weeks === undefined || days === undefined ? null : { kind: 'gestationalAge', weeks, days };
+  }, [scanInputMode, scanWeeksInput, scanDaysInput, crlInput]);
 
-📅 Estimated Due Date: ${formatDate(results.dueDate)}
-💝 Estimated Conception Date: ${formatDate(results.conceptionDate)}
-🗓️ Current Week: ${results.currentWeek} weeks pregnant
-⏰ Days Remaining: ${results.daysRemaining} days
-🌸 Trimester: ${results.trimester === 1 ? 'First' : results.trimester === 2 ? 'Second' : 'Third'} Trimester
+  const gestation = useMemo(
+    (): Gestation => (babyCount === 2 ? { babies: 2, chorionicity: twinChorionicity } : { babies: babyCount }),
+    [babyCount, twinChorionicity]
+  );
+  const milestones = useMemo(() => getGestationMilestones(gestation), [gestation]);
 
-Calculate your pregnancy dates at: ${window.location.origin}
+  const isCycleAdjusted = calculationMethod === 'lmp' && getOvulationDay(cycleOptions) !== getOvulationDay();
 
-#pregnancy #duedate #expecting #babycalculator`;
+  // Inputs are read as local calendar days; `new Date('YYYY-MM-DD')` would mean UTC midnight
+  const calculationInput = useMemo((): CalculationInput | null => {
+    switch (calculationMethod) {
+      case 'lmp': {
+        const lmp = parsePlainDate(lmpDate);
+        return lmp && { method: 'lmp', lmp, ...cycleOptions };
+      }
+      case 'dueDate': {
+        const dueDate = parsePlainDate(dueDateInput);
+        return dueDate && { method: 'dueDate', dueDate };
+      }
+      case 'conception': {
+        const conceptionDate = parsePlainDate(conceptionDateInput);
+        return conceptionDate && { method: 'conception', conceptionDate };
+      }
+      case 'eggRetrieval': {
+        const retrievalDate = parsePlainDate(retrievalDateInput);
+        return retrievalDate && { method: 'eggRetrieval', retrievalDate };
+      }
+      case 'embryoTransfer': {
+        const transferDate = parsePlainDate(transferDateInput);
+        return transferDate && { method: 'embryoTransfer', transferDate, embryoAge };
+      }
+      case 'ultrasound': {
+        const scanDate = parsePlainDate(scanDateInput);
+        return scanDate && ultrasoundMeasurement && { method: 'ultrasound', scanDate, measurement: ultrasoundMeasurement };
+      }
+    }
+  }, [
+    calculationMethod,
+    lmpDate,
+    dueDateInput,
+    conceptionDateInput,
+    retrievalDateInput,
+    transferDateInput,
+    embryoAge,
+    scanDateInput,
+    ultrasoundMeasurement,
+    cycleOptions
+  ]);
+
+  // Only the inputs of the selected method are validated
+  const fieldIssues = useMemo((): Record<string, ValidationIssue | null> => {
+    const now = today();
+    const referenceIssue = { 'reference-date': checkDateInput(referenceDateInput, now, { allowFuture: true }) };
+
+    switch (calculationMethod) {
+      case 'lmp':
+        return {
+          ...referenceIssue,
+          'lmp-date': checkDateInput(lmpDate, now),
+          'cycle-length': checkNumberInput(cycleLengthInput, CYCLE_LENGTH_RANGE, { optional: true }),
+          'luteal-phase': checkNumberInput(lutealPhaseInput, LUTEAL_PHASE_RANGE, { optional: true })
+        };
+      case 'dueDate':
+        return { ...referenceIssue, 'due-date': checkDateInput(dueDateInput, now, { allowFuture: true }) };
+      case 'conception':
+        return { ...referenceIssue, 'conception-date': checkDateInput(conceptionDateInput, now) };
+      case 'eggRetrieval':
+        return { ...referenceIssue, 'retrieval-date': checkDateInput(retrievalDateInput, now) };
+      case 'embryoTransfer':
+        return { ...referenceIssue, 'transfer-date': checkDateInput(transferDateInput, now) };
+      case 'ultrasound': {
+        const scanDate = parsePlainDate(scanDateInput);
+        const lmp = parsePlainDate(lmpDate);
+        const lmpAfterScan: ValidationIssue | null = scanDate && lmp && diffDays(lmp, scanDate) < 0
+          ? { severity: 'error', message: 'validation.lmpAfterScan' }
+          : null;
+
+        return {
+          ...referenceIssue,
+          'scan-date': checkDateInput(scanDateInput, now),
+          ...(scanInputMode === 'crl'
+            ? { crl: checkNumberInput(crlInput, CRL_RANGE_MM, { integer: false, unit: 'mm' }) }
+            : {
+                'scan-weeks': checkNumberInput(scanWeeksInput, SCAN_WEEKS_RANGE, { unit: 'weeks' }),
+                'scan-days': checkNumberInput(scanDaysInput, SCAN_DAYS_RANGE)
+              }),
+          'scan-lmp-date': checkDateInput(lmpDate, now) ?? lmpAfterScan
+        };
+      }
+    }
+  }, [
+    calculationMethod,
+    lmpDate,
+    dueDateInput,
+    conceptionDateInput,
+    retrievalDateInput,
+    transferDateInput,
+    scanDateInput,
+    scanInputMode,
+    scanWeeksInput,
+    scanDaysInput,
+    crlInput,
+    cycleLengthInput,
+    lutealPhaseInput,
+    referenceDateInput
+  ]);
+
+  const hasInputErrors = Object.values(fieldIssues).some((issue) => issue?.severity === 'error');
+
+  // An LMP entered alongside a dating scan is reconciled with it using the ACOG thresholds.
+  // The scan tab has no cycle fields, so the LMP estimate is always the standard 28-day one, as in
+  // share links, saved calculations and notifications (see getSharedDueDate).
+  const redating = useMemo(() => {
+    const lmp = parsePlainDate(lmpDate);
+    return calculationInput?.method === 'ultrasound' && lmp && !fieldIssues['scan-lmp-date']
+      ? reconcileDating(lmp, calculationInput.scanDate, calculationInput.measurement)
+      : null;
+  }, [calculationInput, lmpDate, fieldIssues]);
+
+  // Progress is shown as of the chosen reference date, or today when none is picked
+  const referenceDate = parsePlainDate(referenceDateInput);
+  const isReferenceToday = !referenceDate || diffDays(referenceDate, today()) === 0;
+
+  // Calculate results based on input method
+  const calculation = useMemo(() => {
+    const asOf = parsePlainDate(referenceDateInput) ?? today();
+
+    if (hasInputErrors) return null;
+    if (redating) return calculateFromDueDate(redating.finalDueDate, asOf);
+    return calculationInput ? calculatePregnancy(calculationInput, asOf) : null;
+  }, [calculationInput, redating, hasInputErrors, referenceDateInput]);
+
+  // Dates that parse but give an impossible pregnancy are reported at the input, not as results
+  const resultsIssue = calculation && checkResults(calculation);
+  const results = resultsIssue ? null : calculation;
+
+  // Twins and triplets count down to their usual delivery window rather than the 40-week due date
+  const deliveryOutlook = results && getDeliveryOutlook(results, gestation);
+
+  // A custom reference date is the likelier culprit for an implausible result than the pregnancy dates
+  const resultsIssueFieldId = isReferenceToday ? primaryDateFieldIds[calculationMethod] : 'reference-date';
+
+  const getFieldIssue = (id: string): ValidationIssue | null =>
+    fieldIssues[id] ?? (id === resultsIssueFieldId ? resultsIssue : null);
+
+  const getShareText = () =>
+    results
+      ? buildShareText(
+          {
+            results,
+            url: getShareUrl(),
+            stage: getStageInfo().name,
+            cycle: isCycleAdjusted
+              ? { length: cycleOptions.cycleLength ?? DEFAULT_CYCLE_LENGTH, ovulationDay: getOvulationDay(cycleOptions) }
+              : undefined,
+            asOf: isReferenceToday ? undefined : referenceDate ?? undefined,
+            redating: redating ?? undefined,
+            deliveryWindow: deliveryOutlook
+              ? { label: getGestationLabel(), start: deliveryOutlook.start, end: deliveryOutlook.end }
+              : undefined
+          },
+          locale,
+          { dueDateOnly: shareDueDateOnly }
+        )
+      : '';
+
+  // The entered calculation that share links, saved calculations and notifications recreate
+  const getCurrentCalculation = (): SharedCalculation | null =>
+    calculationInput && {
+      input: calculationInput,
+      scanLmp: redating ? parsePlainDate(lmpDate) ?? undefined : undefined,
+      gestation: gestation.babies > 1 ? gestation : undefined
+    };
+
+  // The due-date-only option leaves out the LMP and other personal dates, here and in getShareText
+  const getShareUrl = () => {
+    const baseUrl = `${window.location.origin}${ROUTES.home.path}`;
+    const current = getCurrentCalculation();
+    if (!results || !current) return baseUrl;
+
+    const shared = { ...current, asOf: isReferenceToday ? undefined : referenceDate ?? undefined };
+    return buildShareUrl(baseUrl, shareDueDateOnly ? toDueDateOnly(shared, results.dueDate) : shared);
   };
 
   const shareResults = async () => {
@@ -118,11 +472,11 @@ Calculate your pregnancy dates at: ${window.location.origin}
     if (navigator.share) {
       try {
         await navigator.share({
-          title: 'My Pregnancy Calculator Results',
+          title: t('shareText.title'),
           text: shareText,
-          url: window.location.origin
+          url: getShareUrl()
         });
-      } catch (err) {
+      } catch {
         copyToClipboard(shareText);
       }
     } else {
@@ -137,32 +491,256 @@ Calculate your pregnancy dates at: ${window.location.origin}
     });
   };
 
+  const downloadCalendar = () => {
+    if (!results) return;
+
+    const blob = new Blob([buildPregnancyCalendar(results.dueDate, { milestones, locale })], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pregnancy-milestones-${toIsoDateString(results.dueDate)}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  // What was entered, for the printed summary
+  const getPrintInputs = (): { label: string; value: string }[] => [
+    ...getPrintDateInputs(),
+    ...(deliveryOutlook
+      ? [{
+          label: t('print.input.babies'),
+          value: t('print.input.babies.value', {
+            label: getGestationLabel(),
+            start: formatGestationalAge(deliveryOutlook.window.startDays),
+            end: formatGestationalAge(deliveryOutlook.window.endDays)
+          })
+        }]
+      : [])
+  ];
+
+  const getPrintDateInputs = (): { label: string; value: string }[] => {
+    switch (calculationInput?.method) {
+      case 'lmp':
+        return [
+          { label: t('print.input.lmp'), value: formatDate(calculationInput.lmp) },
+          ...(isCycleAdjusted
+            ? [{
+                label: t('print.input.cycle'),
+                value: t('print.input.cycle.value', {
+                  length: cycleOptions.cycleLength ?? DEFAULT_CYCLE_LENGTH,
+                  day: getOvulationDay(cycleOptions)
+                })
+              }]
+            : [])
+        ];
+      case 'dueDate':
+        return [{ label: t('print.input.dueDate'), value: formatDate(calculationInput.dueDate) }];
+      case 'conception':
+        return [{ label: t('print.input.conception'), value: formatDate(calculationInput.conceptionDate) }];
+      case 'eggRetrieval':
+        return [{ label: t('print.input.retrieval'), value: formatDate(calculationInput.retrievalDate) }];
+      case 'embryoTransfer':
+        return [
+          { label: t('print.input.transfer'), value: formatDate(calculationInput.transferDate) },
+          { label: t('print.input.embryoAge'), value: t('field.embryoAge.day', { age: calculationInput.embryoAge }) }
+        ];
+      case 'ultrasound': {
+        const { measurement } = calculationInput;
+        return [
+          { label: t('print.input.scanDate'), value: formatDate(calculationInput.scanDate) },
+          {
+            label: t('print.input.measurement'),
+            value: measurement.kind === 'crl'
+              ? t('print.input.crl.value', { mm: measurement.crlMm })
+              : formatGestationalAge(measurement.weeks * 7 + measurement.days)
+          },
+          ...(redating
+            ? [{
+                label: t('print.input.datedBy'),
+                value: t('print.input.datedBy.value', {
+                  method: t(`redating.chosen.${redating.chosen}`),
+                  days: t('unit.day', { count: Math.abs(redating.discrepancyDays) })
+                })
+              }]
+            : [])
+        ];
+      }
+      default:
+        return [];
+    }
+  };
+
+  const applyFormValues = (form: ReturnType<typeof getFormValues>) => {
+    setCalculationMethod(form.method);
+    setLmpDate(form.lmp);
+    setDueDateInput(form.dueDate);
+    setConceptionDateInput(form.conceptionDate);
+    setRetrievalDateInput(form.retrievalDate);
+    setTransferDateInput(form.transferDate);
+    setEmbryoAge(form.embryoAge);
+    setScanDateInput(form.scanDate);
+    setScanInputMode(form.scanInputMode);
+    setScanWeeksInput(form.scanWeeks);
+    setScanDaysInput(form.scanDays);
+    setCrlInput(form.crl);
+    setCycleLengthInput(form.cycleLength);
+    setLutealPhaseInput(form.lutealPhase);
+    setReferenceDateInput(form.referenceDate);
+    setBabyCount(form.babies);
+    setTwinChorionicity(form.chorionicity);
+  };
+
+  const updateSavedCalculations = (calculations: SavedCalculation[]) => {
+    const stored = storeSavedCalculations(browserStorage, calculations);
+    setSavingFailed(!stored);
+    if (stored) setSavedCalculations(calculations);
+    return stored;
+  };
+
+  const saveCalculation = (name: string, asNew: boolean) => {
+    const calculation = getCurrentCalculation();
+    if (!calculation || !savedCalculations) return;
+
+    const existing = asNew ? undefined : savedCalculations.find((saved) => saved.id === openSavedId);
+    const entry = { id: existing?.id ?? crypto.randomUUID(), name, savedAt: new Date().toISOString(), calculation };
+    const updated = existing
+      ? savedCalculations.map((saved) => (saved.id === existing.id ? entry : saved))
+      : [...savedCalculations, entry];
+
+    if (updateSavedCalculations(updated)) setOpenSavedId(entry.id);
+  };
+
+  const openSavedCalculation = (saved: SavedCalculation) => {
+    applyFormValues(getFormValues(saved.calculation));
+    setOpenSavedId(saved.id);
+  };
+
+  const deleteSavedCalculation = (saved: SavedCalculation) => {
+    if (!savedCalculations) return;
+    if (updateSavedCalculations(savedCalculations.filter((entry) => entry.id !== saved.id)) && saved.id === openSavedId) {
+      setOpenSavedId(null);
+    }
+  };
+
+  const disableSaving = () => {
+    if (savedCalculations?.length && !window.confirm(t('saved.disable.confirm'))) return;
+    clearSavedCalculations(browserStorage);
+    setSavedCalculations(null);
+    setOpenSavedId(null);
+    setSavingFailed(false);
+  };
+
+  const updateNotificationSettings = (settings: NotificationSettings | null) => {
+    const stored = storeNotificationSettings(browserStorage, settings);
+    setNotificationsFailed(!stored);
+    if (stored) setNotificationSettings(settings);
+  };
+
+  const enableNotifications = async (frequency: NotificationFrequency) => {
+    const calculation = getCurrentCalculation();
+    const access = await requestNotificationAccess();
+    setNotificationAccess(access);
+    if (calculation && access === 'granted') updateNotificationSettings({ frequency, calculation, locale });
+  };
+
+  // Scheduled notifications follow the page's language
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    if (notificationSettings) updateNotificationSettings({ ...notificationSettings, locale: next });
+  };
+
+  const disableNotifications = () => {
+    updateNotificationSettings(null);
+    cancelProgressNotifications().catch(() => setNotificationsFailed(true));
+  };
+
+  const isFollowingCurrentCalculation = () => {
+    const current = getCurrentCalculation();
+    return Boolean(
+      current && notificationSettings &&
+      toShareParams(current).toString() === toShareParams(notificationSettings.calculation).toString()
+    );
+  };
+
+  const getSavedCalculationDetails = ({ calculation }: SavedCalculation) => {
+    const date = formatDate(getSharedDueDate(calculation));
+    const method = t(`method.${calculation.input.method}.label`);
+    return calculation.gestation
+      ? t('saved.details.babies', { date, method, babies: t(`field.babies.${calculation.gestation.babies}`) })
+      : t('saved.details', { date, method });
+  };
+
   const getTrimesterInfo = (trimester: number) => {
     const info = {
-      1: { name: 'First Trimester', color: 'text-pink-600', bg: 'bg-pink-100' },
-      2: { name: 'Second Trimester', color: 'text-blue-600', bg: 'bg-blue-100' },
-      3: { name: 'Third Trimester', color: 'text-purple-600', bg: 'bg-purple-100' }
+      1: { name: t('stage.first'), color: 'text-trimester-1', bg: 'bg-trimester-1-soft', range: t('stage.first.range') },
+      2: { name: t('stage.second'), color: 'text-trimester-2', bg: 'bg-trimester-2-soft', range: t('stage.second.range') },
+      3: { name: t('stage.third'), color: 'text-trimester-3', bg: 'bg-trimester-3-soft', range: t('stage.third.range') }
     };
     return info[trimester as keyof typeof info] || info[1];
   };
 
+  // Past the due date the trimester alone is misleading, so the post-dates stage takes over
+  const getStageInfo = () => {
+    switch (results?.status) {
+      case 'overdue':
+        return { ...getTrimesterInfo(3), range: t('stage.overdue.range') };
+      case 'lateTerm':
+        return { name: t('stage.lateTerm'), color: 'text-amber-700', bg: 'bg-amber-100', range: t('stage.lateTerm.range') };
+      case 'postTerm':
+        return { name: t('stage.postTerm'), color: 'text-red-700', bg: 'bg-red-100', range: t('stage.postTerm.range') };
+      default:
+        return getTrimesterInfo(results?.trimester ?? 1);
+    }
+  };
+
+  const getGestationLabel = () =>
+    t(gestation.babies === 3 ? 'gestation.triplets' : `gestation.${gestation.chorionicity ?? 'dichorionic'}`);
+
+  // Weeks start on Sunday or Monday depending on the locale
+  const getCalendarWeekCaption = (date: PlainDate) => {
+    const { start, end } = getCalendarWeek(date, locale);
+    return t('results.calendarWeek', { start: formatDate(start, 'short'), end: formatDate(end, 'short') });
+  };
+
+  const renderStatusNotice = () => {
+    // From 42 weeks the results still show, under a notice to contact a provider; past the plausible range
+    // checkResults withholds them instead and the date input shows why
+    if (results?.status === 'postTerm') {
+      return (
+        <div className="bg-red-50 border border-red-200 rounded-2xl p-6" role="status">
+          <h3 className="text-lg font-semibold text-red-800 mb-2">{t('notice.postTerm.title')}</h3>
+          <p className="text-red-700 text-sm">{t('notice.postTerm.body')}</p>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
   const navigationItems = [
-    { id: 'home' as Page, label: 'Calculator', icon: Home },
-    { id: 'about' as Page, label: 'About Tool', icon: Info },
-    { id: 'faq' as Page, label: 'FAQ', icon: HelpCircle },
-    { id: 'disclaimer' as Page, label: 'Disclaimer', icon: Shield },
-    { id: 'privacy' as Page, label: 'Privacy', icon: Shield },
-    { id: 'contact' as Page, label: 'Contact', icon: Mail },
+    { id: 'home' as Page, label: t('nav.home'), icon: Home },
+    { id: 'about' as Page, label: t('nav.about'), icon: Info },
+    { id: 'faq' as Page, label: t('nav.faq'), icon: HelpCircle },
+    { id: 'disclaimer' as Page, label: t('nav.disclaimer'), icon: Shield },
+    { id: 'privacy' as Page, label: t('nav.privacy'), icon: Shield },
+    { id: 'contact' as Page, label: t('nav.contact'), icon: Mail },
   ];
 
+  const ThemeIcon = themeIcons[themePreference];
+  const cycleThemePreference = () =>
+    setThemePreference(THEME_PREFERENCES[(THEME_PREFERENCES.indexOf(themePreference) + 1) % THEME_PREFERENCES.length]);
+
   const renderNavigation = () => (
-    <nav className="flex items-center space-x-1">
+    <nav className="flex items-center gap-1">
       {/* Desktop Navigation */}
-      <div className="hidden md:flex space-x-1">
+      <div className="hidden md:flex gap-1">
         {navigationItems.map((item) => (
-          <button
+          <a
             key={item.id}
-            onClick={() => setCurrentPage(item.id)}
+            {...getLinkProps(item.id)}
+            aria-current={currentPage === item.id ? 'page' : undefined}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center gap-2 ${
               currentPage === item.id
                 ? 'bg-pink-100 text-pink-700'
@@ -171,15 +749,40 @@ Calculate your pregnancy dates at: ${window.location.origin}
           >
             <item.icon className="w-4 h-4" />
             {item.label}
-          </button>
+          </a>
         ))}
       </div>
 
+      {/* Language */}
+      <label className="flex items-center gap-1 px-2 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100">
+        <Languages className="w-4 h-4" aria-hidden="true" />
+        <span className="sr-only">{t('nav.language')}</span>
+        <select
+          value={locale}
+          onChange={(e) => changeLocale(e.target.value as Locale)}
+          className="bg-transparent text-sm font-medium focus:outline-none cursor-pointer"
+        >
+          {(Object.keys(LOCALES) as Locale[]).map((id) => (
+            <option key={id} value={id} lang={id}>{LOCALES[id].label}</option>
+          ))}
+        </select>
+      </label>
+
+      {/* Theme: cycles through the choices, as the header has no room for another menu on phones */}
+      <button
+        onClick={cycleThemePreference}
+        className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+        aria-label={`${t('nav.theme')}: ${t(`theme.${themePreference}`)}`}
+        title={`${t('nav.theme')}: ${t(`theme.${themePreference}`)}`}
+      >
+        <ThemeIcon className="w-4 h-4" />
+      </button>
+
       {/* Mobile Menu Button */}
       <button
         onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
         className="md:hidden p-2 rounded-lg text-gray-600 hover:bg-gray-100"
-        aria-label="Toggle menu"
+        aria-label={t('nav.toggleMenu')}
       >
         {mobileMenuOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
       </button>
@@ -189,21 +792,19 @@ Calculate your pregnancy dates at: ${window.location.origin}
         <div className="absolute top-full left-0 right-0 bg-white shadow-lg border-t border-gray-200 md:hidden">
           <div className="py-2">
             {navigationItems.map((item) => (
-              <button
+              <a
                 key={item.id}
-                onClick={() => {
-                  setCurrentPage(item.id);
-                  setMobileMenuOpen(false);
-                }}
-                className={`w-full px-4 py-3 text-left text-sm font-medium transition-all duration-200 flex items-center gap-3 ${
+                {...getLinkProps(item.id)}
+                aria-current={currentPage === item.id ? 'page' : undefined}
+                className={`w-full px-4 py-3 text-start text-sm font-medium transition-all duration-200 flex items-center gap-3 ${
                   currentPage === item.id
-                    ? 'bg-pink-50 text-pink-700 border-r-2 border-pink-500'
+                    ? 'bg-pink-50 text-pink-700 border-e-2 border-pink-500'
                     : 'text-gray-600 hover:bg-gray-50'
                 }`}
               >
                 <item.icon className="w-4 h-4" />
                 {item.label}
-              </button>
+              </a>
             ))}
           </div>
         </div>
@@ -211,30 +812,415 @@ Calculate your pregnancy dates at: ${window.location.origin}
     </nav>
   );
 
+  const renderFieldIssue = (id: string) => {
+    const issue = getFieldIssue(id);
+    if (!issue) return null;
+
+    return (
+      <p
+        id={`${id}-issue`}
+        className={`text-sm mt-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}
+        role={issue.severity === 'error' ? 'alert' : 'status'}
+      >
+        {t(issue.message, issue.params)}
+      </p>
+    );
+  };
+
+  // Border colour and ARIA wiring shared by every validated input
+  const getFieldProps = (id: string, className: string, helpId?: string) => {
+    const issue = getFieldIssue(id);
+    const describedBy = [helpId, issue && `${id}-issue`].filter(Boolean).join(' ');
+    return {
+      className: `${className} border-2 ${
+        issue?.severity === 'error' ? 'border-red-400' : issue ? 'border-amber-400' : 'border-gray-200'
+      } focus:outline-none transition-colors duration-200`,
+      'aria-invalid': issue?.severity === 'error',
+      'aria-describedby': describedBy || undefined
+    };
+  };
+
+  const renderDateField = (field: {
+    id: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    help: string;
+    focusClass: string;
+    allowFuture?: boolean;
+  }) => {
+    return (
+      <>
+        <label htmlFor={field.id} className="block text-sm font-medium text-gray-700 mb-2">
+          {field.label}
+        </label>
+        <input
+          type="date"
+          id={field.id}
+          value={field.value}
+          max={field.allowFuture ? undefined : toIsoDateString(today())}
+          onChange={(e) => field.onChange(e.target.value)}
+          {...getFieldProps(field.id, `w-full px-4 py-3 text-lg rounded-xl ${field.focusClass}`, `${field.id}-help`)}
+        />
+        {renderFieldIssue(field.id)}
+        <p id={`${field.id}-help`} className="text-sm text-gray-500 mt-1">
+          {field.help}
+        </p>
+      </>
+    );
+  };
+
+  const renderDateInput = () => {
+    switch (calculationMethod) {
+      case 'lmp':
+        return (
+          <div>
+            {renderDateField({
+              id: 'lmp-date',
+              label: t('field.lmp.label'),
+              value: lmpDate,
+              onChange: setLmpDate,
+              help: t('field.lmp.help'),
+              focusClass: 'focus:border-pink-400'
+            })}
+
+            <div className="grid sm:grid-cols-2 gap-4 mt-4">
+              <div>
+                <label htmlFor="cycle-length" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('field.cycleLength.label')} <span className="font-normal text-gray-500">{t('field.optional')}</span>
+                </label>
+                <input
+                  type="number"
+                  id="cycle-length"
+                  inputMode="numeric"
+                  min={CYCLE_LENGTH_RANGE.min}
+                  max={CYCLE_LENGTH_RANGE.max}
+                  placeholder={t('field.daysPlaceholder', { count: DEFAULT_CYCLE_LENGTH })}
+                  value={cycleLengthInput}
+                  onChange={(e) => setCycleLengthInput(e.target.value)}
+                  {...getFieldProps('cycle-length', 'w-full px-4 py-3 rounded-xl focus:border-pink-400', 'cycle-length-help')}
+                />
+                {renderFieldIssue('cycle-length')}
+                <p id="cycle-length-help" className="text-sm text-gray-500 mt-1">
+                  {t('field.cycleLength.help', CYCLE_LENGTH_RANGE)}
+                </p>
+              </div>
+              <div>
+                <label htmlFor="luteal-phase" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('field.lutealPhase.label')} <span className="font-normal text-gray-500">{t('field.optional')}</span>
+                </label>
+                <input
+                  type="number"
+                  id="luteal-phase"
+                  inputMode="numeric"
+                  min={LUTEAL_PHASE_RANGE.min}
+                  max={LUTEAL_PHASE_RANGE.max}
+                  placeholder={t('field.daysPlaceholder', { count: DEFAULT_LUTEAL_PHASE_LENGTH })}
+                  value={lutealPhaseInput}
+                  onChange={(e) => setLutealPhaseInput(e.target.value)}
+                  {...getFieldProps('luteal-phase', 'w-full px-4 py-3 rounded-xl focus:border-pink-400', 'luteal-phase-help')}
+                />
+                {renderFieldIssue('luteal-phase')}
+                <p id="luteal-phase-help" className="text-sm text-gray-500 mt-1">
+                  {t('field.lutealPhase.help', LUTEAL_PHASE_RANGE)}
+                </p>
+              </div>
+            </div>
+          </div>
+        );
+      case 'dueDate':
+        return (
+          <div>
+            {renderDateField({
+              id: 'due-date',
+              label: t('field.dueDate.label'),
+              value: dueDateInput,
+              onChange: setDueDateInput,
+              help: t('field.dueDate.help'),
+              focusClass: 'focus:border-blue-400',
+              allowFuture: true
+            })}
+          </div>
+        );
+      case 'conception':
+        return (
+          <div>
+            {renderDateField({
+              id: 'conception-date',
+              label: t('field.conception.label'),
+              value: conceptionDateInput,
+              onChange: setConceptionDateInput,
+              help: t('field.conception.help'),
+              focusClass: 'focus:border-purple-400'
+            })}
+          </div>
+        );
+      case 'eggRetrieval':
+        return (
+          <div>
+            {renderDateField({
+              id: 'retrieval-date',
+              label: t('field.retrieval.label'),
+              value: retrievalDateInput,
+              onChange: setRetrievalDateInput,
+              help: t('field.retrieval.help'),
+              focusClass: 'focus:border-green-400'
+            })}
+          </div>
+        );
+      case 'embryoTransfer':
+        return (
+          <div>
+            {renderDateField({
+              id: 'transfer-date',
+              label: t('field.transfer.label'),
+              value: transferDateInput,
+              onChange: setTransferDateInput,
+              help: t('field.transfer.help'),
+              focusClass: 'focus:border-teal-400'
+            })}
+
+            <fieldset className="mt-4">
+              <legend className="block text-sm font-medium text-gray-700 mb-2">
+                {t('field.embryoAge.legend')}
+              </legend>
+              <div className="grid grid-cols-3 gap-3" role="radiogroup">
+                {EMBRYO_AGES.map((age) => (
+                  <button
+                    key={age}
+                    onClick={() => setEmbryoAge(age)}
+                    className={`px-4 py-3 rounded-xl border-2 text-sm font-medium transition-all duration-200 ${
+                      embryoAge === age
+                        ? 'border-teal-300 bg-teal-50 text-teal-800 shadow-md'
+                        : 'border-gray-200 bg-gray-50 text-gray-700 hover:border-teal-200'
+                    }`}
+                    aria-checked={embryoAge === age}
+                    role="radio"
+                  >
+                    {t('field.embryoAge.day', { age })}
+                    <span className="block text-xs font-normal text-gray-500">
+                      {t(age === 3 ? 'field.embryoAge.cleavage' : 'field.embryoAge.blastocyst')}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+          </div>
+        );
+      case 'ultrasound': {
+        const crlMm = parseNumberInRange(crlInput, CRL_RANGE_MM, false);
+        const crlGestationalAge = crlMm === undefined ? null : gestationalAgeFromCRL(crlMm);
+
+        return (
+          <div>
+            {renderDateField({
+              id: 'scan-date',
+              label: t('field.scanDate.label'),
+              value: scanDateInput,
+              onChange: setScanDateInput,
+              help: t('field.scanDate.help'),
+              focusClass: 'focus:border-indigo-400'
+            })}
+
+            <fieldset className="mt-4">
+              <legend className="block text-sm font-medium text-gray-700 mb-2">
+                {t('field.scanResult.legend')}
+              </legend>
+              <div className="grid grid-cols-2 gap-3 mb-4" role="radiogroup">
+                {(['gestationalAge', 'crl'] as const).map((kind) => ({
+                  kind,
+                  label: t(`field.scanResult.${kind}`),
+                  hint: t(`field.scanResult.${kind}Hint`)
+                })).map((option) => (
+                  <button
+                    key={option.kind}
+                    onClick={() => setScanInputMode(option.kind)}
+                    className={`px-4 py-3 rounded-xl border-2 text-sm font-medium text-start transition-all duration-200 ${
+                      scanInputMode === option.kind
+                        ? 'border-indigo-300 bg-indigo-50 text-indigo-800 shadow-md'
+                        : 'border-gray-200 bg-gray-50 text-gray-700 hover:border-indigo-200'
+                    }`}
+                    aria-checked={scanInputMode === option.kind}
+                    role="radio"
+                  >
+                    {option.label}
+                    <span className="block text-xs font-normal text-gray-500">{option.hint}</span>
+                  </button>
+                ))}
+              </div>
+
+              {scanInputMode === 'gestationalAge' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="scan-weeks" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('field.scanWeeks.label')}
+                    </label>
+                    <input
+                      type="number"
+                      id="scan-weeks"
+                      inputMode="numeric"
+                      min={SCAN_WEEKS_RANGE.min}
+                      max={SCAN_WEEKS_RANGE.max}
+                      value={scanWeeksInput}
+                      onChange={(e) => setScanWeeksInput(e.target.value)}
+                      {...getFieldProps('scan-weeks', 'w-full px-4 py-3 rounded-xl focus:border-indigo-400')}
+                    />
+                    {renderFieldIssue('scan-weeks')}
+                  </div>
+                  <div>
+                    <label htmlFor="scan-days" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('field.scanDays.label')}
+                    </label>
+                    <input
+                      type="number"
+                      id="scan-days"
+                      inputMode="numeric"
+                      min={SCAN_DAYS_RANGE.min}
+                      max={SCAN_DAYS_RANGE.max}
+                      placeholder="0"
+                      value={scanDaysInput}
+                      onChange={(e) => setScanDaysInput(e.target.value)}
+                      {...getFieldProps('scan-days', 'w-full px-4 py-3 rounded-xl focus:border-indigo-400')}
+                    />
+                    {renderFieldIssue('scan-days')}
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="crl" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('field.crl.label')}
+                  </label>
+                  <input
+                    type="number"
+                    id="crl"
+                    inputMode="decimal"
+                    step="0.1"
+                    min={CRL_RANGE_MM.min}
+                    max={CRL_RANGE_MM.max}
+                    value={crlInput}
+                    onChange={(e) => setCrlInput(e.target.value)}
+                    {...getFieldProps('crl', 'w-full px-4 py-3 rounded-xl focus:border-indigo-400', 'crl-help')}
+                  />
+                  {renderFieldIssue('crl')}
+                  <p id="crl-help" className="text-sm text-gray-500 mt-1">
+                    {crlGestationalAge !== null
+                      ? t('field.crl.equivalent', { age: formatGestationalAge(crlGestationalAge) })
+                      : t('field.crl.range', CRL_RANGE_MM)}
+                  </p>
+                </div>
+              )}
+            </fieldset>
+
+            <div className="mt-4">
+              {renderDateField({
+                id: 'scan-lmp-date',
+                label: t('field.scanLmp.label'),
+                value: lmpDate,
+                onChange: setLmpDate,
+                help: t('field.scanLmp.help'),
+                focusClass: 'focus:border-indigo-400'
+              })}
+            </div>
+          </div>
+        );
+      }
+    }
+  };
+
+  const renderRedatingComparison = () => {
+    if (!redating) return null;
+
+    const estimates = [
+      { id: 'lmp', label: t('redating.byLmp'), dueDate: redating.lmpDueDate },
+      {
+        id: 'ultrasound',
+        label: t('redating.byUltrasound', { age: formatGestationalAge(redating.scanGestationalAgeDays) }),
+        dueDate: redating.ultrasoundDueDate
+      }
+    ] as const;
+    const discrepancy = Math.abs(redating.discrepancyDays);
+    const { band } = redating;
+    const bandLabel = band.fromDays === 0
+      ? t('redating.band.before', { age: formatGestationalAge(band.untilDays) })
+      : band.untilDays === Infinity
+      ? t('redating.band.from', { age: formatGestationalAge(band.fromDays) })
+      : t('redating.band.between', {
+          start: formatGestationalAge(band.fromDays),
+          end: formatGestationalAge(band.untilDays - 1)
+        });
+
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
+        <h3 className="text-xl font-semibold text-gray-800 mb-6 flex items-center gap-2">
+          <Scale className="w-5 h-5 text-indigo-500" />
+          {t('redating.title')}
+        </h3>
+
+        <div className="grid md:grid-cols-2 gap-4 mb-4">
+          {estimates.map((estimate) => (
+            <div
+              key={estimate.id}
+              className={`p-4 rounded-xl border-2 ${
+                redating.chosen === estimate.id
+                  ? 'border-indigo-300 bg-indigo-50 shadow-md'
+                  : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <p className="text-sm font-medium text-gray-700">{estimate.label}</p>
+                {redating.chosen === estimate.id && (
+                  <span className="px-2 py-0.5 rounded-full bg-indigo-600 text-white text-xs font-semibold">
+                    {t('redating.final')}
+                  </span>
+                )}
+              </div>
+              <p className={`text-lg font-bold ${redating.chosen === estimate.id ? 'text-indigo-700' : 'text-gray-500'}`}>
+                {formatDate(estimate.dueDate)}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {discrepancy === 0
+            ? t('redating.match')
+            : `${t(redating.discrepancyDays > 0 ? 'redating.ahead' : 'redating.behind', {
+                days: t('unit.day', { count: discrepancy })
+              })} ${t(redating.chosen === 'ultrasound' ? 'redating.useUltrasound' : 'redating.keepLmp', {
+                band: bandLabel,
+                threshold: t('unit.day', { count: band.thresholdDays })
+              })}`}
+        </p>
+        {redating.isSuboptimallyDated && (
+          <p className="text-sm text-amber-700 mt-3">{t('redating.suboptimal')}</p>
+        )}
+      </div>
+    );
+  };
+
   const renderHomePage = () => (
     <>
       <main className="max-w-4xl mx-auto px-4 py-8">
         {/* Hero Section */}
         <section className="text-center mb-12">
           <h1 className="text-3xl md:text-4xl font-bold text-gray-800 mb-4">
-            Free Pregnancy Due Date Calculator
+            {t('hero.title')}
           </h1>
           <p className="text-lg text-gray-600 max-w-2xl mx-auto mb-6">
-            Calculate your estimated due date and conception date instantly. Our accurate pregnancy calculator 
-            helps you track your pregnancy journey with precise calculations based on medical standards.
+            {t('hero.intro')}
           </p>
           <div className="flex flex-wrap justify-center gap-4 text-sm text-gray-500">
             <span className="flex items-center gap-1">
               <Calendar className="w-4 h-4" />
-              Accurate Calculations
+              {t('hero.accurate')}
             </span>
             <span className="flex items-center gap-1">
               <Heart className="w-4 h-4" />
-              Medical Standards
+              {t('hero.standards')}
             </span>
             <span className="flex items-center gap-1">
               <Share2 className="w-4 h-4" />
-              Easy Sharing
+              {t('hero.sharing')}
             </span>
           </div>
         </section>
@@ -244,198 +1230,344 @@ Calculate your pregnancy dates at: ${window.location.origin}
           <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
             <h2 className="text-xl font-semibold text-gray-800 mb-6 flex items-center gap-2">
               <Calendar className="w-5 h-5 text-pink-500" />
-              Choose Your Calculation Method
+              {t('method.heading')}
             </h2>
             
-            <div className="grid md:grid-cols-2 gap-4 mb-6">
-              <button
-                onClick={() => setCalculationMethod('lmp')}
-                className={`p-4 rounded-xl border-2 transition-all duration-200 text-left ${
-                  calculationMethod === 'lmp'
-                    ? 'border-pink-300 bg-pink-50 shadow-md'
-                    : 'border-gray-200 bg-gray-50 hover:border-pink-200 hover:bg-pink-25'
-                }`}
-                aria-pressed={calculationMethod === 'lmp'}
-                role="radio"
-              >
-                <div className="font-medium text-gray-800 mb-1">
-                  Last Menstrual Period (LMP)
-                </div>
-                <div className="text-sm text-gray-600">
-                  Most common method - enter the first day of your last period
-                </div>
-              </button>
-              
-              <button
-                onClick={() => setCalculationMethod('dueDate')}
-                className={`p-4 rounded-xl border-2 transition-all duration-200 text-left ${
-                  calculationMethod === 'dueDate'
-                    ? 'border-blue-300 bg-blue-50 shadow-md'
-                    : 'border-gray-200 bg-gray-50 hover:border-blue-200 hover:bg-blue-25'
-                }`}
-                aria-pressed={calculationMethod === 'dueDate'}
-                role="radio"
-              >
-                <div className="font-medium text-gray-800 mb-1">
-                  Known Due Date
-                </div>
-                <div className="text-sm text-gray-600">
-                  If you already know your due date from a previous calculation
-                </div>
-              </button>
+            <div className="grid sm:grid-cols-2 md:grid-cols-3 gap-4 mb-6" role="radiogroup" aria-label={t('method.groupLabel')}>
+              {calculationMethods.map((method) => (
+                <button
+                  key={method.id}
+                  onClick={() => setCalculationMethod(method.id)}
+                  className={`p-4 rounded-xl border-2 transition-all duration-200 text-start ${
+                    calculationMethod === method.id
+                      ? method.selectedClass
+                      : `border-gray-200 bg-gray-50 ${method.idleClass}`
+                  }`}
+                  aria-checked={calculationMethod === method.id}
+                  role="radio"
+                >
+                  <div className="font-medium text-gray-800 mb-1">
+                    {t(`method.${method.id}.label`)}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {t(`method.${method.id}.description`)}
+                  </div>
+                </button>
+              ))}
             </div>
 
             {/* Date Input */}
             <div className="space-y-4">
-              {calculationMethod === 'lmp' ? (
-                <div>
-                  <label htmlFor="lmp-date" className="block text-sm font-medium text-gray-700 mb-2">
-                    First Day of Last Menstrual Period
-                  </label>
-                  <input
-                    type="date"
-                    id="lmp-date"
-                    value={lmpDate}
-                    onChange={(e) => setLmpDate(e.target.value)}
-                    className="w-full px-4 py-3 text-lg rounded-xl border-2 border-gray-200 focus:border-pink-400 focus:outline-none transition-colors duration-200"
-                    aria-describedby="lmp-help"
-                  />
-                  <p id="lmp-help" className="text-sm text-gray-500 mt-1">
-                    Select the first day of your last menstrual period to calculate your due date
-                  </p>
-                </div>
-              ) : (
-                <div>
-                  <label htmlFor="due-date" className="block text-sm font-medium text-gray-700 mb-2">
-                    Your Due Date
+              {renderDateInput()}
+            </div>
+
+            {/* Number of Babies */}
+            <fieldset className="mt-6 pt-6 border-t border-gray-100">
+              <legend className="block text-sm font-medium text-gray-700 mb-2">{t('field.babies.legend')}</legend>
+              <div className="grid grid-cols-3 gap-3" role="radiogroup">
+                {BABY_COUNTS.map((count) => (
+                  <button
+                    key={count}
+                    onClick={() => setBabyCount(count)}
+                    className={`px-4 py-3 rounded-xl border-2 text-sm font-medium transition-all duration-200 ${
+                      babyCount === count
+                        ? 'border-pink-300 bg-pink-50 text-pink-800 shadow-md'
+                        : 'border-gray-200 bg-gray-50 text-gray-700 hover:border-pink-200'
+                    }`}
+                    aria-checked={babyCount === count}
+                    role="radio"
+                  >
+                    {t(`field.babies.${count}`)}
+                  </button>
+                ))}
+              </div>
+
+              {babyCount === 2 && (
+                <div className="mt-4">
+                  <label htmlFor="twin-chorionicity" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('field.twinType.label')}
                   </label>
-                  <input
-                    type="date"
-                    id="due-date"
-                    value={dueDateInput}
-                    onChange={(e) => setDueDateInput(e.target.value)}
-                    className="w-full px-4 py-3 text-lg rounded-xl border-2 border-gray-200 focus:border-blue-400 focus:outline-none transition-colors duration-200"
-                    aria-describedby="due-date-help"
-                  />
-                  <p id="due-date-help" className="text-sm text-gray-500 mt-1">
-                    Enter your known due date to calculate conception date and current week
+                  <select
+                    id="twin-chorionicity"
+                    value={twinChorionicity}
+                    onChange={(e) => setTwinChorionicity(e.target.value as TwinChorionicity)}
+                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-pink-400 focus:outline-none transition-colors bg-white"
+                    aria-describedby="twin-chorionicity-help"
+                  >
+                    {chorionicityOptions.map((option) => (
+                      <option key={option} value={option}>{t(`field.twinType.${option}`)}</option>
+                    ))}
+                  </select>
+                  <p id="twin-chorionicity-help" className="text-sm text-gray-500 mt-1">
+                    {t('field.twinType.help')}
                   </p>
                 </div>
               )}
+            </fieldset>
+
+            {/* Reference Date */}
+            <div className="mt-6 pt-6 border-t border-gray-100">
+              <label htmlFor="reference-date" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('field.referenceDate.label')} <span className="font-normal text-gray-500">{t('field.optional')}</span>
+              </label>
+              <div className="flex gap-3">
+                <input
+                  type="date"
+                  id="reference-date"
+                  value={referenceDateInput}
+                  onChange={(e) => setReferenceDateInput(e.target.value)}
+                  {...getFieldProps('reference-date', 'flex-1 px-4 py-3 rounded-xl focus:border-purple-400', 'reference-date-help')}
+                />
+                {referenceDateInput && (
+                  <button
+                    onClick={() => setReferenceDateInput('')}
+                    className="px-4 py-3 rounded-xl border-2 border-gray-200 bg-gray-50 text-sm font-medium text-gray-700 hover:border-gray-300 transition-colors"
+                  >
+                    {t('field.referenceDate.today')}
+                  </button>
+                )}
+              </div>
+              {renderFieldIssue('reference-date')}
+              <p id="reference-date-help" className="text-sm text-gray-500 mt-1">
+                {t('field.referenceDate.help')}
+              </p>
             </div>
           </div>
         </section>
 
+        <SavedCalculationsPanel
+          key={openSavedId ?? 'new'}
+          calculations={savedCalculations}
+          editing={savedCalculations?.find((saved) => saved.id === openSavedId) ?? null}
+          canSave={Boolean(results)}
+          storageFailed={savingFailed}
+          getDetails={getSavedCalculationDetails}
+          onEnable={() => updateSavedCalculations([])}
+          onDisable={disableSaving}
+          onSave={saveCalculation}
+          onOpen={openSavedCalculation}
+          onDelete={deleteSavedCalculation}
+        />
+
+        {(results || notificationSettings) && (
+          <NotificationSettingsPanel
+            settings={notificationSettings}
+            access={notificationAccess}
+            trackedDetails={
+              notificationSettings &&
+              t('notifications.tracked', { date: formatDate(getSharedDueDate(notificationSettings.calculation)) })
+            }
+            canEnable={Boolean(results)}
+            isTrackingCurrent={isFollowingCurrentCalculation()}
+            failed={notificationsFailed}
+            onEnable={enableNotifications}
+            onChangeFrequency={(frequency) => notificationSettings && updateNotificationSettings({ ...notificationSettings, frequency })}
+            onTrackCurrent={() => {
+              const calculation = getCurrentCalculation();
+              if (calculation && notificationSettings) updateNotificationSettings({ ...notificationSettings, calculation });
+            }}
+            onDisable={disableNotifications}
+          />
+        )}
+
         {/* Results Section */}
         {results && (
-          <section className="space-y-6" role="region" aria-label="Calculation Results">
+          <section className="space-y-6" role="region" aria-label={t('results.region')}>
+            {renderStatusNotice()}
+
+            {redating && renderRedatingComparison()}
+
             {/* Main Results Cards */}
             <div className="grid md:grid-cols-2 gap-6">
               {/* Due Date Card */}
-              <div className="bg-white rounded-2xl shadow-lg p-6 border-l-4 border-pink-400">
+              <div className="bg-white rounded-2xl shadow-lg p-6 border-s-4 border-pink-400">
                 <div className="flex items-center gap-3 mb-3">
                   <div className="p-2 bg-pink-100 rounded-lg">
                     <Calendar className="w-5 h-5 text-pink-600" />
                   </div>
-                  <h3 className="text-lg font-semibold text-gray-800">Estimated Due Date</h3>
+                  <h3 className="text-lg font-semibold text-gray-800">{t('results.dueDate.title')}</h3>
                 </div>
                 <p className="text-2xl font-bold text-pink-600 mb-2">
                   {formatDate(results.dueDate)}
                 </p>
+                <p className="text-xs text-gray-500 mb-2">{getCalendarWeekCaption(results.dueDate)}</p>
                 <p className="text-sm text-gray-600">
                   {results.daysRemaining > 0 
-                    ? `${results.daysRemaining} days remaining`
+                    ? t('results.daysRemaining', { count: results.daysRemaining })
                     : results.daysRemaining === 0 
-                    ? 'Due today!'
-                    : `${Math.abs(results.daysRemaining)} days overdue`
+                    ? t('results.dueToday')
+                    : t('results.daysPastDue', { count: Math.abs(results.daysRemaining) })
                   }
                 </p>
+                {results.daysRemaining < 0 && (
+                  <ul className="mt-3 space-y-1 text-xs text-gray-600">
+                    {[
+                      { label: t('results.lateTerm'), days: LATE_TERM_DAYS },
+                      { label: t('results.postTerm'), days: POST_TERM_DAYS }
+                    ].map((milestone) => (
+                      <li key={milestone.days} className="flex justify-between gap-2">
+                        <span>{milestone.label}</span>
+                        <span className={results.gestationalAgeDays >= milestone.days ? 'font-semibold text-red-600' : ''}>
+                          {formatDate(addDays(results.dueDate, milestone.days - PREGNANCY_LENGTH_DAYS))}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
 
               {/* Conception Date Card */}
-              <div className="bg-white rounded-2xl shadow-lg p-6 border-l-4 border-blue-400">
+              <div className="bg-white rounded-2xl shadow-lg p-6 border-s-4 border-blue-400">
                 <div className="flex items-center gap-3 mb-3">
                   <div className="p-2 bg-blue-100 rounded-lg">
                     <Heart className="w-5 h-5 text-blue-600" />
                   </div>
-                  <h3 className="text-lg font-semibold text-gray-800">Estimated Conception Date</h3>
+                  <h3 className="text-lg font-semibold text-gray-800">{t('results.conception.title')}</h3>
                 </div>
                 <p className="text-2xl font-bold text-blue-600 mb-2">
                   {formatDate(results.conceptionDate)}
                 </p>
                 <p className="text-sm text-gray-600">
-                  Approximate date of conception
+                  {isCycleAdjusted
+                    ? t('results.conception.adjusted', { day: getOvulationDay(cycleOptions) })
+                    : calculationMethod === 'eggRetrieval' || calculationMethod === 'embryoTransfer'
+                    ? t('results.conception.fertilization')
+                    : t('results.conception.approximate')}
                 </p>
               </div>
             </div>
 
+            {deliveryOutlook && (
+              <div className="bg-white rounded-2xl shadow-lg p-6 border-s-4 border-purple-400">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="p-2 bg-purple-100 rounded-lg">
+                    <Baby className="w-5 h-5 text-purple-600" />
+                  </div>
+                  <h3 className="text-lg font-semibold text-gray-800">
+                    {t('results.deliveryWindow.title', { label: getGestationLabel() })}
+                  </h3>
+                </div>
+                <p className="text-2xl font-bold text-purple-600 mb-2">
+                  {formatDate(deliveryOutlook.start)} – {formatDate(deliveryOutlook.end)}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {t(babyCount === 3 ? 'results.deliveryWindow.triplets' : 'results.deliveryWindow.twins', {
+                    start: formatGestationalAge(deliveryOutlook.window.startDays),
+                    end: formatGestationalAge(deliveryOutlook.window.endDays)
+                  })}
+                </p>
+              </div>
+            )}
+
             {/* Progress Information */}
             <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
               <h3 className="text-xl font-semibold text-gray-800 mb-6 flex items-center gap-2">
                 <Clock className="w-5 h-5 text-purple-500" />
-                Pregnancy Progress
+                {t('results.progress.title')}
+                {!isReferenceToday && referenceDate && (
+                  <span className="text-sm font-normal text-gray-500">
+                    {t('results.progress.asOf', { date: formatDate(referenceDate) })}
+                  </span>
+                )}
               </h3>
               
               <div className="grid md:grid-cols-3 gap-6">
-                {/* Current Week */}
+                {/* Gestational Age */}
                 <div className="text-center">
                   <div className="p-4 bg-gradient-to-r from-pink-100 to-blue-100 rounded-xl mb-3">
                     <p className="text-3xl font-bold text-purple-600">
-                      {results.currentWeek}
+                      {formatGestationalAge(results.gestationalAgeDays)}
                     </p>
                     <p className="text-sm font-medium text-gray-700">
-                      Weeks Pregnant
+                      {t('results.gestationalAge.pregnant', {
+                        weeks: t('unit.week', { count: results.completedWeeks }),
+                        days: t('unit.day', { count: results.gestationalAgeDays % 7 })
+                      })}
                     </p>
                   </div>
-                  <p className="text-xs text-gray-600">Based on LMP</p>
+                  <p className="text-xs text-gray-600">
+                    {t('results.gestationalAge.caption', {
+                      completed: t('unit.completedWeek', { count: results.completedWeeks }),
+                      week: results.currentWeek
+                    })}
+                  </p>
                 </div>
 
                 {/* Trimester */}
                 <div className="text-center">
-                  <div className={`p-4 ${getTrimesterInfo(results.trimester).bg} rounded-xl mb-3`}>
-                    <p className={`text-lg font-bold ${getTrimesterInfo(results.trimester).color}`}>
-                      {getTrimesterInfo(results.trimester).name}
+                  <div className={`p-4 ${getStageInfo().bg} rounded-xl mb-3`}>
+                    <p className={`text-lg font-bold ${getStageInfo().color}`}>
+                      {getStageInfo().name}
                     </p>
                     <p className="text-sm font-medium text-gray-700">
-                      Current Stage
+                      {t('results.stage.current')}
                     </p>
                   </div>
                   <p className="text-xs text-gray-600">
-                    {results.trimester === 1 ? 'Weeks 1-12' : 
-                     results.trimester === 2 ? 'Weeks 13-27' : 'Weeks 28-40'}
+                    {getStageInfo().range}
                   </p>
                 </div>
 
                 {/* Days to Go */}
-                <div className="text-center">
-                  <div className="p-4 bg-gradient-to-r from-blue-100 to-purple-100 rounded-xl mb-3">
-                    <p className="text-3xl font-bold text-blue-600">
-                      {results.daysRemaining}
+                {deliveryOutlook && deliveryOutlook.status !== 'after' ? (
+                  <div className="text-center">
+                    <div className="p-4 bg-gradient-to-r from-blue-100 to-purple-100 rounded-xl mb-3">
+                      <p className="text-3xl font-bold text-blue-600">
+                        {deliveryOutlook.status === 'before' ? deliveryOutlook.daysUntilWindow : t('results.windowNow')}
+                      </p>
+                      <p className="text-sm font-medium text-gray-700">
+                        {t(deliveryOutlook.status === 'before' ? 'results.daysToWindow' : 'results.inWindow')}
+                      </p>
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      {t('results.untilAge', {
+                        age: formatGestationalAge(
+                          deliveryOutlook.status === 'before' ? deliveryOutlook.window.startDays : deliveryOutlook.window.endDays
+                        )
+                      })}
+                      {' '}· {t('results.toDueDate', { days: t('unit.day', { count: results.daysRemaining }) })}
                     </p>
-                    <p className="text-sm font-medium text-gray-700">
-                      Days to Go
+                  </div>
+                ) : (
+                  <div className="text-center">
+                    <div className="p-4 bg-gradient-to-r from-blue-100 to-purple-100 rounded-xl mb-3">
+                      <p className={`text-3xl font-bold ${results.daysRemaining < 0 ? 'text-red-600' : 'text-blue-600'}`}>
+                        {Math.abs(results.daysRemaining)}
+                      </p>
+                      <p className="text-sm font-medium text-gray-700">
+                        {t(results.daysRemaining < 0 ? 'results.daysPastDue' : 'results.daysToGo')}
+                      </p>
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      {t(results.daysRemaining < 0 ? 'results.sinceDueDate' : 'results.untilDueDate')}
                     </p>
                   </div>
-                  <p className="text-xs text-gray-600">Until due date</p>
-                </div>
+                )}
               </div>
             </div>
 
+            <FetalDevelopmentCard key={results.currentWeek} currentWeek={results.currentWeek} />
+
+            {/* The population data is for single babies; twins and triplets get the delivery window card instead */}
+            {gestation.babies === 1 && <DeliveryDistributionChart dueDate={results.dueDate} />}
+
+            <PregnancyTimeline dueDate={results.dueDate} currentWeek={results.currentWeek} milestones={milestones} />
+
             {/* Share Results */}
             <div className="bg-white rounded-2xl shadow-lg p-6">
               <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
                 <Share2 className="w-5 h-5 text-green-500" />
-                Share Your Results
+                {t('share.title')}
               </h3>
               
               <div className="flex flex-col sm:flex-row gap-3">
                 <button
                   onClick={shareResults}
                   className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-pink-500 to-blue-500 text-white rounded-xl font-medium hover:from-pink-600 hover:to-blue-600 transition-all duration-200 transform hover:scale-105"
-                  aria-label="Share pregnancy calculation results"
+                  aria-label={t('share.shareLabel')}
                 >
                   <Share2 className="w-4 h-4" />
-                  Share Results
+                  {t('share.share')}
                 </button>
                 
                 <button
@@ -445,12 +1577,40 @@ Calculate your pregnancy dates at: ${window.location.origin}
                       ? 'border-green-300 bg-green-50 text-green-700'
                       : 'border-gray-300 bg-gray-50 text-gray-700 hover:border-gray-400'
                   }`}
-                  aria-label="Copy results to clipboard"
+                  aria-label={t('share.copyLabel')}
                 >
-                  <Copy className="w-4 h-4 inline mr-2" />
-                  {copied ? 'Copied!' : 'Copy'}
+                  <Copy className="w-4 h-4 inline me-2" />
+                  {t(copied ? 'share.copied' : 'share.copy')}
+                </button>
+
+                <button
+                  onClick={downloadCalendar}
+                  className="px-6 py-3 border-2 border-gray-300 bg-gray-50 text-gray-700 rounded-xl font-medium hover:border-gray-400 transition-all duration-200"
+                  aria-label={t('share.calendarLabel')}
+                >
+                  <CalendarPlus className="w-4 h-4 inline me-2" />
+                  {t('share.calendar')}
+                </button>
+
+                <button
+                  onClick={() => window.print()}
+                  className="px-6 py-3 border-2 border-gray-300 bg-gray-50 text-gray-700 rounded-xl font-medium hover:border-gray-400 transition-all duration-200"
+                  aria-label={t('share.printLabel')}
+                >
+                  <Printer className="w-4 h-4 inline me-2" />
+                  {t('share.print')}
                 </button>
               </div>
+
+              <label className="flex items-start gap-2 mt-4 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={shareDueDateOnly}
+                  onChange={(e) => setShareDueDateOnly(e.target.checked)}
+                  className="mt-0.5 rounded border-gray-300 text-pink-500 focus:ring-pink-400"
+                />
+                <span>{t('share.dueDateOnly')}</span>
+              </label>
             </div>
           </section>
         )}
@@ -458,39 +1618,49 @@ Calculate your pregnancy dates at: ${window.location.origin}
         {/* How It Works Section */}
         <section className="mt-12 bg-white rounded-2xl shadow-lg p-6 md:p-8">
           <h2 className="text-xl font-semibold text-gray-800 mb-6">
-            How Our Pregnancy Calculator Works
+            {t('howItWorks.title')}
           </h2>
           
           <div className="grid md:grid-cols-2 gap-8">
             <div>
               <h3 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
                 <Calendar className="w-5 h-5 text-pink-500" />
-                LMP Method (Most Common)
+                {t('howItWorks.lmp.title')}
               </h3>
-              <p className="text-gray-600 text-sm mb-4">
-                The Last Menstrual Period method uses Naegele's Rule, adding 280 days (40 weeks) to the first day 
-                of your last menstrual period. This is the standard method used by healthcare providers worldwide.
-              </p>
+              <p className="text-gray-600 text-sm mb-4">{t('howItWorks.lmp.body')}</p>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• Due Date = LMP + 280 days</li>
-                <li>• Conception Date = LMP + 14 days (average ovulation)</li>
-                <li>• Current Week = Days since LMP ÷ 7</li>
+                {(['howItWorks.lmp.dueDate', 'howItWorks.lmp.conception', 'howItWorks.lmp.gestationalAge'] as const).map(
+                  (key) => <li key={key}>• {t(key)}</li>
+                )}
               </ul>
             </div>
             
             <div>
               <h3 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
                 <Heart className="w-5 h-5 text-blue-500" />
-                Due Date Method
+                {t('howItWorks.dueDate.title')}
               </h3>
-              <p className="text-gray-600 text-sm mb-4">
-                If you already know your due date from an ultrasound or previous calculation, we can work backwards 
-                to estimate your conception date and current pregnancy progress.
-              </p>
+              <p className="text-gray-600 text-sm mb-4">{t('howItWorks.dueDate.body')}</p>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• LMP = Due Date - 280 days</li>
-                <li>• Conception Date = LMP + 14 days</li>
-                <li>• Progress calculated from estimated LMP</li>
+                {(['howItWorks.dueDate.lmp', 'howItWorks.dueDate.conception', 'howItWorks.dueDate.progress'] as const).map(
+                  (key) => <li key={key}>• {t(key)}</li>
+                )}
+              </ul>
+            </div>
+
+            <div className="md:col-span-2">
+              <h3 className="font-medium text-gray-800 mb-3 flex items-center gap-2">
+                <Baby className="w-5 h-5 text-teal-500" />
+                {t('howItWorks.other.title')}
+              </h3>
+              <p className="text-gray-600 text-sm mb-4">{t('howItWorks.other.body')}</p>
+              <ul className="text-sm text-gray-600 space-y-1">
+                {([
+                  'howItWorks.other.conception',
+                  'howItWorks.other.transfer',
+                  'howItWorks.other.ultrasound',
+                  'howItWorks.other.weeks'
+                ] as const).map((key) => <li key={key}>• {t(key)}</li>)}
               </ul>
             </div>
           </div>
@@ -499,13 +1669,9 @@ Calculate your pregnancy dates at: ${window.location.origin}
         {/* Important Disclaimer */}
         <section className="mt-12 bg-amber-50 border border-amber-200 rounded-2xl p-6">
           <h3 className="text-lg font-semibold text-amber-800 mb-3">
-            Important Medical Disclaimer
+            {t('disclaimer.home.title')}
           </h3>
-          <p className="text-amber-700 text-sm leading-relaxed">
-            This calculator provides estimates based on standard pregnancy calculations and should not replace professional medical advice. 
-            Due dates can vary, and only your healthcare provider can give you personalized medical guidance. 
-            Please consult with your doctor or midwife for accurate pregnancy dating and prenatal care.
-          </p>
+          <p className="text-amber-700 text-sm leading-relaxed">{t('disclaimer.home.body')}</p>
         </section>
       </main>
     </>
@@ -514,86 +1680,70 @@ Calculate your pregnancy dates at: ${window.location.origin}
   const renderAboutPage = () => (
     <main className="max-w-4xl mx-auto px-4 py-8">
       <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
-        <h1 className="text-3xl font-bold text-gray-800 mb-6">About Our Pregnancy Due Date Calculator</h1>
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">{t('about.title')}</h1>
         
         <div className="prose max-w-none">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">What is a Pregnancy Due Date Calculator?</h2>
-          <p className="text-gray-600 mb-6">
-            A pregnancy due date calculator is a medical tool that estimates when your baby is likely to be born based on 
-            the first day of your last menstrual period (LMP) or a known due date. Our calculator uses the standard 
-            Naegele's Rule, which is the same method used by healthcare providers worldwide to estimate due dates.
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('about.what.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('about.what.body')}</p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Why Use Our Pregnancy Calculator?</h2>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('about.why.title')}</h2>
           <div className="grid md:grid-cols-2 gap-6 mb-8">
             <div className="bg-pink-50 p-4 rounded-lg">
-              <h3 className="font-medium text-pink-800 mb-2">Accurate Calculations</h3>
-              <p className="text-sm text-pink-700">
-                Based on medical standards and Naegele's Rule used by healthcare professionals globally.
-              </p>
+              <h3 className="font-medium text-pink-800 mb-2">{t('about.why.accurate.title')}</h3>
+              <p className="text-sm text-pink-700">{t('about.why.accurate.body')}</p>
             </div>
             <div className="bg-blue-50 p-4 rounded-lg">
-              <h3 className="font-medium text-blue-800 mb-2">Instant Results</h3>
-              <p className="text-sm text-blue-700">
-                Get your due date, conception date, and current pregnancy week immediately.
-              </p>
+              <h3 className="font-medium text-blue-800 mb-2">{t('about.why.instant.title')}</h3>
+              <p className="text-sm text-blue-700">{t('about.why.instant.body')}</p>
             </div>
             <div className="bg-green-50 p-4 rounded-lg">
-              <h3 className="font-medium text-green-800 mb-2">Easy to Use</h3>
-              <p className="text-sm text-green-700">
-                Simple interface designed for expecting mothers with clear instructions.
-              </p>
+              <h3 className="font-medium text-green-800 mb-2">{t('about.why.easy.title')}</h3>
+              <p className="text-sm text-green-700">{t('about.why.easy.body')}</p>
             </div>
             <div className="bg-purple-50 p-4 rounded-lg">
-              <h3 className="font-medium text-purple-800 mb-2">Share Results</h3>
-              <p className="text-sm text-purple-700">
-                Easily share your pregnancy milestones with family and friends.
-              </p>
+              <h3 className="font-medium text-purple-800 mb-2">{t('about.why.share.title')}</h3>
+              <p className="text-sm text-purple-700">{t('about.why.share.body')}</p>
             </div>
           </div>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">How Accurate is the Calculator?</h2>
-          <p className="text-gray-600 mb-4">
-            Our pregnancy calculator is approximately 80% accurate within 5 days of the actual delivery date. 
-            However, it's important to understand that:
-          </p>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Only about 5% of babies are born on their exact due date</li>
-            <li>Most babies are born within 2 weeks before or after the due date</li>
-            <li>First-time mothers often deliver 1-2 days after their due date</li>
-            <li>Ultrasound dating in the first trimester is more accurate than LMP dating</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('about.accuracy.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('about.accuracy.intro')}</p>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'about.accuracy.exactDate',
+              'about.accuracy.twoWeeks',
+              'about.accuracy.firstTime',
+              'about.accuracy.ultrasound'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Understanding Your Results</h2>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('about.results.title')}</h2>
           <div className="bg-gray-50 p-6 rounded-lg mb-6">
-            <h3 className="font-medium text-gray-800 mb-3">What You'll Get:</h3>
+            <h3 className="font-medium text-gray-800 mb-3">{t('about.results.heading')}</h3>
             <ul className="space-y-2 text-sm text-gray-600">
-              <li><strong>Estimated Due Date:</strong> The most likely date your baby will be born</li>
-              <li><strong>Conception Date:</strong> Approximate date when conception occurred (LMP + 14 days)</li>
-              <li><strong>Current Pregnancy Week:</strong> How many weeks pregnant you are today</li>
-              <li><strong>Days Remaining:</strong> Countdown to your due date</li>
-              <li><strong>Trimester Information:</strong> Which stage of pregnancy you're currently in</li>
+              {(['dueDate', 'conception', 'gestationalAge', 'daysRemaining', 'trimester'] as const).map((item) => (
+                <li key={item}>
+                  <strong>{t(`about.results.${item}.term`)}</strong> {t(`about.results.${item}.text`)}
+                </li>
+              ))}
             </ul>
           </div>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">When to See Your Healthcare Provider</h2>
-          <p className="text-gray-600 mb-4">
-            While our calculator provides helpful estimates, you should always consult with your healthcare provider for:
-          </p>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Confirmation of pregnancy</li>
-            <li>Accurate dating through ultrasound</li>
-            <li>Prenatal care planning</li>
-            <li>Any concerns about your pregnancy</li>
-            <li>Irregular menstrual cycles that might affect calculations</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('about.provider.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('about.provider.intro')}</p>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'about.provider.confirmation',
+              'about.provider.ultrasound',
+              'about.provider.prenatal',
+              'about.provider.concerns',
+              'about.provider.irregular'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-            <h3 className="font-medium text-blue-800 mb-2">Remember</h3>
-            <p className="text-blue-700 text-sm">
-              This tool is for informational purposes only and should not replace professional medical advice. 
-              Always consult with your healthcare provider for personalized pregnancy care and accurate dating.
-            </p>
+            <h3 className="font-medium text-blue-800 mb-2">{t('about.remember.title')}</h3>
+            <p className="text-blue-700 text-sm">{t('about.remember.body')}</p>
           </div>
         </div>
       </div>
@@ -603,171 +1753,20 @@ Calculate your pregnancy dates at: ${window.location.origin}
   const renderFAQPage = () => (
     <main className="max-w-4xl mx-auto px-4 py-8">
       <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
-        <h1 className="text-3xl font-bold text-gray-800 mb-6">Frequently Asked Questions</h1>
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">{t('faqPage.title')}</h1>
         
         <div className="space-y-8">
-          <div>
-            <h2 className="text-xl font-semibold text-gray-800 mb-3">General Questions</h2>
-            
-            <div className="space-y-6">
-              <div className="border-l-4 border-pink-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  How accurate is this pregnancy calculator?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Our calculator uses the standard Naegele's rule and is about 80% accurate within 5 days. 
-                  However, only about 5% of babies are born on their exact due date. Most deliveries occur 
-                  within 2 weeks before or after the estimated due date.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-blue-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  What if I don't remember my last menstrual period?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  If you can't remember your LMP, your healthcare provider can determine your due date through 
-                  ultrasound measurements, which are most accurate in the first trimester. You can also use 
-                  our "Known Due Date" option if you have this information from a previous calculation.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-green-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  Can conception date calculations be wrong?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Yes, conception date is an estimate based on average ovulation timing (14 days after LMP). 
-                  Actual ovulation can vary significantly between individuals and cycles, ranging from day 10 to day 20 
-                  of the menstrual cycle.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-purple-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  Is this calculator suitable for IVF pregnancies?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  For IVF pregnancies, your fertility clinic will provide more accurate dating based on the 
-                  embryo transfer date. Our calculator is designed for natural conception and may not be 
-                  as accurate for assisted reproductive technology pregnancies.
-                </p>
-              </div>
-            </div>
-          </div>
-
-          <div>
-            <h2 className="text-xl font-semibold text-gray-800 mb-3">Using the Calculator</h2>
-            
-            <div className="space-y-6">
-              <div className="border-l-4 border-pink-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  Which method should I choose - LMP or Due Date?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Choose "Last Menstrual Period (LMP)" if you know the first day of your last period - this is 
-                  the most common and standard method. Choose "Known Due Date" if you already have a due date 
-                  from a previous ultrasound or calculation and want to find your conception date.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-blue-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  What if my cycles are irregular?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  If you have irregular menstrual cycles, the LMP method may be less accurate. In this case, 
-                  ultrasound dating by your healthcare provider will be more reliable. Our calculator assumes 
-                  a standard 28-day cycle with ovulation on day 14.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-green-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  Can I use this calculator multiple times during pregnancy?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Yes! You can use our calculator throughout your pregnancy to track your progress, see how many 
-                  weeks pregnant you are, and count down the days until your due date. The results will update 
-                  based on the current date.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-purple-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  How do I share my results?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  After calculating your results, you'll see a "Share Results" section. You can either use the 
-                  native share function (on mobile devices) or copy the formatted text to share on social media, 
-                  with family, or save for your records.
-                </p>
-              </div>
-            </div>
-          </div>
-
-          <div>
-            <h2 className="text-xl font-semibold text-gray-800 mb-3">Medical Information</h2>
-            
-            <div className="space-y-6">
-              <div className="border-l-4 border-pink-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  What are the three trimesters of pregnancy?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  Pregnancy is divided into three trimesters: First trimester (weeks 1-12), Second trimester 
-                  (weeks 13-27), and Third trimester (weeks 28-40). Each trimester has different developmental 
-                  milestones and common symptoms.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-blue-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  When should I start prenatal care?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  You should schedule your first prenatal appointment as soon as you know you're pregnant, 
-                  ideally by 8-10 weeks of pregnancy. Early prenatal care is important for monitoring your 
-                  health and your baby's development.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-green-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  What if my baby is born before or after the due date?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  This is completely normal! Babies born between 37-42 weeks are considered full-term. 
-                  About 90% of babies are born within 2 weeks of their due date. Your healthcare provider 
-                  will monitor you closely as you approach and pass your due date.
-                </p>
-              </div>
-
-              <div className="border-l-4 border-purple-400 pl-4">
-                <h3 className="font-medium text-gray-800 mb-2">
-                  Should I rely solely on this calculator for pregnancy planning?
-                </h3>
-                <p className="text-gray-600 text-sm">
-                  No, this calculator is a helpful tool for estimates, but you should always consult with 
-                  your healthcare provider for accurate pregnancy dating, prenatal care planning, and any 
-                  medical decisions. Professional medical advice is essential for a healthy pregnancy.
-                </p>
-              </div>
-            </div>
-          </div>
+          <FaqAccordion sections={getFaqSections(locale)} />
 
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
-            <h3 className="font-medium text-amber-800 mb-2">Still Have Questions?</h3>
-            <p className="text-amber-700 text-sm mb-3">
-              If you have additional questions about using our pregnancy calculator or need more information 
-              about pregnancy dating, please don't hesitate to contact us.
-            </p>
-            <button
-              onClick={() => setCurrentPage('contact')}
+            <h3 className="font-medium text-amber-800 mb-2">{t('faqPage.more.title')}</h3>
+            <p className="text-amber-700 text-sm mb-3">{t('faqPage.more.body')}</p>
+            <a
+              {...getLinkProps('contact')}
               className="text-amber-800 font-medium text-sm hover:text-amber-900 transition-colors"
             >
-              Contact Us →
-            </button>
+              {t('faqPage.more.link')}
+            </a>
           </div>
         </div>
       </div>
@@ -777,79 +1776,55 @@ Calculate your pregnancy dates at: ${window.location.origin}
   const renderDisclaimerPage = () => (
     <main className="max-w-4xl mx-auto px-4 py-8">
       <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
-        <h1 className="text-3xl font-bold text-gray-800 mb-6">Medical Disclaimer</h1>
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">{t('disclaimer.title')}</h1>
         
         <div className="prose max-w-none">
           <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-8">
-            <h2 className="text-xl font-semibold text-red-800 mb-3">Important Notice</h2>
-            <p className="text-red-700 text-sm">
-              This pregnancy due date calculator is provided for informational and educational purposes only. 
-              It is not intended to replace professional medical advice, diagnosis, or treatment.
-            </p>
+            <h2 className="text-xl font-semibold text-red-800 mb-3">{t('disclaimer.noticeTitle')}</h2>
+            <p className="text-red-700 text-sm">{t('disclaimer.notice')}</p>
           </div>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Medical Information Disclaimer</h2>
-          <p className="text-gray-600 mb-6">
-            The information provided by our Pregnancy Due Date Calculator is based on standard medical calculations 
-            and should not be considered as medical advice. The calculations are estimates based on Naegele's Rule 
-            and average pregnancy duration of 280 days from the last menstrual period.
-          </p>
-
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Accuracy and Limitations</h2>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-2">
-            <li>Due date calculations are estimates and may vary from actual delivery dates</li>
-            <li>Only approximately 5% of babies are born on their exact due date</li>
-            <li>Individual factors such as cycle length, ovulation timing, and medical conditions can affect accuracy</li>
-            <li>The calculator assumes a standard 28-day menstrual cycle with ovulation on day 14</li>
-            <li>Results may not be accurate for pregnancies conceived through assisted reproductive technology (ART)</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('disclaimer.information.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('disclaimer.information.body')}</p>
+
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('disclaimer.accuracy.title')}</h2>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-2">
+            {([
+              'disclaimer.accuracy.estimates',
+              'disclaimer.accuracy.exactDate',
+              'disclaimer.accuracy.factors',
+              'disclaimer.accuracy.cycle',
+              'disclaimer.accuracy.art'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Professional Medical Care</h2>
-          <p className="text-gray-600 mb-4">
-            You should always consult with qualified healthcare professionals for:
-          </p>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Confirmation of pregnancy</li>
-            <li>Accurate pregnancy dating through ultrasound</li>
-            <li>Prenatal care and monitoring</li>
-            <li>Any concerns about your pregnancy or health</li>
-            <li>Medical decisions related to your pregnancy</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('disclaimer.care.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('disclaimer.care.intro')}</p>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'disclaimer.care.confirmation',
+              'disclaimer.care.ultrasound',
+              'disclaimer.care.prenatal',
+              'disclaimer.care.concerns',
+              'disclaimer.care.decisions'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">No Medical Relationship</h2>
-          <p className="text-gray-600 mb-6">
-            Use of this calculator does not create a doctor-patient relationship between you and the website operators. 
-            We are not healthcare providers and cannot provide medical advice, diagnosis, or treatment recommendations.
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('disclaimer.relationship.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('disclaimer.relationship.body')}</p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Emergency Situations</h2>
-          <p className="text-gray-600 mb-6">
-            If you are experiencing a medical emergency or have urgent pregnancy-related concerns, 
-            contact your healthcare provider immediately or call emergency services. Do not rely on 
-            this calculator or any online tool for emergency medical situations.
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('disclaimer.emergencyTitle')}</h2>
+          <p className="text-gray-600 mb-6">{t('disclaimer.emergency')}</p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Liability Limitation</h2>
-          <p className="text-gray-600 mb-6">
-            We make no warranties or representations about the accuracy, reliability, completeness, or timeliness 
-            of the information provided. We shall not be liable for any direct, indirect, incidental, special, 
-            or consequential damages arising from the use of this calculator or reliance on its results.
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('disclaimer.liability.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('disclaimer.liability.body')}</p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Updates and Changes</h2>
-          <p className="text-gray-600 mb-6">
-            We reserve the right to update or modify this disclaimer at any time without prior notice. 
-            Your continued use of the calculator constitutes acceptance of any changes to this disclaimer.
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('disclaimer.updates.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('disclaimer.updates.body')}</p>
 
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-            <h3 className="font-medium text-blue-800 mb-2">Remember</h3>
-            <p className="text-blue-700 text-sm">
-              This tool is designed to provide helpful estimates for pregnancy planning and tracking. 
-              However, every pregnancy is unique, and professional medical care is essential for the 
-              health of both mother and baby. Always consult with your healthcare provider for 
-              personalized medical advice and care.
-            </p>
+            <h3 className="font-medium text-blue-800 mb-2">{t('disclaimer.remember.title')}</h3>
+            <p className="text-blue-700 text-sm">{t('disclaimer.remember.body')}</p>
           </div>
         </div>
       </div>
@@ -859,134 +1834,129 @@ Calculate your pregnancy dates at: ${window.location.origin}
   const renderPrivacyPage = () => (
     <main className="max-w-4xl mx-auto px-4 py-8">
       <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
-        <h1 className="text-3xl font-bold text-gray-800 mb-6">Privacy Policy</h1>
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">{t('privacy.title')}</h1>
         
         <div className="prose max-w-none">
           <p className="text-gray-600 mb-6">
-            <strong>Last Updated:</strong> January 2025
+            <strong>{t('privacy.lastUpdated')}</strong> {t('privacy.lastUpdatedDate')}
           </p>
 
-          <p className="text-gray-600 mb-6">
-            This Privacy Policy describes how we collect, use, and protect your information when you use our 
-            Pregnancy Due Date Calculator. We are committed to protecting your privacy and ensuring the security 
-            of your personal information.
-          </p>
+          <p className="text-gray-600 mb-6">{t('privacy.intro')}</p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Information We Collect</h2>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.collect.title')}</h2>
           
-          <h3 className="text-lg font-medium text-gray-800 mb-3">Information You Provide</h3>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Dates you enter into the calculator (last menstrual period or due date)</li>
-            <li>Any information you choose to share when using our sharing features</li>
-            <li>Contact information if you reach out to us through our contact form</li>
+          <h3 className="text-lg font-medium text-gray-800 mb-3">{t('privacy.collect.provided.title')}</h3>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'privacy.collect.provided.dates',
+              'privacy.collect.provided.sharing',
+              'privacy.collect.provided.contactForm'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h3 className="text-lg font-medium text-gray-800 mb-3">Automatically Collected Information</h3>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Browser type and version</li>
-            <li>Operating system</li>
-            <li>IP address (anonymized)</li>
-            <li>Pages visited and time spent on our site</li>
-            <li>Referring website information</li>
+          <h3 className="text-lg font-medium text-gray-800 mb-3">{t('privacy.collect.automatic.title')}</h3>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'privacy.collect.automatic.browser',
+              'privacy.collect.automatic.os',
+              'privacy.collect.automatic.ip',
+              'privacy.collect.automatic.pages',
+              'privacy.collect.automatic.referrer'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">How We Use Your Information</h2>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>To provide pregnancy due date calculations and related services</li>
-            <li>To improve our calculator's functionality and user experience</li>
-            <li>To analyze website usage and optimize performance</li>
-            <li>To respond to your inquiries and provide customer support</li>
-            <li>To comply with legal obligations</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.use.title')}</h2>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'privacy.use.calculations',
+              'privacy.use.improve',
+              'privacy.use.analyze',
+              'privacy.use.respond',
+              'privacy.use.legal'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Data Storage and Security</h2>
-          <p className="text-gray-600 mb-4">
-            We take the security of your information seriously:
-          </p>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Calculation data is processed locally in your browser and not stored on our servers</li>
-            <li>We use industry-standard security measures to protect any data we do collect</li>
-            <li>Our website uses HTTPS encryption to protect data transmission</li>
-            <li>We do not store sensitive health information on our servers</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.security.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('privacy.security.intro')}</p>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'privacy.security.local',
+              'privacy.security.shareLinks',
+              'privacy.security.measures',
+              'privacy.security.https',
+              'privacy.security.health'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Cookies and Tracking</h2>
-          <p className="text-gray-600 mb-4">
-            We may use cookies and similar technologies to:
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.saved.title')}</h2>
+          <p className="text-gray-600 mb-6">
+            {savedCalculations === null
+              ? t('privacy.saved.off')
+              : t('privacy.saved.on', { count: savedCalculations.length })}
           </p>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Remember your preferences and settings</li>
-            <li>Analyze website traffic and usage patterns</li>
-            <li>Provide personalized content and advertisements</li>
-            <li>Improve our services and user experience</li>
-          </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Third-Party Services</h2>
-          <p className="text-gray-600 mb-4">
-            We may use third-party services for:
-          </p>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Website analytics (such as Google Analytics)</li>
-            <li>Advertising services</li>
-            <li>Content delivery networks</li>
-            <li>Customer support tools</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.notifications.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('privacy.notifications.body')}</p>
+
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.cookies.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('privacy.cookies.intro')}</p>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'privacy.cookies.preferences',
+              'privacy.cookies.traffic',
+              'privacy.cookies.personalized',
+              'privacy.cookies.improve'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
-          <p className="text-gray-600 mb-6">
-            These third parties have their own privacy policies, and we encourage you to review them.
-          </p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Information Sharing</h2>
-          <p className="text-gray-600 mb-4">
-            We do not sell, trade, or rent your personal information to third parties. We may share information only in the following circumstances:
-          </p>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>With your explicit consent</li>
-            <li>To comply with legal requirements or court orders</li>
-            <li>To protect our rights, property, or safety, or that of our users</li>
-            <li>In connection with a business transfer or merger</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.thirdParty.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('privacy.thirdParty.intro')}</p>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'privacy.thirdParty.analytics',
+              'privacy.thirdParty.advertising',
+              'privacy.thirdParty.cdn',
+              'privacy.thirdParty.support'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
+          </ul>
+          <p className="text-gray-600 mb-6">{t('privacy.thirdParty.outro')}</p>
+
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.sharing.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('privacy.sharing.intro')}</p>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'privacy.sharing.consent',
+              'privacy.sharing.legal',
+              'privacy.sharing.protect',
+              'privacy.sharing.transfer'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Your Rights and Choices</h2>
-          <p className="text-gray-600 mb-4">
-            You have the right to:
-          </p>
-          <ul className="list-disc pl-6 text-gray-600 mb-6 space-y-1">
-            <li>Access the personal information we have about you</li>
-            <li>Request correction of inaccurate information</li>
-            <li>Request deletion of your personal information</li>
-            <li>Opt out of marketing communications</li>
-            <li>Disable cookies through your browser settings</li>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.rights.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('privacy.rights.intro')}</p>
+          <ul className="list-disc ps-6 text-gray-600 mb-6 space-y-1">
+            {([
+              'privacy.rights.access',
+              'privacy.rights.correct',
+              'privacy.rights.delete',
+              'privacy.rights.optOut',
+              'privacy.rights.cookies'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Children's Privacy</h2>
-          <p className="text-gray-600 mb-6">
-            Our service is not intended for children under 13 years of age. We do not knowingly collect 
-            personal information from children under 13. If we become aware that we have collected personal 
-            information from a child under 13, we will take steps to delete such information.
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.children.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('privacy.children.body')}</p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">International Users</h2>
-          <p className="text-gray-600 mb-6">
-            If you are accessing our service from outside the United States, please be aware that your 
-            information may be transferred to, stored, and processed in the United States where our servers 
-            are located and our central database is operated.
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.international.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('privacy.international.body')}</p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Changes to This Privacy Policy</h2>
-          <p className="text-gray-600 mb-6">
-            We may update this Privacy Policy from time to time. We will notify you of any changes by 
-            posting the new Privacy Policy on this page and updating the "Last Updated" date. We encourage 
-            you to review this Privacy Policy periodically for any changes.
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.changes.title')}</h2>
+          <p className="text-gray-600 mb-6">{t('privacy.changes.body')}</p>
 
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Contact Us</h2>
-          <p className="text-gray-600 mb-4">
-            If you have any questions about this Privacy Policy or our privacy practices, please contact us:
-          </p>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('privacy.contact.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('privacy.contact.intro')}</p>
           <div className="bg-gray-50 p-4 rounded-lg">
-            <p className="text-gray-600 text-sm">
-              You can reach us through our contact page or by using the contact information provided on our website.
-            </p>
+            <p className="text-gray-600 text-sm">{t('privacy.contact.body')}</p>
           </div>
         </div>
       </div>
@@ -996,135 +1966,139 @@ Calculate your pregnancy dates at: ${window.location.origin}
   const renderContactPage = () => (
     <main className="max-w-4xl mx-auto px-4 py-8">
       <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
-        <h1 className="text-3xl font-bold text-gray-800 mb-6">Contact Us</h1>
+        <h1 className="text-3xl font-bold text-gray-800 mb-6">{t('contact.title')}</h1>
+
+        <section className="mb-8 pb-8 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('contact.form.title')}</h2>
+          <ContactForm transport={contactTransport} />
+        </section>
         
         <div className="grid md:grid-cols-2 gap-8">
           <div>
-            <h2 className="text-xl font-semibold text-gray-800 mb-4">Get in Touch</h2>
-            <p className="text-gray-600 mb-6">
-              We're here to help! If you have questions about our pregnancy calculator, need technical support, 
-              or want to provide feedback, please don't hesitate to reach out to us.
-            </p>
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('contact.touch.title')}</h2>
+            <p className="text-gray-600 mb-6">{t('contact.touch.body')}</p>
 
             <div className="space-y-4">
               <div className="flex items-start gap-3">
                 <Mail className="w-5 h-5 text-pink-500 mt-1" />
                 <div>
-                  <h3 className="font-medium text-gray-800">Email Support</h3>
-                  <p className="text-gray-600 text-sm">
-                    For general inquiries and support questions
-                  </p>
-                  <p className="text-pink-600 font-medium">support@pregnancycalculator.com</p>
+                  <h3 className="font-medium text-gray-800">{t('contact.email.support.title')}</h3>
+                  <p className="text-gray-600 text-sm">{t('contact.email.support.body')}</p>
+                  <a href="mailto:support@pregnancycalculator.com" className="text-pink-600 font-medium hover:underline">
+                    support@pregnancycalculator.com
+                  </a>
                 </div>
               </div>
 
               <div className="flex items-start gap-3">
                 <HelpCircle className="w-5 h-5 text-blue-500 mt-1" />
                 <div>
-                  <h3 className="font-medium text-gray-800">Technical Issues</h3>
-                  <p className="text-gray-600 text-sm">
-                    Report bugs or technical problems with the calculator
-                  </p>
-                  <p className="text-blue-600 font-medium">tech@pregnancycalculator.com</p>
+                  <h3 className="font-medium text-gray-800">{t('contact.email.tech.title')}</h3>
+                  <p className="text-gray-600 text-sm">{t('contact.email.tech.body')}</p>
+                  <a href="mailto:tech@pregnancycalculator.com" className="text-blue-600 font-medium hover:underline">
+                    tech@pregnancycalculator.com
+                  </a>
                 </div>
               </div>
 
               <div className="flex items-start gap-3">
                 <Heart className="w-5 h-5 text-purple-500 mt-1" />
                 <div>
-                  <h3 className="font-medium text-gray-800">Feedback & Suggestions</h3>
-                  <p className="text-gray-600 text-sm">
-                    Share your ideas for improving our calculator
-                  </p>
-                  <p className="text-purple-600 font-medium">feedback@pregnancycalculator.com</p>
+                  <h3 className="font-medium text-gray-800">{t('contact.email.feedback.title')}</h3>
+                  <p className="text-gray-600 text-sm">{t('contact.email.feedback.body')}</p>
+                  <a href="mailto:feedback@pregnancycalculator.com" className="text-purple-600 font-medium hover:underline">
+                    feedback@pregnancycalculator.com
+                  </a>
                 </div>
               </div>
             </div>
 
             <div className="mt-8 p-4 bg-amber-50 border border-amber-200 rounded-lg">
-              <h3 className="font-medium text-amber-800 mb-2">Medical Questions</h3>
-              <p className="text-amber-700 text-sm">
-                Please note that we cannot provide medical advice or answer specific health questions. 
-                For medical concerns about your pregnancy, please consult with your healthcare provider.
-              </p>
+              <h3 className="font-medium text-amber-800 mb-2">{t('contact.medical.title')}</h3>
+              <p className="text-amber-700 text-sm">{t('contact.medical.body')}</p>
             </div>
           </div>
 
           <div>
-            <h2 className="text-xl font-semibold text-gray-800 mb-4">Frequently Asked Topics</h2>
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">{t('contact.topics.title')}</h2>
             
             <div className="space-y-4">
               <div className="p-4 bg-pink-50 rounded-lg">
-                <h3 className="font-medium text-pink-800 mb-2">Calculator Accuracy</h3>
-                <p className="text-pink-700 text-sm">
-                  Questions about how accurate our calculations are and what factors might affect results.
-                </p>
+                <h3 className="font-medium text-pink-800 mb-2">{t('contact.topics.accuracy.title')}</h3>
+                <p className="text-pink-700 text-sm">{t('contact.topics.accuracy.body')}</p>
               </div>
 
               <div className="p-4 bg-blue-50 rounded-lg">
-                <h3 className="font-medium text-blue-800 mb-2">How to Use</h3>
-                <p className="text-blue-700 text-sm">
-                  Help with using the calculator, choosing between LMP and due date methods, and understanding results.
-                </p>
+                <h3 className="font-medium text-blue-800 mb-2">{t('contact.topics.howTo.title')}</h3>
+                <p className="text-blue-700 text-sm">{t('contact.topics.howTo.body')}</p>
               </div>
 
               <div className="p-4 bg-green-50 rounded-lg">
-                <h3 className="font-medium text-green-800 mb-2">Technical Support</h3>
-                <p className="text-green-700 text-sm">
-                  Issues with the website not working properly, sharing features, or mobile compatibility.
-                </p>
+                <h3 className="font-medium text-green-800 mb-2">{t('contact.topics.technical.title')}</h3>
+                <p className="text-green-700 text-sm">{t('contact.topics.technical.body')}</p>
               </div>
 
               <div className="p-4 bg-purple-50 rounded-lg">
-                <h3 className="font-medium text-purple-800 mb-2">Privacy & Data</h3>
-                <p className="text-purple-700 text-sm">
-                  Questions about how we handle your data, privacy concerns, and information security.
-                </p>
+                <h3 className="font-medium text-purple-800 mb-2">{t('contact.topics.privacy.title')}</h3>
+                <p className="text-purple-700 text-sm">{t('contact.topics.privacy.body')}</p>
               </div>
             </div>
 
             <div className="mt-6">
-              <h3 className="font-medium text-gray-800 mb-3">Response Time</h3>
-              <p className="text-gray-600 text-sm mb-4">
-                We typically respond to inquiries within 24-48 hours during business days. 
-                For urgent technical issues, we aim to respond within 24 hours.
-              </p>
+              <h3 className="font-medium text-gray-800 mb-3">{t('contact.response.title')}</h3>
+              <p className="text-gray-600 text-sm mb-4">{t('contact.response.body')}</p>
 
               <div className="flex gap-2">
-                <button
-                  onClick={() => setCurrentPage('faq')}
+                <a
+                  {...getLinkProps('faq')}
                   className="px-4 py-2 bg-pink-100 text-pink-700 rounded-lg text-sm font-medium hover:bg-pink-200 transition-colors"
                 >
-                  Check FAQ First
-                </button>
-                <button
-                  onClick={() => setCurrentPage('disclaimer')}
+                  {t('contact.checkFaq')}
+                </a>
+                <a
+                  {...getLinkProps('disclaimer')}
                   className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors"
                 >
-                  Read Disclaimer
-                </button>
+                  {t('contact.readDisclaimer')}
+                </a>
               </div>
             </div>
           </div>
         </div>
 
         <div className="mt-8 pt-6 border-t border-gray-200">
-          <h2 className="text-lg font-semibold text-gray-800 mb-3">Before You Contact Us</h2>
-          <p className="text-gray-600 text-sm mb-4">
-            To help us assist you better, please check our FAQ section first, as it covers most common questions. 
-            When contacting us, please include:
-          </p>
-          <ul className="list-disc pl-6 text-gray-600 text-sm space-y-1">
-            <li>A clear description of your question or issue</li>
-            <li>Your browser type and version (for technical issues)</li>
-            <li>Steps you've already tried to resolve the problem</li>
-            <li>Screenshots if applicable (for technical issues)</li>
+          <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('contact.before.title')}</h2>
+          <p className="text-gray-600 text-sm mb-4">{t('contact.before.body')}</p>
+          <ul className="list-disc ps-6 text-gray-600 text-sm space-y-1">
+            {([
+              'contact.before.description',
+              'contact.before.browser',
+              'contact.before.tried',
+              'contact.before.screenshots'
+            ] as const).map((key) => <li key={key}>{t(key)}</li>)}
           </ul>
         </div>
       </div>
     </main>
   );
 
+  const renderNotFoundPage = () => (
+    <main className="max-w-4xl mx-auto px-4 py-16">
+      <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 text-center">
+        <p className="text-sm font-semibold text-pink-600 mb-2">404</p>
+        <h1 className="text-3xl font-bold text-gray-800 mb-4">{t('notFound.title')}</h1>
+        <p className="text-gray-600 mb-6">{t('notFound.body')}</p>
+        <a
+          {...getLinkProps('home')}
+          className="inline-flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-pink-500 to-blue-500 text-white rounded-xl font-medium hover:from-pink-600 hover:to-blue-600 transition-all duration-200"
+        >
+          <Home className="w-4 h-4" />
+          {t('notFound.home')}
+        </a>
+      </div>
+    </main>
+  );
+
   const renderCurrentPage = () => {
     switch (currentPage) {
       case 'home':
@@ -1139,19 +2113,19 @@ Calculate your pregnancy dates at: ${window.location.origin}
         return renderPrivacyPage();
       case 'contact':
         return renderContactPage();
-      default:
-        return renderHomePage();
+      case null:
+        return renderNotFoundPage();
     }
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-blue-50 to-purple-50">
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-blue-50 to-purple-50 print:min-h-0 print:bg-none">
       {/* Header */}
-      <header className="bg-white/80 backdrop-blur-sm shadow-sm sticky top-0 z-10">
+      <header className="bg-white/80 backdrop-blur-sm shadow-sm sticky top-0 z-10 print:hidden">
         <div className="max-w-6xl mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
-            <button
-              onClick={() => setCurrentPage('home')}
+            <a
+              {...getLinkProps('home')}
               className="flex items-center gap-3 hover:opacity-80 transition-opacity"
             >
               <div className="p-3 bg-gradient-to-r from-pink-500 to-blue-500 rounded-full">
@@ -1159,13 +2133,13 @@ Calculate your pregnancy dates at: ${window.location.origin}
               </div>
               <div>
                 <h1 className="text-xl md:text-2xl font-bold text-gray-800">
-                  Pregnancy Calculator
+                  {t('app.name')}
                 </h1>
                 <p className="text-gray-600 text-xs md:text-sm">
-                  Due Date & Conception Calculator
+                  {t('app.tagline')}
                 </p>
               </div>
-            </button>
+            </a>
             
             <div className="relative">
               {renderNavigation()}
@@ -1174,10 +2148,22 @@ Calculate your pregnancy dates at: ${window.location.origin}
         </div>
       </header>
 
-      {renderCurrentPage()}
+      <div className="print:hidden">{renderCurrentPage()}</div>
+
+      {/* The interactive page is hidden when printing; this one-page summary is printed instead */}
+      {currentPage === 'home' && results && (
+        <PrintSummary
+          results={results}
+          methodLabel={t(`method.${calculationMethod}.label`)}
+          inputs={getPrintInputs()}
+          stageName={getStageInfo().name}
+          asOf={referenceDate ?? today()}
+          milestones={milestones}
+        />
+      )}
 
       {/* Footer */}
-      <footer className="bg-white border-t border-gray-200 mt-16">
+      <footer className="bg-white border-t border-gray-200 mt-16 print:hidden">
         <div className="max-w-6xl mx-auto px-4 py-8">
           <div className="grid md:grid-cols-4 gap-8">
             <div className="md:col-span-2">
@@ -1185,45 +2171,41 @@ Calculate your pregnancy dates at: ${window.location.origin}
                 <div className="p-2 bg-gradient-to-r from-pink-500 to-blue-500 rounded-full">
                   <Baby className="w-5 h-5 text-white" />
                 </div>
-                <h3 className="text-lg font-bold text-gray-800">Pregnancy Calculator</h3>
+                <h3 className="text-lg font-bold text-gray-800">{t('app.name')}</h3>
               </div>
-              <p className="text-gray-600 text-sm mb-4">
-                Free, accurate pregnancy due date and conception date calculator. 
-                Calculate your estimated due date based on your last menstrual period or known due date.
-              </p>
-              <p className="text-gray-500 text-xs">
-                © 2025 Pregnancy Calculator. For informational purposes only. 
-                Always consult with your healthcare provider for medical advice.
-              </p>
+              <p className="text-gray-600 text-sm mb-4">{t('footer.description')}</p>
+              <p className="text-gray-500 text-xs">{t('footer.copyright')}</p>
             </div>
             
             <div>
-              <h4 className="font-semibold text-gray-800 mb-3">Quick Links</h4>
+              <h4 className="font-semibold text-gray-800 mb-3">{t('footer.quickLinks')}</h4>
               <ul className="space-y-2 text-sm">
                 {navigationItems.slice(0, 3).map((item) => (
                   <li key={item.id}>
-                    <button
-                      onClick={() => setCurrentPage(item.id)}
+                    <a
+                      {...getLinkProps(item.id)}
+                      aria-current={currentPage === item.id ? 'page' : undefined}
                       className="text-gray-600 hover:text-pink-600 transition-colors"
                     >
                       {item.label}
-                    </button>
+                    </a>
                   </li>
                 ))}
               </ul>
             </div>
             
             <div>
-              <h4 className="font-semibold text-gray-800 mb-3">Legal</h4>
+              <h4 className="font-semibold text-gray-800 mb-3">{t('footer.legal')}</h4>
               <ul className="space-y-2 text-sm">
                 {navigationItems.slice(3).map((item) => (
                   <li key={item.id}>
-                    <button
-                      onClick={() => setCurrentPage(item.id)}
+                    <a
+                      {...getLinkProps(item.id)}
+                      aria-current={currentPage === item.id ? 'page' : undefined}
                       className="text-gray-600 hover:text-pink-600 transition-colors"
                     >
                       {item.label}
-                    </button>
+                    </a>
                   </li>
                 ))}
               </ul>
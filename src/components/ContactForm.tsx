@@ -0,0 +1,227 @@
+import { FormEvent, useState } from 'react';
+import { AlertCircle, CheckCircle2, Mail, Send } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import {
+  CONTACT_CATEGORIES,
+  ContactFieldErrors,
+  ContactForm as ContactFormValues,
+  ContactMessage,
+  ContactTransport,
+  MESSAGE_LENGTH,
+  buildMailtoUrl,
+  collectDiagnostics,
+  formatDiagnostics,
+  validateContactForm
+} from '../lib/contact';
+
+interface ContactFormProps {
+  transport: ContactTransport;
+}
+
+type SubmitState = 'idle' | 'sending' | 'sent' | 'handedOff' | 'failed';
+
+const emptyForm: ContactFormValues = { category: '', message: '', email: '' };
+
+function ContactForm({ transport }: ContactFormProps) {
+  const { t } = useI18n();
+  const [form, setForm] = useState(emptyForm);
+  const [includeDiagnostics, setIncludeDiagnostics] = useState(true);
+  // Hidden from people; bots that fill in every field get a fake success and nothing is sent
+  const [website, setWebsite] = useState('');
+  const [errors, setErrors] = useState<ContactFieldErrors>({});
+  const [submitted, setSubmitted] = useState(false);
+  const [state, setState] = useState<SubmitState>('idle');
+  // Kept after a failed send so the same message can go by email instead
+  const [unsent, setUnsent] = useState<ContactMessage | null>(null);
+
+  const updateField = (field: keyof ContactFormValues, value: string) => {
+    const next = { ...form, [field]: value };
+    setForm(next);
+    // Errors appear after the first submit attempt, then follow the user's edits
+    if (submitted) setErrors(validateContactForm(next));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const issues = validateContactForm(form);
+    setSubmitted(true);
+    setErrors(issues);
+    if (Object.keys(issues).length > 0 || !form.category) return;
+
+    if (website) {
+      setState('sent');
+      return;
+    }
+
+    const message: ContactMessage = {
+      category: form.category,
+      message: form.message.trim(),
+      email: form.email.trim() || undefined,
+      diagnostics: includeDiagnostics ? collectDiagnostics() : undefined
+    };
+    setState('sending');
+    try {
+      setState(await transport.send(message));
+    } catch {
+      setUnsent(message);
+      setState('failed');
+    }
+  };
+
+  const getFieldProps = (field: keyof ContactFormValues) => ({
+    id: `contact-${field}`,
+    'aria-invalid': Boolean(errors[field]),
+    'aria-describedby': errors[field] ? `contact-${field}-error` : undefined,
+    className: `w-full px-4 py-3 border-2 rounded-xl focus:outline-none transition-colors ${
+      errors[field] ? 'border-red-300 focus:border-red-400' : 'border-gray-200 focus:border-pink-400'
+    }`
+  });
+
+  const renderError = (field: keyof ContactFormValues) =>
+    errors[field] && (
+      <p id={`contact-${field}-error`} className="text-sm text-red-600 mt-1">
+        {t(errors[field].message, errors[field].params)}
+      </p>
+    );
+
+  if (state === 'sent' || state === 'handedOff') {
+    return (
+      <div className="p-6 bg-green-50 border border-green-200 rounded-xl" role="status">
+        <h3 className="font-semibold text-green-800 flex items-center gap-2 mb-2">
+          <CheckCircle2 className="w-5 h-5" />
+          {t(state === 'sent' ? 'contactForm.sent.title' : 'contactForm.handedOff.title')}
+        </h3>
+        <p className="text-green-700 text-sm mb-4">
+          {t(
+            state === 'sent'
+              ? form.email.trim() ? 'contactForm.sent.reply' : 'contactForm.sent.noReply'
+              : 'contactForm.handedOff.body'
+          )}
+        </p>
+        <button
+          onClick={() => {
+            setForm(emptyForm);
+            setSubmitted(false);
+            setErrors({});
+            setState('idle');
+          }}
+          className="text-sm text-green-800 underline hover:text-green-900"
+        >
+          {t('contactForm.another')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div>
+        <label htmlFor="contact-category" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('contactForm.category')}
+        </label>
+        <select
+          {...getFieldProps('category')}
+          value={form.category}
+          onChange={(e) => updateField('category', e.target.value)}
+        >
+          <option value="">{t('contactForm.category.choose')}</option>
+          {CONTACT_CATEGORIES.map((category) => (
+            <option key={category.id} value={category.id}>{t(category.label)}</option>
+          ))}
+        </select>
+        {renderError('category')}
+        {form.category === 'medical' && (
+          <p className="text-sm text-amber-700 mt-1">{t('contactForm.medicalNotice')}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="contact-message" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('contactForm.message')}
+        </label>
+        <textarea
+          {...getFieldProps('message')}
+          value={form.message}
+          onChange={(e) => updateField('message', e.target.value)}
+          rows={6}
+          maxLength={MESSAGE_LENGTH.max}
+        />
+        {renderError('message')}
+      </div>
+
+      <div>
+        <label htmlFor="contact-email" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('contactForm.email')} <span className="font-normal text-gray-500">{t('contactForm.email.hint')}</span>
+        </label>
+        <input
+          {...getFieldProps('email')}
+          type="email"
+          autoComplete="email"
+          value={form.email}
+          onChange={(e) => updateField('email', e.target.value)}
+        />
+        {renderError('email')}
+      </div>
+
+      <div className="sr-only" aria-hidden="true">
+        <label htmlFor="contact-website">Website</label>
+        <input
+          id="contact-website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label className="flex items-start gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={includeDiagnostics}
+            onChange={(e) => setIncludeDiagnostics(e.target.checked)}
+            className="mt-0.5 rounded border-gray-300 text-pink-500 focus:ring-pink-400"
+          />
+          <span>{t('contactForm.diagnostics')}</span>
+        </label>
+        {includeDiagnostics && (
+          <details className="mt-2 ms-6 text-xs text-gray-500">
+            <summary className="cursor-pointer">{t('contactForm.diagnostics.preview')}</summary>
+            <pre className="mt-2 p-3 bg-gray-50 rounded-lg whitespace-pre-wrap break-all">
+              {formatDiagnostics(collectDiagnostics())}
+            </pre>
+            <p className="mt-1">{t('contactForm.diagnostics.noDates')}</p>
+          </details>
+        )}
+      </div>
+
+      {state === 'failed' && unsent && (
+        <div className="text-sm" role="alert">
+          <p className="flex items-start gap-2 text-red-600">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            {t('contactForm.failed')}
+          </p>
+          <a
+            href={buildMailtoUrl(unsent)}
+            className="inline-flex items-center gap-1 mt-2 ms-6 font-medium text-pink-600 hover:underline"
+          >
+            <Mail className="w-4 h-4" />
+            {t('contactForm.failed.mailto')}
+          </a>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={state === 'sending'}
+        className="flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-pink-500 to-blue-500 text-white rounded-xl font-medium hover:from-pink-600 hover:to-blue-600 transition-all duration-200 disabled:opacity-60 disabled:cursor-wait"
+      >
+        <Send className="w-4 h-4" />
+        {t(state === 'sending' ? 'contactForm.sending' : 'contactForm.send')}
+      </button>
+    </form>
+  );
+}
+
+export default ContactForm;
@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import {
+  DISTRIBUTION_SOURCE,
+  PARITY_OPTIONS,
+  Parity,
+  getChanceDeliveredBy,
+  getDeliveryDistribution,
+  getLikelyDeliveryRange
+} from '../lib/deliveryDistribution';
+import { PlainDate, parsePlainDate, toIsoDateString } from '../lib/plainDate';
+import { PREGNANCY_LENGTH_DAYS, formatGestationalAge } from '../lib/pregnancy';
+
+interface DeliveryDistributionChartProps {
+  dueDate: PlainDate;
+}
+
+function DeliveryDistributionChart({ dueDate }: DeliveryDistributionChartProps) {
+  const { t, localeInfo, formatDate } = useI18n();
+  const [parity, setParity] = useState<Parity>('unknown');
+  const [lookupInput, setLookupInput] = useState('');
+
+  const distribution = useMemo(() => getDeliveryDistribution(dueDate, parity), [dueDate, parity]);
+  const likely = getLikelyDeliveryRange(distribution, 0.8);
+  const veryLikely = getLikelyDeliveryRange(distribution, 0.9);
+  const highest = Math.max(...distribution.map((day) => day.probability));
+  const onDueDate = distribution.find((day) => day.gestationalAgeDays === PREGNANCY_LENGTH_DAYS);
+
+  const percent = new Intl.NumberFormat(localeInfo.intlLocale, { style: 'percent' });
+  const formatChance = (probability: number): string => {
+    if (probability < 0.01) return t('distribution.chance.below', { percent: percent.format(0.01) });
+    if (probability > 0.99) return t('distribution.chance.above', { percent: percent.format(0.99) });
+    return percent.format(probability);
+  };
+
+  const lookupDate = parsePlainDate(lookupInput) ?? dueDate;
+  const lookupChance = getChanceDeliveredBy(distribution, lookupDate);
+
+  const getBarColor = (gestationalAgeDays: number) => {
+    if (gestationalAgeDays === PREGNANCY_LENGTH_DAYS) return 'bg-pink-500';
+    if (gestationalAgeDays >= likely.start.gestationalAgeDays && gestationalAgeDays <= likely.end.gestationalAgeDays) {
+      return 'bg-purple-400';
+    }
+    if (gestationalAgeDays >= veryLikely.start.gestationalAgeDays && gestationalAgeDays <= veryLikely.end.gestationalAgeDays) {
+      return 'bg-purple-200';
+    }
+    return 'bg-gray-200';
+  };
+
+  const weeks = distribution.filter((day) => day.gestationalAgeDays % 7 === 0);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
+      <h3 className="text-xl font-semibold text-gray-800 mb-2 flex items-center gap-2">
+        <BarChart3 className="w-5 h-5 text-purple-500" />
+        {t('distribution.title')}
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        {t('distribution.intro', { chance: formatChance(onDueDate?.probability ?? 0) })}
+      </p>
+
+      <fieldset className="mb-6">
+        <legend className="block text-sm font-medium text-gray-700 mb-2">{t('distribution.parity')}</legend>
+        <div className="flex flex-wrap gap-2" role="radiogroup">
+          {PARITY_OPTIONS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setParity(option)}
+              className={`px-4 py-2 rounded-xl border-2 text-sm font-medium transition-all duration-200 ${
+                parity === option
+                  ? 'border-purple-300 bg-purple-50 text-purple-800 shadow-md'
+                  : 'border-gray-200 bg-gray-50 text-gray-700 hover:border-purple-200'
+              }`}
+              aria-checked={parity === option}
+              role="radio"
+            >
+              {t(`distribution.parity.${option}`)}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      {/* Histogram: one bar per day from 34w0d to 42w6d */}
+      <div
+        role="img"
+        aria-label={t('distribution.chart', { start: formatDate(likely.start.date), end: formatDate(likely.end.date) })}
+      >
+        <div className="flex items-end gap-px h-40 border-b border-gray-300">
+          {distribution.map((day) => (
+            <div
+              key={day.gestationalAgeDays}
+              className={`flex-1 rounded-t-sm ${getBarColor(day.gestationalAgeDays)}`}
+              style={{ height: `${(day.probability / highest) * 100}%` }}
+              title={`${formatDate(day.date, 'short')} (${formatGestationalAge(day.gestationalAgeDays)}): ${formatChance(day.probability)}`}
+            />
+          ))}
+        </div>
+        <div className="flex text-xs text-gray-500 mt-1" aria-hidden="true">
+          {weeks.map((day) => (
+            <span key={day.gestationalAgeDays} className="flex-1">
+              {day.gestationalAgeDays / 7}w
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-pink-500" />{t('distribution.legend.dueDate')}</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-purple-400" />{t('distribution.legend.likely')}</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-purple-200" />{t('distribution.legend.veryLikely')}</span>
+      </div>
+
+      <dl className="grid sm:grid-cols-2 gap-4 mt-6">
+        {([
+          { label: 'distribution.range.likely', range: likely },
+          { label: 'distribution.range.veryLikely', range: veryLikely }
+        ] as const).map(({ label, range }) => (
+          <div key={label} className="p-4 bg-purple-50 rounded-xl">
+            <dt className="text-sm text-gray-600">{t(label)}</dt>
+            <dd className="font-semibold text-purple-800">
+              {formatDate(range.start.date, 'short')} – {formatDate(range.end.date, 'short')}
+            </dd>
+            <dd className="text-xs text-gray-500">
+              {formatGestationalAge(range.start.gestationalAgeDays)}–{formatGestationalAge(range.end.gestationalAgeDays)}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="mt-6">
+        <label htmlFor="delivery-lookup-date" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('distribution.lookup')}
+        </label>
+        <input
+          type="date"
+          id="delivery-lookup-date"
+          value={lookupInput || toIsoDateString(dueDate)}
+          onChange={(e) => setLookupInput(e.target.value)}
+          className="w-full sm:w-auto px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-purple-400 focus:outline-none transition-colors"
+        />
+        <p className="text-sm text-gray-700 mt-2" aria-live="polite">
+          {t('distribution.lookup.result', { chance: formatChance(lookupChance), date: formatDate(lookupDate) })}
+        </p>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-6">{t('distribution.approximation', { source: DISTRIBUTION_SOURCE })}</p>
+    </div>
+  );
+}
+
+export default DeliveryDistributionChart;
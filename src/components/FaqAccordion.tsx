@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, Link, Search, X } from 'lucide-react';
+import { FaqSection } from '../content/faq';
+import { useI18n } from '../i18n/context';
+import { buildFaqJsonLd, findFaqEntry, getLinkedFaqId, searchFaq } from '../lib/faq';
+
+interface FaqAccordionProps {
+  sections: FaqSection[];
+}
+
+const STRUCTURED_DATA_ID = 'faq-structured-data';
+
+const entryBorders = ['border-pink-400', 'border-blue-400', 'border-green-400', 'border-purple-400'];
+
+function FaqAccordion({ sections }: FaqAccordionProps) {
+  const { locale, t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [openIds, setOpenIds] = useState<Set<string>>(() => new Set());
+  const [linkedId, setLinkedId] = useState<string | null>(null);
+  const results = useMemo(() => searchFaq(sections, query), [sections, query]);
+  const matchCount = results.reduce((count, section) => count + section.entries.length, 0);
+
+  // Only present while the page is shown, as the same index.html serves every route
+  useEffect(() => {
+    const script = document.createElement('script');
+    script.type = 'application/ld+json';
+    script.id = STRUCTURED_DATA_ID;
+    script.textContent = JSON.stringify(buildFaqJsonLd(sections, locale));
+    document.head.appendChild(script);
+    return () => script.remove();
+  }, [sections, locale]);
+
+  // Deep links such as /faq#offline open their question, on arrival and when a question link is followed
+  useEffect(() => {
+    const openLinkedEntry = () => {
+      const entry = findFaqEntry(sections, getLinkedFaqId(window.location.hash));
+      if (!entry) return;
+      setQuery('');
+      setOpenIds((ids) => new Set(ids).add(entry.id));
+      setLinkedId(entry.id);
+    };
+    openLinkedEntry();
+    window.addEventListener('hashchange', openLinkedEntry);
+    return () => window.removeEventListener('hashchange', openLinkedEntry);
+  }, [sections]);
+
+  // Scrolled after rendering, as the question may have been hidden by a search
+  useEffect(() => {
+    if (linkedId) document.getElementById(linkedId)?.scrollIntoView({ block: 'start' });
+  }, [linkedId]);
+
+  // Matching answers are opened so the reader can see why they matched
+  const handleSearch = (value: string) => {
+    setQuery(value);
+    setLinkedId(null);
+    const matches = searchFaq(sections, value);
+    setOpenIds(
+      new Set(value.trim() ? matches.flatMap((section) => section.entries.map((entry) => entry.id)) : [])
+    );
+  };
+
+  const toggle = (id: string) =>
+    setOpenIds((ids) => {
+      const next = new Set(ids);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  return (
+    <div>
+      <div className="mb-8">
+        <label htmlFor="faq-search" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('faq.search.label')}
+        </label>
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute start-3 top-1/2 -translate-y-1/2" aria-hidden="true" />
+          <input
+            id="faq-search"
+            type="search"
+            value={query}
+            onChange={(e) => handleSearch(e.target.value)}
+            placeholder={t('faq.search.placeholder')}
+            className="w-full ps-9 pe-10 py-3 border-2 border-gray-200 rounded-lg focus:border-purple-400 focus:outline-none"
+            aria-describedby="faq-search-status"
+          />
+          {query && (
+            <button
+              onClick={() => handleSearch('')}
+              className="absolute end-2 top-1/2 -translate-y-1/2 p-1 rounded text-gray-500 hover:text-gray-700"
+              aria-label={t('faq.search.clear')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <p id="faq-search-status" className="text-sm text-gray-600 mt-2" aria-live="polite">
+          {query.trim() && t('faq.search.matches', { count: matchCount })}
+        </p>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-gray-600">
+          {t('faq.search.none', { query: query.trim() })}
+        </p>
+      ) : (
+        <div className="space-y-8">
+          {results.map((section) => (
+            <section key={section.id} aria-labelledby={`faq-${section.id}`}>
+              <h2 id={`faq-${section.id}`} className="text-xl font-semibold text-gray-800 mb-3">
+                {section.title}
+              </h2>
+
+              <div className="space-y-4">
+                {section.entries.map((entry, index) => {
+                  const isOpen = openIds.has(entry.id);
+                  return (
+                    <div
+                      key={entry.id}
+                      id={entry.id}
+                      className={`border-s-4 ${entryBorders[index % entryBorders.length]} ps-4 scroll-mt-24`}
+                    >
+                      <h3 className="font-medium text-gray-800">
+                        <button
+                          id={`${entry.id}-question`}
+                          onClick={() => toggle(entry.id)}
+                          aria-expanded={isOpen}
+                          aria-controls={`${entry.id}-answer`}
+                          className="w-full flex items-center justify-between gap-3 py-1 text-start hover:text-purple-700"
+                        >
+                          {entry.question}
+                          <ChevronDown
+                            className={`w-4 h-4 shrink-0 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+                            aria-hidden="true"
+                          />
+                        </button>
+                      </h3>
+                      <div
+                        id={`${entry.id}-answer`}
+                        role="region"
+                        aria-labelledby={`${entry.id}-question`}
+                        hidden={!isOpen}
+                        className="mt-2"
+                      >
+                        <p className="text-gray-600 text-sm">{entry.answer}</p>
+                        <a
+                          href={`#${entry.id}`}
+                          aria-label={t('faq.link.label', { question: entry.question })}
+                          className="inline-flex items-center gap-1 mt-2 text-xs text-purple-600 hover:text-purple-800"
+                        >
+                          <Link className="w-3 h-3" aria-hidden="true" />
+                          {t('faq.link')}
+                        </a>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FaqAccordion;
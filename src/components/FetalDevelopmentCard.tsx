@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Sprout } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import {
+  FIRST_DEVELOPMENT_WEEK,
+  LAST_DEVELOPMENT_WEEK,
+  MeasurementRange,
+  getFetalDevelopment
+} from '../content/fetalDevelopment';
+
+interface FetalDevelopmentCardProps {
+  currentWeek: number;
+}
+
+const CM_PER_INCH = 2.54;
+const GRAMS_PER_OUNCE = 28.3495;
+const GRAMS_PER_POUND = 453.592;
+
+// Remount with a new key when the current week changes so browsing starts from it again
+function FetalDevelopmentCard({ currentWeek }: FetalDevelopmentCardProps) {
+  const { locale, localeInfo, t } = useI18n();
+  const [week, setWeek] = useState(() => getFetalDevelopment(currentWeek).week);
+  const entry = getFetalDevelopment(week, locale);
+  const isCurrent = entry.week === getFetalDevelopment(currentWeek).week;
+
+  const number = new Intl.NumberFormat(localeInfo.intlLocale, { maximumFractionDigits: 1 });
+  const formatRange = ({ min, max }: MeasurementRange, scale: number, unit: string) =>
+    min === max ? `${number.format(min / scale)} ${unit}` : `${number.format(min / scale)}–${number.format(max / scale)} ${unit}`;
+
+  const formatWeight = (grams: MeasurementRange) =>
+    grams.max >= 1000
+      ? `${formatRange(grams, 1000, 'kg')} (${formatRange(grams, GRAMS_PER_POUND, 'lb')})`
+      : `${formatRange(grams, 1, 'g')} (${formatRange(grams, GRAMS_PER_OUNCE, 'oz')})`;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h3 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+          <Sprout className="w-5 h-5 text-green-500" />
+          {t('development.title', { week: entry.week })}
+          {isCurrent && (
+            <span className="px-2 py-0.5 rounded-full bg-purple-600 text-white text-xs font-semibold">
+              {t('development.thisWeek')}
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWeek(entry.week - 1)}
+            disabled={entry.week <= FIRST_DEVELOPMENT_WEEK}
+            className="p-2 rounded-lg border-2 border-gray-200 text-gray-700 hover:border-gray-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label={t('development.previous')}
+          >
+            <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+          </button>
+          {!isCurrent && (
+            <button
+              onClick={() => setWeek(getFetalDevelopment(currentWeek).week)}
+              className="px-3 py-2 rounded-lg text-sm font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 transition-colors"
+            >
+              {t('development.backToCurrent')}
+            </button>
+          )}
+          <button
+            onClick={() => setWeek(entry.week + 1)}
+            disabled={entry.week >= LAST_DEVELOPMENT_WEEK}
+            className="p-2 rounded-lg border-2 border-gray-200 text-gray-700 hover:border-gray-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label={t('development.next')}
+          >
+            <ChevronRight className="w-4 h-4 rtl:rotate-180" />
+          </button>
+        </div>
+      </div>
+
+      <div aria-live="polite">
+        <dl className="grid sm:grid-cols-3 gap-4 mb-6">
+          <div className="p-4 bg-green-50 rounded-xl">
+            <dt className="text-sm text-gray-600">{t('development.size')}</dt>
+            <dd className="font-semibold text-green-800">{entry.sizeComparison}</dd>
+          </div>
+          <div className="p-4 bg-green-50 rounded-xl">
+            <dt className="text-sm text-gray-600">{t(`development.length.${entry.lengthMeasure}`)}</dt>
+            <dd className="font-semibold text-green-800">
+              {formatRange(entry.lengthCm, 1, 'cm')}{' '}
+              <span className="font-normal text-gray-600">({formatRange(entry.lengthCm, CM_PER_INCH, 'in')})</span>
+            </dd>
+          </div>
+          <div className="p-4 bg-green-50 rounded-xl">
+            <dt className="text-sm text-gray-600">{t('development.weight')}</dt>
+            <dd className="font-semibold text-green-800">
+              {entry.weightGrams ? formatWeight(entry.weightGrams) : t('development.weight.underGram')}
+            </dd>
+          </div>
+        </dl>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="font-medium text-gray-800 mb-2">{t('development.baby')}</h4>
+            <ul className="text-sm text-gray-600 space-y-1">
+              {entry.developments.map((item) => <li key={item}>• {item}</li>)}
+            </ul>
+          </div>
+          <div>
+            <h4 className="font-medium text-gray-800 mb-2">{t('development.body')}</h4>
+            <ul className="text-sm text-gray-600 space-y-1">
+              {entry.maternalChanges.map((item) => <li key={item}>• {item}</li>)}
+            </ul>
+          </div>
+        </div>
+      </div>
+
+      {currentWeek < FIRST_DEVELOPMENT_WEEK && (
+        <p className="text-xs text-gray-500 mt-4">{t('development.startsAt', { week: FIRST_DEVELOPMENT_WEEK })}</p>
+      )}
+      <p className="text-xs text-gray-500 mt-4">{t('development.note')}</p>
+    </div>
+  );
+}
+
+export default FetalDevelopmentCard;
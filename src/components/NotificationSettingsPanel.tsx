@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { NOTIFICATION_FREQUENCIES, NotificationFrequency, NotificationSettings } from '../lib/notifications';
+import { NotificationAccess } from '../pwa/progressNotifications';
+
+interface NotificationSettingsPanelProps {
+  // null while notifications are off
+  settings: NotificationSettings | null;
+  access: NotificationAccess;
+  // Describes the pregnancy being followed, e.g. "due Monday, October 7, 2024"
+  trackedDetails: string | null;
+  canEnable: boolean;
+  isTrackingCurrent: boolean;
+  failed: boolean;
+  onEnable: (frequency: NotificationFrequency) => void;
+  onChangeFrequency: (frequency: NotificationFrequency) => void;
+  onTrackCurrent: () => void;
+  onDisable: () => void;
+}
+
+function NotificationSettingsPanel({
+  settings,
+  access,
+  trackedDetails,
+  canEnable,
+  isTrackingCurrent,
+  failed,
+  onEnable,
+  onChangeFrequency,
+  onTrackCurrent,
+  onDisable
+}: NotificationSettingsPanelProps) {
+  const { t } = useI18n();
+  const [frequency, setFrequency] = useState<NotificationFrequency>(settings?.frequency ?? 'weekly');
+  const selected = settings?.frequency ?? frequency;
+
+  const renderFrequencyOptions = () => (
+    <fieldset>
+      <legend className="block text-sm font-medium text-gray-700 mb-2">{t('notifications.frequency')}</legend>
+      <div className="grid sm:grid-cols-2 gap-3" role="radiogroup">
+        {NOTIFICATION_FREQUENCIES.map((option) => (
+          <button
+            key={option}
+            onClick={() => (settings ? onChangeFrequency(option) : setFrequency(option))}
+            className={`p-3 rounded-xl border-2 text-start transition-all duration-200 ${
+              selected === option
+                ? 'border-purple-300 bg-purple-50 shadow-md'
+                : 'border-gray-200 bg-gray-50 hover:border-purple-200'
+            }`}
+            aria-checked={selected === option}
+            role="radio"
+          >
+            <span className="block text-sm font-medium text-gray-800">{t(`notifications.frequency.${option}`)}</span>
+            <span className="block text-xs text-gray-500">{t(`notifications.frequency.${option}.hint`)}</span>
+          </button>
+        ))}
+      </div>
+    </fieldset>
+  );
+
+  const renderContent = () => {
+    if (access === 'unsupported') {
+      return (
+        <p className="text-gray-600 text-sm">{t('notifications.unsupported')}</p>
+      );
+    }
+
+    if (access === 'denied') {
+      return (
+        <p className="text-gray-600 text-sm">{t('notifications.denied')}</p>
+      );
+    }
+
+    if (!settings) {
+      return (
+        <div className="space-y-4">
+          <p className="text-gray-600 text-sm">{t('notifications.intro')}</p>
+          {renderFrequencyOptions()}
+          {canEnable ? (
+            <button
+              onClick={() => onEnable(frequency)}
+              className="px-6 py-3 bg-gradient-to-r from-pink-500 to-blue-500 text-white rounded-xl font-medium hover:from-pink-600 hover:to-blue-600 transition-all duration-200"
+            >
+              {t('notifications.enable')}
+            </button>
+          ) : (
+            <p className="text-sm text-gray-500">{t('notifications.enterDates')}</p>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-gray-600 text-sm">
+          {t('notifications.on')} <span className="font-medium text-gray-800">{trackedDetails}</span>.{' '}
+          {t('notifications.arrival')}
+        </p>
+        {renderFrequencyOptions()}
+        {canEnable && !isTrackingCurrent && (
+          <button
+            onClick={onTrackCurrent}
+            className="px-4 py-2 border-2 border-gray-300 bg-gray-50 text-gray-700 rounded-xl text-sm font-medium hover:border-gray-400 transition-colors"
+          >
+            {t('notifications.trackCurrent')}
+          </button>
+        )}
+        <button onClick={onDisable} className="flex items-center gap-1 text-sm text-gray-500 underline hover:text-gray-700">
+          <BellOff className="w-4 h-4" />
+          {t('notifications.disable')}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <section className="mb-8">
+      <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <Bell className="w-5 h-5 text-purple-500" />
+          {t('notifications.title')}
+        </h2>
+
+        {failed && (
+          <p className="mb-4 text-sm text-red-600" role="alert">
+            {t('notifications.failed')}
+          </p>
+        )}
+
+        {renderContent()}
+      </div>
+    </section>
+  );
+}
+
+export default NotificationSettingsPanel;
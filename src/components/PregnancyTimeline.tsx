@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { CalendarRange, Stethoscope, Star } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { PlainDate } from '../lib/plainDate';
+import { formatGestationalAge } from '../lib/pregnancy';
+import { MILESTONES, Milestone, buildTimeline, getMilestoneDates } from '../lib/timeline';
+
+interface PregnancyTimelineProps {
+  dueDate: PlainDate;
+  currentWeek: number;
+  milestones?: Milestone[];
+}
+
+const trimesterBorders: Record<number, string> = {
+  1: 'border-trimester-1-line',
+  2: 'border-trimester-2-line',
+  3: 'border-trimester-3-line'
+};
+
+function PregnancyTimeline({ dueDate, currentWeek, milestones = MILESTONES }: PregnancyTimelineProps) {
+  const { t, formatDate } = useI18n();
+  const formatShortDate = (date: PlainDate) => formatDate(date, 'short');
+  const timeline = useMemo(() => buildTimeline(dueDate, milestones), [dueDate, milestones]);
+  const listRef = useRef<HTMLOListElement>(null);
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  // Scroll the list itself, not the page, so the current week starts in view
+  useEffect(() => {
+    if (listRef.current && currentRef.current) {
+      listRef.current.scrollTop = currentRef.current.offsetTop - listRef.current.clientHeight / 3;
+    }
+  }, [timeline, currentWeek]);
+
+  const screenings = milestones.filter((milestone) => milestone.kind === 'screening');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
+      <h3 className="text-xl font-semibold text-gray-800 mb-6 flex items-center gap-2">
+        <CalendarRange className="w-5 h-5 text-pink-500" />
+        {t('timeline.title')}
+      </h3>
+
+      {/* Key Windows */}
+      <div className="grid sm:grid-cols-2 gap-3 mb-6">
+        {screenings.map((milestone) => {
+          const { start, end } = getMilestoneDates(milestone, dueDate);
+          return (
+            <div key={milestone.id} className="p-3 bg-blue-50 rounded-lg">
+              <p className="text-sm font-medium text-blue-800 flex items-center gap-2">
+                <Stethoscope className="w-4 h-4" />
+                {t(milestone.label)}
+              </p>
+              <p className="text-xs text-blue-700 mt-1">
+                {milestone.endDays === undefined
+                  ? t('timeline.from', { date: formatShortDate(start), age: formatGestationalAge(milestone.startDays) })
+                  : `${formatShortDate(start)} – ${formatShortDate(end)} (${formatGestationalAge(milestone.startDays)}–${formatGestationalAge(milestone.endDays)})`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <ol ref={listRef} className="relative max-h-[28rem] overflow-y-auto space-y-2 pe-2" aria-label={t('timeline.weeks')}>
+        {timeline.map((week) => {
+          const isCurrent = week.week === currentWeek;
+
+          return (
+            <li
+              key={week.week}
+              ref={isCurrent ? currentRef : undefined}
+              aria-current={isCurrent ? 'step' : undefined}
+              className={`border-s-4 ${trimesterBorders[week.trimester]} rounded-e-lg px-4 py-3 ${
+                isCurrent ? 'bg-purple-50 ring-2 ring-purple-300' : 'bg-gray-50'
+              }`}
+            >
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="font-medium text-gray-800">
+                  {t('timeline.week', { week: week.week })}
+                  <span className="ms-2 text-xs font-normal text-gray-500">
+                    {formatGestationalAge((week.week - 1) * 7)}–{formatGestationalAge((week.week - 1) * 7 + 6)}
+                  </span>
+                  {isCurrent && (
+                    <span className="ms-2 px-2 py-0.5 rounded-full bg-purple-600 text-white text-xs font-semibold">
+                      {t('timeline.current')}
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {formatShortDate(week.start)} – {formatShortDate(week.end)}
+                </p>
+              </div>
+
+              {week.milestones.length > 0 && (
+                <ul className="flex flex-wrap gap-2 mt-2">
+                  {week.milestones.map((milestone) => (
+                    <li
+                      key={milestone.id}
+                      title={t(milestone.description)}
+                      className={`px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1 ${
+                        milestone.kind === 'screening' ? 'bg-blue-100 text-blue-700' : 'bg-pink-100 text-pink-700'
+                      }`}
+                    >
+                      {milestone.kind === 'screening' ? <Stethoscope className="w-3 h-3" /> : <Star className="w-3 h-3" />}
+                      {t(milestone.label)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+export default PregnancyTimeline;
@@ -0,0 +1,120 @@
+import { PlainDate } from '../lib/plainDate';
+import { CalculationResults, formatGestationalAge } from '../lib/pregnancy';
+import { Milestone, getMilestoneDates } from '../lib/timeline';
+import { useI18n } from '../i18n/context';
+
+interface PrintSummaryProps {
+  results: CalculationResults;
+  methodLabel: string;
+  // Label/value rows describing what was entered, e.g. the LMP date and cycle length
+  inputs: { label: string; value: string }[];
+  stageName: string;
+  asOf: PlainDate;
+  milestones: Milestone[];
+}
+
+// Only shown when printing; sized to fit a single A4 or Letter page
+function PrintSummary({ results, methodLabel, inputs, stageName, asOf, milestones }: PrintSummaryProps) {
+  const { t, formatDate } = useI18n();
+  const formatPrintDate = (date: PlainDate) => formatDate(date, 'medium');
+
+  const summary = [
+    { label: t('print.dueDate'), value: formatPrintDate(results.dueDate) },
+    { label: t('print.conception'), value: formatPrintDate(results.conceptionDate) },
+    {
+      label: t('print.gestationalAge'),
+      value: t('print.gestationalAge.value', {
+        age: formatGestationalAge(results.gestationalAgeDays),
+        completed: t('unit.completedWeek', { count: results.completedWeeks }),
+        week: results.currentWeek
+      })
+    },
+    { label: t('print.stage'), value: stageName },
+    {
+      label: t(results.daysRemaining >= 0 ? 'print.daysRemaining' : 'print.daysPastDue'),
+      value: String(Math.abs(results.daysRemaining))
+    }
+  ];
+
+  return (
+    <div className="hidden print:block text-black text-[11pt] leading-snug">
+      <header className="border-b-2 border-black pb-2 mb-4">
+        <h1 className="text-2xl font-bold">{t('print.title')}</h1>
+        <p className="text-sm">{t('print.asOf', { date: formatPrintDate(asOf) })}</p>
+      </header>
+
+      <section className="grid grid-cols-2 gap-6 mb-4">
+        <div>
+          <h2 className="font-semibold mb-1">{t('print.datingMethod')}</h2>
+          <dl className="text-sm space-y-0.5">
+            <div>
+              <dt className="inline font-medium">{t('print.method')}: </dt>
+              <dd className="inline">{methodLabel}</dd>
+            </div>
+            {inputs.map((row) => (
+              <div key={row.label}>
+                <dt className="inline font-medium">{row.label}: </dt>
+                <dd className="inline">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        <div>
+          <h2 className="font-semibold mb-1">{t('print.results')}</h2>
+          <dl className="text-sm space-y-0.5">
+            {summary.map((row) => (
+              <div key={row.label}>
+                <dt className="inline font-medium">{row.label}: </dt>
+                <dd className="inline">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </section>
+
+      <section className="mb-4">
+        <h2 className="font-semibold mb-1">{t('print.milestones')}</h2>
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b border-black text-start">
+              <th className="py-1 pe-2">{t('print.milestone')}</th>
+              <th className="py-1 pe-2">{t('print.gestationalAge')}</th>
+              <th className="py-1">{t('print.dates')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {milestones.map((milestone) => {
+              const { start, end } = getMilestoneDates(milestone, results.dueDate);
+              return (
+                <tr key={milestone.id} className="border-b border-gray-300 break-inside-avoid">
+                  <td className="py-1 pe-2">{t(milestone.label)}</td>
+                  <td className="py-1 pe-2">
+                    {milestone.endDays === undefined
+                      ? formatGestationalAge(milestone.startDays)
+                      : `${formatGestationalAge(milestone.startDays)}–${formatGestationalAge(milestone.endDays)}`}
+                  </td>
+                  <td className="py-1">
+                    {milestone.endDays === undefined
+                      ? formatPrintDate(start)
+                      : `${formatPrintDate(start)} – ${formatPrintDate(end)}`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <footer className="border-t border-black pt-2 text-xs space-y-1">
+        <p>
+          <strong>{t('print.disclaimer')} </strong>
+          {t('disclaimer.notice')}
+        </p>
+        <p>{t('disclaimer.emergency')}</p>
+      </footer>
+    </div>
+  );
+}
+
+export default PrintSummary;
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Bookmark, FolderOpen, Trash2 } from 'lucide-react';
+import { useI18n } from '../i18n/context';
+import { SavedCalculation } from '../lib/savedCalculations';
+
+interface SavedCalculationsPanelProps {
+  // null until the user turns saving on
+  calculations: SavedCalculation[] | null;
+  editing: SavedCalculation | null;
+  canSave: boolean;
+  storageFailed: boolean;
+  getDetails: (saved: SavedCalculation) => string;
+  onEnable: () => void;
+  onDisable: () => void;
+  onSave: (name: string, asNew: boolean) => void;
+  onOpen: (saved: SavedCalculation) => void;
+  onDelete: (saved: SavedCalculation) => void;
+}
+
+// Remount with a new key when a different calculation is opened so the name field resets
+function SavedCalculationsPanel({
+  calculations,
+  editing,
+  canSave,
+  storageFailed,
+  getDetails,
+  onEnable,
+  onDisable,
+  onSave,
+  onOpen,
+  onDelete
+}: SavedCalculationsPanelProps) {
+  const { t } = useI18n();
+  const [name, setName] = useState(editing?.name ?? '');
+  const trimmedName = name.trim();
+
+  return (
+    <section className="mb-8">
+      <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+          <Bookmark className="w-5 h-5 text-pink-500" />
+          {t('saved.title')}
+        </h2>
+
+        {storageFailed && (
+          <p className="mb-4 text-sm text-red-600" role="alert">
+            {t('saved.storageFailed')}
+          </p>
+        )}
+
+        {calculations === null ? (
+          <div>
+            <p className="text-gray-600 text-sm mb-4">{t('saved.intro')}</p>
+            <button
+              onClick={onEnable}
+              className="px-6 py-3 bg-gradient-to-r from-pink-500 to-blue-500 text-white rounded-xl font-medium hover:from-pink-600 hover:to-blue-600 transition-all duration-200"
+            >
+              {t('saved.enable')}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {canSave ? (
+              <form
+                className="flex flex-col sm:flex-row gap-3 sm:items-end"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (trimmedName) onSave(trimmedName, false);
+                }}
+              >
+                <div className="flex-1">
+                  <label htmlFor="saved-calculation-name" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('saved.name.label')}
+                  </label>
+                  <input
+                    id="saved-calculation-name"
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={t('saved.name.placeholder')}
+                    maxLength={60}
+                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-pink-400 focus:outline-none transition-colors"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={!trimmedName}
+                  className="px-6 py-3 bg-pink-500 text-white rounded-xl font-medium hover:bg-pink-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {editing ? t('saved.update', { name: editing.name }) : t('saved.save')}
+                </button>
+                {editing && (
+                  <button
+                    type="button"
+                    disabled={!trimmedName}
+                    onClick={() => onSave(trimmedName, true)}
+                    className="px-6 py-3 border-2 border-gray-300 bg-gray-50 text-gray-700 rounded-xl font-medium hover:border-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {t('saved.saveAsNew')}
+                  </button>
+                )}
+              </form>
+            ) : (
+              <p className="text-sm text-gray-500">{t('saved.enterDates')}</p>
+            )}
+
+            {calculations.length > 0 && (
+              <ul className="divide-y divide-gray-100" aria-label={t('saved.list')}>
+                {calculations.map((saved) => (
+                  <li key={saved.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <p className="font-medium text-gray-800">
+                        {saved.name}
+                        {saved.id === editing?.id && (
+                          <span className="ms-2 px-2 py-0.5 rounded-full bg-pink-100 text-pink-700 text-xs font-semibold">
+                            {t('saved.openBadge')}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">{getDetails(saved)}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => onOpen(saved)}
+                        className="px-3 py-2 rounded-lg text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors flex items-center gap-1"
+                        aria-label={t('saved.open.label', { name: saved.name })}
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                        {t('saved.open')}
+                      </button>
+                      <button
+                        onClick={() => onDelete(saved)}
+                        className="px-3 py-2 rounded-lg text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 transition-colors flex items-center gap-1"
+                        aria-label={t('saved.delete.label', { name: saved.name })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        {t('saved.delete')}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button onClick={onDisable} className="text-sm text-gray-500 underline hover:text-gray-700">
+              {t('saved.disable')}
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default SavedCalculationsPanel;
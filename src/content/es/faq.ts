@@ -0,0 +1,82 @@
+import { FaqTranslation } from '../faq';
+
+// Spanish text for FAQ_SECTIONS, by section and entry id; the ids (and so the deep links) stay the same
+export const FAQ_ES: FaqTranslation = {
+  sections: {
+    general: 'Preguntas generales',
+    'using-the-calculator': 'Cómo usar la calculadora',
+    medical: 'Información médica'
+  },
+  entries: {
+    accuracy: {
+      question: '¿Qué precisión tiene esta calculadora de embarazo?',
+      answer:
+        'Nuestra calculadora usa la regla de Naegele estándar y acierta con un margen de 5 días en alrededor del 80 % de los casos. Aun así, solo cerca del 5 % de los bebés nace justo en su fecha probable de parto. La mayoría de los partos ocurre en las 2 semanas anteriores o posteriores a la fecha estimada.'
+    },
+    'unknown-lmp': {
+      question: '¿Y si no recuerdo mi última menstruación?',
+      answer:
+        'Si no recuerdas tu FUM, tu profesional sanitario puede calcular la fecha probable de parto con las medidas de una ecografía, que son más precisas en el primer trimestre. Cuando te hayan hecho la ecografía de datación, elige "Ecografía de datación" e introduce la edad gestacional o la LCC del informe, o usa la opción "Fecha de parto conocida" si ya tienes una fecha probable de parto.'
+    },
+    'conception-accuracy': {
+      question: '¿Puede estar mal calculada la fecha de concepción?',
+      answer:
+        'Sí, la fecha de concepción es una estimación basada en el momento medio de la ovulación (14 días después de la FUM). La ovulación real puede variar mucho entre personas y ciclos, desde el día 10 hasta el día 20 del ciclo menstrual.'
+    },
+    ivf: {
+      question: '¿Sirve esta calculadora para embarazos por FIV?',
+      answer:
+        'Sí. Elige "FIV: punción ovárica" o "FIV: transferencia de embriones" e introduce la fecha que te dio la clínica. En las transferencias, indica si el embrión era de día 3, día 5 o día 6 para que podamos contar hacia atrás hasta la fecundación. La datación de tu clínica de fertilidad siempre tiene prioridad.'
+    },
+    'choosing-a-method': {
+      question: '¿Qué método elijo: FUM o fecha de parto?',
+      answer:
+        'Elige "Última menstruación (FUM)" si sabes el primer día de tu última regla: es el método más habitual y estándar. Elige "Fecha de parto conocida" si ya tienes una fecha probable de parto de una ecografía o un cálculo anterior y quieres conocer tu fecha de concepción.'
+    },
+    'irregular-cycles': {
+      question: '¿Y si mis ciclos son irregulares?',
+      answer:
+        'Si tus ciclos menstruales son irregulares, el método de la FUM puede ser menos preciso. En ese caso, la datación por ecografía que haga tu profesional sanitario será más fiable. Nuestra calculadora supone un ciclo estándar de 28 días con ovulación el día 14, salvo que indiques la duración media de tu ciclo (y, si quieres, tu fase lútea); en ese caso la fecha probable de parto se ajusta con la regla de Parikh.'
+    },
+    'tracking-progress': {
+      question: '¿Puedo usar esta calculadora varias veces durante el embarazo?',
+      answer:
+        '¡Sí! Puedes usar la calculadora durante todo el embarazo para seguir tu progreso, ver de cuántas semanas estás y contar los días que faltan para tu fecha probable de parto. Los resultados se actualizan según la fecha actual, o puedes elegir una fecha en "Mostrar el progreso a fecha de" para ver de cuánto estarás en una fecha futura o de cuánto estabas en una pasada.'
+    },
+    'sharing-results': {
+      question: '¿Cómo comparto mis resultados?',
+      answer:
+        'Después de calcular tus resultados verás la sección "Comparte tus resultados". Puedes usar la función de compartir del dispositivo (en móviles) o copiar el texto para compartirlo en redes sociales, con la familia o guardarlo. "Añadir al calendario" descarga un archivo .ics con tu fecha probable de parto, el inicio de cada trimestre y los periodos de las pruebas, que puedes importar en Google Calendar, Apple Calendar u Outlook. "Imprimir resumen" imprime una página con lo esencial para llevar a tu próxima cita. Los enlaces compartidos abren la calculadora con tus resultados ya rellenados; marca "Compartir solo la fecha de parto" para mantener privadas tus otras fechas.'
+    },
+    offline: {
+      question: '¿Funciona la calculadora sin conexión?',
+      answer:
+        'Sí. Todos los cálculos se hacen en tu dispositivo y, después de tu primera visita, el navegador guarda la calculadora para que se abra sin conexión a internet, incluso en modo avión. Para añadirla a tu pantalla de inicio, elige "Instalar aplicación" o "Añadir a pantalla de inicio" en Chrome para Android, o toca Compartir y luego "Añadir a pantalla de inicio" en Safari para iPhone y iPad.'
+    },
+    'dark-mode': {
+      question: '¿Hay modo oscuro?',
+      answer:
+        'Sí. La calculadora sigue el ajuste claro u oscuro de tu dispositivo y cambia a un tema de alto contraste si has pedido más contraste en el dispositivo. Para elegir otro tema, usa el botón de tema junto al menú de idioma en la parte superior de la página; tu elección se recuerda en este dispositivo.'
+    },
+    trimesters: {
+      question: '¿Cuáles son los tres trimestres del embarazo?',
+      answer:
+        'El embarazo se divide en tres trimestres: primer trimestre (semanas 1-12), segundo trimestre (semanas 13-27) y tercer trimestre (semanas 28-40). Cada trimestre tiene sus propios hitos de desarrollo y síntomas habituales.'
+    },
+    'prenatal-care': {
+      question: '¿Cuándo debo empezar el control prenatal?',
+      answer:
+        'Pide tu primera cita prenatal en cuanto sepas que estás embarazada, idealmente hacia las 8-10 semanas de embarazo. El control prenatal temprano es importante para vigilar tu salud y el desarrollo de tu bebé.'
+    },
+    'born-early-or-late': {
+      question: '¿Y si mi bebé nace antes o después de la fecha probable de parto?',
+      answer:
+        '¡Es completamente normal! Los bebés que nacen entre las semanas 37 y 42 se consideran a término. Solo alrededor del 3 % de los bebés llega justo en la fecha probable de parto, y la mayoría nace en las 2 semanas de alrededor. Tus resultados incluyen un gráfico de cuándo suelen nacer los bebés, con las fechas entre las que ocurre el 80 % y el 90 % de los nacimientos y la probabilidad de haber dado a luz en cualquier fecha que elijas. Tu profesional sanitario te vigilará de cerca a medida que te acerques a la fecha probable de parto y la superes.'
+    },
+    'medical-advice': {
+      question: '¿Debo basarme solo en esta calculadora para planificar mi embarazo?',
+      answer:
+        'No. Esta calculadora es una herramienta útil para hacer estimaciones, pero consulta siempre a tu profesional sanitario para la datación precisa del embarazo, la planificación del control prenatal y cualquier decisión médica. El consejo médico profesional es esencial para un embarazo saludable.'
+    }
+  }
+};
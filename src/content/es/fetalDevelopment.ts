@@ -0,0 +1,228 @@
+import { FetalDevelopmentText } from '../fetalDevelopment';
+
+// Spanish text for each week of FETAL_DEVELOPMENT; the measurements are shared with the English entries
+export const FETAL_DEVELOPMENT_ES: Record<number, FetalDevelopmentText> = {
+  4: {
+    sizeComparison: 'una semilla de amapola',
+    developments: [
+      'El óvulo fecundado se ha implantado en el revestimiento del útero',
+      'Las células se organizan en las capas que formarán todos los órganos'
+    ],
+    maternalChanges: ['Una prueba de embarazo casera puede dar positivo hacia la fecha en que te tocaría la regla']
+  },
+  5: {
+    sizeComparison: 'una semilla de sésamo',
+    developments: ['Empieza a formarse el tubo neural, que se convertirá en el cerebro y la médula espinal', 'El corazón empieza a desarrollarse'],
+    maternalChanges: ['Los pechos sensibles, el cansancio y las ganas frecuentes de orinar son señales tempranas habituales']
+  },
+  6: {
+    sizeComparison: 'una lenteja',
+    developments: [
+      'A menudo ya se ve actividad cardiaca en una ecografía transvaginal',
+      'Aparecen pequeños brotes que se convertirán en brazos y piernas'
+    ],
+    maternalChanges: ['Las náuseas, con o sin vómitos, suelen empezar por estas fechas']
+  },
+  7: {
+    sizeComparison: 'un arándano',
+    developments: ['El cerebro crece con rapidez', 'Se están formando los riñones, el hígado y los pulmones'],
+    maternalChanges: ['Son frecuentes el rechazo a ciertos alimentos y un olfato más sensible']
+  },
+  8: {
+    sizeComparison: 'una frambuesa',
+    developments: ['Empiezan a formarse los dedos de las manos y de los pies', 'El embrión hace pequeños movimientos que aún no puedes notar'],
+    maternalChanges: ['Tu útero ha crecido, aunque sigue oculto detrás del hueso púbico']
+  },
+  9: {
+    sizeComparison: 'una uva',
+    developments: ['Todos los órganos esenciales han empezado a formarse', 'Los párpados y las orejas van tomando forma'],
+    maternalChanges: ['Los cambios hormonales pueden traer cambios de humor e hinchazón abdominal']
+  },
+  10: {
+    sizeComparison: 'un kumquat',
+    developments: ['A partir de ahora el embrión se llama feto', 'Empiezan a crecer unas uñas diminutas y las articulaciones ya se doblan'],
+    maternalChanges: ['El volumen de sangre aumenta, lo que puede causar dolores de cabeza o mareos']
+  },
+  11: {
+    sizeComparison: 'un higo',
+    developments: ['Se forman los brotes de los dientes en las encías', 'La cabeza todavía ocupa cerca de la mitad de la longitud del cuerpo'],
+    maternalChanges: ['Algunas personas notan la piel del rostro más oscura o una línea que baja por el vientre']
+  },
+  12: {
+    sizeComparison: 'una lima',
+    developments: [
+      'Aparecen los reflejos: los dedos pueden abrirse y cerrarse',
+      'Los intestinos pasan del cordón umbilical al abdomen'
+    ],
+    maternalChanges: ['Las náuseas y el cansancio suelen aliviarse hacia el final del primer trimestre']
+  },
+  13: {
+    sizeComparison: 'un limón',
+    developments: ['Se están formando las cuerdas vocales', 'Los huesos de brazos y piernas empiezan a endurecerse'],
+    maternalChanges: ['El útero sube por encima de la pelvis y puede empezar a notarse una pequeña barriga']
+  },
+  14: {
+    sizeComparison: 'un melocotón',
+    developments: ['Un vello fino llamado lanugo empieza a cubrir el cuerpo', 'La cara puede hacer gestos como entrecerrar los ojos'],
+    maternalChanges: ['Muchas personas se sienten con más energía en el segundo trimestre']
+  },
+  15: {
+    sizeComparison: 'una manzana',
+    developments: ['El esqueleto sigue endureciéndose', 'El bebé puede percibir la luz a través de los párpados cerrados'],
+    maternalChanges: ['La congestión nasal o el sangrado de nariz pueden deberse al mayor flujo de sangre']
+  },
+  16: {
+    sizeComparison: 'un aguacate',
+    developments: ['Empiezan los movimientos de los ojos', 'El corazón bombea unos 25 litros de sangre al día'],
+    maternalChanges: ['Algunas personas, sobre todo en un embarazo posterior, notan por estas fechas los primeros aleteos']
+  },
+  17: {
+    sizeComparison: 'una pera',
+    developments: ['Empieza a acumularse grasa bajo la piel', 'El cordón umbilical se vuelve más grueso y fuerte'],
+    maternalChanges: ['El dolor del ligamento redondo, un tirón agudo en la parte baja del vientre, es habitual mientras crece el útero']
+  },
+  18: {
+    sizeComparison: 'un pimiento',
+    developments: ['Las orejas están en su posición definitiva y el oído se está desarrollando', 'A menudo ya se ven los genitales en la ecografía'],
+    maternalChanges: ['La ecografía morfológica suele hacerse entre las semanas 18 y 22']
+  },
+  19: {
+    sizeComparison: 'un mango',
+    developments: ['Una capa cerosa llamada vérnix empieza a proteger la piel', 'Se están formando los ciclos de sueño y vigilia'],
+    maternalChanges: ['Pueden empezar los dolores de espalda y los calambres en las piernas al cambiar tu postura']
+  },
+  20: {
+    sizeComparison: 'un plátano',
+    developments: ['El bebé traga líquido amniótico, lo que ayuda a madurar el aparato digestivo', 'Ya vas por la mitad'],
+    maternalChanges: ['La parte alta del útero está más o menos a la altura del ombligo']
+  },
+  21: {
+    sizeComparison: 'una zanahoria',
+    developments: ['Los movimientos son más fuertes y coordinados', 'La médula ósea empieza a producir células sanguíneas'],
+    maternalChanges: ['La mayoría de las personas ya nota moverse al bebé, a menudo como patadas o giros']
+  },
+  22: {
+    sizeComparison: 'una papaya',
+    developments: ['Se ven las cejas y las pestañas', 'Se desarrolla el sentido del tacto y el bebé puede agarrar el cordón'],
+    maternalChanges: ['Pueden aparecer estrías en el vientre, los pechos o los muslos']
+  },
+  23: {
+    sizeComparison: 'un pomelo',
+    developments: [
+      'Los vasos sanguíneos de los pulmones se desarrollan para preparar la respiración',
+      'El bebé puede oír sonidos como tu voz'
+    ],
+    maternalChanges: ['Es habitual la hinchazón de tobillos y pies, sobre todo al final del día']
+  },
+  24: {
+    sizeComparison: 'una mazorca de maíz',
+    developments: [
+      'Los pulmones empiezan a producir surfactante, que les ayudará a inflarse después del parto',
+      'Las papilas gustativas ya funcionan'
+    ],
+    maternalChanges: ['La prueba de la glucosa para la diabetes gestacional suele hacerse entre las semanas 24 y 28']
+  },
+  25: {
+    sizeComparison: 'una coliflor',
+    developments: ['El pelo de la cabeza crece y puede tener color', 'El bebé reacciona a las voces conocidas'],
+    maternalChanges: ['El ardor de estómago y el estreñimiento pueden aumentar porque el útero presiona el estómago y el intestino']
+  },
+  26: {
+    sizeComparison: 'una lechuga',
+    developments: ['Los ojos empiezan a abrirse', 'Aumenta la actividad cerebral relacionada con el oído y la vista'],
+    maternalChanges: ['Dormir puede costar más a medida que crece la barriga; tumbarte de lado puede ayudar']
+  },
+  27: {
+    sizeComparison: 'un repollo',
+    developments: ['El bebé puede tener hipo, que se nota como pequeños saltos rítmicos', 'Se están formando patrones de sueño regulares'],
+    maternalChanges: ['Se recomienda la vacuna dTpa desde la semana 27 para proteger al recién nacido de la tos ferina']
+  },
+  28: {
+    sizeComparison: 'una berenjena',
+    developments: ['Los ojos pueden parpadear y el bebé puede girarse hacia la luz', 'Sigue acumulándose grasa, que alisa la piel'],
+    maternalChanges: ['Empieza el tercer trimestre; las consultas prenatales suelen hacerse más frecuentes']
+  },
+  29: {
+    sizeComparison: 'una calabaza violín',
+    developments: ['Los músculos y los pulmones siguen madurando', 'El cráneo crece para dejar sitio al cerebro en desarrollo'],
+    maternalChanges: ['Las patadas y los golpes son más fuertes; pregunta a tu profesional sanitario si debes vigilar los movimientos']
+  },
+  30: {
+    sizeComparison: 'un pepino grande',
+    developments: ['La médula ósea ya se encarga por completo de producir los glóbulos rojos', 'El lanugo empieza a desaparecer'],
+    maternalChanges: ['Es habitual que te falte el aire porque el útero empuja el diafragma hacia arriba']
+  },
+  31: {
+    sizeComparison: 'un coco',
+    developments: ['El cerebro establece conexiones con rapidez', 'El bebé puede girar la cabeza de un lado a otro'],
+    maternalChanges: ['Las contracciones de práctica (Braxton Hicks) pueden endurecerte la barriga de vez en cuando']
+  },
+  32: {
+    sizeComparison: 'una jícama',
+    developments: ['Ya han crecido las uñas de las manos y de los pies', 'El bebé practica movimientos respiratorios'],
+    maternalChanges: ['Pueden volver las ganas frecuentes de orinar porque el bebé presiona la vejiga']
+  },
+  33: {
+    sizeComparison: 'una piña',
+    developments: [
+      'El sistema inmunitario recibe anticuerpos tuyos a través de la placenta',
+      'Los huesos se endurecen, salvo los del cráneo'
+    ],
+    maternalChanges: ['Son habituales las molestias en caderas y pelvis porque las articulaciones se aflojan para el parto']
+  },
+  34: {
+    sizeComparison: 'un melón cantalupo',
+    developments: ['El sistema nervioso central y los pulmones siguen madurando', 'Muchos bebés ya se han colocado cabeza abajo'],
+    maternalChanges: [
+      'La visión borrosa o la hinchazón de cara y manos pueden ser un signo de preeclampsia: avisa a tu profesional sanitario'
+    ]
+  },
+  35: {
+    sizeComparison: 'un melón',
+    developments: ['Los riñones están completamente desarrollados', 'A partir de ahora crece sobre todo en peso'],
+    maternalChanges: ['Es posible que te ofrezcan un exudado para el estreptococo del grupo B entre las semanas 36 y 38']
+  },
+  36: {
+    sizeComparison: 'una lechuga romana',
+    developments: ['El bebé está perdiendo casi todo el lanugo y el vérnix', 'Ya domina la succión y la deglución'],
+    maternalChanges: ['El bebé puede bajar hacia la pelvis, lo que facilita respirar pero hace menos cómodo caminar']
+  },
+  37: {
+    sizeComparison: 'un manojo de acelgas',
+    developments: ['Desde la semana 37 se considera que el bebé es a término precoz', 'Los pulmones están casi listos para respirar aire'],
+    maternalChanges: ['Atenta a las señales de parto: contracciones regulares, rotura de aguas o sangrado']
+  },
+  38: {
+    sizeComparison: 'un puerro',
+    developments: ['El cerebro y los pulmones siguen madurando hasta el nacimiento', 'El agarre es firme'],
+    maternalChanges: ['Puedes expulsar el tapón mucoso, una señal de que el cuello del útero se está preparando']
+  },
+  39: {
+    sizeComparison: 'una sandía pequeña',
+    developments: [
+      'Desde la semana 39 el bebé es a término',
+      'Una capa de grasa le ayuda a regular la temperatura después del parto'
+    ],
+    maternalChanges: ['El cansancio y la impaciencia son normales; descansa siempre que puedas']
+  },
+  40: {
+    sizeComparison: 'una calabaza pequeña',
+    developments: [
+      'El bebé está listo para nacer',
+      'Los huesos del cráneo aún no están unidos, así que la cabeza puede amoldarse durante el parto'
+    ],
+    maternalChanges: [
+      'Solo una pequeña parte de los bebés nace justo en la fecha probable de parto; las semanas de alrededor son igual de normales'
+    ]
+  },
+  41: {
+    sizeComparison: 'una sandía',
+    developments: ['Las uñas pueden sobresalir de la punta de los dedos', 'La piel puede estar más seca porque ya no hay vérnix'],
+    maternalChanges: ['Es probable que tu profesional sanitario os controle más a menudo y te hable de la inducción']
+  },
+  42: {
+    sizeComparison: 'una sandía grande',
+    developments: ['La placenta funciona peor después de la semana 42, así que el bebé necesita una vigilancia estrecha'],
+    maternalChanges: ['Si aún no lo has hecho, contacta hoy con tu profesional sanitario o tu maternidad']
+  }
+};
@@ -0,0 +1,151 @@
+// FAQ content, kept out of the components so questions can be added or reworded without touching the page.
+// Entry ids become the page's deep links (/faq#offline), so keep them stable once published.
+// Answers are plain text: they are also published as schema.org FAQPage data for search engines.
+
+import { Locale } from '../i18n/locales';
+import { FAQ_ES } from './es/faq';
+import { FAQ_HI } from './hi/faq';
+
+export interface FaqEntry {
+  id: string;
+  question: string;
+  answer: string;
+}
+
+export interface FaqSection {
+  id: string;
+  title: string;
+  entries: FaqEntry[];
+}
+
+// A translation covers every section title and entry by id, so each language keeps the same deep links
+export interface FaqTranslation {
+  sections: Record<string, string>;
+  entries: Record<string, Omit<FaqEntry, 'id'>>;
+}
+
+export const FAQ_SECTIONS: FaqSection[] = [
+  {
+    id: 'general',
+    title: 'General Questions',
+    entries: [
+      {
+        id: 'accuracy',
+        question: 'How accurate is this pregnancy calculator?',
+        answer:
+          "Our calculator uses the standard Naegele's rule and is about 80% accurate within 5 days. However, only about 5% of babies are born on their exact due date. Most deliveries occur within 2 weeks before or after the estimated due date."
+      },
+      {
+        id: 'unknown-lmp',
+        question: "What if I don't remember my last menstrual period?",
+        answer:
+          `If you can't remember your LMP, your healthcare provider can determine your due date through ultrasound measurements, which are most accurate in the first trimester. Once you have had a dating scan, choose "Ultrasound Dating Scan" and enter the gestational age or CRL from the report, or use our "Known Due Date" option if you already have a due date.`
+      },
+      {
+        id: 'conception-accuracy',
+        question: 'Can conception date calculations be wrong?',
+        answer:
+          'Yes, conception date is an estimate based on average ovulation timing (14 days after LMP). Actual ovulation can vary significantly between individuals and cycles, ranging from day 10 to day 20 of the menstrual cycle.'
+      },
+      {
+        id: 'ivf',
+        question: 'Is this calculator suitable for IVF pregnancies?',
+        answer:
+          `Yes. Choose "IVF Egg Retrieval" or "IVF Embryo Transfer" and enter the date from your clinic. For transfers, select whether it was a day-3, day-5 or day-6 embryo so we can count back to fertilization. Your fertility clinic's dating should always take precedence.`
+      }
+    ]
+  },
+  {
+    id: 'using-the-calculator',
+    title: 'Using the Calculator',
+    entries: [
+      {
+        id: 'choosing-a-method',
+        question: 'Which method should I choose - LMP or Due Date?',
+        answer:
+          'Choose "Last Menstrual Period (LMP)" if you know the first day of your last period - this is the most common and standard method. Choose "Known Due Date" if you already have a due date from a previous ultrasound or calculation and want to find your conception date.'
+      },
+      {
+        id: 'irregular-cycles',
+        question: 'What if my cycles are irregular?',
+        answer:
+          "If you have irregular menstrual cycles, the LMP method may be less accurate. In this case, ultrasound dating by your healthcare provider will be more reliable. Our calculator assumes a standard 28-day cycle with ovulation on day 14 unless you enter your average cycle length (and optionally your luteal phase), in which case the due date is adjusted using Parikh's rule."
+      },
+      {
+        id: 'tracking-progress',
+        question: 'Can I use this calculator multiple times during pregnancy?',
+        answer:
+          'Yes! You can use our calculator throughout your pregnancy to track your progress, see how many weeks pregnant you are, and count down the days until your due date. The results update based on the current date, or you can pick a "Show Progress As Of" date to see how far along you will be on a future date or were on a past one.'
+      },
+      {
+        id: 'sharing-results',
+        question: 'How do I share my results?',
+        answer:
+          `After calculating your results, you'll see a "Share Results" section. You can either use the native share function (on mobile devices) or copy the formatted text to share on social media, with family, or save for your records. "Add to Calendar" downloads an .ics file with your due date, trimester starts and screening windows that you can import into Google Calendar, Apple Calendar or Outlook. "Print summary" prints a one-page overview to bring to your next appointment. Shared links open the calculator with your results already filled in; tick "Share the due date only" to keep your other dates private.`
+      },
+      {
+        id: 'offline',
+        question: 'Does the calculator work offline?',
+        answer:
+          'Yes. All calculations happen on your device, and after your first visit the calculator is stored by your browser so it opens without an internet connection, even in airplane mode. To add it to your home screen, choose "Install app" or "Add to Home Screen" in Chrome on Android, or tap Share and then "Add to Home Screen" in Safari on iPhone and iPad.'
+      },
+      {
+        id: 'dark-mode',
+        question: 'Is there a dark mode?',
+        answer:
+          "Yes. The calculator follows your device's light or dark setting, and switches to a high-contrast theme if you have asked your device for more contrast. To choose a theme yourself, use the theme button next to the language menu at the top of the page; your choice is remembered on this device."
+      }
+    ]
+  },
+  {
+    id: 'medical',
+    title: 'Medical Information',
+    entries: [
+      {
+        id: 'trimesters',
+        question: 'What are the three trimesters of pregnancy?',
+        answer:
+          'Pregnancy is divided into three trimesters: First trimester (weeks 1-12), Second trimester (weeks 13-27), and Third trimester (weeks 28-40). Each trimester has different developmental milestones and common symptoms.'
+      },
+      {
+        id: 'prenatal-care',
+        question: 'When should I start prenatal care?',
+        answer:
+          "You should schedule your first prenatal appointment as soon as you know you're pregnant, ideally by 8-10 weeks of pregnancy. Early prenatal care is important for monitoring your health and your baby's development."
+      },
+      {
+        id: 'born-early-or-late',
+        question: 'What if my baby is born before or after the due date?',
+        answer:
+          'This is completely normal! Babies born between 37-42 weeks are considered full-term. Only about 3% of babies arrive on the due date itself, and most are born within 2 weeks of it. Your results include a chart of when babies typically arrive, with the dates 80% and 90% of births fall between and the chance of having delivered by any date you pick. Your healthcare provider will monitor you closely as you approach and pass your due date.'
+      },
+      {
+        id: 'medical-advice',
+        question: 'Should I rely solely on this calculator for pregnancy planning?',
+        answer:
+          'No, this calculator is a helpful tool for estimates, but you should always consult with your healthcare provider for accurate pregnancy dating, prenatal care planning, and any medical decisions. Professional medical advice is essential for a healthy pregnancy.'
+      }
+    ]
+  }
+];
+
+export const FAQ_TRANSLATIONS: Record<Exclude<Locale, 'en'>, FaqTranslation> = {
+  es: FAQ_ES,
+  hi: FAQ_HI
+};
+
+const translateSections = ({ sections, entries }: FaqTranslation): FaqSection[] =>
+  FAQ_SECTIONS.map((section) => ({
+    ...section,
+    title: sections[section.id],
+    entries: section.entries.map((entry) => ({ ...entry, ...entries[entry.id] }))
+  }));
+
+// Built once per language, so the page sees the same array on every render
+const LOCALIZED_SECTIONS: Record<Locale, FaqSection[]> = {
+  en: FAQ_SECTIONS,
+  es: translateSections(FAQ_TRANSLATIONS.es),
+  hi: translateSections(FAQ_TRANSLATIONS.hi)
+};
+
+export const getFaqSections = (locale: Locale = 'en'): FaqSection[] => LOCALIZED_SECTIONS[locale];
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FETAL_DEVELOPMENT,
+  FETAL_DEVELOPMENT_TRANSLATIONS,
+  LAST_DEVELOPMENT_WEEK,
+  getFetalDevelopment
+} from './fetalDevelopment';
+
+describe('fetal development content', () => {
+  it('has exactly one entry for every week from 4 to 42, in order', () => {
+    expect(FETAL_DEVELOPMENT.map((entry) => entry.week)).toEqual(Array.from({ length: 39 }, (_, i) => i + 4));
+  });
+
+  it('has valid ranges that grow week by week within each length measure', () => {
+    FETAL_DEVELOPMENT.forEach((entry, index) => {
+      expect(entry.lengthCm.min).toBeLessThanOrEqual(entry.lengthCm.max);
+      if (entry.weightGrams) expect(entry.weightGrams.min).toBeLessThanOrEqual(entry.weightGrams.max);
+      expect(entry.developments.length).toBeGreaterThan(0);
+      expect(entry.maternalChanges.length).toBeGreaterThan(0);
+
+      const previous = FETAL_DEVELOPMENT[index - 1];
+      if (previous?.lengthMeasure === entry.lengthMeasure) {
+        expect(entry.lengthCm.max).toBeGreaterThanOrEqual(previous.lengthCm.max);
+        expect(entry.weightGrams?.max ?? 0).toBeGreaterThanOrEqual(previous.weightGrams?.max ?? 0);
+      }
+    });
+  });
+
+  it('clamps weeks outside the dataset to its first and last entries', () => {
+    expect(getFetalDevelopment(2).week).toBe(4);
+    expect(getFetalDevelopment(20).week).toBe(20);
+    expect(getFetalDevelopment(44).week).toBe(LAST_DEVELOPMENT_WEEK);
+  });
+
+  it('translates every week, keeping the English measurements', () => {
+    Object.values(FETAL_DEVELOPMENT_TRANSLATIONS).forEach((translation) => {
+      FETAL_DEVELOPMENT.forEach((entry) => {
+        const text = translation[entry.week];
+        expect(text.sizeComparison).not.toBe('');
+        expect(text.developments.length).toBeGreaterThan(0);
+        expect(text.maternalChanges.length).toBeGreaterThan(0);
+      });
+    });
+    expect(getFetalDevelopment(20, 'es')).toMatchObject({
+      week: 20,
+      lengthCm: FETAL_DEVELOPMENT[16].lengthCm,
+      sizeComparison: 'un plátano'
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import { Locale } from '../i18n/locales';
+import { FETAL_DEVELOPMENT_ES } from './es/fetalDevelopment';
+import { FETAL_DEVELOPMENT_HI } from './hi/fetalDevelopment';
+
+// Week-by-week development content, kept out of the components so it can be translated and clinically reviewed.
+// Each entry describes the end of that pregnancy week, e.g. week 20 is a gestational age of about 20w0d.
+// Sizes are typical ranges, not targets: babies grow at their own pace.
+// The English text lives with the measurements below; other languages replace just the text, week by week.
+
+export interface MeasurementRange {
+  min: number;
+  max: number;
+}
+
+export interface FetalDevelopmentText {
+  sizeComparison: string;
+  developments: string[];
+  maternalChanges: string[];
+}
+
+export interface FetalDevelopmentWeek extends FetalDevelopmentText {
+  week: number;
+  // Crown-rump (head to bottom) until 20 weeks, then crown-heel (head to toe), as ultrasound reports switch too
+  lengthMeasure: 'crownRump' | 'crownHeel';
+  lengthCm: MeasurementRange;
+  // Omitted while the embryo weighs under a gram
+  weightGrams?: MeasurementRange;
+}
+
+export const FIRST_DEVELOPMENT_WEEK = 4;
+export const LAST_DEVELOPMENT_WEEK = 42;
+
+export const FETAL_DEVELOPMENT: FetalDevelopmentWeek[] = [
+  {
+    week: 4,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 0.1, max: 0.2 },
+    sizeComparison: 'a poppy seed',
+    developments: [
+      'The fertilized egg has implanted in the lining of the uterus',
+      'Cells are organizing into the layers that will form every organ'
+    ],
+    maternalChanges: ['A home pregnancy test may turn positive around the time your period is due']
+  },
+  {
+    week: 5,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 0.1, max: 0.3 },
+    sizeComparison: 'a sesame seed',
+    developments: ['The neural tube, which becomes the brain and spinal cord, begins to form', 'The heart starts to develop'],
+    maternalChanges: ['Tender breasts, tiredness and needing to pee more often are common early signs']
+  },
+  {
+    week: 6,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 0.4, max: 0.7 },
+    sizeComparison: 'a lentil',
+    developments: [
+      'Cardiac activity can often be seen on a transvaginal ultrasound',
+      'Small buds that will become arms and legs appear'
+    ],
+    maternalChanges: ['Nausea, with or without vomiting, often starts around now']
+  },
+  {
+    week: 7,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 0.8, max: 1.1 },
+    sizeComparison: 'a blueberry',
+    developments: ['The brain is growing quickly', 'The kidneys, liver and lungs are forming'],
+    maternalChanges: ['Food aversions and a heightened sense of smell are common']
+  },
+  {
+    week: 8,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 1.4, max: 1.8 },
+    weightGrams: { min: 1, max: 2 },
+    sizeComparison: 'a raspberry',
+    developments: ['Fingers and toes begin to form', 'The embryo starts making small movements you cannot feel yet'],
+    maternalChanges: ['Your uterus has grown, though it is still hidden behind the pubic bone']
+  },
+  {
+    week: 9,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 2.0, max: 2.5 },
+    weightGrams: { min: 2, max: 3 },
+    sizeComparison: 'a grape',
+    developments: ['All the essential organs have begun to form', 'Eyelids and the outer ears are taking shape'],
+    maternalChanges: ['Hormone changes can bring mood swings and bloating']
+  },
+  {
+    week: 10,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 2.8, max: 3.4 },
+    weightGrams: { min: 3, max: 5 },
+    sizeComparison: 'a kumquat',
+    developments: [
+      'From now on the embryo is called a fetus',
+      'Tiny nails begin to grow, and the joints can bend'
+    ],
+    maternalChanges: ['Blood volume is rising, which can cause headaches or light-headedness']
+  },
+  {
+    week: 11,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 3.9, max: 4.6 },
+    weightGrams: { min: 6, max: 9 },
+    sizeComparison: 'a fig',
+    developments: ['Tooth buds are forming in the gums', 'The head still makes up about half of the body length'],
+    maternalChanges: ['Some people notice darker skin on the face or a line down the belly']
+  },
+  {
+    week: 12,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 5.0, max: 6.0 },
+    weightGrams: { min: 12, max: 16 },
+    sizeComparison: 'a lime',
+    developments: ['Reflexes appear: the fingers can open and close', 'The intestines move from the umbilical cord into the abdomen'],
+    maternalChanges: ['Nausea and tiredness often start to ease toward the end of the first trimester']
+  },
+  {
+    week: 13,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 6.3, max: 7.6 },
+    weightGrams: { min: 20, max: 26 },
+    sizeComparison: 'a lemon',
+    developments: ['Vocal cords are forming', 'Bones in the arms and legs are starting to harden'],
+    maternalChanges: ['Your uterus rises above the pelvis, and a small bump may start to show']
+  },
+  {
+    week: 14,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 8.0, max: 9.0 },
+    weightGrams: { min: 38, max: 48 },
+    sizeComparison: 'a peach',
+    developments: ['Fine hair called lanugo starts to cover the body', 'The face can make expressions such as squinting'],
+    maternalChanges: ['Many people feel more energetic in the second trimester']
+  },
+  {
+    week: 15,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 9.5, max: 10.7 },
+    weightGrams: { min: 60, max: 80 },
+    sizeComparison: 'an apple',
+    developments: ['The skeleton continues to harden', 'The baby may sense light through the closed eyelids'],
+    maternalChanges: ['Congestion or nosebleeds can come from extra blood flow']
+  },
+  {
+    week: 16,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 11.0, max: 12.3 },
+    weightGrams: { min: 90, max: 120 },
+    sizeComparison: 'an avocado',
+    developments: ['Eye movements begin', 'The heart pumps about 25 liters of blood a day'],
+    maternalChanges: ['Some people, especially in a later pregnancy, first feel flutters of movement around now']
+  },
+  {
+    week: 17,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 12.0, max: 13.2 },
+    weightGrams: { min: 125, max: 160 },
+    sizeComparison: 'a pear',
+    developments: ['Fat starts to build up under the skin', 'The umbilical cord is growing thicker and stronger'],
+    maternalChanges: ['Round ligament pain, a sharp pull low in the belly, is common as the uterus grows']
+  },
+  {
+    week: 18,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 13.2, max: 14.6 },
+    weightGrams: { min: 170, max: 210 },
+    sizeComparison: 'a bell pepper',
+    developments: ['The ears are in their final position, and hearing is developing', 'The genitals can often be seen on ultrasound'],
+    maternalChanges: ['The anatomy scan usually takes place between 18 and 22 weeks']
+  },
+  {
+    week: 19,
+    lengthMeasure: 'crownRump',
+    lengthCm: { min: 14.2, max: 15.6 },
+    weightGrams: { min: 210, max: 270 },
+    sizeComparison: 'a mango',
+    developments: ['A waxy coating called vernix starts to protect the skin', 'Sleep and wake cycles are forming'],
+    maternalChanges: ['Backaches and leg cramps may start as your posture changes']
+  },
+  {
+    week: 20,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 24.5, max: 26.5 },
+    weightGrams: { min: 260, max: 340 },
+    sizeComparison: 'a banana',
+    developments: ['The baby swallows amniotic fluid, which helps the digestive system mature', 'Halfway there'],
+    maternalChanges: ['The top of your uterus is around the level of your belly button']
+  },
+  {
+    week: 21,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 25.5, max: 27.5 },
+    weightGrams: { min: 310, max: 410 },
+    sizeComparison: 'a carrot',
+    developments: ['Movements are getting stronger and more coordinated', 'Bone marrow starts making blood cells'],
+    maternalChanges: ['Most people can now feel the baby move, often as kicks or rolls']
+  },
+  {
+    week: 22,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 26.5, max: 28.5 },
+    weightGrams: { min: 370, max: 490 },
+    sizeComparison: 'a papaya',
+    developments: ['Eyebrows and eyelashes are visible', 'The sense of touch is developing, and the baby may grasp the cord'],
+    maternalChanges: ['Stretch marks may appear on the belly, breasts or thighs']
+  },
+  {
+    week: 23,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 27.5, max: 29.5 },
+    weightGrams: { min: 430, max: 570 },
+    sizeComparison: 'a grapefruit',
+    developments: ['Blood vessels in the lungs are developing to prepare for breathing', 'The baby can hear sounds such as your voice'],
+    maternalChanges: ['Swelling in the ankles and feet is common, especially late in the day']
+  },
+  {
+    week: 24,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 29.0, max: 31.0 },
+    weightGrams: { min: 520, max: 680 },
+    sizeComparison: 'an ear of corn',
+    developments: ['The lungs begin making surfactant, which will help them inflate after birth', 'Taste buds are working'],
+    maternalChanges: ['The glucose test for gestational diabetes is usually done between 24 and 28 weeks']
+  },
+  {
+    week: 25,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 33.0, max: 35.5 },
+    weightGrams: { min: 580, max: 760 },
+    sizeComparison: 'a cauliflower',
+    developments: ['Hair on the head is growing and may have color', 'The baby responds to familiar voices'],
+    maternalChanges: ['Heartburn and constipation can increase as the uterus presses on the stomach and bowel']
+  },
+  {
+    week: 26,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 34.5, max: 37.0 },
+    weightGrams: { min: 660, max: 880 },
+    sizeComparison: 'a head of lettuce',
+    developments: ['The eyes are starting to open', 'Brain wave activity for hearing and sight is increasing'],
+    maternalChanges: ['Sleep may get harder as your bump grows; lying on your side can help']
+  },
+  {
+    week: 27,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 35.5, max: 38.0 },
+    weightGrams: { min: 760, max: 1000 },
+    sizeComparison: 'a cabbage',
+    developments: ['The baby may get hiccups, which feel like small rhythmic jumps', 'Regular sleep patterns are forming'],
+    maternalChanges: ['The Tdap vaccine is recommended from 27 weeks to protect your newborn from whooping cough']
+  },
+  {
+    week: 28,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 36.5, max: 39.0 },
+    weightGrams: { min: 870, max: 1130 },
+    sizeComparison: 'an eggplant',
+    developments: ['The eyes can blink, and the baby may turn toward light', 'Fat continues to build up, smoothing the skin'],
+    maternalChanges: ['The third trimester begins; prenatal visits usually become more frequent']
+  },
+  {
+    week: 29,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 37.5, max: 40.0 },
+    weightGrams: { min: 1000, max: 1300 },
+    sizeComparison: 'a butternut squash',
+    developments: ['Muscles and lungs keep maturing', 'The skull is growing to make room for the developing brain'],
+    maternalChanges: ['Kicks and jabs are stronger; ask your provider whether to keep track of movements']
+  },
+  {
+    week: 30,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 38.5, max: 41.0 },
+    weightGrams: { min: 1150, max: 1500 },
+    sizeComparison: 'a large cucumber',
+    developments: ['Bone marrow has fully taken over making red blood cells', 'Lanugo hair begins to disappear'],
+    maternalChanges: ['Shortness of breath is common as the uterus presses up on the diaphragm']
+  },
+  {
+    week: 31,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 39.5, max: 42.0 },
+    weightGrams: { min: 1300, max: 1700 },
+    sizeComparison: 'a coconut',
+    developments: ['The brain is making connections quickly', 'The baby can turn the head from side to side'],
+    maternalChanges: ['Practice contractions (Braxton Hicks) may tighten your belly now and then']
+  },
+  {
+    week: 32,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 40.5, max: 43.5 },
+    weightGrams: { min: 1500, max: 1950 },
+    sizeComparison: 'a jicama',
+    developments: ['Toenails and fingernails have grown in', 'The baby practices breathing movements'],
+    maternalChanges: ['Needing to pee often may return as the baby presses on your bladder']
+  },
+  {
+    week: 33,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 41.5, max: 44.5 },
+    weightGrams: { min: 1700, max: 2200 },
+    sizeComparison: 'a pineapple',
+    developments: ['The immune system is getting antibodies from you through the placenta', 'Bones are hardening, except the skull'],
+    maternalChanges: ['Aches in the hips and pelvis are common as joints loosen for birth']
+  },
+  {
+    week: 34,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 43.0, max: 46.0 },
+    weightGrams: { min: 1900, max: 2500 },
+    sizeComparison: 'a cantaloupe',
+    developments: ['The central nervous system and lungs continue to mature', 'Many babies have turned head-down by now'],
+    maternalChanges: ['Blurry vision or swelling in the face and hands can be a sign of preeclampsia: tell your provider']
+  },
+  {
+    week: 35,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 44.0, max: 47.0 },
+    weightGrams: { min: 2150, max: 2750 },
+    sizeComparison: 'a honeydew melon',
+    developments: ['The kidneys are fully developed', 'Most growth from here on is weight gain'],
+    maternalChanges: ['You may be offered a Group B strep swab between 36 and 38 weeks']
+  },
+  {
+    week: 36,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 45.0, max: 48.5 },
+    weightGrams: { min: 2400, max: 3000 },
+    sizeComparison: 'a head of romaine lettuce',
+    developments: ['The baby is shedding most of the lanugo and vernix', 'Sucking and swallowing are well practiced'],
+    maternalChanges: ['The baby may drop lower into the pelvis, making breathing easier but walking less comfortable']
+  },
+  {
+    week: 37,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 46.0, max: 49.5 },
+    weightGrams: { min: 2600, max: 3250 },
+    sizeComparison: 'a bunch of Swiss chard',
+    developments: ['The baby is considered early term from 37 weeks', 'The lungs are almost ready to breathe air'],
+    maternalChanges: ['Watch for signs of labor: regular contractions, your waters breaking or bleeding']
+  },
+  {
+    week: 38,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 47.0, max: 50.5 },
+    weightGrams: { min: 2800, max: 3450 },
+    sizeComparison: 'a leek',
+    developments: ['The brain and lungs keep maturing right up to birth', 'The grasp is firm'],
+    maternalChanges: ['You may lose your mucus plug, a sign that the cervix is getting ready']
+  },
+  {
+    week: 39,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 48.0, max: 51.5 },
+    weightGrams: { min: 2950, max: 3650 },
+    sizeComparison: 'a small watermelon',
+    developments: ['The baby is full term from 39 weeks', 'A layer of fat helps control body temperature after birth'],
+    maternalChanges: ['Tiredness and impatience are normal; keep resting when you can']
+  },
+  {
+    week: 40,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 48.5, max: 52.5 },
+    weightGrams: { min: 3050, max: 3800 },
+    sizeComparison: 'a small pumpkin',
+    developments: ['The baby is ready to be born', 'The skull bones are not yet joined, so the head can mold during birth'],
+    maternalChanges: ['Only a small share of babies arrive on the due date itself; the weeks around it are all normal']
+  },
+  {
+    week: 41,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 49.0, max: 53.0 },
+    weightGrams: { min: 3150, max: 3950 },
+    sizeComparison: 'a watermelon',
+    developments: ['Nails may grow past the fingertips', 'The skin may be drier as the vernix is gone'],
+    maternalChanges: ['Your provider will likely check on you and the baby more often and may discuss induction']
+  },
+  {
+    week: 42,
+    lengthMeasure: 'crownHeel',
+    lengthCm: { min: 49.0, max: 53.5 },
+    weightGrams: { min: 3200, max: 4050 },
+    sizeComparison: 'a large watermelon',
+    developments: ['The placenta works less well after 42 weeks, so the baby needs close monitoring'],
+    maternalChanges: ['If you have not already, contact your healthcare provider or maternity unit today']
+  }
+];
+
+export const FETAL_DEVELOPMENT_TRANSLATIONS: Record<Exclude<Locale, 'en'>, Record<number, FetalDevelopmentText>> = {
+  es: FETAL_DEVELOPMENT_ES,
+  hi: FETAL_DEVELOPMENT_HI
+};
+
+// Weeks before 4 show week 4, and weeks past 42 show week 42
+export const getFetalDevelopment = (week: number, locale: Locale = 'en'): FetalDevelopmentWeek => {
+  const entry =
+    FETAL_DEVELOPMENT[Math.min(Math.max(week, FIRST_DEVELOPMENT_WEEK), LAST_DEVELOPMENT_WEEK) - FIRST_DEVELOPMENT_WEEK];
+  return locale === 'en' ? entry : { ...entry, ...FETAL_DEVELOPMENT_TRANSLATIONS[locale][entry.week] };
+};
@@ -0,0 +1,82 @@
+import { FaqTranslation } from '../faq';
+
+// Hindi text for FAQ_SECTIONS, by section and entry id; the ids (and so the deep links) stay the same
+export const FAQ_HI: FaqTranslation = {
+  sections: {
+    general: 'सामान्य सवाल',
+    'using-the-calculator': 'कैलकुलेटर का इस्तेमाल',
+    medical: 'चिकित्सा जानकारी'
+  },
+  entries: {
+    accuracy: {
+      question: 'यह प्रेग्नेंसी कैलकुलेटर कितना सटीक है?',
+      answer:
+        'हमारा कैलकुलेटर मानक नेगेले नियम का इस्तेमाल करता है और लगभग 80% मामलों में 5 दिन के अंदर सही रहता है। फिर भी केवल लगभग 5% शिशु ठीक अपनी डिलीवरी की तारीख़ पर पैदा होते हैं। ज़्यादातर डिलीवरी अनुमानित तारीख़ से 2 सप्ताह पहले या बाद के बीच होती हैं।'
+    },
+    'unknown-lmp': {
+      question: 'अगर मुझे अपनी आख़िरी माहवारी याद न हो तो?',
+      answer:
+        'अगर आपको अपनी LMP याद नहीं है, तो आपके डॉक्टर अल्ट्रासाउंड के माप से डिलीवरी की तारीख़ तय कर सकते हैं, जो पहली तिमाही में सबसे सटीक होते हैं। डेटिंग स्कैन हो जाने के बाद "डेटिंग अल्ट्रासाउंड" चुनें और रिपोर्ट से गर्भकालीन आयु या CRL डालें, या अगर आपके पास पहले से डिलीवरी की तारीख़ है तो "पता डिलीवरी की तारीख़" विकल्प चुनें।'
+    },
+    'conception-accuracy': {
+      question: 'क्या गर्भधारण की तारीख़ की गणना ग़लत हो सकती है?',
+      answer:
+        'हाँ, गर्भधारण की तारीख़ ओव्यूलेशन के औसत समय (LMP के 14 दिन बाद) पर आधारित एक अनुमान है। असल ओव्यूलेशन अलग-अलग लोगों और चक्रों में काफ़ी अलग हो सकता है, माहवारी चक्र के 10वें से 20वें दिन तक।'
+    },
+    ivf: {
+      question: 'क्या यह कैलकुलेटर IVF गर्भावस्था के लिए सही है?',
+      answer:
+        'हाँ। "IVF एग रिट्रीवल" या "IVF एम्ब्रियो ट्रांसफ़र" चुनें और अपने क्लिनिक से मिली तारीख़ डालें। ट्रांसफ़र के लिए चुनें कि एम्ब्रियो दिन 3, दिन 5 या दिन 6 का था, ताकि हम निषेचन की तारीख़ तक पीछे गिन सकें। आपके फ़र्टिलिटी क्लिनिक की गणना को हमेशा प्राथमिकता दें।'
+    },
+    'choosing-a-method': {
+      question: 'मैं कौन-सा तरीका चुनूँ - LMP या डिलीवरी की तारीख़?',
+      answer:
+        'अगर आपको अपनी आख़िरी माहवारी का पहला दिन पता है तो "आख़िरी माहवारी (LMP)" चुनें - यह सबसे आम और मानक तरीका है। अगर आपके पास किसी पिछले अल्ट्रासाउंड या गणना से डिलीवरी की तारीख़ पहले से है और आप गर्भधारण की तारीख़ जानना चाहती हैं, तो "पता डिलीवरी की तारीख़" चुनें।'
+    },
+    'irregular-cycles': {
+      question: 'अगर मेरी माहवारी अनियमित हो तो?',
+      answer:
+        'अगर आपकी माहवारी अनियमित है, तो LMP वाला तरीका कम सटीक हो सकता है। ऐसे में आपके डॉक्टर का अल्ट्रासाउंड से किया गया अनुमान ज़्यादा भरोसेमंद होगा। हमारा कैलकुलेटर 28 दिन का मानक चक्र और दिन 14 पर ओव्यूलेशन मानता है, जब तक आप अपने चक्र की औसत लंबाई (और चाहें तो ल्यूटियल फ़ेज़) न डालें; तब डिलीवरी की तारीख़ पारिख नियम से बदली जाती है।'
+    },
+    'tracking-progress': {
+      question: 'क्या मैं गर्भावस्था के दौरान यह कैलकुलेटर कई बार इस्तेमाल कर सकती हूँ?',
+      answer:
+        'हाँ! आप पूरी गर्भावस्था में अपनी प्रगति देखने, यह जानने कि आप कितने सप्ताह की गर्भवती हैं और डिलीवरी की तारीख़ तक के दिन गिनने के लिए कैलकुलेटर इस्तेमाल कर सकती हैं। परिणाम आज की तारीख़ के हिसाब से बदलते हैं, या आप "इस तारीख़ तक की प्रगति दिखाएँ" में कोई तारीख़ चुनकर देख सकती हैं कि किसी आने वाली तारीख़ पर आप कितनी आगे होंगी या किसी पिछली तारीख़ पर कितनी आगे थीं।'
+    },
+    'sharing-results': {
+      question: 'मैं अपने परिणाम कैसे शेयर करूँ?',
+      answer:
+        'परिणाम निकालने के बाद आपको "अपने परिणाम शेयर करें" वाला हिस्सा दिखेगा। आप डिवाइस का शेयर फ़ीचर (मोबाइल पर) इस्तेमाल कर सकती हैं या तैयार टेक्स्ट कॉपी करके सोशल मीडिया पर, परिवार के साथ शेयर कर सकती हैं या अपने रिकॉर्ड के लिए रख सकती हैं। "कैलेंडर में जोड़ें" एक .ics फ़ाइल डाउनलोड करता है जिसमें डिलीवरी की तारीख़, हर तिमाही की शुरुआत और जाँचों का समय होता है, और जिसे आप Google Calendar, Apple Calendar या Outlook में इम्पोर्ट कर सकती हैं। "सारांश प्रिंट करें" अगली जाँच पर ले जाने के लिए एक पेज का सारांश प्रिंट करता है। शेयर किए गए लिंक कैलकुलेटर को आपके परिणामों के साथ खोलते हैं; अपनी बाकी तारीख़ें निजी रखने के लिए "केवल डिलीवरी की तारीख़ शेयर करें" चुनें।'
+    },
+    offline: {
+      question: 'क्या कैलकुलेटर बिना इंटरनेट के चलता है?',
+      answer:
+        'हाँ। सारी गणनाएँ आपके डिवाइस पर होती हैं, और पहली बार खोलने के बाद आपका ब्राउज़र कैलकुलेटर को सेव कर लेता है, ताकि यह बिना इंटरनेट के भी खुले, एयरप्लेन मोड में भी। इसे होम स्क्रीन पर जोड़ने के लिए Android पर Chrome में "ऐप इंस्टॉल करें" या "होम स्क्रीन पर जोड़ें" चुनें, या iPhone और iPad पर Safari में शेयर दबाकर "होम स्क्रीन पर जोड़ें" चुनें।'
+    },
+    'dark-mode': {
+      question: 'क्या डार्क मोड है?',
+      answer:
+        'हाँ। कैलकुलेटर आपके डिवाइस की लाइट या डार्क सेटिंग के हिसाब से चलता है, और अगर आपने डिवाइस पर ज़्यादा कंट्रास्ट माँगा है तो हाई कंट्रास्ट थीम पर चला जाता है। ख़ुद थीम चुनने के लिए पेज के ऊपर भाषा मेन्यू के पास वाला थीम बटन इस्तेमाल करें; आपकी पसंद इस डिवाइस पर याद रखी जाती है।'
+    },
+    trimesters: {
+      question: 'गर्भावस्था की तीन तिमाहियाँ कौन-सी हैं?',
+      answer:
+        'गर्भावस्था तीन तिमाहियों में बँटी होती है: पहली तिमाही (सप्ताह 1-12), दूसरी तिमाही (सप्ताह 13-27) और तीसरी तिमाही (सप्ताह 28-40)। हर तिमाही में विकास के अलग पड़ाव और आम लक्षण होते हैं।'
+    },
+    'prenatal-care': {
+      question: 'प्रसव-पूर्व देखभाल कब शुरू करनी चाहिए?',
+      answer:
+        'गर्भवती होने का पता चलते ही अपनी पहली प्रसव-पूर्व जाँच तय करें, बेहतर होगा कि गर्भावस्था के 8-10 सप्ताह तक। आपकी सेहत और शिशु के विकास पर नज़र रखने के लिए जल्दी शुरू की गई प्रसव-पूर्व देखभाल ज़रूरी है।'
+    },
+    'born-early-or-late': {
+      question: 'अगर मेरा शिशु डिलीवरी की तारीख़ से पहले या बाद में पैदा हो तो?',
+      answer:
+        'यह बिल्कुल सामान्य है! 37 से 42 सप्ताह के बीच पैदा होने वाले शिशु पूर्ण अवधि के माने जाते हैं। केवल लगभग 3% शिशु ठीक डिलीवरी की तारीख़ पर आते हैं, और ज़्यादातर उससे 2 सप्ताह के अंदर पैदा होते हैं। आपके परिणामों में एक चार्ट है जो दिखाता है कि शिशु आमतौर पर कब आते हैं, किन तारीख़ों के बीच 80% और 90% जन्म होते हैं, और आपकी चुनी किसी भी तारीख़ तक डिलीवरी हो चुकने की संभावना कितनी है। डिलीवरी की तारीख़ पास आने और बीतने पर आपके डॉक्टर आप पर क़रीबी नज़र रखेंगे।'
+    },
+    'medical-advice': {
+      question: 'क्या गर्भावस्था की योजना के लिए केवल इसी कैलकुलेटर पर भरोसा करना चाहिए?',
+      answer:
+        'नहीं, यह कैलकुलेटर अनुमान के लिए एक उपयोगी टूल है, लेकिन गर्भावस्था की सटीक गणना, प्रसव-पूर्व देखभाल की योजना और किसी भी चिकित्सा फ़ैसले के लिए हमेशा अपने डॉक्टर से सलाह लें। स्वस्थ गर्भावस्था के लिए पेशेवर चिकित्सा सलाह ज़रूरी है।'
+    }
+  }
+};
@@ -0,0 +1,206 @@
+import { FetalDevelopmentText } from '../fetalDevelopment';
+
+// Hindi text for each week of FETAL_DEVELOPMENT; the measurements are shared with the English entries
+export const FETAL_DEVELOPMENT_HI: Record<number, FetalDevelopmentText> = {
+  4: {
+    sizeComparison: 'खसखस का दाना',
+    developments: ['निषेचित अंडा गर्भाशय की परत में जुड़ चुका है', 'कोशिकाएँ उन परतों में बँट रही हैं जिनसे हर अंग बनेगा'],
+    maternalChanges: ['माहवारी की तारीख़ के आसपास घर पर किया गया प्रेग्नेंसी टेस्ट पॉज़िटिव आ सकता है']
+  },
+  5: {
+    sizeComparison: 'तिल का दाना',
+    developments: ['न्यूरल ट्यूब बनना शुरू होती है, जिससे दिमाग़ और रीढ़ की हड्डी बनेंगे', 'दिल का विकास शुरू होता है'],
+    maternalChanges: ['स्तनों में दर्द, थकान और बार-बार पेशाब आना शुरुआती आम लक्षण हैं']
+  },
+  6: {
+    sizeComparison: 'मसूर का दाना',
+    developments: [
+      'ट्रांसवेजाइनल अल्ट्रासाउंड में अक्सर दिल की धड़कन दिख जाती है',
+      'छोटे उभार दिखते हैं जो आगे चलकर हाथ और पैर बनेंगे'
+    ],
+    maternalChanges: ['जी मिचलाना, उल्टी के साथ या बिना, अक्सर इसी समय शुरू होता है']
+  },
+  7: {
+    sizeComparison: 'ब्लूबेरी',
+    developments: ['दिमाग़ तेज़ी से बढ़ रहा है', 'गुर्दे, लिवर और फेफड़े बन रहे हैं'],
+    maternalChanges: ['कुछ खानों से अरुचि और सूँघने की बढ़ी हुई क्षमता आम है']
+  },
+  8: {
+    sizeComparison: 'रसभरी',
+    developments: ['हाथ और पैर की उँगलियाँ बनना शुरू होती हैं', 'भ्रूण छोटी-छोटी हलचल करने लगता है जो अभी महसूस नहीं होती'],
+    maternalChanges: ['आपका गर्भाशय बढ़ गया है, हालाँकि वह अभी भी प्यूबिक हड्डी के पीछे छिपा है']
+  },
+  9: {
+    sizeComparison: 'अंगूर',
+    developments: ['सभी ज़रूरी अंग बनना शुरू हो चुके हैं', 'पलकें और बाहरी कान आकार ले रहे हैं'],
+    maternalChanges: ['हार्मोन में बदलाव से मूड बदलना और पेट फूलना हो सकता है']
+  },
+  10: {
+    sizeComparison: 'कुमक्वाट',
+    developments: ['अब से भ्रूण को फ़ीटस कहा जाता है', 'छोटे नाखून उगने लगते हैं और जोड़ मुड़ सकते हैं'],
+    maternalChanges: ['ख़ून की मात्रा बढ़ रही है, जिससे सिरदर्द या चक्कर आ सकते हैं']
+  },
+  11: {
+    sizeComparison: 'अंजीर',
+    developments: ['मसूड़ों में दाँतों की कलियाँ बन रही हैं', 'सिर अभी भी शरीर की लंबाई का लगभग आधा है'],
+    maternalChanges: ['कुछ लोगों को चेहरे की त्वचा गहरी या पेट पर नीचे की ओर एक रेखा दिखती है']
+  },
+  12: {
+    sizeComparison: 'नींबू',
+    developments: ['रिफ़्लेक्स दिखने लगते हैं: उँगलियाँ खुल और बंद हो सकती हैं', 'आँतें गर्भनाल से पेट के अंदर आ जाती हैं'],
+    maternalChanges: ['पहली तिमाही के आख़िर तक जी मिचलाना और थकान अक्सर कम होने लगते हैं']
+  },
+  13: {
+    sizeComparison: 'बड़ा नींबू',
+    developments: ['स्वर-तंतु बन रहे हैं', 'हाथ और पैर की हड्डियाँ सख़्त होने लगी हैं'],
+    maternalChanges: ['गर्भाशय पेल्विस से ऊपर उठता है और पेट थोड़ा उभरा हुआ दिखने लग सकता है']
+  },
+  14: {
+    sizeComparison: 'आड़ू',
+    developments: ['लैनुगो नाम के महीन बाल शरीर को ढकने लगते हैं', 'चेहरा आँखें सिकोड़ने जैसे भाव बना सकता है'],
+    maternalChanges: ['दूसरी तिमाही में बहुत से लोग ज़्यादा ऊर्जावान महसूस करते हैं']
+  },
+  15: {
+    sizeComparison: 'सेब',
+    developments: ['कंकाल सख़्त होता जा रहा है', 'बंद पलकों से भी शिशु रोशनी महसूस कर सकता है'],
+    maternalChanges: ['ख़ून का बहाव बढ़ने से नाक बंद होना या नकसीर आ सकती है']
+  },
+  16: {
+    sizeComparison: 'एवोकाडो',
+    developments: ['आँखें हिलने लगती हैं', 'दिल रोज़ लगभग 25 लीटर ख़ून पंप करता है'],
+    maternalChanges: ['कुछ लोगों को, ख़ासकर दूसरी या बाद की गर्भावस्था में, इसी समय पहली बार हल्की फड़कन महसूस होती है']
+  },
+  17: {
+    sizeComparison: 'नाशपाती',
+    developments: ['त्वचा के नीचे चर्बी जमा होने लगती है', 'गर्भनाल मोटी और मज़बूत हो रही है'],
+    maternalChanges: ['गर्भाशय बढ़ने के साथ राउंड लिगामेंट का दर्द, यानी पेट के निचले हिस्से में तेज़ खिंचाव, आम है']
+  },
+  18: {
+    sizeComparison: 'शिमला मिर्च',
+    developments: ['कान अपनी आख़िरी जगह पर हैं और सुनने की क्षमता विकसित हो रही है', 'अल्ट्रासाउंड में अक्सर जननांग दिख जाते हैं'],
+    maternalChanges: ['एनॉमली स्कैन आमतौर पर 18 से 22 सप्ताह के बीच होता है']
+  },
+  19: {
+    sizeComparison: 'आम',
+    developments: ['वर्निक्स नाम की मोम जैसी परत त्वचा को बचाने लगती है', 'सोने और जागने के चक्र बन रहे हैं'],
+    maternalChanges: ['शरीर की मुद्रा बदलने से कमर दर्द और पैरों में ऐंठन शुरू हो सकती है']
+  },
+  20: {
+    sizeComparison: 'केला',
+    developments: ['शिशु एम्नियोटिक द्रव निगलता है, जिससे पाचन तंत्र परिपक्व होता है', 'आधा सफ़र पूरा'],
+    maternalChanges: ['गर्भाशय का ऊपरी हिस्सा लगभग नाभि की ऊँचाई पर है']
+  },
+  21: {
+    sizeComparison: 'गाजर',
+    developments: ['हलचल ज़्यादा तेज़ और तालमेल वाली हो रही है', 'बोन मैरो ख़ून की कोशिकाएँ बनाने लगता है'],
+    maternalChanges: ['ज़्यादातर लोग अब शिशु की हलचल महसूस कर सकते हैं, अक्सर लात या करवट के रूप में']
+  },
+  22: {
+    sizeComparison: 'पपीता',
+    developments: ['भौंहें और पलकों के बाल दिखने लगते हैं', 'छूने का एहसास विकसित हो रहा है और शिशु गर्भनाल पकड़ सकता है'],
+    maternalChanges: ['पेट, स्तनों या जाँघों पर स्ट्रेच मार्क्स दिख सकते हैं']
+  },
+  23: {
+    sizeComparison: 'चकोतरा',
+    developments: ['साँस लेने की तैयारी में फेफड़ों की रक्त वाहिकाएँ विकसित हो रही हैं', 'शिशु आपकी आवाज़ जैसी आवाज़ें सुन सकता है'],
+    maternalChanges: ['टखनों और पैरों में सूजन आम है, ख़ासकर दिन ढलने पर']
+  },
+  24: {
+    sizeComparison: 'मक्के का भुट्टा',
+    developments: [
+      'फेफड़े सर्फ़ेक्टेंट बनाने लगते हैं, जो जन्म के बाद उन्हें फूलने में मदद करेगा',
+      'स्वाद कलिकाएँ काम करने लगी हैं'
+    ],
+    maternalChanges: ['गर्भावधि मधुमेह के लिए ग्लूकोज़ टेस्ट आमतौर पर 24 से 28 सप्ताह के बीच होता है']
+  },
+  25: {
+    sizeComparison: 'फूलगोभी',
+    developments: ['सिर के बाल बढ़ रहे हैं और उनमें रंग आ सकता है', 'शिशु जानी-पहचानी आवाज़ों पर प्रतिक्रिया देता है'],
+    maternalChanges: ['गर्भाशय के पेट और आँतों पर दबाव से सीने में जलन और कब्ज़ बढ़ सकते हैं']
+  },
+  26: {
+    sizeComparison: 'सलाद पत्ते का गुच्छा',
+    developments: ['आँखें खुलने लगी हैं', 'सुनने और देखने से जुड़ी दिमाग़ी गतिविधि बढ़ रही है'],
+    maternalChanges: ['पेट बढ़ने के साथ नींद मुश्किल हो सकती है; करवट लेकर लेटने से मदद मिल सकती है']
+  },
+  27: {
+    sizeComparison: 'पत्ता गोभी',
+    developments: ['शिशु को हिचकी आ सकती है, जो छोटे-छोटे लयबद्ध झटकों जैसी लगती है', 'नियमित नींद के पैटर्न बन रहे हैं'],
+    maternalChanges: ['नवजात को काली खाँसी से बचाने के लिए 27 सप्ताह से Tdap टीके की सलाह दी जाती है']
+  },
+  28: {
+    sizeComparison: 'बैंगन',
+    developments: ['आँखें झपक सकती हैं और शिशु रोशनी की ओर मुड़ सकता है', 'चर्बी जमा होती रहती है, जिससे त्वचा चिकनी होती है'],
+    maternalChanges: ['तीसरी तिमाही शुरू होती है; प्रसव-पूर्व जाँचें आमतौर पर जल्दी-जल्दी होने लगती हैं']
+  },
+  29: {
+    sizeComparison: 'बटरनट स्क्वैश',
+    developments: ['मांसपेशियाँ और फेफड़े परिपक्व होते जा रहे हैं', 'विकसित होते दिमाग़ के लिए जगह बनाने को खोपड़ी बढ़ रही है'],
+    maternalChanges: ['लातें और धक्के ज़्यादा तेज़ हैं; अपने डॉक्टर से पूछें कि क्या हलचल गिननी चाहिए']
+  },
+  30: {
+    sizeComparison: 'बड़ा खीरा',
+    developments: ['लाल रक्त कोशिकाएँ बनाने का काम अब पूरी तरह बोन मैरो करता है', 'लैनुगो बाल झड़ने लगते हैं'],
+    maternalChanges: ['गर्भाशय के डायाफ्राम को ऊपर दबाने से साँस फूलना आम है']
+  },
+  31: {
+    sizeComparison: 'नारियल',
+    developments: ['दिमाग़ तेज़ी से जुड़ाव बना रहा है', 'शिशु सिर को एक ओर से दूसरी ओर घुमा सकता है'],
+    maternalChanges: ['अभ्यास वाले संकुचन (ब्रैक्सटन हिक्स) से कभी-कभी पेट कस सकता है']
+  },
+  32: {
+    sizeComparison: 'शकरकंद जैसा जिकामा',
+    developments: ['हाथ और पैर के नाखून उग आए हैं', 'शिशु साँस लेने की हरकतों का अभ्यास करता है'],
+    maternalChanges: ['शिशु के मूत्राशय पर दबाव से बार-बार पेशाब आना फिर शुरू हो सकता है']
+  },
+  33: {
+    sizeComparison: 'अनानास',
+    developments: ['प्लेसेंटा के ज़रिए प्रतिरक्षा तंत्र को आपसे एंटीबॉडी मिल रही हैं', 'खोपड़ी को छोड़कर हड्डियाँ सख़्त हो रही हैं'],
+    maternalChanges: ['प्रसव के लिए जोड़ ढीले होने से कूल्हों और पेल्विस में दर्द आम है']
+  },
+  34: {
+    sizeComparison: 'ख़रबूज़ा',
+    developments: ['केंद्रीय तंत्रिका तंत्र और फेफड़े परिपक्व होते जा रहे हैं', 'बहुत से शिशु अब तक सिर नीचे की ओर घूम चुके हैं'],
+    maternalChanges: ['धुंधला दिखना या चेहरे और हाथों में सूजन प्री-एक्लेम्पसिया का लक्षण हो सकता है: अपने डॉक्टर को बताएँ']
+  },
+  35: {
+    sizeComparison: 'हनीड्यू ख़रबूज़ा',
+    developments: ['गुर्दे पूरी तरह विकसित हो चुके हैं', 'अब से ज़्यादातर बढ़त वज़न में होती है'],
+    maternalChanges: ['36 से 38 सप्ताह के बीच आपको ग्रुप B स्ट्रेप के स्वैब टेस्ट के लिए कहा जा सकता है']
+  },
+  36: {
+    sizeComparison: 'रोमेन सलाद का गुच्छा',
+    developments: ['शिशु का ज़्यादातर लैनुगो और वर्निक्स उतर रहा है', 'चूसने और निगलने का अच्छा अभ्यास हो चुका है'],
+    maternalChanges: ['शिशु पेल्विस में नीचे उतर सकता है, जिससे साँस लेना आसान पर चलना कम आरामदेह हो जाता है']
+  },
+  37: {
+    sizeComparison: 'चुकंदर के पत्तों का गुच्छा',
+    developments: ['37 सप्ताह से शिशु को अर्ली टर्म माना जाता है', 'फेफड़े हवा में साँस लेने के लिए लगभग तैयार हैं'],
+    maternalChanges: ['प्रसव के लक्षणों पर ध्यान दें: नियमित संकुचन, पानी की थैली फटना या ख़ून आना']
+  },
+  38: {
+    sizeComparison: 'हरा प्याज़ (लीक)',
+    developments: ['जन्म तक दिमाग़ और फेफड़े परिपक्व होते रहते हैं', 'पकड़ मज़बूत है'],
+    maternalChanges: ['म्यूकस प्लग निकल सकता है, जो इस बात का संकेत है कि गर्भाशय ग्रीवा तैयार हो रही है']
+  },
+  39: {
+    sizeComparison: 'छोटा तरबूज़',
+    developments: ['39 सप्ताह से शिशु पूर्ण अवधि का होता है', 'चर्बी की परत जन्म के बाद शरीर का तापमान सँभालने में मदद करती है'],
+    maternalChanges: ['थकान और बेचैनी सामान्य हैं; जब भी हो सके आराम करें']
+  },
+  40: {
+    sizeComparison: 'छोटा कद्दू',
+    developments: ['शिशु जन्म के लिए तैयार है', 'खोपड़ी की हड्डियाँ अभी जुड़ी नहीं हैं, इसलिए जन्म के समय सिर आकार बदल सकता है'],
+    maternalChanges: ['केवल थोड़े से शिशु ठीक डिलीवरी की तारीख़ पर आते हैं; उसके आसपास के सप्ताह भी पूरी तरह सामान्य हैं']
+  },
+  41: {
+    sizeComparison: 'तरबूज़',
+    developments: ['नाखून उँगलियों के सिरों से आगे बढ़ सकते हैं', 'वर्निक्स न रहने से त्वचा ज़्यादा रूखी हो सकती है'],
+    maternalChanges: ['आपके डॉक्टर शायद आपकी और शिशु की जाँच ज़्यादा बार करेंगे और इंडक्शन पर बात कर सकते हैं']
+  },
+  42: {
+    sizeComparison: 'बड़ा तरबूज़',
+    developments: ['42 सप्ताह के बाद प्लेसेंटा कम अच्छी तरह काम करता है, इसलिए शिशु पर क़रीबी निगरानी ज़रूरी है'],
+    maternalChanges: ['अगर अभी तक नहीं किया है, तो आज ही अपने डॉक्टर या प्रसूति अस्पताल से संपर्क करें']
+  }
+};
@@ -0,0 +1,46 @@
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { I18nContext, I18nContextValue } from './context';
+import { LOCALES, Locale, isLocale, matchLocale } from './locales';
+import { formatLocaleDate, translate } from './translate';
+
+const LOCALE_STORAGE_KEY = 'pregnancy-calculator:locale';
+
+// An explicit choice from the language switcher wins over the browser's language settings
+const getInitialLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage blocked; fall through to the browser languages
+  }
+  return matchLocale(navigator.languages ?? [navigator.language]);
+};
+
+function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState(getInitialLocale);
+
+  // lang drives fonts, hyphenation and screen reader voices; dir mirrors the layout for RTL languages
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = LOCALES[locale].dir;
+  }, [locale]);
+
+  const value = useMemo((): I18nContextValue => ({
+    locale,
+    localeInfo: LOCALES[locale],
+    setLocale: (next) => {
+      setLocaleState(next);
+      try {
+        window.localStorage.setItem(LOCALE_STORAGE_KEY, next);
+      } catch {
+        // The choice still applies for this visit
+      }
+    },
+    t: (key, params) => translate(locale, key, params),
+    formatDate: (date, style) => formatLocaleDate(date, locale, style)
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export default I18nProvider;
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { PlainDate } from '../lib/plainDate';
+import { Locale, LocaleInfo } from './locales';
+import { DateStyle, MessageParams, PluralKey } from './translate';
+import { MessageKey } from './messages/en';
+
+export interface I18nContextValue {
+  locale: Locale;
+  localeInfo: LocaleInfo;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey | PluralKey, params?: MessageParams) => string;
+  formatDate: (date: PlainDate, style?: DateStyle) => string;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider');
+  return context;
+};
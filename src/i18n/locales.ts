@@ -0,0 +1,33 @@
+export type Locale = 'en' | 'es' | 'hi';
+
+export interface LocaleInfo {
+  // Shown in the language switcher, in the language itself
+  label: string;
+  // Passed to Intl for dates, numbers and plural rules
+  intlLocale: string;
+  dir: 'ltr' | 'rtl';
+  // First day of the calendar week, 0 = Sunday ... 6 = Saturday (Intl has no portable way to ask)
+  weekStart: number;
+}
+
+// Adding Arabic or Hebrew means a catalog plus an entry here with dir: 'rtl'; layouts use logical
+// (start/end) spacing classes so they mirror automatically
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { label: 'English', intlLocale: 'en-US', dir: 'ltr', weekStart: 0 },
+  es: { label: 'Español', intlLocale: 'es-ES', dir: 'ltr', weekStart: 1 },
+  hi: { label: 'हिन्दी', intlLocale: 'hi-IN', dir: 'ltr', weekStart: 0 }
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: string | null): value is Locale =>
+  (Object.keys(LOCALES) as (string | null)[]).includes(value);
+
+// Picks the first supported language from the browser's preferences, matching on the language subtag
+export const matchLocale = (preferred: readonly string[]): Locale => {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+};
@@ -0,0 +1,680 @@
+// The source catalog: every key must exist here, other locales fall back to it key by key.
+// Placeholders are written {name}; plural messages have .one/.other (and any other CLDR category) variants.
+export const en = {
+  'app.name': 'Pregnancy Calculator',
+  'app.tagline': 'Due Date & Conception Calculator',
+
+  'meta.home.title': 'Pregnancy Due Date Calculator – Know Your Due & Conception Dates',
+  'meta.home.description':
+    'Instantly calculate your estimated due date and conception date using our pregnancy calculator based on LMP or due date. Free, accurate, and easy to use.',
+  'meta.about.title': 'About This Pregnancy Due Date Calculator | {site}',
+  'meta.about.description':
+    'How our pregnancy calculator estimates due dates from your last period, conception, IVF transfer or an ultrasound scan.',
+  'meta.faq.title': 'Pregnancy Calculator FAQ | {site}',
+  'meta.faq.description':
+    'Answers to common questions about due date accuracy, gestational age, trimesters and using the pregnancy calculator.',
+  'meta.disclaimer.title': 'Medical Disclaimer | {site}',
+  'meta.disclaimer.description':
+    'The pregnancy calculator is for information only and does not replace advice from your healthcare provider.',
+  'meta.privacy.title': 'Privacy Policy | {site}',
+  'meta.privacy.description': 'How the pregnancy calculator handles the dates you enter and any information you share with us.',
+  'meta.contact.title': 'Contact Us | {site}',
+  'meta.contact.description': 'Get in touch with the pregnancy calculator team with questions, feedback or technical issues.',
+  'meta.notFound.title': 'Page Not Found | {site}',
+  'meta.notFound.description': 'The page you were looking for could not be found.',
+
+  'nav.home': 'Calculator',
+  'nav.about': 'About Tool',
+  'nav.faq': 'FAQ',
+  'nav.disclaimer': 'Disclaimer',
+  'nav.privacy': 'Privacy',
+  'nav.contact': 'Contact',
+  'nav.toggleMenu': 'Toggle menu',
+  'nav.language': 'Language',
+  'nav.theme': 'Theme',
+  'theme.system': 'Match device',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.contrast': 'High contrast',
+
+  'hero.title': 'Free Pregnancy Due Date Calculator',
+  'hero.intro':
+    'Calculate your estimated due date and conception date instantly. Our accurate pregnancy calculator helps you track your pregnancy journey with precise calculations based on medical standards.',
+  'hero.accurate': 'Accurate Calculations',
+  'hero.standards': 'Medical Standards',
+  'hero.sharing': 'Easy Sharing',
+
+  'method.heading': 'Choose Your Calculation Method',
+  'method.groupLabel': 'Calculation method',
+  'method.lmp.label': 'Last Menstrual Period (LMP)',
+  'method.lmp.description': 'Most common method - enter the first day of your last period',
+  'method.dueDate.label': 'Known Due Date',
+  'method.dueDate.description': 'If you already know your due date from a previous calculation',
+  'method.conception.label': 'Conception / Ovulation Date',
+  'method.conception.description': 'If you know when you ovulated or conceived',
+  'method.eggRetrieval.label': 'IVF Egg Retrieval',
+  'method.eggRetrieval.description': 'Use the date your eggs were retrieved and fertilized',
+  'method.embryoTransfer.label': 'IVF Embryo Transfer',
+  'method.embryoTransfer.description': 'Use your transfer date and the age of the embryo',
+  'method.ultrasound.label': 'Ultrasound Dating Scan',
+  'method.ultrasound.description': 'Use the gestational age or CRL measured at an early scan',
+
+  'field.optional': '(optional)',
+  'field.lmp.label': 'First Day of Last Menstrual Period',
+  'field.lmp.help': 'Select the first day of your last menstrual period to calculate your due date',
+  'field.cycleLength.label': 'Average Cycle Length',
+  'field.cycleLength.help': 'Days from the start of one period to the next ({min}-{max})',
+  'field.lutealPhase.label': 'Luteal Phase Length',
+  'field.lutealPhase.help': 'Days from ovulation to your next period, if you track it ({min}-{max})',
+  'field.daysPlaceholder': '{count} days',
+  'field.dueDate.label': 'Your Due Date',
+  'field.dueDate.help': 'Enter your known due date to calculate conception date and current week',
+  'field.conception.label': 'Conception or Ovulation Date',
+  'field.conception.help': 'Enter the day you ovulated or conceived, e.g. from an ovulation test or tracking app',
+  'field.retrieval.label': 'Egg Retrieval Date',
+  'field.retrieval.help': 'Fertilization happens on the day of retrieval, so it counts as the conception date',
+  'field.transfer.label': 'Embryo Transfer Date',
+  'field.transfer.help': 'Enter the date your embryo was transferred',
+  'field.embryoAge.legend': 'Embryo Age at Transfer',
+  'field.embryoAge.day': 'Day {age}',
+  'field.embryoAge.cleavage': 'Cleavage stage',
+  'field.embryoAge.blastocyst': 'Blastocyst',
+  'field.scanDate.label': 'Date of Dating Scan',
+  'field.scanDate.help': 'Enter the date the ultrasound was performed',
+  'field.scanResult.legend': 'Scan Result',
+  'field.scanResult.gestationalAge': 'Gestational Age',
+  'field.scanResult.gestationalAgeHint': 'Weeks + days from the report',
+  'field.scanResult.crl': 'Crown-Rump Length',
+  'field.scanResult.crlHint': 'CRL in millimetres',
+  'field.scanWeeks.label': 'Weeks',
+  'field.scanDays.label': 'Days',
+  'field.crl.label': 'Crown-Rump Length (mm)',
+  'field.crl.equivalent': 'Equivalent to {age} on the scan date (Robinson formula)',
+  'field.crl.range': 'CRL dating is valid from {min} to {max} mm (up to about 14 weeks)',
+  'field.scanLmp.label': 'First Day of Last Menstrual Period (optional)',
+  'field.scanLmp.help': 'Add your LMP to compare it with the scan (assuming a standard 28-day cycle); we pick the due date using ACOG redating guidance',
+  'field.referenceDate.label': 'Show Progress As Of',
+  'field.referenceDate.today': 'Today',
+  'field.referenceDate.help': 'See how far along you will be on a future date, or were on a past one. Leave blank for today.',
+  'field.babies.legend': 'Number of Babies',
+  'field.babies.1': 'One baby',
+  'field.babies.2': 'Twins',
+  'field.babies.3': 'Triplets',
+  'field.twinType.label': 'Type of Twins',
+  'field.twinType.dichorionic': 'Dichorionic (separate placentas)',
+  'field.twinType.monochorionic': 'Monochorionic diamniotic (shared placenta, separate sacs)',
+  'field.twinType.monoamniotic': 'Monoamniotic (shared placenta and sac)',
+  'field.twinType.help': "Your first-trimester scan shows this. If you're not sure, leave it as dichorionic, the most common type.",
+
+  'validation.invalidDate': 'Please enter a complete, valid date.',
+  'validation.futureDate': 'This date is in the future. Please enter a date on or before today.',
+  'validation.range.days': 'Please enter a whole number from {min} to {max} days.',
+  'validation.range.weeks': 'Please enter a whole number from {min} to {max} weeks.',
+  'validation.range.mm': 'Please enter a value from {min} to {max} mm.',
+  'validation.optionalRange.days': 'Enter a whole number from {min} to {max} days; until then the standard value is used.',
+  'validation.optionalRange.weeks': 'Enter a whole number from {min} to {max} weeks; until then the standard value is used.',
+  'validation.optionalRange.mm': 'Enter a value from {min} to {max} mm; until then the standard value is used.',
+  'validation.beyondRange':
+    'This works out to {age}, more than {weeks} weeks of pregnancy. The date may be wrong, or your baby may already have been born.',
+  'validation.dueDateTooFar':
+    'This due date is more than {weeks} weeks away. A due date is never more than 40 weeks after your last period started.',
+  'validation.beforeLmp':
+    'This works out to before the first day of the last period, when the pregnancy had not yet started. Please check the dates.',
+  'validation.lmpAfterScan': 'Your LMP must be before the date of the scan.',
+
+  'gestation.dichorionic': 'Dichorionic twins',
+  'gestation.monochorionic': 'Monochorionic diamniotic twins',
+  'gestation.monoamniotic': 'Monoamniotic twins',
+  'gestation.triplets': 'Triplets',
+
+  'unit.day.one': '{count} day',
+  'unit.day.other': '{count} days',
+  'unit.week.one': '{count} week',
+  'unit.week.other': '{count} weeks',
+  'unit.completedWeek.one': '{count} completed week',
+  'unit.completedWeek.other': '{count} completed weeks',
+
+  'saved.title': 'Saved Pregnancies',
+  'saved.storageFailed': 'Your browser did not allow us to save on this device. Private browsing or full storage can cause this.',
+  'saved.intro':
+    'Save calculations on this device to come back to them later, such as "Baby #2" or "Sister\'s pregnancy". Nothing is stored until you turn this on, and saved calculations stay in this browser.',
+  'saved.enable': 'Turn on saving',
+  'saved.name.label': 'Name this calculation',
+  'saved.name.placeholder': 'e.g. Baby #2',
+  'saved.save': 'Save',
+  'saved.update': 'Update "{name}"',
+  'saved.saveAsNew': 'Save as new',
+  'saved.enterDates': 'Enter your dates above to save a calculation.',
+  'saved.list': 'Saved calculations',
+  'saved.openBadge': 'Open',
+  'saved.open': 'Open',
+  'saved.open.label': 'Open {name}',
+  'saved.delete': 'Delete',
+  'saved.delete.label': 'Delete {name}',
+  'saved.disable': 'Turn off saving and delete all saved calculations',
+  'saved.disable.confirm': 'Delete all saved calculations from this device?',
+  'saved.details': 'Due {date} · {method}',
+  'saved.details.babies': 'Due {date} · {method} · {babies}',
+
+  'notifications.title': 'Progress Notifications',
+  'notifications.failed':
+    'Your browser did not allow us to schedule notifications on this device. Private browsing or full storage can cause this.',
+  'notifications.unsupported':
+    "This browser can't show notifications from the calculator. On iPhone and iPad, add the calculator to your home screen first, then open it from there.",
+  'notifications.denied':
+    "Notifications are blocked for this site. To turn them on, allow notifications in your browser's site settings and reload the page.",
+  'notifications.intro':
+    'Get a reminder as your pregnancy progresses, such as "You\'re 20 weeks today" or "Opens this week: Glucose tolerance test". Reminders are scheduled and shown by your browser on this device; nothing is sent to a server.',
+  'notifications.frequency': 'How often',
+  'notifications.frequency.weekly': 'Weekly',
+  'notifications.frequency.weekly.hint': 'On the first day of each new week, e.g. "You\'re 20 weeks today"',
+  'notifications.frequency.daily': 'Daily',
+  'notifications.frequency.daily.hint': 'Every day, with screening windows on the day they open',
+  'notifications.enable': 'Turn on notifications',
+  'notifications.enterDates': 'Enter your dates above to turn on notifications.',
+  'notifications.on': 'Notifications are on for the pregnancy:',
+  'notifications.tracked': 'due {date}',
+  'notifications.arrival': 'They arrive when your browser next checks, which may be when you open the calculator.',
+  'notifications.trackCurrent': 'Follow the calculation above instead',
+  'notifications.disable': 'Turn off notifications',
+  'notifications.message.weeks': "You're {weeks} weeks today",
+  'notifications.message.age': "You're {age} today",
+  'notifications.message.milestone.today': 'Today: {label}.',
+  'notifications.message.milestone.thisWeek': 'This week: {label}.',
+  'notifications.message.window.today': 'Opens today: {label}.',
+  'notifications.message.window.thisWeek': 'Opens this week: {label}.',
+  'notifications.message.dueToday': 'Today is your estimated due date.',
+  'notifications.message.until.one': '{count} day until your due date.',
+  'notifications.message.until.other': '{count} days until your due date.',
+  'notifications.message.past.one': '{count} day past your due date.',
+  'notifications.message.past.other': '{count} days past your due date.',
+
+  'results.region': 'Calculation Results',
+  'results.dueDate.title': 'Estimated Due Date',
+  'results.daysRemaining.one': '{count} day remaining',
+  'results.daysRemaining.other': '{count} days remaining',
+  'results.dueToday': 'Due today!',
+  'results.daysPastDue.one': '{count} day past due',
+  'results.daysPastDue.other': '{count} days past due',
+  'results.calendarWeek': 'Calendar week {start} – {end}',
+  'results.lateTerm': '41 weeks (late term)',
+  'results.postTerm': '42 weeks (post-term)',
+  'results.conception.title': 'Estimated Conception Date',
+  'results.conception.adjusted': 'Adjusted for ovulation on cycle day {day}',
+  'results.conception.fertilization': 'Date of fertilization',
+  'results.conception.approximate': 'Approximate date of conception',
+  'results.deliveryWindow.title': 'Typical Delivery Window · {label}',
+  'results.deliveryWindow.twins':
+    '{start} to {end}. Twins are usually born earlier than the 40-week due date, which is still used to count weeks of pregnancy. Your care team will plan timing for your pregnancy.',
+  'results.deliveryWindow.triplets':
+    '{start} to {end}. Triplets are usually born earlier than the 40-week due date, which is still used to count weeks of pregnancy. Your care team will plan timing for your pregnancy.',
+  'results.progress.title': 'Pregnancy Progress',
+  'results.progress.asOf': 'as of {date}',
+  'results.gestationalAge.pregnant': '{weeks}, {days} pregnant',
+  'results.gestationalAge.caption': '{completed} · currently in week {week}',
+  'results.stage.current': 'Current Stage',
+  'results.daysToGo': 'Days to Go',
+  'results.daysPastDue': 'Days Past Due',
+  'results.untilDueDate': 'Until due date',
+  'results.sinceDueDate': 'Since due date',
+  'results.daysToWindow': 'Days to Delivery Window',
+  'results.inWindow': 'In Delivery Window',
+  'results.windowNow': 'Now',
+  'results.untilAge': 'Until {age}',
+  'results.toDueDate': '{days} to the 40-week due date',
+
+  'redating.title': 'LMP vs. Ultrasound Dating',
+  'redating.byLmp': 'By Last Menstrual Period',
+  'redating.byUltrasound': 'By Ultrasound ({age} at scan)',
+  'redating.final': 'Final EDD',
+  'redating.chosen.lmp': 'LMP',
+  'redating.chosen.ultrasound': 'Ultrasound',
+  'redating.match': 'The scan matches your LMP exactly, so your LMP due date is kept.',
+  'redating.ahead': 'The scan measures {days} ahead of your LMP dates.',
+  'redating.behind': 'The scan measures {days} behind your LMP dates.',
+  'redating.useUltrasound':
+    'For scans {band}, ACOG recommends redating only when the difference is more than {threshold}, so the ultrasound due date is used.',
+  'redating.keepLmp':
+    'For scans {band}, ACOG recommends redating only when the difference is more than {threshold}, so your LMP due date is kept.',
+  'redating.band.before': 'before {age}',
+  'redating.band.between': 'from {start} to {end}',
+  'redating.band.from': 'at {age} or later',
+  'redating.suboptimal':
+    'This scan was done at 22 weeks or later. Without an earlier ultrasound, dating is considered less reliable; your healthcare provider may advise on how to interpret it.',
+
+  'stage.first': 'First Trimester',
+  'stage.first.range': 'Weeks 1-12',
+  'stage.second': 'Second Trimester',
+  'stage.second.range': 'Weeks 13-27',
+  'stage.third': 'Third Trimester',
+  'stage.third.range': 'Weeks 28-40',
+  'stage.overdue.range': 'Past 40 weeks',
+  'stage.lateTerm': 'Late Term',
+  'stage.lateTerm.range': 'Weeks 41-41+6',
+  'stage.postTerm': 'Post-Term',
+  'stage.postTerm.range': 'Week 42 and beyond',
+
+  'development.title': "Week {week}: Your Baby's Development",
+  'development.thisWeek': 'This week',
+  'development.previous': 'Previous week',
+  'development.next': 'Next week',
+  'development.backToCurrent': 'Back to this week',
+  'development.size': 'About the size of',
+  'development.length.crownRump': 'Length, head to bottom',
+  'development.length.crownHeel': 'Length, head to heel',
+  'development.weight': 'Weight',
+  'development.weight.underGram': 'Less than 1 g',
+  'development.baby': 'Your baby',
+  'development.body': 'Your body',
+  'development.startsAt': 'Week-by-week details start at week {week}.',
+  'development.note':
+    'Sizes are typical ranges for the end of the week. Every baby grows at their own pace; your healthcare provider can tell you how your baby is growing.',
+
+  'distribution.title': 'When Babies Arrive',
+  'distribution.intro':
+    'Only about {chance} of babies are born on their due date. This chart shows the chance of birth on each day, from a curve fitted to the lengths of over 400,000 pregnancies in a national birth registry.',
+  'distribution.parity': 'Is this your first baby?',
+  'distribution.parity.unknown': 'Not specified',
+  'distribution.parity.first': 'First baby',
+  'distribution.parity.subsequent': 'Had a baby before',
+  'distribution.chance.below': 'less than {percent}',
+  'distribution.chance.above': 'more than {percent}',
+  'distribution.chart': 'Delivery chances by day. 80% of births fall between {start} and {end}.',
+  'distribution.legend.dueDate': 'Due date',
+  'distribution.legend.likely': 'Most likely 80%',
+  'distribution.legend.veryLikely': '90%',
+  'distribution.range.likely': '80% of babies arrive between',
+  'distribution.range.veryLikely': '90% of babies arrive between',
+  'distribution.lookup': 'Chance of having delivered by',
+  'distribution.lookup.result': 'About {chance} of babies are born on or before {date}.',
+  'distribution.approximation':
+    'Source: {source}. The curve matches the average, most common and spread of pregnancy lengths in the Norwegian birth registry, dated from the last period; the difference for a first baby comes from a smaller US study. Dating by ultrasound, inductions, planned cesareans and your own health history change the picture, so ask your healthcare provider what to expect for you.',
+
+  'timeline.title': 'Week-by-Week Timeline',
+  'timeline.weeks': 'Pregnancy weeks',
+  'timeline.week': 'Week {week}',
+  'timeline.current': 'You are here',
+  'timeline.from': 'From {date} ({age})',
+
+  'milestone.nipt.label': 'NIPT blood test',
+  'milestone.nipt.description': 'Non-invasive prenatal testing for chromosomal conditions is available from 10 weeks',
+  'milestone.ntScan.label': 'Nuchal translucency (NT) scan',
+  'milestone.ntScan.description': 'First-trimester screening ultrasound',
+  'milestone.secondTrimester.label': 'Second trimester begins',
+  'milestone.secondTrimester.description': '13 completed weeks (13w0d)',
+  'milestone.anatomyScan.label': 'Anatomy scan',
+  'milestone.anatomyScan.description': 'Detailed mid-pregnancy ultrasound of the baby',
+  'milestone.glucoseTest.label': 'Glucose tolerance test',
+  'milestone.glucoseTest.description': 'Screening for gestational diabetes',
+  'milestone.tdap.label': 'Tdap vaccine',
+  'milestone.tdap.description': 'Whooping cough vaccine to protect your newborn',
+  'milestone.thirdTrimester.label': 'Third trimester begins',
+  'milestone.thirdTrimester.description': '28 completed weeks (28w0d)',
+  'milestone.gbs.label': 'Group B strep (GBS) test',
+  'milestone.gbs.description': 'Swab test to plan antibiotics during labor if needed',
+  'milestone.fullTerm.label': 'Full term',
+  'milestone.fullTerm.description': 'Babies born from 39w0d are considered full term',
+  'milestone.dueDate.label': 'Estimated due date',
+  'milestone.dueDate.description': '40 weeks since the last menstrual period',
+  'milestone.twinWindow.label': 'Typical twin delivery window',
+  'milestone.tripletWindow.label': 'Typical triplet delivery window',
+  'milestone.deliveryWindow.dichorionic': 'Dichorionic twins are usually born in this window, earlier than the 40-week due date',
+  'milestone.deliveryWindow.monochorionic':
+    'Monochorionic diamniotic twins are usually born in this window, earlier than the 40-week due date',
+  'milestone.deliveryWindow.monoamniotic': 'Monoamniotic twins are usually born in this window, earlier than the 40-week due date',
+  'milestone.deliveryWindow.triplets': 'Triplets are usually born in this window, earlier than the 40-week due date',
+
+  'calendar.name': 'Pregnancy Milestones',
+  'calendar.screening': 'Screening',
+  'calendar.milestone': 'Milestone',
+
+  'notice.postTerm.title': 'Post-term pregnancy (42 weeks or more)',
+  'notice.postTerm.body':
+    'Pregnancies beyond 42 weeks need close monitoring. If you have not already, please contact your healthcare provider or maternity unit today.',
+
+  'share.title': 'Share Your Results',
+  'share.share': 'Share Results',
+  'share.shareLabel': 'Share pregnancy calculation results',
+  'share.copy': 'Copy',
+  'share.copied': 'Copied!',
+  'share.copyLabel': 'Copy results to clipboard',
+  'share.calendar': 'Add to Calendar',
+  'share.calendarLabel': 'Download milestones as a calendar file',
+  'share.print': 'Print summary',
+  'share.printLabel': 'Print a one-page summary',
+  'share.dueDateOnly': 'Share the due date only. The link and text will not include your last period or other dates you entered.',
+
+  'shareText.title': 'My Pregnancy Calculator Results',
+  'shareText.heading': '🤱 My Pregnancy Calculator Results:',
+  'shareText.dueDate': '📅 Estimated Due Date: {date}',
+  'shareText.conception': '💝 Estimated Conception Date: {date}',
+  'shareText.cycle': '🔄 Adjusted for a {length}-day cycle (ovulation on day {day})',
+  'shareText.asOf': '📌 Progress as of: {date}',
+  'shareText.datedBy': '🩺 Dated by: {method} (LMP and scan differ by {days})',
+  'shareText.deliveryWindow': '👶 {label}: usually born {start} – {end}',
+  'shareText.gestationalAge': '🗓️ Gestational Age: {age} ({completed}, in week {week})',
+  'shareText.daysRemaining': '⏰ Days Remaining: {days}',
+  'shareText.daysPastDue': '⏰ Days Past Due: {days}',
+  'shareText.stage': '🌸 Stage: {stage}',
+  'shareText.link': 'See these results: {url}',
+  'shareText.hashtags': '#pregnancy #duedate #expecting #babycalculator',
+
+  'print.title': 'Pregnancy Summary',
+  'print.asOf': 'Calculated as of {date}',
+  'print.datingMethod': 'Dating Method',
+  'print.method': 'Method',
+  'print.results': 'Results',
+  'print.dueDate': 'Estimated due date',
+  'print.conception': 'Estimated conception date',
+  'print.gestationalAge': 'Gestational age',
+  'print.gestationalAge.value': '{age} ({completed}, in week {week})',
+  'print.stage': 'Stage',
+  'print.daysRemaining': 'Days remaining',
+  'print.daysPastDue': 'Days past due',
+  'print.milestones': 'Milestones & Screening Windows',
+  'print.milestone': 'Milestone',
+  'print.dates': 'Dates',
+  'print.disclaimer': 'Medical disclaimer:',
+  'print.input.lmp': 'First day of last period',
+  'print.input.cycle': 'Cycle',
+  'print.input.cycle.value': '{length} days, ovulation on day {day}',
+  'print.input.dueDate': 'Due date entered',
+  'print.input.conception': 'Conception date',
+  'print.input.retrieval': 'Egg retrieval date',
+  'print.input.transfer': 'Transfer date',
+  'print.input.embryoAge': 'Embryo age',
+  'print.input.scanDate': 'Scan date',
+  'print.input.measurement': 'Measurement',
+  'print.input.crl.value': 'CRL {mm} mm',
+  'print.input.datedBy': 'Dated by',
+  'print.input.datedBy.value': '{method} (LMP and scan differ by {days})',
+  'print.input.babies': 'Babies',
+  'print.input.babies.value': '{label}, usually born {start}–{end}',
+
+  'howItWorks.title': 'How Our Pregnancy Calculator Works',
+  'howItWorks.lmp.title': 'LMP Method (Most Common)',
+  'howItWorks.lmp.body':
+    "The Last Menstrual Period method uses Naegele's Rule, adding 280 days (40 weeks) to the first day of your last menstrual period. This is the standard method used by healthcare providers worldwide.",
+  'howItWorks.lmp.dueDate': 'Due Date = LMP + 280 days (+/- days your cycle differs from 28)',
+  'howItWorks.lmp.conception': 'Conception Date = LMP + cycle length - luteal phase (day 14 by default)',
+  'howItWorks.lmp.gestationalAge': 'Gestational Age = Days since LMP, shown as completed weeks + days (e.g. 23w4d)',
+  'howItWorks.dueDate.title': 'Due Date Method',
+  'howItWorks.dueDate.body':
+    'If you already know your due date from an ultrasound or previous calculation, we can work backwards to estimate your conception date and current pregnancy progress.',
+  'howItWorks.dueDate.lmp': 'LMP = Due Date - 280 days',
+  'howItWorks.dueDate.conception': 'Conception Date = LMP + 14 days',
+  'howItWorks.dueDate.progress': 'Progress calculated from estimated LMP',
+  'howItWorks.other.title': 'Conception, IVF & Ultrasound Methods',
+  'howItWorks.other.body':
+    'When the date of conception is known precisely, such as from ovulation tracking or IVF, the due date is counted from that day instead. Pregnancy lasts about 266 days from conception. An early dating scan fixes how far along the pregnancy was on the day of the scan.',
+  'howItWorks.other.conception': 'Due Date = Conception or Egg Retrieval Date + 266 days',
+  'howItWorks.other.transfer': 'Due Date = Embryo Transfer Date + 266 days - embryo age (e.g. +261 days for a day-5 blastocyst)',
+  'howItWorks.other.ultrasound':
+    'Due Date = Scan Date + 280 days - gestational age at the scan (CRL converted with the Robinson formula)',
+  'howItWorks.other.weeks': 'Gestational weeks are counted from the equivalent LMP, 2 weeks before conception',
+
+  'disclaimer.home.title': 'Important Medical Disclaimer',
+  'disclaimer.home.body':
+    'This calculator provides estimates based on standard pregnancy calculations and should not replace professional medical advice. Due dates can vary, and only your healthcare provider can give you personalized medical guidance. Please consult with your doctor or midwife for accurate pregnancy dating and prenatal care.',
+  'disclaimer.notice':
+    'This pregnancy due date calculator is provided for informational and educational purposes only. It is not intended to replace professional medical advice, diagnosis, or treatment.',
+  'disclaimer.emergency':
+    'If you are experiencing a medical emergency or have urgent pregnancy-related concerns, contact your healthcare provider immediately or call emergency services. Do not rely on this calculator or any online tool for emergency medical situations.',
+
+  'about.title': 'About Our Pregnancy Due Date Calculator',
+  'about.what.title': 'What is a Pregnancy Due Date Calculator?',
+  'about.what.body':
+    "A pregnancy due date calculator is a medical tool that estimates when your baby is likely to be born based on the first day of your last menstrual period (LMP) or a known due date. Our calculator uses the standard Naegele's Rule, which is the same method used by healthcare providers worldwide to estimate due dates.",
+  'about.why.title': 'Why Use Our Pregnancy Calculator?',
+  'about.why.accurate.title': 'Accurate Calculations',
+  'about.why.accurate.body': "Based on medical standards and Naegele's Rule used by healthcare professionals globally.",
+  'about.why.instant.title': 'Instant Results',
+  'about.why.instant.body': 'Get your due date, conception date, and current pregnancy week immediately.',
+  'about.why.easy.title': 'Easy to Use',
+  'about.why.easy.body': 'Simple interface designed for expecting mothers with clear instructions.',
+  'about.why.share.title': 'Share Results',
+  'about.why.share.body': 'Easily share your pregnancy milestones with family and friends.',
+  'about.accuracy.title': 'How Accurate is the Calculator?',
+  'about.accuracy.intro':
+    "Our pregnancy calculator is approximately 80% accurate within 5 days of the actual delivery date. However, it's important to understand that:",
+  'about.accuracy.exactDate': 'Only about 5% of babies are born on their exact due date',
+  'about.accuracy.twoWeeks': 'Most babies are born within 2 weeks before or after the due date',
+  'about.accuracy.firstTime': 'First-time mothers often deliver 1-2 days after their due date',
+  'about.accuracy.ultrasound': 'Ultrasound dating in the first trimester is more accurate than LMP dating',
+  'about.results.title': 'Understanding Your Results',
+  'about.results.heading': "What You'll Get:",
+  'about.results.dueDate.term': 'Estimated Due Date:',
+  'about.results.dueDate.text': 'The most likely date your baby will be born',
+  'about.results.conception.term': 'Conception Date:',
+  'about.results.conception.text': 'Approximate date when conception occurred (LMP + 14 days)',
+  'about.results.gestationalAge.term': 'Gestational Age:',
+  'about.results.gestationalAge.text':
+    'How far along you are today in completed weeks and days (e.g. 23w4d means 23 full weeks and 4 days, so you are in your 24th week)',
+  'about.results.daysRemaining.term': 'Days Remaining:',
+  'about.results.daysRemaining.text': 'Countdown to your due date',
+  'about.results.trimester.term': 'Trimester Information:',
+  'about.results.trimester.text': "Which stage of pregnancy you're currently in",
+  'about.provider.title': 'When to See Your Healthcare Provider',
+  'about.provider.intro': 'While our calculator provides helpful estimates, you should always consult with your healthcare provider for:',
+  'about.provider.confirmation': 'Confirmation of pregnancy',
+  'about.provider.ultrasound': 'Accurate dating through ultrasound',
+  'about.provider.prenatal': 'Prenatal care planning',
+  'about.provider.concerns': 'Any concerns about your pregnancy',
+  'about.provider.irregular': 'Irregular menstrual cycles that might affect calculations',
+  'about.remember.title': 'Remember',
+  'about.remember.body':
+    'This tool is for informational purposes only and should not replace professional medical advice. Always consult with your healthcare provider for personalized pregnancy care and accurate dating.',
+
+  'faq.search.label': 'Search questions',
+  'faq.search.placeholder': 'e.g. ultrasound, IVF, offline',
+  'faq.search.clear': 'Clear search',
+  'faq.search.matches.one': '{count} question matches',
+  'faq.search.matches.other': '{count} questions match',
+  'faq.search.none': 'No questions match “{query}”. Try fewer or different words, or send us your question below.',
+  'faq.link': 'Link to this question',
+  'faq.link.label': 'Link to this question: {question}',
+
+  'faqPage.title': 'Frequently Asked Questions',
+  'faqPage.more.title': 'Still Have Questions?',
+  'faqPage.more.body':
+    "If you have additional questions about using our pregnancy calculator or need more information about pregnancy dating, please don't hesitate to contact us.",
+  'faqPage.more.link': 'Contact Us →',
+
+  'disclaimer.title': 'Medical Disclaimer',
+  'disclaimer.noticeTitle': 'Important Notice',
+  'disclaimer.information.title': 'Medical Information Disclaimer',
+  'disclaimer.information.body':
+    "The information provided by our Pregnancy Due Date Calculator is based on standard medical calculations and should not be considered as medical advice. The calculations are estimates based on Naegele's Rule and average pregnancy duration of 280 days from the last menstrual period.",
+  'disclaimer.accuracy.title': 'Accuracy and Limitations',
+  'disclaimer.accuracy.estimates': 'Due date calculations are estimates and may vary from actual delivery dates',
+  'disclaimer.accuracy.exactDate': 'Only approximately 5% of babies are born on their exact due date',
+  'disclaimer.accuracy.factors':
+    'Individual factors such as cycle length, ovulation timing, and medical conditions can affect accuracy',
+  'disclaimer.accuracy.cycle':
+    'Unless you enter your own cycle details, the calculator assumes a standard 28-day menstrual cycle with ovulation on day 14',
+  'disclaimer.accuracy.art':
+    "For pregnancies conceived through assisted reproductive technology (ART), results depend on the retrieval or transfer dates entered and your clinic's dating takes precedence",
+  'disclaimer.care.title': 'Professional Medical Care',
+  'disclaimer.care.intro': 'You should always consult with qualified healthcare professionals for:',
+  'disclaimer.care.confirmation': 'Confirmation of pregnancy',
+  'disclaimer.care.ultrasound': 'Accurate pregnancy dating through ultrasound',
+  'disclaimer.care.prenatal': 'Prenatal care and monitoring',
+  'disclaimer.care.concerns': 'Any concerns about your pregnancy or health',
+  'disclaimer.care.decisions': 'Medical decisions related to your pregnancy',
+  'disclaimer.relationship.title': 'No Medical Relationship',
+  'disclaimer.relationship.body':
+    'Use of this calculator does not create a doctor-patient relationship between you and the website operators. We are not healthcare providers and cannot provide medical advice, diagnosis, or treatment recommendations.',
+  'disclaimer.emergencyTitle': 'Emergency Situations',
+  'disclaimer.liability.title': 'Liability Limitation',
+  'disclaimer.liability.body':
+    'We make no warranties or representations about the accuracy, reliability, completeness, or timeliness of the information provided. We shall not be liable for any direct, indirect, incidental, special, or consequential damages arising from the use of this calculator or reliance on its results.',
+  'disclaimer.updates.title': 'Updates and Changes',
+  'disclaimer.updates.body':
+    'We reserve the right to update or modify this disclaimer at any time without prior notice. Your continued use of the calculator constitutes acceptance of any changes to this disclaimer.',
+  'disclaimer.remember.title': 'Remember',
+  'disclaimer.remember.body':
+    'This tool is designed to provide helpful estimates for pregnancy planning and tracking. However, every pregnancy is unique, and professional medical care is essential for the health of both mother and baby. Always consult with your healthcare provider for personalized medical advice and care.',
+
+  'privacy.title': 'Privacy Policy',
+  'privacy.lastUpdated': 'Last Updated:',
+  'privacy.lastUpdatedDate': 'January 2025',
+  'privacy.intro':
+    'This Privacy Policy describes how we collect, use, and protect your information when you use our Pregnancy Due Date Calculator. We are committed to protecting your privacy and ensuring the security of your personal information.',
+  'privacy.collect.title': 'Information We Collect',
+  'privacy.collect.provided.title': 'Information You Provide',
+  'privacy.collect.provided.dates': 'Dates you enter into the calculator (last menstrual period or due date)',
+  'privacy.collect.provided.sharing': 'Any information you choose to share when using our sharing features',
+  'privacy.collect.provided.contactForm':
+    'The message, topic and optional email address you send through our contact form, plus your browser and screen details if you leave that option ticked (never your pregnancy dates)',
+  'privacy.collect.automatic.title': 'Automatically Collected Information',
+  'privacy.collect.automatic.browser': 'Browser type and version',
+  'privacy.collect.automatic.os': 'Operating system',
+  'privacy.collect.automatic.ip': 'IP address (anonymized)',
+  'privacy.collect.automatic.pages': 'Pages visited and time spent on our site',
+  'privacy.collect.automatic.referrer': 'Referring website information',
+  'privacy.use.title': 'How We Use Your Information',
+  'privacy.use.calculations': 'To provide pregnancy due date calculations and related services',
+  'privacy.use.improve': "To improve our calculator's functionality and user experience",
+  'privacy.use.analyze': 'To analyze website usage and optimize performance',
+  'privacy.use.respond': 'To respond to your inquiries and provide customer support',
+  'privacy.use.legal': 'To comply with legal obligations',
+  'privacy.security.title': 'Data Storage and Security',
+  'privacy.security.intro': 'We take the security of your information seriously:',
+  'privacy.security.local': 'Calculation data is processed locally in your browser and not stored on our servers',
+  'privacy.security.shareLinks':
+    'Shared result links contain the dates you entered in the link itself; choose "Share the due date only" to leave out your last period and other dates',
+  'privacy.security.measures': 'We use industry-standard security measures to protect any data we do collect',
+  'privacy.security.https': 'Our website uses HTTPS encryption to protect data transmission',
+  'privacy.security.health': 'We do not store sensitive health information on our servers',
+  'privacy.saved.title': 'Saved Calculations',
+  'privacy.saved.off':
+    'Saving is turned off, so nothing you enter into the calculator is stored, on this device or anywhere else. Closing or reloading the page clears your dates. You can turn on saving from the calculator page.',
+  'privacy.saved.on.one':
+    "You have turned on saving. 1 saved calculation is stored in this browser's local storage on this device only, with the names and dates you entered. They are never sent to our servers. Turning off saving on the calculator page deletes them.",
+  'privacy.saved.on.other':
+    "You have turned on saving. {count} saved calculations are stored in this browser's local storage on this device only, with the names and dates you entered. They are never sent to our servers. Turning off saving on the calculator page deletes them.",
+  'privacy.notifications.title': 'Progress Notifications',
+  'privacy.notifications.body':
+    'Notifications are off unless you turn them on. When they are on, the dates of the pregnancy you chose to follow and the notification schedule are stored in your browser on this device, and your browser shows the notifications itself. Nothing is sent to our servers or to a push service. Turning notifications off deletes the schedule.',
+  'privacy.cookies.title': 'Cookies and Tracking',
+  'privacy.cookies.intro': 'We may use cookies and similar technologies to:',
+  'privacy.cookies.preferences': 'Remember your preferences and settings',
+  'privacy.cookies.traffic': 'Analyze website traffic and usage patterns',
+  'privacy.cookies.personalized': 'Provide personalized content and advertisements',
+  'privacy.cookies.improve': 'Improve our services and user experience',
+  'privacy.thirdParty.title': 'Third-Party Services',
+  'privacy.thirdParty.intro': 'We may use third-party services for:',
+  'privacy.thirdParty.analytics': 'Website analytics (such as Google Analytics)',
+  'privacy.thirdParty.advertising': 'Advertising services',
+  'privacy.thirdParty.cdn': 'Content delivery networks',
+  'privacy.thirdParty.support': 'Customer support tools',
+  'privacy.thirdParty.outro': 'These third parties have their own privacy policies, and we encourage you to review them.',
+  'privacy.sharing.title': 'Information Sharing',
+  'privacy.sharing.intro':
+    'We do not sell, trade, or rent your personal information to third parties. We may share information only in the following circumstances:',
+  'privacy.sharing.consent': 'With your explicit consent',
+  'privacy.sharing.legal': 'To comply with legal requirements or court orders',
+  'privacy.sharing.protect': 'To protect our rights, property, or safety, or that of our users',
+  'privacy.sharing.transfer': 'In connection with a business transfer or merger',
+  'privacy.rights.title': 'Your Rights and Choices',
+  'privacy.rights.intro': 'You have the right to:',
+  'privacy.rights.access': 'Access the personal information we have about you',
+  'privacy.rights.correct': 'Request correction of inaccurate information',
+  'privacy.rights.delete': 'Request deletion of your personal information',
+  'privacy.rights.optOut': 'Opt out of marketing communications',
+  'privacy.rights.cookies': 'Disable cookies through your browser settings',
+  'privacy.children.title': "Children's Privacy",
+  'privacy.children.body':
+    'Our service is not intended for children under 13 years of age. We do not knowingly collect personal information from children under 13. If we become aware that we have collected personal information from a child under 13, we will take steps to delete such information.',
+  'privacy.international.title': 'International Users',
+  'privacy.international.body':
+    'If you are accessing our service from outside the United States, please be aware that your information may be transferred to, stored, and processed in the United States where our servers are located and our central database is operated.',
+  'privacy.changes.title': 'Changes to This Privacy Policy',
+  'privacy.changes.body':
+    'We may update this Privacy Policy from time to time. We will notify you of any changes by posting the new Privacy Policy on this page and updating the "Last Updated" date. We encourage you to review this Privacy Policy periodically for any changes.',
+  'privacy.contact.title': 'Contact Us',
+  'privacy.contact.intro': 'If you have any questions about this Privacy Policy or our privacy practices, please contact us:',
+  'privacy.contact.body': 'You can reach us through our contact page or by using the contact information provided on our website.',
+
+  'contact.title': 'Contact Us',
+  'contact.form.title': 'Send Us a Message',
+  'contact.touch.title': 'Get in Touch',
+  'contact.touch.body':
+    "We're here to help! If you have questions about our pregnancy calculator, need technical support, or want to provide feedback, please don't hesitate to reach out to us.",
+  'contact.email.support.title': 'Email Support',
+  'contact.email.support.body': 'For general inquiries and support questions',
+  'contact.email.tech.title': 'Technical Issues',
+  'contact.email.tech.body': 'Report bugs or technical problems with the calculator',
+  'contact.email.feedback.title': 'Feedback & Suggestions',
+  'contact.email.feedback.body': 'Share your ideas for improving our calculator',
+  'contact.medical.title': 'Medical Questions',
+  'contact.medical.body':
+    'Please note that we cannot provide medical advice or answer specific health questions. For medical concerns about your pregnancy, please consult with your healthcare provider.',
+  'contact.topics.title': 'Frequently Asked Topics',
+  'contact.topics.accuracy.title': 'Calculator Accuracy',
+  'contact.topics.accuracy.body': 'Questions about how accurate our calculations are and what factors might affect results.',
+  'contact.topics.howTo.title': 'How to Use',
+  'contact.topics.howTo.body':
+    'Help with using the calculator, choosing between LMP and due date methods, and understanding results.',
+  'contact.topics.technical.title': 'Technical Support',
+  'contact.topics.technical.body': 'Issues with the website not working properly, sharing features, or mobile compatibility.',
+  'contact.topics.privacy.title': 'Privacy & Data',
+  'contact.topics.privacy.body': 'Questions about how we handle your data, privacy concerns, and information security.',
+  'contact.response.title': 'Response Time',
+  'contact.response.body':
+    'We typically respond to inquiries within 24-48 hours during business days. For urgent technical issues, we aim to respond within 24 hours.',
+  'contact.checkFaq': 'Check FAQ First',
+  'contact.readDisclaimer': 'Read Disclaimer',
+  'contact.before.title': 'Before You Contact Us',
+  'contact.before.body':
+    'To help us assist you better, please check our FAQ section first, as it covers most common questions. When contacting us, please include:',
+  'contact.before.description': 'A clear description of your question or issue',
+  'contact.before.browser': 'Your browser type and version (for technical issues; the form above can attach these for you)',
+  'contact.before.tried': "Steps you've already tried to resolve the problem",
+  'contact.before.screenshots': 'Screenshots if applicable (for technical issues)',
+
+  'contactForm.category': 'What is this about?',
+  'contactForm.category.choose': 'Choose a topic',
+  'contactForm.category.technical': 'Technical issue',
+  'contactForm.category.feedback': 'Feedback or suggestion',
+  'contactForm.category.medical': 'Medical question',
+  'contactForm.category.accuracy': 'Calculator accuracy',
+  'contactForm.medicalNotice':
+    "We can't give medical advice. For questions about your health or your pregnancy, please contact your healthcare provider.",
+  'contactForm.message': 'Message',
+  'contactForm.email': 'Email',
+  'contactForm.email.hint': '(optional, so we can reply)',
+  'contactForm.diagnostics': 'Include my browser and screen details to help with technical issues.',
+  'contactForm.diagnostics.preview': "What's included",
+  'contactForm.diagnostics.noDates': 'Your pregnancy dates are never included.',
+  'contactForm.failed': "Your message couldn't be sent. Check your connection and try again, or send it by email instead.",
+  'contactForm.failed.mailto': 'Open it in my email app',
+  'contactForm.send': 'Send message',
+  'contactForm.sending': 'Sending…',
+  'contactForm.sent.title': 'Thanks, your message has been sent',
+  'contactForm.sent.reply': 'We typically reply within 24-48 hours on business days.',
+  'contactForm.sent.noReply': "You didn't leave an email address, so we won't be able to reply, but we read every message.",
+  'contactForm.handedOff.title': 'Your email app should now be open',
+  'contactForm.handedOff.body': "We've filled in the message for you. Press send in your email app to deliver it.",
+  'contactForm.another': 'Write another message',
+  'contactForm.error.category': 'Choose what your message is about.',
+  'contactForm.error.tooShort': 'Write at least {min} characters so we can help.',
+  'contactForm.error.tooLong': 'Keep your message under {max} characters.',
+  'contactForm.error.email': 'Enter a valid email address, or leave it blank.',
+
+  'notFound.title': 'Page Not Found',
+  'notFound.body': "We couldn't find the page you were looking for. It may have moved, or the link may be mistyped.",
+  'notFound.home': 'Go to the Calculator',
+
+  'footer.description':
+    'Free, accurate pregnancy due date and conception date calculator. Calculate your estimated due date based on your last menstrual period or known due date.',
+  'footer.copyright':
+    '© 2025 Pregnancy Calculator. For informational purposes only. Always consult with your healthcare provider for medical advice.',
+  'footer.quickLinks': 'Quick Links',
+  'footer.legal': 'Legal'
+};
+
+export type MessageKey = keyof typeof en;
+
+// Translations may be partial while a locale is being filled in
+export type Catalog = Partial<Record<MessageKey, string>>;
@@ -0,0 +1,683 @@
+import { Catalog } from './en';
+
+export const es: Catalog = {
+  'app.name': 'Calculadora de Embarazo',
+  'app.tagline': 'Calculadora de fecha de parto y concepción',
+
+  'meta.home.title': 'Calculadora de fecha probable de parto: conoce tu fecha de parto y de concepción',
+  'meta.home.description':
+    'Calcula al instante tu fecha probable de parto y de concepción con nuestra calculadora de embarazo a partir de tu FUM o tu fecha de parto. Gratis, precisa y fácil de usar.',
+  'meta.about.title': 'Acerca de esta calculadora de fecha de parto | {site}',
+  'meta.about.description':
+    'Cómo calcula nuestra calculadora de embarazo la fecha de parto a partir de tu última regla, la concepción, una transferencia de FIV o una ecografía.',
+  'meta.faq.title': 'Preguntas frecuentes sobre la calculadora de embarazo | {site}',
+  'meta.faq.description':
+    'Respuestas a preguntas habituales sobre la precisión de la fecha de parto, la edad gestacional, los trimestres y el uso de la calculadora.',
+  'meta.disclaimer.title': 'Aviso médico | {site}',
+  'meta.disclaimer.description':
+    'La calculadora de embarazo es solo informativa y no sustituye el consejo de tu profesional sanitario.',
+  'meta.privacy.title': 'Política de privacidad | {site}',
+  'meta.privacy.description':
+    'Cómo trata la calculadora de embarazo las fechas que introduces y la información que compartes con nosotros.',
+  'meta.contact.title': 'Contacto | {site}',
+  'meta.contact.description':
+    'Escribe al equipo de la calculadora de embarazo con preguntas, comentarios o problemas técnicos.',
+  'meta.notFound.title': 'Página no encontrada | {site}',
+  'meta.notFound.description': 'No se ha encontrado la página que buscabas.',
+
+  'nav.home': 'Calculadora',
+  'nav.about': 'Acerca de',
+  'nav.faq': 'Preguntas frecuentes',
+  'nav.disclaimer': 'Aviso médico',
+  'nav.privacy': 'Privacidad',
+  'nav.contact': 'Contacto',
+  'nav.toggleMenu': 'Abrir o cerrar el menú',
+  'nav.language': 'Idioma',
+  'nav.theme': 'Tema',
+  'theme.system': 'Según el dispositivo',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.contrast': 'Alto contraste',
+
+  'hero.title': 'Calculadora gratuita de fecha de parto',
+  'hero.intro':
+    'Calcula al instante tu fecha probable de parto y de concepción. Nuestra calculadora te ayuda a seguir tu embarazo con cálculos precisos basados en estándares médicos.',
+  'hero.accurate': 'Cálculos precisos',
+  'hero.standards': 'Estándares médicos',
+  'hero.sharing': 'Fácil de compartir',
+
+  'method.heading': 'Elige el método de cálculo',
+  'method.groupLabel': 'Método de cálculo',
+  'method.lmp.label': 'Última menstruación (FUM)',
+  'method.lmp.description': 'El método más común: indica el primer día de tu última regla',
+  'method.dueDate.label': 'Fecha de parto conocida',
+  'method.dueDate.description': 'Si ya conoces tu fecha probable de parto',
+  'method.conception.label': 'Fecha de concepción u ovulación',
+  'method.conception.description': 'Si sabes cuándo ovulaste o concebiste',
+  'method.eggRetrieval.label': 'FIV: punción ovárica',
+  'method.eggRetrieval.description': 'Usa la fecha en que se extrajeron y fecundaron tus óvulos',
+  'method.embryoTransfer.label': 'FIV: transferencia de embriones',
+  'method.embryoTransfer.description': 'Usa la fecha de transferencia y la edad del embrión',
+  'method.ultrasound.label': 'Ecografía de datación',
+  'method.ultrasound.description': 'Usa la edad gestacional o la LCC medida en una ecografía temprana',
+
+  'field.optional': '(opcional)',
+  'field.lmp.label': 'Primer día de la última menstruación',
+  'field.lmp.help': 'Selecciona el primer día de tu última regla para calcular tu fecha de parto',
+  'field.cycleLength.label': 'Duración media del ciclo',
+  'field.cycleLength.help': 'Días desde el inicio de una regla hasta la siguiente ({min}-{max})',
+  'field.lutealPhase.label': 'Duración de la fase lútea',
+  'field.lutealPhase.help': 'Días desde la ovulación hasta tu siguiente regla, si lo registras ({min}-{max})',
+  'field.daysPlaceholder': '{count} días',
+  'field.dueDate.label': 'Tu fecha de parto',
+  'field.dueDate.help': 'Indica tu fecha de parto para calcular la fecha de concepción y la semana actual',
+  'field.conception.label': 'Fecha de concepción u ovulación',
+  'field.conception.help': 'Indica el día en que ovulaste o concebiste, por ejemplo según un test de ovulación o una app',
+  'field.retrieval.label': 'Fecha de la punción ovárica',
+  'field.retrieval.help': 'La fecundación ocurre el día de la punción, así que cuenta como fecha de concepción',
+  'field.transfer.label': 'Fecha de la transferencia',
+  'field.transfer.help': 'Indica la fecha en que se transfirió tu embrión',
+  'field.embryoAge.legend': 'Edad del embrión en la transferencia',
+  'field.embryoAge.day': 'Día {age}',
+  'field.embryoAge.cleavage': 'Embrión en división',
+  'field.embryoAge.blastocyst': 'Blastocisto',
+  'field.scanDate.label': 'Fecha de la ecografía',
+  'field.scanDate.help': 'Indica la fecha en que se hizo la ecografía',
+  'field.scanResult.legend': 'Resultado de la ecografía',
+  'field.scanResult.gestationalAge': 'Edad gestacional',
+  'field.scanResult.gestationalAgeHint': 'Semanas + días según el informe',
+  'field.scanResult.crl': 'Longitud cráneo-caudal',
+  'field.scanResult.crlHint': 'LCC en milímetros',
+  'field.scanWeeks.label': 'Semanas',
+  'field.scanDays.label': 'Días',
+  'field.crl.label': 'Longitud cráneo-caudal (mm)',
+  'field.crl.equivalent': 'Equivale a {age} en la fecha de la ecografía (fórmula de Robinson)',
+  'field.crl.range': 'La datación por LCC es válida de {min} a {max} mm (hasta unas 14 semanas)',
+  'field.scanLmp.label': 'Primer día de la última menstruación (opcional)',
+  'field.scanLmp.help': 'Añade tu FUM para compararla con la ecografía (suponiendo un ciclo estándar de 28 días); elegimos la fecha de parto según las pautas de ACOG',
+  'field.referenceDate.label': 'Mostrar el progreso a fecha de',
+  'field.referenceDate.today': 'Hoy',
+  'field.referenceDate.help': 'Consulta de cuánto estarás en una fecha futura, o de cuánto estabas en una pasada. Déjalo vacío para hoy.',
+  'field.babies.legend': 'Número de bebés',
+  'field.babies.1': 'Un bebé',
+  'field.babies.2': 'Gemelos',
+  'field.babies.3': 'Trillizos',
+  'field.twinType.label': 'Tipo de gemelos',
+  'field.twinType.dichorionic': 'Bicoriales (placentas separadas)',
+  'field.twinType.monochorionic': 'Monocoriales biamnióticos (placenta compartida, bolsas separadas)',
+  'field.twinType.monoamniotic': 'Monoamnióticos (placenta y bolsa compartidas)',
+  'field.twinType.help': 'Lo indica la ecografía del primer trimestre. Si tienes dudas, deja bicoriales, el tipo más común.',
+
+  'validation.invalidDate': 'Introduce una fecha completa y válida.',
+  'validation.futureDate': 'Esta fecha es futura. Introduce una fecha de hoy o anterior.',
+  'validation.range.days': 'Introduce un número entero de {min} a {max} días.',
+  'validation.range.weeks': 'Introduce un número entero de {min} a {max} semanas.',
+  'validation.range.mm': 'Introduce un valor de {min} a {max} mm.',
+  'validation.optionalRange.days': 'Introduce un número entero de {min} a {max} días; mientras tanto se usa el valor estándar.',
+  'validation.optionalRange.weeks': 'Introduce un número entero de {min} a {max} semanas; mientras tanto se usa el valor estándar.',
+  'validation.optionalRange.mm': 'Introduce un valor de {min} a {max} mm; mientras tanto se usa el valor estándar.',
+  'validation.beyondRange':
+    'Esto equivale a {age}, más de {weeks} semanas de embarazo. Puede que la fecha sea incorrecta o que tu bebé ya haya nacido.',
+  'validation.dueDateTooFar':
+    'Esta fecha de parto está a más de {weeks} semanas. La fecha de parto nunca es más de 40 semanas después del inicio de tu última regla.',
+  'validation.beforeLmp':
+    'Esto queda antes del primer día de la última menstruación, cuando el embarazo aún no había empezado. Revisa las fechas.',
+  'validation.lmpAfterScan': 'Tu FUM debe ser anterior a la fecha de la ecografía.',
+
+  'gestation.dichorionic': 'Gemelos bicoriales',
+  'gestation.monochorionic': 'Gemelos monocoriales biamnióticos',
+  'gestation.monoamniotic': 'Gemelos monoamnióticos',
+  'gestation.triplets': 'Trillizos',
+
+  'unit.day.one': '{count} día',
+  'unit.day.other': '{count} días',
+  'unit.week.one': '{count} semana',
+  'unit.week.other': '{count} semanas',
+  'unit.completedWeek.one': '{count} semana completa',
+  'unit.completedWeek.other': '{count} semanas completas',
+
+  'saved.title': 'Embarazos guardados',
+  'saved.storageFailed':
+    'Tu navegador no nos permitió guardar en este dispositivo. La navegación privada o el almacenamiento lleno pueden causarlo.',
+  'saved.intro':
+    'Guarda cálculos en este dispositivo para volver a ellos más tarde, como "Bebé n.º 2" o "Embarazo de mi hermana". No se guarda nada hasta que actives esta opción, y los cálculos guardados permanecen en este navegador.',
+  'saved.enable': 'Activar el guardado',
+  'saved.name.label': 'Nombre del cálculo',
+  'saved.name.placeholder': 'p. ej., Bebé n.º 2',
+  'saved.save': 'Guardar',
+  'saved.update': 'Actualizar "{name}"',
+  'saved.saveAsNew': 'Guardar como nuevo',
+  'saved.enterDates': 'Introduce tus fechas arriba para guardar un cálculo.',
+  'saved.list': 'Cálculos guardados',
+  'saved.openBadge': 'Abierto',
+  'saved.open': 'Abrir',
+  'saved.open.label': 'Abrir {name}',
+  'saved.delete': 'Eliminar',
+  'saved.delete.label': 'Eliminar {name}',
+  'saved.disable': 'Desactivar el guardado y eliminar todos los cálculos guardados',
+  'saved.disable.confirm': '¿Eliminar todos los cálculos guardados de este dispositivo?',
+  'saved.details': 'Fecha probable: {date} · {method}',
+  'saved.details.babies': 'Fecha probable: {date} · {method} · {babies}',
+
+  'notifications.title': 'Notificaciones de progreso',
+  'notifications.failed':
+    'Tu navegador no nos permitió programar notificaciones en este dispositivo. La navegación privada o el almacenamiento lleno pueden causarlo.',
+  'notifications.unsupported':
+    'Este navegador no puede mostrar notificaciones de la calculadora. En iPhone y iPad, añade primero la calculadora a tu pantalla de inicio y ábrela desde allí.',
+  'notifications.denied':
+    'Las notificaciones están bloqueadas para este sitio. Para activarlas, permite las notificaciones en la configuración del sitio de tu navegador y vuelve a cargar la página.',
+  'notifications.intro':
+    'Recibe un recordatorio a medida que avanza tu embarazo, como "Hoy cumples 20 semanas" o "Empieza esta semana: Prueba de tolerancia a la glucosa". Los recordatorios los programa y muestra tu navegador en este dispositivo; no se envía nada a ningún servidor.',
+  'notifications.frequency': 'Con qué frecuencia',
+  'notifications.frequency.weekly': 'Semanal',
+  'notifications.frequency.weekly.hint': 'El primer día de cada nueva semana, p. ej., "Hoy cumples 20 semanas"',
+  'notifications.frequency.daily': 'Diaria',
+  'notifications.frequency.daily.hint': 'Cada día, con los periodos de las pruebas el día en que empiezan',
+  'notifications.enable': 'Activar notificaciones',
+  'notifications.enterDates': 'Introduce tus fechas arriba para activar las notificaciones.',
+  'notifications.on': 'Las notificaciones están activadas para el embarazo:',
+  'notifications.tracked': 'fecha probable de parto: {date}',
+  'notifications.arrival': 'Llegan la próxima vez que tu navegador lo compruebe, que puede ser cuando abras la calculadora.',
+  'notifications.trackCurrent': 'Seguir el cálculo de arriba en su lugar',
+  'notifications.disable': 'Desactivar notificaciones',
+  'notifications.message.weeks': 'Hoy cumples {weeks} semanas',
+  'notifications.message.age': 'Hoy estás de {age}',
+  'notifications.message.milestone.today': 'Hoy: {label}.',
+  'notifications.message.milestone.thisWeek': 'Esta semana: {label}.',
+  'notifications.message.window.today': 'Empieza hoy: {label}.',
+  'notifications.message.window.thisWeek': 'Empieza esta semana: {label}.',
+  'notifications.message.dueToday': 'Hoy es tu fecha probable de parto.',
+  'notifications.message.until.one': 'Falta {count} día para tu fecha probable de parto.',
+  'notifications.message.until.other': 'Faltan {count} días para tu fecha probable de parto.',
+  'notifications.message.past.one': 'Ha pasado {count} día desde tu fecha probable de parto.',
+  'notifications.message.past.other': 'Han pasado {count} días desde tu fecha probable de parto.',
+
+  'results.region': 'Resultados del cálculo',
+  'results.dueDate.title': 'Fecha probable de parto',
+  'results.daysRemaining.one': 'Falta {count} día',
+  'results.daysRemaining.other': 'Faltan {count} días',
+  'results.dueToday': '¡Hoy es la fecha prevista!',
+  'results.daysPastDue.one': '{count} día después de la fecha prevista',
+  'results.daysPastDue.other': '{count} días después de la fecha prevista',
+  'results.calendarWeek': 'Semana del calendario: {start} – {end}',
+  'results.lateTerm': '41 semanas (término tardío)',
+  'results.postTerm': '42 semanas (postérmino)',
+  'results.conception.title': 'Fecha probable de concepción',
+  'results.conception.adjusted': 'Ajustada a la ovulación en el día {day} del ciclo',
+  'results.conception.fertilization': 'Fecha de la fecundación',
+  'results.conception.approximate': 'Fecha aproximada de la concepción',
+  'results.deliveryWindow.title': 'Periodo habitual de parto · {label}',
+  'results.deliveryWindow.twins':
+    'De {start} a {end}. Los gemelos suelen nacer antes de la fecha de parto de 40 semanas, que se sigue usando para contar las semanas de embarazo. Tu equipo médico planificará el momento del parto.',
+  'results.deliveryWindow.triplets':
+    'De {start} a {end}. Los trillizos suelen nacer antes de la fecha de parto de 40 semanas, que se sigue usando para contar las semanas de embarazo. Tu equipo médico planificará el momento del parto.',
+  'results.progress.title': 'Progreso del embarazo',
+  'results.progress.asOf': 'a {date}',
+  'results.gestationalAge.pregnant': '{weeks} y {days} de embarazo',
+  'results.gestationalAge.caption': '{completed} · ahora en la semana {week}',
+  'results.stage.current': 'Etapa actual',
+  'results.daysToGo': 'Días restantes',
+  'results.daysPastDue': 'Días de retraso',
+  'results.untilDueDate': 'Hasta la fecha de parto',
+  'results.sinceDueDate': 'Desde la fecha de parto',
+  'results.daysToWindow': 'Días hasta el periodo de parto',
+  'results.inWindow': 'En el periodo de parto',
+  'results.windowNow': 'Ahora',
+  'results.untilAge': 'Hasta {age}',
+  'results.toDueDate': '{days} hasta la fecha de parto de 40 semanas',
+
+  'redating.title': 'Datación por FUM frente a ecografía',
+  'redating.byLmp': 'Según la última menstruación',
+  'redating.byUltrasound': 'Según la ecografía ({age} en la ecografía)',
+  'redating.final': 'FPP final',
+  'redating.chosen.lmp': 'FUM',
+  'redating.chosen.ultrasound': 'Ecografía',
+  'redating.match': 'La ecografía coincide exactamente con tu FUM, así que se mantiene la fecha de parto por FUM.',
+  'redating.ahead': 'La ecografía va {days} por delante de las fechas de tu FUM.',
+  'redating.behind': 'La ecografía va {days} por detrás de las fechas de tu FUM.',
+  'redating.useUltrasound':
+    'Para ecografías {band}, ACOG recomienda cambiar la fecha solo si la diferencia es de más de {threshold}, así que se usa la fecha de parto de la ecografía.',
+  'redating.keepLmp':
+    'Para ecografías {band}, ACOG recomienda cambiar la fecha solo si la diferencia es de más de {threshold}, así que se mantiene la fecha de parto por FUM.',
+  'redating.band.before': 'antes de {age}',
+  'redating.band.between': 'de {start} a {end}',
+  'redating.band.from': 'a partir de {age}',
+  'redating.suboptimal':
+    'Esta ecografía se hizo a las 22 semanas o más tarde. Sin una ecografía anterior, la datación se considera menos fiable; tu profesional de salud puede orientarte sobre cómo interpretarla.',
+
+  'stage.first': 'Primer trimestre',
+  'stage.first.range': 'Semanas 1-12',
+  'stage.second': 'Segundo trimestre',
+  'stage.second.range': 'Semanas 13-27',
+  'stage.third': 'Tercer trimestre',
+  'stage.third.range': 'Semanas 28-40',
+  'stage.overdue.range': 'Más de 40 semanas',
+  'stage.lateTerm': 'Término tardío',
+  'stage.lateTerm.range': 'Semanas 41-41+6',
+  'stage.postTerm': 'Postérmino',
+  'stage.postTerm.range': 'Semana 42 y posteriores',
+
+  'development.title': 'Semana {week}: el desarrollo de tu bebé',
+  'development.thisWeek': 'Esta semana',
+  'development.previous': 'Semana anterior',
+  'development.next': 'Semana siguiente',
+  'development.backToCurrent': 'Volver a esta semana',
+  'development.size': 'Más o menos del tamaño de',
+  'development.length.crownRump': 'Longitud, de la cabeza a las nalgas',
+  'development.length.crownHeel': 'Longitud, de la cabeza al talón',
+  'development.weight': 'Peso',
+  'development.weight.underGram': 'Menos de 1 g',
+  'development.baby': 'Tu bebé',
+  'development.body': 'Tu cuerpo',
+  'development.startsAt': 'Los detalles semana a semana empiezan en la semana {week}.',
+  'development.note':
+    'Los tamaños son intervalos típicos para el final de la semana. Cada bebé crece a su ritmo; tu profesional sanitario puede decirte cómo está creciendo el tuyo.',
+
+  'distribution.title': 'Cuándo nacen los bebés',
+  'distribution.intro':
+    'Solo alrededor del {chance} de los bebés nace en su fecha probable de parto. Este gráfico muestra la probabilidad de nacer cada día, según una curva ajustada a la duración de más de 400 000 embarazos de un registro nacional de nacimientos.',
+  'distribution.parity': '¿Es tu primer bebé?',
+  'distribution.parity.unknown': 'Sin especificar',
+  'distribution.parity.first': 'Primer bebé',
+  'distribution.parity.subsequent': 'Ya he tenido un bebé',
+  'distribution.chance.below': 'menos del {percent}',
+  'distribution.chance.above': 'más del {percent}',
+  'distribution.chart': 'Probabilidad de parto por día. El 80 % de los nacimientos ocurre entre el {start} y el {end}.',
+  'distribution.legend.dueDate': 'Fecha probable de parto',
+  'distribution.legend.likely': '80 % más probable',
+  'distribution.legend.veryLikely': '90 %',
+  'distribution.range.likely': 'El 80 % de los bebés nace entre',
+  'distribution.range.veryLikely': 'El 90 % de los bebés nace entre',
+  'distribution.lookup': 'Probabilidad de haber dado a luz antes del',
+  'distribution.lookup.result': 'Alrededor del {chance} de los bebés nace el {date} o antes.',
+  'distribution.approximation':
+    'Fuente: {source}. La curva reproduce la media, el valor más frecuente y la dispersión de la duración del embarazo en el registro de nacimientos de Noruega, contada desde la última regla; la diferencia para un primer bebé procede de un estudio estadounidense más pequeño. La datación por ecografía, las inducciones, las cesáreas programadas y tu propio historial de salud cambian el panorama, así que pregunta a tu profesional sanitario qué esperar en tu caso.',
+
+  'timeline.title': 'Cronología semana a semana',
+  'timeline.weeks': 'Semanas de embarazo',
+  'timeline.week': 'Semana {week}',
+  'timeline.current': 'Estás aquí',
+  'timeline.from': 'Desde el {date} ({age})',
+
+  'milestone.nipt.label': 'Análisis de sangre NIPT',
+  'milestone.nipt.description': 'El test prenatal no invasivo de anomalías cromosómicas está disponible desde las 10 semanas',
+  'milestone.ntScan.label': 'Ecografía de translucencia nucal (TN)',
+  'milestone.ntScan.description': 'Ecografía de cribado del primer trimestre',
+  'milestone.secondTrimester.label': 'Empieza el segundo trimestre',
+  'milestone.secondTrimester.description': '13 semanas completas (13w0d)',
+  'milestone.anatomyScan.label': 'Ecografía morfológica',
+  'milestone.anatomyScan.description': 'Ecografía detallada del bebé a mitad del embarazo',
+  'milestone.glucoseTest.label': 'Prueba de tolerancia a la glucosa',
+  'milestone.glucoseTest.description': 'Cribado de diabetes gestacional',
+  'milestone.tdap.label': 'Vacuna Tdap',
+  'milestone.tdap.description': 'Vacuna contra la tos ferina para proteger a tu recién nacido',
+  'milestone.thirdTrimester.label': 'Empieza el tercer trimestre',
+  'milestone.thirdTrimester.description': '28 semanas completas (28w0d)',
+  'milestone.gbs.label': 'Prueba de estreptococo del grupo B (EGB)',
+  'milestone.gbs.description': 'Exudado para planificar antibióticos durante el parto si hacen falta',
+  'milestone.fullTerm.label': 'A término',
+  'milestone.fullTerm.description': 'Los bebés nacidos desde 39w0d se consideran a término',
+  'milestone.dueDate.label': 'Fecha probable de parto',
+  'milestone.dueDate.description': '40 semanas desde la última menstruación',
+  'milestone.twinWindow.label': 'Periodo habitual de parto de gemelos',
+  'milestone.tripletWindow.label': 'Periodo habitual de parto de trillizos',
+  'milestone.deliveryWindow.dichorionic':
+    'Los gemelos bicoriales suelen nacer en este periodo, antes de la fecha de parto de 40 semanas',
+  'milestone.deliveryWindow.monochorionic':
+    'Los gemelos monocoriales biamnióticos suelen nacer en este periodo, antes de la fecha de parto de 40 semanas',
+  'milestone.deliveryWindow.monoamniotic':
+    'Los gemelos monoamnióticos suelen nacer en este periodo, antes de la fecha de parto de 40 semanas',
+  'milestone.deliveryWindow.triplets': 'Los trillizos suelen nacer en este periodo, antes de la fecha de parto de 40 semanas',
+
+  'calendar.name': 'Hitos del embarazo',
+  'calendar.screening': 'Cribado',
+  'calendar.milestone': 'Hito',
+
+  'notice.postTerm.title': 'Embarazo postérmino (42 semanas o más)',
+  'notice.postTerm.body':
+    'Los embarazos de más de 42 semanas necesitan un seguimiento estrecho. Si aún no lo has hecho, contacta hoy con tu profesional sanitario o tu maternidad.',
+
+  'share.title': 'Comparte tus resultados',
+  'share.share': 'Compartir resultados',
+  'share.shareLabel': 'Compartir los resultados del cálculo',
+  'share.copy': 'Copiar',
+  'share.copied': '¡Copiado!',
+  'share.copyLabel': 'Copiar los resultados al portapapeles',
+  'share.calendar': 'Añadir al calendario',
+  'share.calendarLabel': 'Descargar los hitos como archivo de calendario',
+  'share.print': 'Imprimir resumen',
+  'share.printLabel': 'Imprimir un resumen de una página',
+  'share.dueDateOnly': 'Compartir solo la fecha de parto. Ni el enlace ni el texto incluirán tu última regla ni otras fechas que hayas indicado.',
+
+  'shareText.title': 'Mis resultados de la Calculadora de Embarazo',
+  'shareText.heading': '🤱 Mis resultados de la Calculadora de Embarazo:',
+  'shareText.dueDate': '📅 Fecha probable de parto: {date}',
+  'shareText.conception': '💝 Fecha probable de concepción: {date}',
+  'shareText.cycle': '🔄 Ajustado a un ciclo de {length} días (ovulación el día {day})',
+  'shareText.asOf': '📌 Progreso a fecha de: {date}',
+  'shareText.datedBy': '🩺 Datado por: {method} (la FUM y la ecografía difieren en {days})',
+  'shareText.deliveryWindow': '👶 {label}: suelen nacer entre el {start} y el {end}',
+  'shareText.gestationalAge': '🗓️ Edad gestacional: {age} ({completed}, en la semana {week})',
+  'shareText.daysRemaining': '⏰ Días restantes: {days}',
+  'shareText.daysPastDue': '⏰ Días después de la fecha: {days}',
+  'shareText.stage': '🌸 Etapa: {stage}',
+  'shareText.link': 'Consulta estos resultados: {url}',
+  'shareText.hashtags': '#embarazo #fechadeparto #esperandounbebe #calculadoradeembarazo',
+
+  'print.title': 'Resumen del embarazo',
+  'print.asOf': 'Calculado a fecha de {date}',
+  'print.datingMethod': 'Método de datación',
+  'print.method': 'Método',
+  'print.results': 'Resultados',
+  'print.dueDate': 'Fecha probable de parto',
+  'print.conception': 'Fecha probable de concepción',
+  'print.gestationalAge': 'Edad gestacional',
+  'print.gestationalAge.value': '{age} ({completed}, en la semana {week})',
+  'print.stage': 'Etapa',
+  'print.daysRemaining': 'Días restantes',
+  'print.daysPastDue': 'Días después de la fecha',
+  'print.milestones': 'Hitos y periodos de cribado',
+  'print.milestone': 'Hito',
+  'print.dates': 'Fechas',
+  'print.disclaimer': 'Aviso médico:',
+  'print.input.lmp': 'Primer día de la última regla',
+  'print.input.cycle': 'Ciclo',
+  'print.input.cycle.value': '{length} días, ovulación el día {day}',
+  'print.input.dueDate': 'Fecha de parto indicada',
+  'print.input.conception': 'Fecha de concepción',
+  'print.input.retrieval': 'Fecha de la punción ovárica',
+  'print.input.transfer': 'Fecha de la transferencia',
+  'print.input.embryoAge': 'Edad del embrión',
+  'print.input.scanDate': 'Fecha de la ecografía',
+  'print.input.measurement': 'Medida',
+  'print.input.crl.value': 'LCC {mm} mm',
+  'print.input.datedBy': 'Datado por',
+  'print.input.datedBy.value': '{method} (la FUM y la ecografía difieren en {days})',
+  'print.input.babies': 'Bebés',
+  'print.input.babies.value': '{label}, suelen nacer entre {start} y {end}',
+
+  'howItWorks.title': 'Cómo funciona nuestra calculadora de embarazo',
+  'howItWorks.lmp.title': 'Método de la FUM (el más común)',
+  'howItWorks.lmp.body':
+    'El método de la última menstruación usa la regla de Naegele: suma 280 días (40 semanas) al primer día de tu última regla. Es el método estándar que usan los profesionales de salud en todo el mundo.',
+  'howItWorks.lmp.dueDate': 'Fecha de parto = FUM + 280 días (+/- los días en que tu ciclo difiere de 28)',
+  'howItWorks.lmp.conception': 'Fecha de concepción = FUM + duración del ciclo - fase lútea (día 14 por defecto)',
+  'howItWorks.lmp.gestationalAge': 'Edad gestacional = días desde la FUM, en semanas completas + días (p. ej. 23w4d)',
+  'howItWorks.dueDate.title': 'Método de la fecha de parto',
+  'howItWorks.dueDate.body':
+    'Si ya conoces tu fecha de parto por una ecografía o un cálculo anterior, podemos calcular hacia atrás tu fecha de concepción y cómo avanza tu embarazo.',
+  'howItWorks.dueDate.lmp': 'FUM = fecha de parto - 280 días',
+  'howItWorks.dueDate.conception': 'Fecha de concepción = FUM + 14 días',
+  'howItWorks.dueDate.progress': 'El progreso se calcula a partir de la FUM estimada',
+  'howItWorks.other.title': 'Métodos de concepción, FIV y ecografía',
+  'howItWorks.other.body':
+    'Cuando se conoce con precisión la fecha de concepción, por ejemplo por el seguimiento de la ovulación o por FIV, la fecha de parto se cuenta desde ese día. El embarazo dura unos 266 días desde la concepción. Una ecografía de datación temprana fija cuánto había avanzado el embarazo el día de la ecografía.',
+  'howItWorks.other.conception': 'Fecha de parto = fecha de concepción o de punción ovárica + 266 días',
+  'howItWorks.other.transfer':
+    'Fecha de parto = fecha de transferencia + 266 días - edad del embrión (p. ej. +261 días para un blastocisto de día 5)',
+  'howItWorks.other.ultrasound':
+    'Fecha de parto = fecha de la ecografía + 280 días - edad gestacional en la ecografía (la LCC se convierte con la fórmula de Robinson)',
+  'howItWorks.other.weeks': 'Las semanas de gestación se cuentan desde la FUM equivalente, 2 semanas antes de la concepción',
+
+  'disclaimer.home.title': 'Aviso médico importante',
+  'disclaimer.home.body':
+    'Esta calculadora ofrece estimaciones basadas en cálculos estándar del embarazo y no sustituye el consejo médico profesional. Las fechas de parto pueden variar y solo tu profesional de salud puede darte una orientación personalizada. Consulta con tu médico o matrona para datar tu embarazo con precisión y para tu atención prenatal.',
+  'disclaimer.notice':
+    'Esta calculadora de fecha de parto se ofrece solo con fines informativos y educativos. No pretende sustituir el consejo, el diagnóstico ni el tratamiento médico profesional.',
+  'disclaimer.emergency':
+    'Si tienes una emergencia médica o una preocupación urgente sobre tu embarazo, contacta de inmediato con tu profesional de salud o llama a los servicios de emergencia. No confíes en esta calculadora ni en ninguna herramienta en línea ante una emergencia médica.',
+
+  'about.title': 'Acerca de nuestra calculadora de fecha de parto',
+  'about.what.title': '¿Qué es una calculadora de fecha de parto?',
+  'about.what.body':
+    'Una calculadora de fecha de parto es una herramienta médica que estima cuándo es probable que nazca tu bebé a partir del primer día de tu última menstruación (FUM) o de una fecha de parto conocida. Nuestra calculadora usa la regla de Naegele, el mismo método que emplean los profesionales de salud de todo el mundo para estimar la fecha de parto.',
+  'about.why.title': '¿Por qué usar nuestra calculadora de embarazo?',
+  'about.why.accurate.title': 'Cálculos precisos',
+  'about.why.accurate.body': 'Basados en estándares médicos y en la regla de Naegele que usan los profesionales de salud en todo el mundo.',
+  'about.why.instant.title': 'Resultados al instante',
+  'about.why.instant.body': 'Obtén al momento tu fecha de parto, tu fecha de concepción y tu semana de embarazo actual.',
+  'about.why.easy.title': 'Fácil de usar',
+  'about.why.easy.body': 'Una interfaz sencilla pensada para futuras madres, con instrucciones claras.',
+  'about.why.share.title': 'Comparte tus resultados',
+  'about.why.share.body': 'Comparte fácilmente los hitos de tu embarazo con familiares y amigos.',
+  'about.accuracy.title': '¿Qué precisión tiene la calculadora?',
+  'about.accuracy.intro':
+    'Nuestra calculadora acierta aproximadamente en el 80 % de los casos con un margen de 5 días respecto a la fecha real del parto. Aun así, conviene saber que:',
+  'about.accuracy.exactDate': 'Solo alrededor del 5 % de los bebés nace exactamente en su fecha probable de parto',
+  'about.accuracy.twoWeeks': 'La mayoría de los bebés nace en las 2 semanas anteriores o posteriores a la fecha de parto',
+  'about.accuracy.firstTime': 'Las madres primerizas suelen dar a luz 1 o 2 días después de la fecha de parto',
+  'about.accuracy.ultrasound': 'La datación por ecografía en el primer trimestre es más precisa que la datación por FUM',
+  'about.results.title': 'Cómo entender tus resultados',
+  'about.results.heading': 'Qué obtendrás:',
+  'about.results.dueDate.term': 'Fecha probable de parto:',
+  'about.results.dueDate.text': 'La fecha más probable en la que nacerá tu bebé',
+  'about.results.conception.term': 'Fecha de concepción:',
+  'about.results.conception.text': 'Fecha aproximada en la que se produjo la concepción (FUM + 14 días)',
+  'about.results.gestationalAge.term': 'Edad gestacional:',
+  'about.results.gestationalAge.text':
+    'Cuánto ha avanzado tu embarazo hoy, en semanas completas y días (p. ej. 23w4d son 23 semanas completas y 4 días, es decir, estás en tu semana 24)',
+  'about.results.daysRemaining.term': 'Días restantes:',
+  'about.results.daysRemaining.text': 'Cuenta atrás hasta tu fecha de parto',
+  'about.results.trimester.term': 'Información del trimestre:',
+  'about.results.trimester.text': 'En qué etapa del embarazo te encuentras ahora',
+  'about.provider.title': 'Cuándo acudir a tu profesional de salud',
+  'about.provider.intro': 'Aunque nuestra calculadora ofrece estimaciones útiles, consulta siempre con tu profesional de salud para:',
+  'about.provider.confirmation': 'Confirmar el embarazo',
+  'about.provider.ultrasound': 'Datar el embarazo con precisión mediante ecografía',
+  'about.provider.prenatal': 'Planificar la atención prenatal',
+  'about.provider.concerns': 'Cualquier duda o preocupación sobre tu embarazo',
+  'about.provider.irregular': 'Ciclos menstruales irregulares que puedan afectar a los cálculos',
+  'about.remember.title': 'Recuerda',
+  'about.remember.body':
+    'Esta herramienta es solo informativa y no sustituye el consejo médico profesional. Consulta siempre con tu profesional de salud para recibir una atención personalizada y una datación precisa del embarazo.',
+
+  'faq.search.label': 'Buscar preguntas',
+  'faq.search.placeholder': 'p. ej., ecografía, FIV, sin conexión',
+  'faq.search.clear': 'Borrar búsqueda',
+  'faq.search.matches.one': '{count} pregunta coincide',
+  'faq.search.matches.other': '{count} preguntas coinciden',
+  'faq.search.none':
+    'Ninguna pregunta coincide con «{query}». Prueba con menos palabras o con otras, o envíanos tu pregunta más abajo.',
+  'faq.link': 'Enlace a esta pregunta',
+  'faq.link.label': 'Enlace a esta pregunta: {question}',
+
+  'faqPage.title': 'Preguntas frecuentes',
+  'faqPage.more.title': '¿Tienes más preguntas?',
+  'faqPage.more.body':
+    'Si tienes más preguntas sobre el uso de nuestra calculadora o necesitas más información sobre la datación del embarazo, no dudes en contactarnos.',
+  'faqPage.more.link': 'Contáctanos →',
+
+  'disclaimer.title': 'Aviso médico',
+  'disclaimer.noticeTitle': 'Aviso importante',
+  'disclaimer.information.title': 'Aviso sobre la información médica',
+  'disclaimer.information.body':
+    'La información que ofrece nuestra calculadora de fecha de parto se basa en cálculos médicos estándar y no debe considerarse consejo médico. Los cálculos son estimaciones basadas en la regla de Naegele y en una duración media del embarazo de 280 días desde la última menstruación.',
+  'disclaimer.accuracy.title': 'Precisión y limitaciones',
+  'disclaimer.accuracy.estimates': 'Las fechas de parto calculadas son estimaciones y pueden diferir de la fecha real del parto',
+  'disclaimer.accuracy.exactDate': 'Solo alrededor del 5 % de los bebés nace exactamente en su fecha probable de parto',
+  'disclaimer.accuracy.factors':
+    'Factores individuales como la duración del ciclo, el momento de la ovulación o ciertas afecciones médicas pueden afectar a la precisión',
+  'disclaimer.accuracy.cycle':
+    'Salvo que indiques los datos de tu ciclo, la calculadora supone un ciclo menstrual estándar de 28 días con ovulación el día 14',
+  'disclaimer.accuracy.art':
+    'En los embarazos logrados mediante técnicas de reproducción asistida (TRA), los resultados dependen de las fechas de punción o transferencia indicadas, y prevalece la datación de tu clínica',
+  'disclaimer.care.title': 'Atención médica profesional',
+  'disclaimer.care.intro': 'Consulta siempre con profesionales de salud cualificados para:',
+  'disclaimer.care.confirmation': 'Confirmar el embarazo',
+  'disclaimer.care.ultrasound': 'Datar el embarazo con precisión mediante ecografía',
+  'disclaimer.care.prenatal': 'La atención y el seguimiento prenatal',
+  'disclaimer.care.concerns': 'Cualquier preocupación sobre tu embarazo o tu salud',
+  'disclaimer.care.decisions': 'Las decisiones médicas relacionadas con tu embarazo',
+  'disclaimer.relationship.title': 'Sin relación médica',
+  'disclaimer.relationship.body':
+    'El uso de esta calculadora no crea una relación médico-paciente entre tú y los responsables del sitio web. No somos profesionales de salud y no podemos ofrecer consejo médico, diagnósticos ni recomendaciones de tratamiento.',
+  'disclaimer.emergencyTitle': 'Situaciones de emergencia',
+  'disclaimer.liability.title': 'Limitación de responsabilidad',
+  'disclaimer.liability.body':
+    'No ofrecemos garantías ni declaraciones sobre la exactitud, fiabilidad, integridad o actualidad de la información proporcionada. No seremos responsables de ningún daño directo, indirecto, incidental, especial o consecuente derivado del uso de esta calculadora o de la confianza en sus resultados.',
+  'disclaimer.updates.title': 'Actualizaciones y cambios',
+  'disclaimer.updates.body':
+    'Nos reservamos el derecho a actualizar o modificar este aviso en cualquier momento y sin previo aviso. Si sigues usando la calculadora, aceptas cualquier cambio en este aviso.',
+  'disclaimer.remember.title': 'Recuerda',
+  'disclaimer.remember.body':
+    'Esta herramienta está pensada para ofrecer estimaciones útiles para planificar y seguir el embarazo. Sin embargo, cada embarazo es único y la atención médica profesional es esencial para la salud de la madre y del bebé. Consulta siempre con tu profesional de salud para recibir consejo y atención personalizados.',
+
+  'privacy.title': 'Política de privacidad',
+  'privacy.lastUpdated': 'Última actualización:',
+  'privacy.lastUpdatedDate': 'Enero de 2025',
+  'privacy.intro':
+    'Esta política de privacidad describe cómo recopilamos, usamos y protegemos tu información cuando usas nuestra calculadora de fecha de parto. Nos comprometemos a proteger tu privacidad y la seguridad de tu información personal.',
+  'privacy.collect.title': 'Información que recopilamos',
+  'privacy.collect.provided.title': 'Información que nos das',
+  'privacy.collect.provided.dates': 'Las fechas que introduces en la calculadora (última menstruación o fecha de parto)',
+  'privacy.collect.provided.sharing': 'Cualquier información que decidas compartir al usar las funciones para compartir',
+  'privacy.collect.provided.contactForm':
+    'El mensaje, el tema y el correo electrónico opcional que envías con el formulario de contacto, además de los datos de tu navegador y pantalla si dejas marcada esa opción (nunca las fechas de tu embarazo)',
+  'privacy.collect.automatic.title': 'Información recopilada automáticamente',
+  'privacy.collect.automatic.browser': 'Tipo y versión del navegador',
+  'privacy.collect.automatic.os': 'Sistema operativo',
+  'privacy.collect.automatic.ip': 'Dirección IP (anonimizada)',
+  'privacy.collect.automatic.pages': 'Páginas visitadas y tiempo de permanencia en el sitio',
+  'privacy.collect.automatic.referrer': 'Información del sitio web de procedencia',
+  'privacy.use.title': 'Cómo usamos tu información',
+  'privacy.use.calculations': 'Para ofrecer los cálculos de fecha de parto y servicios relacionados',
+  'privacy.use.improve': 'Para mejorar el funcionamiento de la calculadora y la experiencia de uso',
+  'privacy.use.analyze': 'Para analizar el uso del sitio web y optimizar su rendimiento',
+  'privacy.use.respond': 'Para responder a tus consultas y ofrecer atención al usuario',
+  'privacy.use.legal': 'Para cumplir con las obligaciones legales',
+  'privacy.security.title': 'Almacenamiento y seguridad de los datos',
+  'privacy.security.intro': 'Nos tomamos en serio la seguridad de tu información:',
+  'privacy.security.local': 'Los datos de los cálculos se procesan en tu navegador y no se guardan en nuestros servidores',
+  'privacy.security.shareLinks':
+    'Los enlaces para compartir resultados incluyen en el propio enlace las fechas que introdujiste; elige «Compartir solo la fecha de parto» para omitir tu última regla y otras fechas',
+  'privacy.security.measures': 'Usamos medidas de seguridad estándar del sector para proteger los datos que sí recopilamos',
+  'privacy.security.https': 'Nuestro sitio web usa cifrado HTTPS para proteger la transmisión de datos',
+  'privacy.security.health': 'No guardamos información sensible de salud en nuestros servidores',
+  'privacy.saved.title': 'Cálculos guardados',
+  'privacy.saved.off':
+    'El guardado está desactivado, así que nada de lo que introduces en la calculadora se guarda, ni en este dispositivo ni en ningún otro sitio. Al cerrar o recargar la página se borran tus fechas. Puedes activar el guardado desde la página de la calculadora.',
+  'privacy.saved.on.one':
+    'Has activado el guardado. 1 cálculo guardado se almacena en el almacenamiento local de este navegador, solo en este dispositivo, con los nombres y fechas que indicaste. Nunca se envía a nuestros servidores. Al desactivar el guardado en la página de la calculadora se borra.',
+  'privacy.saved.on.other':
+    'Has activado el guardado. {count} cálculos guardados se almacenan en el almacenamiento local de este navegador, solo en este dispositivo, con los nombres y fechas que indicaste. Nunca se envían a nuestros servidores. Al desactivar el guardado en la página de la calculadora se borran.',
+  'privacy.notifications.title': 'Notificaciones de progreso',
+  'privacy.notifications.body':
+    'Las notificaciones están desactivadas salvo que las actives. Cuando están activas, las fechas del embarazo que elegiste seguir y el calendario de notificaciones se guardan en tu navegador en este dispositivo, y es tu navegador quien muestra las notificaciones. No se envía nada a nuestros servidores ni a ningún servicio push. Al desactivar las notificaciones se borra el calendario.',
+  'privacy.cookies.title': 'Cookies y seguimiento',
+  'privacy.cookies.intro': 'Podemos usar cookies y tecnologías similares para:',
+  'privacy.cookies.preferences': 'Recordar tus preferencias y ajustes',
+  'privacy.cookies.traffic': 'Analizar el tráfico y los patrones de uso del sitio web',
+  'privacy.cookies.personalized': 'Ofrecer contenido y anuncios personalizados',
+  'privacy.cookies.improve': 'Mejorar nuestros servicios y la experiencia de uso',
+  'privacy.thirdParty.title': 'Servicios de terceros',
+  'privacy.thirdParty.intro': 'Podemos usar servicios de terceros para:',
+  'privacy.thirdParty.analytics': 'Analítica web (como Google Analytics)',
+  'privacy.thirdParty.advertising': 'Servicios de publicidad',
+  'privacy.thirdParty.cdn': 'Redes de distribución de contenidos',
+  'privacy.thirdParty.support': 'Herramientas de atención al usuario',
+  'privacy.thirdParty.outro': 'Estos terceros tienen sus propias políticas de privacidad y te recomendamos revisarlas.',
+  'privacy.sharing.title': 'Cesión de información',
+  'privacy.sharing.intro':
+    'No vendemos, intercambiamos ni alquilamos tu información personal a terceros. Solo podemos compartir información en los siguientes casos:',
+  'privacy.sharing.consent': 'Con tu consentimiento expreso',
+  'privacy.sharing.legal': 'Para cumplir requisitos legales u órdenes judiciales',
+  'privacy.sharing.protect': 'Para proteger nuestros derechos, bienes o seguridad, o los de nuestros usuarios',
+  'privacy.sharing.transfer': 'En relación con una transmisión o fusión empresarial',
+  'privacy.rights.title': 'Tus derechos y opciones',
+  'privacy.rights.intro': 'Tienes derecho a:',
+  'privacy.rights.access': 'Acceder a la información personal que tenemos sobre ti',
+  'privacy.rights.correct': 'Solicitar la corrección de información inexacta',
+  'privacy.rights.delete': 'Solicitar la eliminación de tu información personal',
+  'privacy.rights.optOut': 'Darte de baja de las comunicaciones comerciales',
+  'privacy.rights.cookies': 'Desactivar las cookies en los ajustes de tu navegador',
+  'privacy.children.title': 'Privacidad de los menores',
+  'privacy.children.body':
+    'Nuestro servicio no está dirigido a menores de 13 años. No recopilamos a sabiendas información personal de menores de 13 años. Si descubrimos que hemos recopilado información personal de un menor de 13 años, tomaremos medidas para eliminarla.',
+  'privacy.international.title': 'Usuarios internacionales',
+  'privacy.international.body':
+    'Si accedes a nuestro servicio desde fuera de Estados Unidos, ten en cuenta que tu información puede transferirse, almacenarse y procesarse en Estados Unidos, donde se encuentran nuestros servidores y nuestra base de datos central.',
+  'privacy.changes.title': 'Cambios en esta política de privacidad',
+  'privacy.changes.body':
+    'Podemos actualizar esta política de privacidad ocasionalmente. Te informaremos de cualquier cambio publicando la nueva política en esta página y actualizando la fecha de «Última actualización». Te recomendamos revisar esta política periódicamente.',
+  'privacy.contact.title': 'Contacto',
+  'privacy.contact.intro': 'Si tienes alguna pregunta sobre esta política de privacidad o nuestras prácticas de privacidad, contáctanos:',
+  'privacy.contact.body': 'Puedes escribirnos desde nuestra página de contacto o con los datos de contacto que figuran en nuestro sitio web.',
+
+  'contact.title': 'Contacto',
+  'contact.form.title': 'Envíanos un mensaje',
+  'contact.touch.title': 'Ponte en contacto',
+  'contact.touch.body':
+    '¡Estamos aquí para ayudarte! Si tienes preguntas sobre nuestra calculadora, necesitas asistencia técnica o quieres darnos tu opinión, no dudes en escribirnos.',
+  'contact.email.support.title': 'Asistencia por correo',
+  'contact.email.support.body': 'Para consultas generales y preguntas de asistencia',
+  'contact.email.tech.title': 'Problemas técnicos',
+  'contact.email.tech.body': 'Informa de errores o problemas técnicos con la calculadora',
+  'contact.email.feedback.title': 'Opiniones y sugerencias',
+  'contact.email.feedback.body': 'Comparte tus ideas para mejorar nuestra calculadora',
+  'contact.medical.title': 'Preguntas médicas',
+  'contact.medical.body':
+    'Ten en cuenta que no podemos dar consejo médico ni responder preguntas concretas de salud. Si tienes dudas médicas sobre tu embarazo, consulta con tu profesional de salud.',
+  'contact.topics.title': 'Temas frecuentes',
+  'contact.topics.accuracy.title': 'Precisión de la calculadora',
+  'contact.topics.accuracy.body': 'Preguntas sobre la precisión de nuestros cálculos y los factores que pueden afectar a los resultados.',
+  'contact.topics.howTo.title': 'Cómo usarla',
+  'contact.topics.howTo.body':
+    'Ayuda para usar la calculadora, elegir entre el método de la FUM y el de la fecha de parto, y entender los resultados.',
+  'contact.topics.technical.title': 'Asistencia técnica',
+  'contact.topics.technical.body': 'Problemas con el funcionamiento del sitio web, las funciones para compartir o la compatibilidad con móviles.',
+  'contact.topics.privacy.title': 'Privacidad y datos',
+  'contact.topics.privacy.body': 'Preguntas sobre cómo tratamos tus datos, dudas de privacidad y seguridad de la información.',
+  'contact.response.title': 'Tiempo de respuesta',
+  'contact.response.body':
+    'Solemos responder en un plazo de 24 a 48 horas en días laborables. Para problemas técnicos urgentes, intentamos responder en 24 horas.',
+  'contact.checkFaq': 'Consulta primero las preguntas frecuentes',
+  'contact.readDisclaimer': 'Lee el aviso médico',
+  'contact.before.title': 'Antes de contactarnos',
+  'contact.before.body':
+    'Para ayudarte mejor, consulta primero la sección de preguntas frecuentes, que responde a la mayoría de las dudas habituales. Al escribirnos, incluye:',
+  'contact.before.description': 'Una descripción clara de tu pregunta o problema',
+  'contact.before.browser': 'El tipo y la versión de tu navegador (para problemas técnicos; el formulario de arriba puede adjuntarlos por ti)',
+  'contact.before.tried': 'Lo que ya has probado para resolver el problema',
+  'contact.before.screenshots': 'Capturas de pantalla, si procede (para problemas técnicos)',
+
+  'contactForm.category': '¿Sobre qué es?',
+  'contactForm.category.choose': 'Elige un tema',
+  'contactForm.category.technical': 'Problema técnico',
+  'contactForm.category.feedback': 'Opinión o sugerencia',
+  'contactForm.category.medical': 'Pregunta médica',
+  'contactForm.category.accuracy': 'Precisión de la calculadora',
+  'contactForm.medicalNotice':
+    'No podemos dar consejo médico. Para preguntas sobre tu salud o tu embarazo, consulta a tu profesional sanitario.',
+  'contactForm.message': 'Mensaje',
+  'contactForm.email': 'Correo electrónico',
+  'contactForm.email.hint': '(opcional, para que podamos responderte)',
+  'contactForm.diagnostics': 'Incluir los datos de mi navegador y pantalla para ayudar con problemas técnicos.',
+  'contactForm.diagnostics.preview': 'Qué se incluye',
+  'contactForm.diagnostics.noDates': 'Nunca se incluyen las fechas de tu embarazo.',
+  'contactForm.failed':
+    'No se pudo enviar tu mensaje. Comprueba tu conexión y vuelve a intentarlo, o envíalo por correo electrónico.',
+  'contactForm.failed.mailto': 'Abrirlo en mi aplicación de correo',
+  'contactForm.send': 'Enviar mensaje',
+  'contactForm.sending': 'Enviando…',
+  'contactForm.sent.title': 'Gracias, tu mensaje se ha enviado',
+  'contactForm.sent.reply': 'Normalmente respondemos en 24-48 horas en días laborables.',
+  'contactForm.sent.noReply': 'No has dejado un correo electrónico, así que no podremos responderte, pero leemos todos los mensajes.',
+  'contactForm.handedOff.title': 'Tu aplicación de correo debería estar abierta',
+  'contactForm.handedOff.body': 'Hemos rellenado el mensaje por ti. Pulsa enviar en tu aplicación de correo para mandarlo.',
+  'contactForm.another': 'Escribir otro mensaje',
+  'contactForm.error.category': 'Elige sobre qué es tu mensaje.',
+  'contactForm.error.tooShort': 'Escribe al menos {min} caracteres para que podamos ayudarte.',
+  'contactForm.error.tooLong': 'Tu mensaje debe tener menos de {max} caracteres.',
+  'contactForm.error.email': 'Introduce un correo electrónico válido o déjalo en blanco.',
+
+  'notFound.title': 'Página no encontrada',
+  'notFound.body': 'No encontramos la página que buscabas. Puede que se haya movido o que el enlace esté mal escrito.',
+  'notFound.home': 'Ir a la calculadora',
+
+  'footer.description':
+    'Calculadora gratuita y precisa de fecha de parto y de concepción. Calcula tu fecha probable de parto a partir de tu última menstruación o de una fecha de parto conocida.',
+  'footer.copyright':
+    '© 2025 Calculadora de Embarazo. Solo con fines informativos. Consulta siempre a tu profesional sanitario.',
+  'footer.quickLinks': 'Enlaces rápidos',
+  'footer.legal': 'Legal'
+};
@@ -0,0 +1,676 @@
+import { Catalog } from './en';
+
+export const hi: Catalog = {
+  'app.name': 'प्रेगनेंसी कैलकुलेटर',
+  'app.tagline': 'डिलीवरी और गर्भधारण की तारीख़ का कैलकुलेटर',
+
+  'meta.home.title': 'डिलीवरी की तारीख़ कैलकुलेटर – अपनी डिलीवरी और गर्भधारण की तारीख़ जानें',
+  'meta.home.description':
+    'LMP या डिलीवरी की तारीख़ के आधार पर हमारे प्रेग्नेंसी कैलकुलेटर से तुरंत अपनी अनुमानित डिलीवरी और गर्भधारण की तारीख़ निकालें। मुफ़्त, सटीक और आसान।',
+  'meta.about.title': 'इस डिलीवरी की तारीख़ कैलकुलेटर के बारे में | {site}',
+  'meta.about.description':
+    'हमारा प्रेग्नेंसी कैलकुलेटर आख़िरी माहवारी, गर्भधारण, IVF ट्रांसफ़र या अल्ट्रासाउंड स्कैन से डिलीवरी की तारीख़ का अनुमान कैसे लगाता है।',
+  'meta.faq.title': 'प्रेग्नेंसी कैलकुलेटर: अक्सर पूछे जाने वाले सवाल | {site}',
+  'meta.faq.description':
+    'डिलीवरी की तारीख़ की सटीकता, गर्भकालीन आयु, तिमाहियों और कैलकुलेटर के इस्तेमाल से जुड़े आम सवालों के जवाब।',
+  'meta.disclaimer.title': 'चिकित्सा अस्वीकरण | {site}',
+  'meta.disclaimer.description': 'प्रेग्नेंसी कैलकुलेटर केवल जानकारी के लिए है और आपके डॉक्टर की सलाह की जगह नहीं लेता।',
+  'meta.privacy.title': 'गोपनीयता नीति | {site}',
+  'meta.privacy.description': 'प्रेग्नेंसी कैलकुलेटर आपकी डाली गई तारीख़ों और हमसे साझा की गई जानकारी को कैसे संभालता है।',
+  'meta.contact.title': 'हमसे संपर्क करें | {site}',
+  'meta.contact.description': 'सवाल, सुझाव या तकनीकी दिक़्क़तों के लिए प्रेग्नेंसी कैलकुलेटर टीम से संपर्क करें।',
+  'meta.notFound.title': 'पेज नहीं मिला | {site}',
+  'meta.notFound.description': 'आप जो पेज ढूँढ रहे थे वह नहीं मिला।',
+
+  'nav.home': 'कैलकुलेटर',
+  'nav.about': 'इस टूल के बारे में',
+  'nav.faq': 'सामान्य प्रश्न',
+  'nav.disclaimer': 'अस्वीकरण',
+  'nav.privacy': 'गोपनीयता',
+  'nav.contact': 'संपर्क',
+  'nav.toggleMenu': 'मेनू खोलें या बंद करें',
+  'nav.language': 'भाषा',
+  'nav.theme': 'थीम',
+  'theme.system': 'डिवाइस के अनुसार',
+  'theme.light': 'लाइट',
+  'theme.dark': 'डार्क',
+  'theme.contrast': 'हाई कंट्रास्ट',
+
+  'hero.title': 'मुफ़्त ड्यू डेट कैलकुलेटर',
+  'hero.intro':
+    'अपनी अनुमानित डिलीवरी की तारीख़ और गर्भधारण की तारीख़ तुरंत जानें। हमारा कैलकुलेटर चिकित्सा मानकों पर आधारित सटीक गणना से आपकी गर्भावस्था पर नज़र रखने में मदद करता है।',
+  'hero.accurate': 'सटीक गणना',
+  'hero.standards': 'चिकित्सा मानक',
+  'hero.sharing': 'आसानी से शेयर करें',
+
+  'method.heading': 'गणना का तरीका चुनें',
+  'method.groupLabel': 'गणना का तरीका',
+  'method.lmp.label': 'आख़िरी माहवारी (LMP)',
+  'method.lmp.description': 'सबसे आम तरीका - अपनी आख़िरी माहवारी का पहला दिन डालें',
+  'method.dueDate.label': 'पता डिलीवरी की तारीख़',
+  'method.dueDate.description': 'अगर आपको अपनी डिलीवरी की तारीख़ पहले से पता है',
+  'method.conception.label': 'गर्भधारण / ओव्यूलेशन की तारीख़',
+  'method.conception.description': 'अगर आपको पता है कि ओव्यूलेशन या गर्भधारण कब हुआ',
+  'method.eggRetrieval.label': 'IVF एग रिट्रीवल',
+  'method.eggRetrieval.description': 'वह तारीख़ जिस दिन अंडे निकाले और निषेचित किए गए',
+  'method.embryoTransfer.label': 'IVF एम्ब्रियो ट्रांसफ़र',
+  'method.embryoTransfer.description': 'ट्रांसफ़र की तारीख़ और भ्रूण की उम्र से गणना करें',
+  'method.ultrasound.label': 'डेटिंग अल्ट्रासाउंड',
+  'method.ultrasound.description': 'शुरुआती स्कैन में मापी गई गर्भावधि या CRL से गणना करें',
+
+  'field.optional': '(वैकल्पिक)',
+  'field.lmp.label': 'आख़िरी माहवारी का पहला दिन',
+  'field.lmp.help': 'डिलीवरी की तारीख़ जानने के लिए अपनी आख़िरी माहवारी का पहला दिन चुनें',
+  'field.cycleLength.label': 'औसत चक्र की अवधि',
+  'field.cycleLength.help': 'एक माहवारी की शुरुआत से अगली की शुरुआत तक के दिन ({min}-{max})',
+  'field.lutealPhase.label': 'ल्यूटियल फ़ेज़ की अवधि',
+  'field.lutealPhase.help': 'ओव्यूलेशन से अगली माहवारी तक के दिन, अगर आप इसे ट्रैक करती हैं ({min}-{max})',
+  'field.daysPlaceholder': '{count} दिन',
+  'field.dueDate.label': 'आपकी डिलीवरी की तारीख़',
+  'field.dueDate.help': 'गर्भधारण की तारीख़ और मौजूदा सप्ताह जानने के लिए अपनी डिलीवरी की तारीख़ डालें',
+  'field.conception.label': 'गर्भधारण या ओव्यूलेशन की तारीख़',
+  'field.conception.help': 'वह दिन डालें जब ओव्यूलेशन या गर्भधारण हुआ, जैसे ओव्यूलेशन टेस्ट या ट्रैकिंग ऐप से',
+  'field.retrieval.label': 'एग रिट्रीवल की तारीख़',
+  'field.retrieval.help': 'निषेचन रिट्रीवल के दिन ही होता है, इसलिए इसे गर्भधारण की तारीख़ माना जाता है',
+  'field.transfer.label': 'एम्ब्रियो ट्रांसफ़र की तारीख़',
+  'field.transfer.help': 'वह तारीख़ डालें जिस दिन भ्रूण ट्रांसफ़र किया गया',
+  'field.embryoAge.legend': 'ट्रांसफ़र के समय भ्रूण की उम्र',
+  'field.embryoAge.day': 'दिन {age}',
+  'field.embryoAge.cleavage': 'क्लीवेज स्टेज',
+  'field.embryoAge.blastocyst': 'ब्लास्टोसिस्ट',
+  'field.scanDate.label': 'डेटिंग स्कैन की तारीख़',
+  'field.scanDate.help': 'वह तारीख़ डालें जिस दिन अल्ट्रासाउंड हुआ',
+  'field.scanResult.legend': 'स्कैन का परिणाम',
+  'field.scanResult.gestationalAge': 'गर्भावधि',
+  'field.scanResult.gestationalAgeHint': 'रिपोर्ट में लिखे सप्ताह + दिन',
+  'field.scanResult.crl': 'क्राउन-रंप लंबाई',
+  'field.scanResult.crlHint': 'CRL मिलीमीटर में',
+  'field.scanWeeks.label': 'सप्ताह',
+  'field.scanDays.label': 'दिन',
+  'field.crl.label': 'क्राउन-रंप लंबाई (mm)',
+  'field.crl.equivalent': 'स्कैन की तारीख़ पर {age} के बराबर (रॉबिन्सन फ़ॉर्मूला)',
+  'field.crl.range': 'CRL से गणना {min} से {max} mm तक मान्य है (लगभग 14 सप्ताह तक)',
+  'field.scanLmp.label': 'आख़िरी माहवारी का पहला दिन (वैकल्पिक)',
+  'field.scanLmp.help': 'स्कैन से तुलना के लिए अपनी LMP डालें (28 दिन का सामान्य चक्र मानकर); हम ACOG दिशानिर्देशों के अनुसार डिलीवरी की तारीख़ चुनते हैं',
+  'field.referenceDate.label': 'इस तारीख़ तक की प्रगति दिखाएँ',
+  'field.referenceDate.today': 'आज',
+  'field.referenceDate.help': 'देखें कि किसी आने वाली या बीती तारीख़ पर आप कितने सप्ताह की होंगी। आज के लिए ख़ाली छोड़ें।',
+  'field.babies.legend': 'शिशुओं की संख्या',
+  'field.babies.1': 'एक शिशु',
+  'field.babies.2': 'जुड़वाँ',
+  'field.babies.3': 'तीन शिशु',
+  'field.twinType.label': 'जुड़वाँ का प्रकार',
+  'field.twinType.dichorionic': 'डाइकोरियोनिक (अलग-अलग प्लेसेंटा)',
+  'field.twinType.monochorionic': 'मोनोकोरियोनिक डायएम्नियोटिक (एक प्लेसेंटा, अलग थैलियाँ)',
+  'field.twinType.monoamniotic': 'मोनोएम्नियोटिक (एक प्लेसेंटा और एक थैली)',
+  'field.twinType.help': 'यह पहली तिमाही के स्कैन से पता चलता है। पक्का न हो तो डाइकोरियोनिक ही रहने दें, यह सबसे आम प्रकार है।',
+
+  'validation.invalidDate': 'कृपया पूरी और सही तारीख़ डालें।',
+  'validation.futureDate': 'यह तारीख़ भविष्य की है। कृपया आज या उससे पहले की तारीख़ डालें।',
+  'validation.range.days': 'कृपया {min} से {max} दिन के बीच की पूर्ण संख्या डालें।',
+  'validation.range.weeks': 'कृपया {min} से {max} सप्ताह के बीच की पूर्ण संख्या डालें।',
+  'validation.range.mm': 'कृपया {min} से {max} mm के बीच का मान डालें।',
+  'validation.optionalRange.days': '{min} से {max} दिन के बीच की पूर्ण संख्या डालें; तब तक सामान्य मान लिया जाएगा।',
+  'validation.optionalRange.weeks': '{min} से {max} सप्ताह के बीच की पूर्ण संख्या डालें; तब तक सामान्य मान लिया जाएगा।',
+  'validation.optionalRange.mm': '{min} से {max} mm के बीच का मान डालें; तब तक सामान्य मान लिया जाएगा।',
+  'validation.beyondRange':
+    'इससे गर्भावस्था {age} की बनती है, यानी {weeks} सप्ताह से ज़्यादा। हो सकता है तारीख़ ग़लत हो, या आपके शिशु का जन्म हो चुका हो।',
+  'validation.dueDateTooFar':
+    'यह डिलीवरी की तारीख़ {weeks} सप्ताह से ज़्यादा दूर है। डिलीवरी की तारीख़ आख़िरी माहवारी शुरू होने के 40 सप्ताह से ज़्यादा बाद कभी नहीं होती।',
+  'validation.beforeLmp':
+    'इससे तारीख़ आख़िरी माहवारी के पहले दिन से पहले आती है, जब गर्भावस्था शुरू नहीं हुई थी। कृपया तारीख़ें जाँचें।',
+  'validation.lmpAfterScan': 'आपकी LMP स्कैन की तारीख़ से पहले की होनी चाहिए।',
+
+  'gestation.dichorionic': 'डाइकोरियोनिक जुड़वाँ',
+  'gestation.monochorionic': 'मोनोकोरियोनिक डायएम्नियोटिक जुड़वाँ',
+  'gestation.monoamniotic': 'मोनोएम्नियोटिक जुड़वाँ',
+  'gestation.triplets': 'तीन शिशु',
+
+  'unit.day.one': '{count} दिन',
+  'unit.day.other': '{count} दिन',
+  'unit.week.one': '{count} सप्ताह',
+  'unit.week.other': '{count} सप्ताह',
+  'unit.completedWeek.one': '{count} पूरा सप्ताह',
+  'unit.completedWeek.other': '{count} पूरे सप्ताह',
+
+  'saved.title': 'सेव की गई गर्भावस्थाएँ',
+  'saved.storageFailed':
+    'आपके ब्राउज़र ने इस डिवाइस पर सेव करने की अनुमति नहीं दी। प्राइवेट ब्राउज़िंग या भरे हुए स्टोरेज से ऐसा हो सकता है।',
+  'saved.intro':
+    'बाद में दोबारा देखने के लिए गणनाएँ इस डिवाइस पर सेव करें, जैसे "दूसरा बच्चा" या "बहन की गर्भावस्था"। इसे चालू करने तक कुछ भी सेव नहीं होता, और सेव की गई गणनाएँ इसी ब्राउज़र में रहती हैं।',
+  'saved.enable': 'सेव करना चालू करें',
+  'saved.name.label': 'इस गणना को नाम दें',
+  'saved.name.placeholder': 'जैसे दूसरा बच्चा',
+  'saved.save': 'सेव करें',
+  'saved.update': '"{name}" अपडेट करें',
+  'saved.saveAsNew': 'नई के रूप में सेव करें',
+  'saved.enterDates': 'गणना सेव करने के लिए ऊपर अपनी तारीख़ें डालें।',
+  'saved.list': 'सेव की गई गणनाएँ',
+  'saved.openBadge': 'खुली है',
+  'saved.open': 'खोलें',
+  'saved.open.label': '{name} खोलें',
+  'saved.delete': 'मिटाएँ',
+  'saved.delete.label': '{name} मिटाएँ',
+  'saved.disable': 'सेव करना बंद करें और सभी सेव की गई गणनाएँ मिटाएँ',
+  'saved.disable.confirm': 'इस डिवाइस से सभी सेव की गई गणनाएँ मिटाएँ?',
+  'saved.details': 'डिलीवरी की तारीख़ {date} · {method}',
+  'saved.details.babies': 'डिलीवरी की तारीख़ {date} · {method} · {babies}',
+
+  'notifications.title': 'प्रगति की सूचनाएँ',
+  'notifications.failed':
+    'आपके ब्राउज़र ने इस डिवाइस पर सूचनाएँ शेड्यूल करने की अनुमति नहीं दी। प्राइवेट ब्राउज़िंग या भरे हुए स्टोरेज से ऐसा हो सकता है।',
+  'notifications.unsupported':
+    'यह ब्राउज़र कैलकुलेटर की सूचनाएँ नहीं दिखा सकता। iPhone और iPad पर पहले कैलकुलेटर को होम स्क्रीन पर जोड़ें, फिर वहीं से खोलें।',
+  'notifications.denied':
+    'इस साइट के लिए सूचनाएँ ब्लॉक हैं। इन्हें चालू करने के लिए अपने ब्राउज़र की साइट सेटिंग में सूचनाओं की अनुमति दें और पेज रीलोड करें।',
+  'notifications.intro':
+    'गर्भावस्था आगे बढ़ने के साथ रिमाइंडर पाएँ, जैसे "आज आप 20 सप्ताह की हो गईं" या "इस सप्ताह शुरू: ग्लूकोज़ टॉलरेंस टेस्ट"। रिमाइंडर इसी डिवाइस पर आपका ब्राउज़र शेड्यूल करता है और दिखाता है; किसी सर्वर पर कुछ नहीं भेजा जाता।',
+  'notifications.frequency': 'कितनी बार',
+  'notifications.frequency.weekly': 'हर सप्ताह',
+  'notifications.frequency.weekly.hint': 'हर नए सप्ताह के पहले दिन, जैसे "आज आप 20 सप्ताह की हो गईं"',
+  'notifications.frequency.daily': 'हर दिन',
+  'notifications.frequency.daily.hint': 'हर दिन, और जाँच का समय शुरू होने वाले दिन उसकी जानकारी',
+  'notifications.enable': 'सूचनाएँ चालू करें',
+  'notifications.enterDates': 'सूचनाएँ चालू करने के लिए ऊपर अपनी तारीख़ें डालें।',
+  'notifications.on': 'इस गर्भावस्था के लिए सूचनाएँ चालू हैं:',
+  'notifications.tracked': 'डिलीवरी की तारीख़ {date}',
+  'notifications.arrival': 'ये तब आती हैं जब आपका ब्राउज़र अगली बार जाँच करता है, जो कैलकुलेटर खोलने पर भी हो सकता है।',
+  'notifications.trackCurrent': 'इसकी जगह ऊपर वाली गणना फ़ॉलो करें',
+  'notifications.disable': 'सूचनाएँ बंद करें',
+  'notifications.message.weeks': 'आज आप {weeks} सप्ताह की हो गईं',
+  'notifications.message.age': 'आज आप {age} की हैं',
+  'notifications.message.milestone.today': 'आज: {label}।',
+  'notifications.message.milestone.thisWeek': 'इस सप्ताह: {label}।',
+  'notifications.message.window.today': 'आज शुरू: {label}।',
+  'notifications.message.window.thisWeek': 'इस सप्ताह शुरू: {label}।',
+  'notifications.message.dueToday': 'आज आपकी अनुमानित डिलीवरी की तारीख़ है।',
+  'notifications.message.until.one': 'डिलीवरी की तारीख़ में {count} दिन बाकी है।',
+  'notifications.message.until.other': 'डिलीवरी की तारीख़ में {count} दिन बाकी हैं।',
+  'notifications.message.past.one': 'डिलीवरी की तारीख़ को {count} दिन बीत गया है।',
+  'notifications.message.past.other': 'डिलीवरी की तारीख़ को {count} दिन बीत गए हैं।',
+
+  'results.region': 'गणना के परिणाम',
+  'results.dueDate.title': 'अनुमानित डिलीवरी की तारीख़',
+  'results.daysRemaining.one': '{count} दिन बाकी',
+  'results.daysRemaining.other': '{count} दिन बाकी',
+  'results.dueToday': 'आज डिलीवरी की तारीख़ है!',
+  'results.daysPastDue.one': 'डिलीवरी की तारीख़ को {count} दिन बीत गया',
+  'results.daysPastDue.other': 'डिलीवरी की तारीख़ को {count} दिन बीत गए',
+  'results.calendarWeek': 'कैलेंडर सप्ताह {start} – {end}',
+  'results.lateTerm': '41 सप्ताह (लेट टर्म)',
+  'results.postTerm': '42 सप्ताह (पोस्ट-टर्म)',
+  'results.conception.title': 'अनुमानित गर्भधारण की तारीख़',
+  'results.conception.adjusted': 'चक्र के दिन {day} पर ओव्यूलेशन के हिसाब से',
+  'results.conception.fertilization': 'निषेचन की तारीख़',
+  'results.conception.approximate': 'गर्भधारण की अनुमानित तारीख़',
+  'results.deliveryWindow.title': 'सामान्य डिलीवरी अवधि · {label}',
+  'results.deliveryWindow.twins':
+    '{start} से {end} तक। जुड़वाँ बच्चे आमतौर पर 40 सप्ताह की डिलीवरी तारीख़ से पहले पैदा होते हैं, पर सप्ताह उसी तारीख़ से गिने जाते हैं। आपकी देखभाल टीम डिलीवरी का समय तय करेगी।',
+  'results.deliveryWindow.triplets':
+    '{start} से {end} तक। तीन शिशु आमतौर पर 40 सप्ताह की डिलीवरी तारीख़ से पहले पैदा होते हैं, पर सप्ताह उसी तारीख़ से गिने जाते हैं। आपकी देखभाल टीम डिलीवरी का समय तय करेगी।',
+  'results.progress.title': 'गर्भावस्था की प्रगति',
+  'results.progress.asOf': '{date} तक',
+  'results.gestationalAge.pregnant': '{weeks}, {days} की गर्भावस्था',
+  'results.gestationalAge.caption': '{completed} · अभी सप्ताह {week} चल रहा है',
+  'results.stage.current': 'मौजूदा चरण',
+  'results.daysToGo': 'दिन बाकी',
+  'results.daysPastDue': 'तारीख़ के बाद के दिन',
+  'results.untilDueDate': 'डिलीवरी की तारीख़ तक',
+  'results.sinceDueDate': 'डिलीवरी की तारीख़ से',
+  'results.daysToWindow': 'डिलीवरी अवधि तक के दिन',
+  'results.inWindow': 'डिलीवरी अवधि में',
+  'results.windowNow': 'अभी',
+  'results.untilAge': '{age} तक',
+  'results.toDueDate': '40 सप्ताह की डिलीवरी तारीख़ तक {days}',
+
+  'redating.title': 'LMP बनाम अल्ट्रासाउंड से गणना',
+  'redating.byLmp': 'आख़िरी माहवारी के अनुसार',
+  'redating.byUltrasound': 'अल्ट्रासाउंड के अनुसार (स्कैन के समय {age})',
+  'redating.final': 'अंतिम EDD',
+  'redating.chosen.lmp': 'LMP',
+  'redating.chosen.ultrasound': 'अल्ट्रासाउंड',
+  'redating.match': 'स्कैन आपकी LMP से पूरी तरह मेल खाता है, इसलिए LMP वाली डिलीवरी की तारीख़ ही रखी गई है।',
+  'redating.ahead': 'स्कैन आपकी LMP की तारीख़ों से {days} आगे है।',
+  'redating.behind': 'स्कैन आपकी LMP की तारीख़ों से {days} पीछे है।',
+  'redating.useUltrasound':
+    '{band} किए गए स्कैन के लिए ACOG तारीख़ तभी बदलने की सलाह देता है जब अंतर {threshold} से ज़्यादा हो, इसलिए अल्ट्रासाउंड वाली डिलीवरी की तारीख़ ली गई है।',
+  'redating.keepLmp':
+    '{band} किए गए स्कैन के लिए ACOG तारीख़ तभी बदलने की सलाह देता है जब अंतर {threshold} से ज़्यादा हो, इसलिए LMP वाली डिलीवरी की तारीख़ ही रखी गई है।',
+  'redating.band.before': '{age} से पहले',
+  'redating.band.between': '{start} से {end} के बीच',
+  'redating.band.from': '{age} या उसके बाद',
+  'redating.suboptimal':
+    'यह स्कैन 22 सप्ताह या उसके बाद हुआ था। इससे पहले के अल्ट्रासाउंड के बिना गणना कम भरोसेमंद मानी जाती है; इसे कैसे समझें, इस बारे में आपके डॉक्टर सलाह दे सकते हैं।',
+
+  'stage.first': 'पहली तिमाही',
+  'stage.first.range': 'सप्ताह 1-12',
+  'stage.second': 'दूसरी तिमाही',
+  'stage.second.range': 'सप्ताह 13-27',
+  'stage.third': 'तीसरी तिमाही',
+  'stage.third.range': 'सप्ताह 28-40',
+  'stage.overdue.range': '40 सप्ताह के बाद',
+  'stage.lateTerm': 'लेट टर्म',
+  'stage.lateTerm.range': 'सप्ताह 41-41+6',
+  'stage.postTerm': 'पोस्ट-टर्म',
+  'stage.postTerm.range': 'सप्ताह 42 और उसके बाद',
+
+  'development.title': 'सप्ताह {week}: आपके शिशु का विकास',
+  'development.thisWeek': 'यह सप्ताह',
+  'development.previous': 'पिछला सप्ताह',
+  'development.next': 'अगला सप्ताह',
+  'development.backToCurrent': 'इस सप्ताह पर लौटें',
+  'development.size': 'लगभग इतना बड़ा',
+  'development.length.crownRump': 'लंबाई, सिर से कूल्हे तक',
+  'development.length.crownHeel': 'लंबाई, सिर से एड़ी तक',
+  'development.weight': 'वज़न',
+  'development.weight.underGram': '1 ग्राम से कम',
+  'development.baby': 'आपका शिशु',
+  'development.body': 'आपका शरीर',
+  'development.startsAt': 'सप्ताह-दर-सप्ताह जानकारी सप्ताह {week} से शुरू होती है।',
+  'development.note':
+    'आकार सप्ताह के अंत की सामान्य सीमाएँ हैं। हर शिशु अपनी गति से बढ़ता है; आपका शिशु कैसे बढ़ रहा है, यह आपके डॉक्टर बता सकते हैं।',
+
+  'distribution.title': 'शिशु कब आते हैं',
+  'distribution.intro':
+    'केवल लगभग {chance} शिशु अपनी डिलीवरी की तारीख़ पर पैदा होते हैं। यह चार्ट एक राष्ट्रीय जन्म रजिस्टर की 4 लाख से ज़्यादा गर्भावस्थाओं की अवधि पर फ़िट की गई वक्र रेखा से दिखाता है कि हर दिन जन्म की संभावना कितनी है।',
+  'distribution.parity': 'क्या यह आपका पहला बच्चा है?',
+  'distribution.parity.unknown': 'नहीं बताया',
+  'distribution.parity.first': 'पहला बच्चा',
+  'distribution.parity.subsequent': 'पहले बच्चा हो चुका है',
+  'distribution.chance.below': '{percent} से कम',
+  'distribution.chance.above': '{percent} से ज़्यादा',
+  'distribution.chart': 'हर दिन डिलीवरी की संभावना। 80% जन्म {start} और {end} के बीच होते हैं।',
+  'distribution.legend.dueDate': 'डिलीवरी की तारीख़',
+  'distribution.legend.likely': 'सबसे संभावित 80%',
+  'distribution.legend.veryLikely': '90%',
+  'distribution.range.likely': '80% शिशु इनके बीच आते हैं',
+  'distribution.range.veryLikely': '90% शिशु इनके बीच आते हैं',
+  'distribution.lookup': 'इस तारीख़ तक डिलीवरी हो चुकने की संभावना',
+  'distribution.lookup.result': 'लगभग {chance} शिशु {date} को या उससे पहले पैदा होते हैं।',
+  'distribution.approximation':
+    'स्रोत: {source}। यह वक्र रेखा नॉर्वे के जन्म रजिस्टर में आख़िरी माहवारी से गिनी गई गर्भावस्था की औसत अवधि, सबसे आम अवधि और फैलाव से मेल खाती है; पहले बच्चे का अंतर एक छोटे अमेरिकी अध्ययन से लिया गया है। अल्ट्रासाउंड से तय की गई तारीख़, इंडक्शन, पहले से तय सिज़ेरियन और आपका अपना स्वास्थ्य इतिहास तस्वीर बदल देते हैं, इसलिए अपने मामले में क्या उम्मीद करें, यह अपने डॉक्टर से पूछें।',
+
+  'timeline.title': 'सप्ताह-दर-सप्ताह टाइमलाइन',
+  'timeline.weeks': 'गर्भावस्था के सप्ताह',
+  'timeline.week': 'सप्ताह {week}',
+  'timeline.current': 'आप यहाँ हैं',
+  'timeline.from': '{date} से ({age})',
+
+  'milestone.nipt.label': 'NIPT ब्लड टेस्ट',
+  'milestone.nipt.description': 'क्रोमोसोम से जुड़ी स्थितियों के लिए नॉन-इनवेसिव प्रीनेटल टेस्ट 10 सप्ताह से उपलब्ध है',
+  'milestone.ntScan.label': 'न्यूकल ट्रांसलूसेंसी (NT) स्कैन',
+  'milestone.ntScan.description': 'पहली तिमाही का स्क्रीनिंग अल्ट्रासाउंड',
+  'milestone.secondTrimester.label': 'दूसरी तिमाही शुरू',
+  'milestone.secondTrimester.description': '13 पूरे सप्ताह (13w0d)',
+  'milestone.anatomyScan.label': 'एनॉमली स्कैन',
+  'milestone.anatomyScan.description': 'गर्भावस्था के बीच में शिशु का विस्तृत अल्ट्रासाउंड',
+  'milestone.glucoseTest.label': 'ग्लूकोज़ टॉलरेंस टेस्ट',
+  'milestone.glucoseTest.description': 'गर्भावधि मधुमेह की जाँच',
+  'milestone.tdap.label': 'Tdap टीका',
+  'milestone.tdap.description': 'नवजात शिशु को काली खांसी से बचाने वाला टीका',
+  'milestone.thirdTrimester.label': 'तीसरी तिमाही शुरू',
+  'milestone.thirdTrimester.description': '28 पूरे सप्ताह (28w0d)',
+  'milestone.gbs.label': 'ग्रुप B स्ट्रेप (GBS) टेस्ट',
+  'milestone.gbs.description': 'स्वैब टेस्ट, ताकि ज़रूरत हो तो प्रसव के दौरान एंटीबायोटिक की योजना बन सके',
+  'milestone.fullTerm.label': 'फ़ुल टर्म',
+  'milestone.fullTerm.description': '39w0d से पैदा होने वाले शिशु फ़ुल टर्म माने जाते हैं',
+  'milestone.dueDate.label': 'अनुमानित डिलीवरी की तारीख़',
+  'milestone.dueDate.description': 'आख़िरी माहवारी से 40 सप्ताह',
+  'milestone.twinWindow.label': 'जुड़वाँ शिशुओं की सामान्य डिलीवरी अवधि',
+  'milestone.tripletWindow.label': 'तीन शिशुओं की सामान्य डिलीवरी अवधि',
+  'milestone.deliveryWindow.dichorionic':
+    'डाइकोरियोनिक जुड़वाँ आमतौर पर इसी अवधि में पैदा होते हैं, 40 सप्ताह की डिलीवरी की तारीख़ से पहले',
+  'milestone.deliveryWindow.monochorionic':
+    'मोनोकोरियोनिक डायएम्नियोटिक जुड़वाँ आमतौर पर इसी अवधि में पैदा होते हैं, 40 सप्ताह की डिलीवरी की तारीख़ से पहले',
+  'milestone.deliveryWindow.monoamniotic':
+    'मोनोएम्नियोटिक जुड़वाँ आमतौर पर इसी अवधि में पैदा होते हैं, 40 सप्ताह की डिलीवरी की तारीख़ से पहले',
+  'milestone.deliveryWindow.triplets': 'तीन शिशु आमतौर पर इसी अवधि में पैदा होते हैं, 40 सप्ताह की डिलीवरी की तारीख़ से पहले',
+
+  'calendar.name': 'गर्भावस्था के माइलस्टोन',
+  'calendar.screening': 'जाँच',
+  'calendar.milestone': 'माइलस्टोन',
+
+  'notice.postTerm.title': 'पोस्ट-टर्म गर्भावस्था (42 सप्ताह या उससे अधिक)',
+  'notice.postTerm.body':
+    '42 सप्ताह से अधिक की गर्भावस्था में कड़ी निगरानी ज़रूरी है। अगर आपने अभी तक नहीं किया है, तो आज ही अपने डॉक्टर या प्रसूति केंद्र से संपर्क करें।',
+
+  'share.title': 'अपने परिणाम शेयर करें',
+  'share.share': 'परिणाम शेयर करें',
+  'share.shareLabel': 'गणना के परिणाम शेयर करें',
+  'share.copy': 'कॉपी करें',
+  'share.copied': 'कॉपी हो गया!',
+  'share.copyLabel': 'परिणाम क्लिपबोर्ड पर कॉपी करें',
+  'share.calendar': 'कैलेंडर में जोड़ें',
+  'share.calendarLabel': 'माइलस्टोन कैलेंडर फ़ाइल के रूप में डाउनलोड करें',
+  'share.print': 'सारांश प्रिंट करें',
+  'share.printLabel': 'एक पेज का सारांश प्रिंट करें',
+  'share.dueDateOnly': 'केवल डिलीवरी की तारीख़ शेयर करें। लिंक और टेक्स्ट में आपकी आख़िरी माहवारी या डाली गई अन्य तारीख़ें नहीं होंगी।',
+
+  'shareText.title': 'मेरे प्रेग्नेंसी कैलकुलेटर के परिणाम',
+  'shareText.heading': '🤱 मेरे प्रेग्नेंसी कैलकुलेटर के परिणाम:',
+  'shareText.dueDate': '📅 अनुमानित डिलीवरी की तारीख़: {date}',
+  'shareText.conception': '💝 अनुमानित गर्भधारण की तारीख़: {date}',
+  'shareText.cycle': '🔄 {length} दिन के चक्र के अनुसार (ओव्यूलेशन दिन {day} पर)',
+  'shareText.asOf': '📌 प्रगति इस तारीख़ तक: {date}',
+  'shareText.datedBy': '🩺 गणना का आधार: {method} (LMP और स्कैन में {days} का अंतर)',
+  'shareText.deliveryWindow': '👶 {label}: आमतौर पर {start} – {end} के बीच जन्म',
+  'shareText.gestationalAge': '🗓️ गर्भकालीन आयु: {age} ({completed}, सप्ताह {week} चल रहा है)',
+  'shareText.daysRemaining': '⏰ बाकी दिन: {days}',
+  'shareText.daysPastDue': '⏰ तारीख़ से ऊपर दिन: {days}',
+  'shareText.stage': '🌸 चरण: {stage}',
+  'shareText.link': 'ये परिणाम देखें: {url}',
+  'shareText.hashtags': '#गर्भावस्था #pregnancy #duedate #babycalculator',
+
+  'print.title': 'गर्भावस्था का सारांश',
+  'print.asOf': '{date} के अनुसार गणना',
+  'print.datingMethod': 'गणना का तरीका',
+  'print.method': 'तरीका',
+  'print.results': 'परिणाम',
+  'print.dueDate': 'अनुमानित डिलीवरी की तारीख़',
+  'print.conception': 'अनुमानित गर्भधारण की तारीख़',
+  'print.gestationalAge': 'गर्भकालीन आयु',
+  'print.gestationalAge.value': '{age} ({completed}, सप्ताह {week} चल रहा है)',
+  'print.stage': 'चरण',
+  'print.daysRemaining': 'बाकी दिन',
+  'print.daysPastDue': 'तारीख़ से ऊपर दिन',
+  'print.milestones': 'माइलस्टोन और जाँच का समय',
+  'print.milestone': 'माइलस्टोन',
+  'print.dates': 'तारीख़ें',
+  'print.disclaimer': 'चिकित्सा अस्वीकरण:',
+  'print.input.lmp': 'आख़िरी माहवारी का पहला दिन',
+  'print.input.cycle': 'चक्र',
+  'print.input.cycle.value': '{length} दिन, ओव्यूलेशन दिन {day} पर',
+  'print.input.dueDate': 'डाली गई डिलीवरी की तारीख़',
+  'print.input.conception': 'गर्भधारण की तारीख़',
+  'print.input.retrieval': 'एग रिट्रीवल की तारीख़',
+  'print.input.transfer': 'ट्रांसफ़र की तारीख़',
+  'print.input.embryoAge': 'भ्रूण की उम्र',
+  'print.input.scanDate': 'स्कैन की तारीख़',
+  'print.input.measurement': 'माप',
+  'print.input.crl.value': 'CRL {mm} mm',
+  'print.input.datedBy': 'गणना का आधार',
+  'print.input.datedBy.value': '{method} (LMP और स्कैन में {days} का अंतर)',
+  'print.input.babies': 'शिशु',
+  'print.input.babies.value': '{label}, आमतौर पर {start}–{end} के बीच जन्म',
+
+  'howItWorks.title': 'हमारा प्रेग्नेंसी कैलकुलेटर कैसे काम करता है',
+  'howItWorks.lmp.title': 'LMP तरीका (सबसे आम)',
+  'howItWorks.lmp.body':
+    'आख़िरी माहवारी वाला तरीका नेगेले नियम पर चलता है: आपकी आख़िरी माहवारी के पहले दिन में 280 दिन (40 सप्ताह) जोड़े जाते हैं। दुनिया भर के डॉक्टर यही मानक तरीका इस्तेमाल करते हैं।',
+  'howItWorks.lmp.dueDate': 'डिलीवरी की तारीख़ = LMP + 280 दिन (+/- जितने दिन आपका चक्र 28 से अलग है)',
+  'howItWorks.lmp.conception': 'गर्भधारण की तारीख़ = LMP + चक्र की लंबाई - ल्यूटियल फ़ेज़ (सामान्यतः दिन 14)',
+  'howItWorks.lmp.gestationalAge': 'गर्भकालीन आयु = LMP से बीते दिन, पूरे सप्ताह + दिन के रूप में (जैसे 23w4d)',
+  'howItWorks.dueDate.title': 'डिलीवरी की तारीख़ वाला तरीका',
+  'howItWorks.dueDate.body':
+    'अगर आपको अल्ट्रासाउंड या पिछली गणना से अपनी डिलीवरी की तारीख़ पहले से पता है, तो हम पीछे की ओर गिनकर गर्भधारण की तारीख़ और गर्भावस्था की मौजूदा प्रगति का अनुमान लगा सकते हैं।',
+  'howItWorks.dueDate.lmp': 'LMP = डिलीवरी की तारीख़ - 280 दिन',
+  'howItWorks.dueDate.conception': 'गर्भधारण की तारीख़ = LMP + 14 दिन',
+  'howItWorks.dueDate.progress': 'प्रगति अनुमानित LMP से गिनी जाती है',
+  'howItWorks.other.title': 'गर्भधारण, IVF और अल्ट्रासाउंड वाले तरीके',
+  'howItWorks.other.body':
+    'जब गर्भधारण की तारीख़ ठीक-ठीक पता हो, जैसे ओव्यूलेशन ट्रैकिंग या IVF से, तो डिलीवरी की तारीख़ उसी दिन से गिनी जाती है। गर्भधारण से गर्भावस्था लगभग 266 दिन चलती है। शुरुआती डेटिंग स्कैन से पता चलता है कि स्कैन के दिन गर्भावस्था कितनी आगे थी।',
+  'howItWorks.other.conception': 'डिलीवरी की तारीख़ = गर्भधारण या एग रिट्रीवल की तारीख़ + 266 दिन',
+  'howItWorks.other.transfer':
+    'डिलीवरी की तारीख़ = एम्ब्रियो ट्रांसफ़र की तारीख़ + 266 दिन - भ्रूण की उम्र (जैसे दिन-5 ब्लास्टोसिस्ट के लिए +261 दिन)',
+  'howItWorks.other.ultrasound':
+    'डिलीवरी की तारीख़ = स्कैन की तारीख़ + 280 दिन - स्कैन के समय गर्भकालीन आयु (CRL को रॉबिन्सन फ़ॉर्मूले से बदला जाता है)',
+  'howItWorks.other.weeks': 'गर्भावस्था के सप्ताह समान LMP से गिने जाते हैं, जो गर्भधारण से 2 सप्ताह पहले होती है',
+
+  'disclaimer.home.title': 'महत्वपूर्ण चिकित्सा अस्वीकरण',
+  'disclaimer.home.body':
+    'यह कैलकुलेटर गर्भावस्था की मानक गणनाओं पर आधारित अनुमान देता है और पेशेवर चिकित्सा सलाह की जगह नहीं ले सकता। डिलीवरी की तारीख़ बदल सकती है, और केवल आपके डॉक्टर ही आपको व्यक्तिगत चिकित्सा सलाह दे सकते हैं। गर्भावस्था की सटीक गणना और प्रसव-पूर्व देखभाल के लिए कृपया अपने डॉक्टर या दाई से सलाह लें।',
+  'disclaimer.notice':
+    'यह डिलीवरी की तारीख़ का कैलकुलेटर केवल जानकारी और शिक्षा के उद्देश्य से दिया गया है। यह पेशेवर चिकित्सा सलाह, निदान या इलाज की जगह लेने के लिए नहीं है।',
+  'disclaimer.emergency':
+    'अगर आपको कोई चिकित्सा आपात स्थिति है या गर्भावस्था से जुड़ी कोई तुरंत चिंता है, तो तुरंत अपने डॉक्टर से संपर्क करें या आपातकालीन सेवाओं को कॉल करें। आपात चिकित्सा स्थितियों में इस कैलकुलेटर या किसी भी ऑनलाइन टूल पर भरोसा न करें।',
+
+  'about.title': 'हमारे डिलीवरी की तारीख़ कैलकुलेटर के बारे में',
+  'about.what.title': 'डिलीवरी की तारीख़ का कैलकुलेटर क्या है?',
+  'about.what.body':
+    'डिलीवरी की तारीख़ का कैलकुलेटर एक चिकित्सा टूल है जो आपकी आख़िरी माहवारी (LMP) के पहले दिन या पहले से पता डिलीवरी की तारीख़ के आधार पर अनुमान लगाता है कि आपके शिशु का जन्म कब होने की संभावना है। हमारा कैलकुलेटर मानक नेगेले नियम का इस्तेमाल करता है, जिसे दुनिया भर के डॉक्टर डिलीवरी की तारीख़ के अनुमान के लिए अपनाते हैं।',
+  'about.why.title': 'हमारा प्रेग्नेंसी कैलकुलेटर क्यों इस्तेमाल करें?',
+  'about.why.accurate.title': 'सटीक गणना',
+  'about.why.accurate.body': 'चिकित्सा मानकों और नेगेले नियम पर आधारित, जिसे दुनिया भर के डॉक्टर इस्तेमाल करते हैं।',
+  'about.why.instant.title': 'तुरंत परिणाम',
+  'about.why.instant.body': 'अपनी डिलीवरी की तारीख़, गर्भधारण की तारीख़ और गर्भावस्था का मौजूदा सप्ताह तुरंत जानें।',
+  'about.why.easy.title': 'इस्तेमाल में आसान',
+  'about.why.easy.body': 'होने वाली माँओं के लिए बना सरल इंटरफ़ेस, साफ़ निर्देशों के साथ।',
+  'about.why.share.title': 'परिणाम शेयर करें',
+  'about.why.share.body': 'अपनी गर्भावस्था के माइलस्टोन परिवार और दोस्तों के साथ आसानी से शेयर करें।',
+  'about.accuracy.title': 'कैलकुलेटर कितना सटीक है?',
+  'about.accuracy.intro':
+    'हमारा प्रेग्नेंसी कैलकुलेटर लगभग 80% मामलों में असली डिलीवरी की तारीख़ से 5 दिन के अंदर सही रहता है। फिर भी यह समझना ज़रूरी है कि:',
+  'about.accuracy.exactDate': 'केवल लगभग 5% शिशु ठीक अपनी डिलीवरी की तारीख़ पर पैदा होते हैं',
+  'about.accuracy.twoWeeks': 'ज़्यादातर शिशु डिलीवरी की तारीख़ से 2 सप्ताह पहले या बाद के बीच पैदा होते हैं',
+  'about.accuracy.firstTime': 'पहली बार माँ बनने वाली महिलाओं की डिलीवरी अक्सर तारीख़ के 1-2 दिन बाद होती है',
+  'about.accuracy.ultrasound': 'पहली तिमाही में अल्ट्रासाउंड से गणना LMP से गणना से ज़्यादा सटीक होती है',
+  'about.results.title': 'अपने परिणाम समझें',
+  'about.results.heading': 'आपको क्या मिलेगा:',
+  'about.results.dueDate.term': 'अनुमानित डिलीवरी की तारीख़:',
+  'about.results.dueDate.text': 'वह तारीख़ जिस दिन आपके शिशु के जन्म की सबसे ज़्यादा संभावना है',
+  'about.results.conception.term': 'गर्भधारण की तारीख़:',
+  'about.results.conception.text': 'गर्भधारण होने की अनुमानित तारीख़ (LMP + 14 दिन)',
+  'about.results.gestationalAge.term': 'गर्भकालीन आयु:',
+  'about.results.gestationalAge.text':
+    'आज आपकी गर्भावस्था पूरे सप्ताह और दिनों में कितनी आगे है (जैसे 23w4d का मतलब 23 पूरे सप्ताह और 4 दिन, यानी आपका 24वाँ सप्ताह चल रहा है)',
+  'about.results.daysRemaining.term': 'बाकी दिन:',
+  'about.results.daysRemaining.text': 'आपकी डिलीवरी की तारीख़ तक की उलटी गिनती',
+  'about.results.trimester.term': 'तिमाही की जानकारी:',
+  'about.results.trimester.text': 'आप अभी गर्भावस्था के किस चरण में हैं',
+  'about.provider.title': 'अपने डॉक्टर से कब मिलें',
+  'about.provider.intro': 'हमारा कैलकुलेटर उपयोगी अनुमान देता है, फिर भी इन बातों के लिए हमेशा अपने डॉक्टर से सलाह लें:',
+  'about.provider.confirmation': 'गर्भावस्था की पुष्टि',
+  'about.provider.ultrasound': 'अल्ट्रासाउंड से सटीक गणना',
+  'about.provider.prenatal': 'प्रसव-पूर्व देखभाल की योजना',
+  'about.provider.concerns': 'अपनी गर्भावस्था से जुड़ी कोई भी चिंता',
+  'about.provider.irregular': 'अनियमित माहवारी, जिससे गणना पर असर पड़ सकता है',
+  'about.remember.title': 'याद रखें',
+  'about.remember.body':
+    'यह टूल केवल जानकारी के लिए है और पेशेवर चिकित्सा सलाह की जगह नहीं ले सकता। व्यक्तिगत देखभाल और सटीक गणना के लिए हमेशा अपने डॉक्टर से सलाह लें।',
+
+  'faq.search.label': 'सवाल खोजें',
+  'faq.search.placeholder': 'जैसे अल्ट्रासाउंड, IVF, ऑफ़लाइन',
+  'faq.search.clear': 'खोज साफ़ करें',
+  'faq.search.matches.one': '{count} सवाल मिला',
+  'faq.search.matches.other': '{count} सवाल मिले',
+  'faq.search.none': '“{query}” से कोई सवाल नहीं मिला। कम या अलग शब्द आज़माएँ, या नीचे हमें अपना सवाल भेजें।',
+  'faq.link': 'इस सवाल का लिंक',
+  'faq.link.label': 'इस सवाल का लिंक: {question}',
+
+  'faqPage.title': 'अक्सर पूछे जाने वाले सवाल',
+  'faqPage.more.title': 'अब भी कोई सवाल है?',
+  'faqPage.more.body':
+    'अगर हमारे कैलकुलेटर के इस्तेमाल के बारे में आपके और सवाल हैं या गर्भावस्था की गणना के बारे में ज़्यादा जानकारी चाहिए, तो बेझिझक हमसे संपर्क करें।',
+  'faqPage.more.link': 'हमसे संपर्क करें →',
+
+  'disclaimer.title': 'चिकित्सा अस्वीकरण',
+  'disclaimer.noticeTitle': 'महत्वपूर्ण सूचना',
+  'disclaimer.information.title': 'चिकित्सा जानकारी से जुड़ा अस्वीकरण',
+  'disclaimer.information.body':
+    'हमारे डिलीवरी की तारीख़ कैलकुलेटर की जानकारी मानक चिकित्सा गणनाओं पर आधारित है और इसे चिकित्सा सलाह नहीं माना जाना चाहिए। ये गणनाएँ नेगेले नियम और आख़िरी माहवारी से 280 दिन की औसत गर्भावस्था पर आधारित अनुमान हैं।',
+  'disclaimer.accuracy.title': 'सटीकता और सीमाएँ',
+  'disclaimer.accuracy.estimates': 'डिलीवरी की तारीख़ की गणना अनुमान है और असली डिलीवरी की तारीख़ से अलग हो सकती है',
+  'disclaimer.accuracy.exactDate': 'केवल लगभग 5% शिशु ठीक अपनी डिलीवरी की तारीख़ पर पैदा होते हैं',
+  'disclaimer.accuracy.factors': 'चक्र की लंबाई, ओव्यूलेशन का समय और स्वास्थ्य स्थितियाँ जैसी व्यक्तिगत बातें सटीकता पर असर डाल सकती हैं',
+  'disclaimer.accuracy.cycle':
+    'जब तक आप अपने चक्र की जानकारी नहीं डालतीं, कैलकुलेटर 28 दिन का सामान्य चक्र और दिन 14 पर ओव्यूलेशन मानता है',
+  'disclaimer.accuracy.art':
+    'सहायक प्रजनन तकनीक (ART) से हुई गर्भावस्था में परिणाम डाली गई रिट्रीवल या ट्रांसफ़र की तारीख़ों पर निर्भर करते हैं, और आपके क्लिनिक की गणना को ही प्राथमिकता दी जाती है',
+  'disclaimer.care.title': 'पेशेवर चिकित्सा देखभाल',
+  'disclaimer.care.intro': 'इन बातों के लिए हमेशा योग्य डॉक्टर से सलाह लें:',
+  'disclaimer.care.confirmation': 'गर्भावस्था की पुष्टि',
+  'disclaimer.care.ultrasound': 'अल्ट्रासाउंड से गर्भावस्था की सटीक गणना',
+  'disclaimer.care.prenatal': 'प्रसव-पूर्व देखभाल और निगरानी',
+  'disclaimer.care.concerns': 'अपनी गर्भावस्था या सेहत से जुड़ी कोई भी चिंता',
+  'disclaimer.care.decisions': 'गर्भावस्था से जुड़े चिकित्सा फ़ैसले',
+  'disclaimer.relationship.title': 'कोई चिकित्सा संबंध नहीं',
+  'disclaimer.relationship.body':
+    'इस कैलकुलेटर के इस्तेमाल से आपके और वेबसाइट चलाने वालों के बीच डॉक्टर-मरीज़ का संबंध नहीं बनता। हम स्वास्थ्य सेवा प्रदाता नहीं हैं और चिकित्सा सलाह, निदान या इलाज की सिफ़ारिश नहीं दे सकते।',
+  'disclaimer.emergencyTitle': 'आपात स्थितियाँ',
+  'disclaimer.liability.title': 'दायित्व की सीमा',
+  'disclaimer.liability.body':
+    'दी गई जानकारी की सटीकता, विश्वसनीयता, पूर्णता या समयबद्धता के बारे में हम कोई वारंटी या दावा नहीं करते। इस कैलकुलेटर के इस्तेमाल या इसके परिणामों पर भरोसा करने से होने वाले किसी भी प्रत्यक्ष, अप्रत्यक्ष, आकस्मिक, विशेष या परिणामी नुकसान के लिए हम ज़िम्मेदार नहीं होंगे।',
+  'disclaimer.updates.title': 'अपडेट और बदलाव',
+  'disclaimer.updates.body':
+    'हम बिना पूर्व सूचना के किसी भी समय इस अस्वीकरण को अपडेट या बदल सकते हैं। कैलकुलेटर का इस्तेमाल जारी रखने का मतलब है कि आप इस अस्वीकरण में हुए बदलाव स्वीकार करती हैं।',
+  'disclaimer.remember.title': 'याद रखें',
+  'disclaimer.remember.body':
+    'यह टूल गर्भावस्था की योजना और ट्रैकिंग के लिए उपयोगी अनुमान देने के लिए बनाया गया है। लेकिन हर गर्भावस्था अलग होती है, और माँ और शिशु दोनों की सेहत के लिए पेशेवर चिकित्सा देखभाल ज़रूरी है। व्यक्तिगत चिकित्सा सलाह और देखभाल के लिए हमेशा अपने डॉक्टर से मिलें।',
+
+  'privacy.title': 'गोपनीयता नीति',
+  'privacy.lastUpdated': 'आख़िरी अपडेट:',
+  'privacy.lastUpdatedDate': 'जनवरी 2025',
+  'privacy.intro':
+    'यह गोपनीयता नीति बताती है कि हमारे डिलीवरी की तारीख़ कैलकुलेटर का इस्तेमाल करते समय हम आपकी जानकारी कैसे इकट्ठा करते हैं, इस्तेमाल करते हैं और सुरक्षित रखते हैं। हम आपकी गोपनीयता और निजी जानकारी की सुरक्षा के लिए प्रतिबद्ध हैं।',
+  'privacy.collect.title': 'हम कौन-सी जानकारी इकट्ठा करते हैं',
+  'privacy.collect.provided.title': 'जो जानकारी आप देती हैं',
+  'privacy.collect.provided.dates': 'कैलकुलेटर में डाली गई तारीख़ें (आख़िरी माहवारी या डिलीवरी की तारीख़)',
+  'privacy.collect.provided.sharing': 'शेयर करने की सुविधाओं का इस्तेमाल करते समय आपकी चुनी हुई कोई भी जानकारी',
+  'privacy.collect.provided.contactForm':
+    'संपर्क फ़ॉर्म से भेजा गया संदेश, विषय और वैकल्पिक ईमेल पता, और वह विकल्प चुना रहने पर आपके ब्राउज़र और स्क्रीन की जानकारी (आपकी गर्भावस्था की तारीख़ें कभी नहीं)',
+  'privacy.collect.automatic.title': 'अपने-आप इकट्ठा होने वाली जानकारी',
+  'privacy.collect.automatic.browser': 'ब्राउज़र का प्रकार और वर्शन',
+  'privacy.collect.automatic.os': 'ऑपरेटिंग सिस्टम',
+  'privacy.collect.automatic.ip': 'IP पता (गुमनाम किया हुआ)',
+  'privacy.collect.automatic.pages': 'देखे गए पेज और साइट पर बिताया समय',
+  'privacy.collect.automatic.referrer': 'जिस वेबसाइट से आप आईं, उसकी जानकारी',
+  'privacy.use.title': 'हम आपकी जानकारी का इस्तेमाल कैसे करते हैं',
+  'privacy.use.calculations': 'डिलीवरी की तारीख़ की गणना और उससे जुड़ी सेवाएँ देने के लिए',
+  'privacy.use.improve': 'कैलकुलेटर के काम और इस्तेमाल के अनुभव को बेहतर बनाने के लिए',
+  'privacy.use.analyze': 'वेबसाइट के इस्तेमाल का विश्लेषण करने और प्रदर्शन सुधारने के लिए',
+  'privacy.use.respond': 'आपके सवालों का जवाब देने और सहायता देने के लिए',
+  'privacy.use.legal': 'कानूनी दायित्वों का पालन करने के लिए',
+  'privacy.security.title': 'डेटा का भंडारण और सुरक्षा',
+  'privacy.security.intro': 'हम आपकी जानकारी की सुरक्षा को गंभीरता से लेते हैं:',
+  'privacy.security.local': 'गणना का डेटा आपके ब्राउज़र में ही प्रोसेस होता है और हमारे सर्वर पर सेव नहीं होता',
+  'privacy.security.shareLinks':
+    'शेयर किए गए परिणाम के लिंक में आपकी डाली गई तारीख़ें लिंक के अंदर ही होती हैं; आख़िरी माहवारी और अन्य तारीख़ें हटाने के लिए "केवल डिलीवरी की तारीख़ शेयर करें" चुनें',
+  'privacy.security.measures': 'जो डेटा हम इकट्ठा करते हैं, उसे बचाने के लिए हम उद्योग-मानक सुरक्षा उपाय अपनाते हैं',
+  'privacy.security.https': 'डेटा भेजने को सुरक्षित रखने के लिए हमारी वेबसाइट HTTPS एन्क्रिप्शन इस्तेमाल करती है',
+  'privacy.security.health': 'हम संवेदनशील स्वास्थ्य जानकारी अपने सर्वर पर सेव नहीं करते',
+  'privacy.saved.title': 'सेव की गई गणनाएँ',
+  'privacy.saved.off':
+    'सेव करना बंद है, इसलिए कैलकुलेटर में डाली गई कोई भी चीज़ न इस डिवाइस पर और न कहीं और सेव होती है। पेज बंद करने या रीलोड करने पर आपकी तारीख़ें मिट जाती हैं। आप कैलकुलेटर पेज से सेव करना चालू कर सकती हैं।',
+  'privacy.saved.on.one':
+    'आपने सेव करना चालू किया है। 1 सेव की गई गणना, आपके डाले नाम और तारीख़ों के साथ, केवल इसी डिवाइस पर इस ब्राउज़र के लोकल स्टोरेज में रखी है। यह कभी हमारे सर्वर पर नहीं भेजी जाती। कैलकुलेटर पेज पर सेव करना बंद करने से यह मिट जाती है।',
+  'privacy.saved.on.other':
+    'आपने सेव करना चालू किया है। {count} सेव की गई गणनाएँ, आपके डाले नाम और तारीख़ों के साथ, केवल इसी डिवाइस पर इस ब्राउज़र के लोकल स्टोरेज में रखी हैं। ये कभी हमारे सर्वर पर नहीं भेजी जातीं। कैलकुलेटर पेज पर सेव करना बंद करने से ये मिट जाती हैं।',
+  'privacy.notifications.title': 'प्रगति की सूचनाएँ',
+  'privacy.notifications.body':
+    'जब तक आप चालू न करें, सूचनाएँ बंद रहती हैं। चालू होने पर, जिस गर्भावस्था को आपने फ़ॉलो करना चुना उसकी तारीख़ें और सूचनाओं का शेड्यूल इसी डिवाइस पर आपके ब्राउज़र में सेव होता है, और सूचनाएँ आपका ब्राउज़र ही दिखाता है। हमारे सर्वर या किसी पुश सेवा पर कुछ नहीं भेजा जाता। सूचनाएँ बंद करने से शेड्यूल मिट जाता है।',
+  'privacy.cookies.title': 'कुकीज़ और ट्रैकिंग',
+  'privacy.cookies.intro': 'हम कुकीज़ और मिलती-जुलती तकनीकों का इस्तेमाल इनके लिए कर सकते हैं:',
+  'privacy.cookies.preferences': 'आपकी पसंद और सेटिंग याद रखना',
+  'privacy.cookies.traffic': 'वेबसाइट ट्रैफ़िक और इस्तेमाल के पैटर्न का विश्लेषण',
+  'privacy.cookies.personalized': 'व्यक्तिगत सामग्री और विज्ञापन दिखाना',
+  'privacy.cookies.improve': 'हमारी सेवाओं और इस्तेमाल के अनुभव को बेहतर बनाना',
+  'privacy.thirdParty.title': 'तृतीय-पक्ष सेवाएँ',
+  'privacy.thirdParty.intro': 'हम इनके लिए तृतीय-पक्ष सेवाओं का इस्तेमाल कर सकते हैं:',
+  'privacy.thirdParty.analytics': 'वेबसाइट एनालिटिक्स (जैसे Google Analytics)',
+  'privacy.thirdParty.advertising': 'विज्ञापन सेवाएँ',
+  'privacy.thirdParty.cdn': 'कंटेंट डिलीवरी नेटवर्क',
+  'privacy.thirdParty.support': 'ग्राहक सहायता टूल',
+  'privacy.thirdParty.outro': 'इन तृतीय पक्षों की अपनी गोपनीयता नीतियाँ हैं, और हम आपको उन्हें पढ़ने की सलाह देते हैं।',
+  'privacy.sharing.title': 'जानकारी साझा करना',
+  'privacy.sharing.intro':
+    'हम आपकी निजी जानकारी तृतीय पक्षों को बेचते, बदलते या किराये पर नहीं देते। हम केवल इन स्थितियों में जानकारी साझा कर सकते हैं:',
+  'privacy.sharing.consent': 'आपकी स्पष्ट सहमति से',
+  'privacy.sharing.legal': 'कानूनी ज़रूरतों या अदालती आदेशों के पालन के लिए',
+  'privacy.sharing.protect': 'अपने या अपने उपयोगकर्ताओं के अधिकारों, संपत्ति या सुरक्षा की रक्षा के लिए',
+  'privacy.sharing.transfer': 'किसी व्यावसायिक हस्तांतरण या विलय के संबंध में',
+  'privacy.rights.title': 'आपके अधिकार और विकल्प',
+  'privacy.rights.intro': 'आपको यह अधिकार है:',
+  'privacy.rights.access': 'हमारे पास मौजूद आपकी निजी जानकारी देखना',
+  'privacy.rights.correct': 'ग़लत जानकारी सुधारने का अनुरोध करना',
+  'privacy.rights.delete': 'अपनी निजी जानकारी मिटाने का अनुरोध करना',
+  'privacy.rights.optOut': 'मार्केटिंग संदेशों से बाहर निकलना',
+  'privacy.rights.cookies': 'ब्राउज़र की सेटिंग से कुकीज़ बंद करना',
+  'privacy.children.title': 'बच्चों की गोपनीयता',
+  'privacy.children.body':
+    'हमारी सेवा 13 साल से कम उम्र के बच्चों के लिए नहीं है। हम जान-बूझकर 13 साल से कम उम्र के बच्चों की निजी जानकारी इकट्ठा नहीं करते। अगर हमें पता चलता है कि हमने 13 साल से कम उम्र के किसी बच्चे की निजी जानकारी इकट्ठा की है, तो हम उसे मिटाने के कदम उठाएँगे।',
+  'privacy.international.title': 'अंतरराष्ट्रीय उपयोगकर्ता',
+  'privacy.international.body':
+    'अगर आप अमेरिका के बाहर से हमारी सेवा इस्तेमाल कर रही हैं, तो ध्यान दें कि आपकी जानकारी अमेरिका भेजी, वहाँ सेव और प्रोसेस की जा सकती है, जहाँ हमारे सर्वर और केंद्रीय डेटाबेस हैं।',
+  'privacy.changes.title': 'इस गोपनीयता नीति में बदलाव',
+  'privacy.changes.body':
+    'हम समय-समय पर इस गोपनीयता नीति को अपडेट कर सकते हैं। किसी भी बदलाव की सूचना हम नई नीति इस पेज पर डालकर और "आख़िरी अपडेट" की तारीख़ बदलकर देंगे। हम आपको समय-समय पर इस नीति को देखने की सलाह देते हैं।',
+  'privacy.contact.title': 'हमसे संपर्क करें',
+  'privacy.contact.intro': 'अगर इस गोपनीयता नीति या हमारे गोपनीयता तरीकों के बारे में आपके कोई सवाल हैं, तो हमसे संपर्क करें:',
+  'privacy.contact.body': 'आप हमारे संपर्क पेज से या हमारी वेबसाइट पर दी गई संपर्क जानकारी से हम तक पहुँच सकती हैं।',
+
+  'contact.title': 'हमसे संपर्क करें',
+  'contact.form.title': 'हमें संदेश भेजें',
+  'contact.touch.title': 'संपर्क में रहें',
+  'contact.touch.body':
+    'हम मदद के लिए यहाँ हैं! अगर हमारे कैलकुलेटर के बारे में आपके सवाल हैं, तकनीकी सहायता चाहिए या आप अपनी राय देना चाहती हैं, तो बेझिझक हमसे संपर्क करें।',
+  'contact.email.support.title': 'ईमेल सहायता',
+  'contact.email.support.body': 'सामान्य सवालों और सहायता के लिए',
+  'contact.email.tech.title': 'तकनीकी समस्याएँ',
+  'contact.email.tech.body': 'कैलकुलेटर में बग या तकनीकी समस्याओं की जानकारी दें',
+  'contact.email.feedback.title': 'राय और सुझाव',
+  'contact.email.feedback.body': 'कैलकुलेटर को बेहतर बनाने के अपने विचार साझा करें',
+  'contact.medical.title': 'चिकित्सा से जुड़े सवाल',
+  'contact.medical.body':
+    'कृपया ध्यान दें कि हम चिकित्सा सलाह नहीं दे सकते और न ही सेहत से जुड़े ख़ास सवालों के जवाब दे सकते हैं। अपनी गर्भावस्था से जुड़ी चिकित्सा चिंताओं के लिए अपने डॉक्टर से सलाह लें।',
+  'contact.topics.title': 'अक्सर पूछे जाने वाले विषय',
+  'contact.topics.accuracy.title': 'कैलकुलेटर की सटीकता',
+  'contact.topics.accuracy.body': 'हमारी गणनाएँ कितनी सटीक हैं और किन बातों से परिणाम पर असर पड़ सकता है, इससे जुड़े सवाल।',
+  'contact.topics.howTo.title': 'इस्तेमाल कैसे करें',
+  'contact.topics.howTo.body': 'कैलकुलेटर इस्तेमाल करने, LMP और डिलीवरी की तारीख़ वाले तरीके में से चुनने और परिणाम समझने में मदद।',
+  'contact.topics.technical.title': 'तकनीकी सहायता',
+  'contact.topics.technical.body': 'वेबसाइट ठीक से न चलने, शेयर करने की सुविधाओं या मोबाइल पर चलने से जुड़ी समस्याएँ।',
+  'contact.topics.privacy.title': 'गोपनीयता और डेटा',
+  'contact.topics.privacy.body': 'हम आपके डेटा को कैसे संभालते हैं, गोपनीयता की चिंताएँ और जानकारी की सुरक्षा से जुड़े सवाल।',
+  'contact.response.title': 'जवाब का समय',
+  'contact.response.body':
+    'हम आमतौर पर कामकाजी दिनों में 24-48 घंटे के अंदर जवाब देते हैं। ज़रूरी तकनीकी समस्याओं के लिए हम 24 घंटे के अंदर जवाब देने की कोशिश करते हैं।',
+  'contact.checkFaq': 'पहले सामान्य प्रश्न देखें',
+  'contact.readDisclaimer': 'अस्वीकरण पढ़ें',
+  'contact.before.title': 'संपर्क करने से पहले',
+  'contact.before.body':
+    'आपकी बेहतर मदद के लिए कृपया पहले सामान्य प्रश्न वाला हिस्सा देखें, उसमें ज़्यादातर आम सवालों के जवाब हैं। संपर्क करते समय कृपया ये बातें शामिल करें:',
+  'contact.before.description': 'अपने सवाल या समस्या का साफ़ विवरण',
+  'contact.before.browser': 'आपके ब्राउज़र का प्रकार और वर्शन (तकनीकी समस्याओं के लिए; ऊपर का फ़ॉर्म इन्हें अपने-आप जोड़ सकता है)',
+  'contact.before.tried': 'समस्या सुलझाने के लिए आप अब तक क्या-क्या आज़मा चुकी हैं',
+  'contact.before.screenshots': 'ज़रूरत हो तो स्क्रीनशॉट (तकनीकी समस्याओं के लिए)',
+
+  'contactForm.category': 'यह किस बारे में है?',
+  'contactForm.category.choose': 'विषय चुनें',
+  'contactForm.category.technical': 'तकनीकी समस्या',
+  'contactForm.category.feedback': 'राय या सुझाव',
+  'contactForm.category.medical': 'चिकित्सा से जुड़ा सवाल',
+  'contactForm.category.accuracy': 'कैलकुलेटर की सटीकता',
+  'contactForm.medicalNotice':
+    'हम चिकित्सा सलाह नहीं दे सकते। अपनी सेहत या गर्भावस्था से जुड़े सवालों के लिए कृपया अपने डॉक्टर से संपर्क करें।',
+  'contactForm.message': 'संदेश',
+  'contactForm.email': 'ईमेल',
+  'contactForm.email.hint': '(वैकल्पिक, ताकि हम जवाब दे सकें)',
+  'contactForm.diagnostics': 'तकनीकी समस्याओं में मदद के लिए मेरे ब्राउज़र और स्क्रीन की जानकारी जोड़ें।',
+  'contactForm.diagnostics.preview': 'क्या जोड़ा जाता है',
+  'contactForm.diagnostics.noDates': 'आपकी गर्भावस्था की तारीख़ें कभी नहीं जोड़ी जातीं।',
+  'contactForm.failed': 'आपका संदेश नहीं भेजा जा सका। अपना कनेक्शन जाँचकर फिर कोशिश करें, या इसे ईमेल से भेजें।',
+  'contactForm.failed.mailto': 'इसे मेरे ईमेल ऐप में खोलें',
+  'contactForm.send': 'संदेश भेजें',
+  'contactForm.sending': 'भेजा जा रहा है…',
+  'contactForm.sent.title': 'धन्यवाद, आपका संदेश भेज दिया गया है',
+  'contactForm.sent.reply': 'हम आमतौर पर कामकाजी दिनों में 24-48 घंटे के अंदर जवाब देते हैं।',
+  'contactForm.sent.noReply': 'आपने ईमेल पता नहीं दिया, इसलिए हम जवाब नहीं दे पाएँगे, लेकिन हम हर संदेश पढ़ते हैं।',
+  'contactForm.handedOff.title': 'अब आपका ईमेल ऐप खुल गया होगा',
+  'contactForm.handedOff.body': 'हमने आपके लिए संदेश भर दिया है। इसे भेजने के लिए अपने ईमेल ऐप में भेजें दबाएँ।',
+  'contactForm.another': 'एक और संदेश लिखें',
+  'contactForm.error.category': 'चुनें कि आपका संदेश किस बारे में है।',
+  'contactForm.error.tooShort': 'कम से कम {min} अक्षर लिखें ताकि हम मदद कर सकें।',
+  'contactForm.error.tooLong': 'अपना संदेश {max} अक्षरों से कम रखें।',
+  'contactForm.error.email': 'सही ईमेल पता डालें, या इसे ख़ाली छोड़ दें।',
+
+  'notFound.title': 'पेज नहीं मिला',
+  'notFound.body': 'जिस पेज की आपको तलाश थी, वह हमें नहीं मिला। हो सकता है वह हटा दिया गया हो या लिंक ग़लत हो।',
+  'notFound.home': 'कैलकुलेटर पर जाएँ',
+
+  'footer.description':
+    'मुफ़्त और सटीक डिलीवरी व गर्भधारण तारीख़ कैलकुलेटर। अपनी आख़िरी माहवारी या पता डिलीवरी तारीख़ से अनुमानित डिलीवरी की तारीख़ जानें।',
+  'footer.copyright':
+    '© 2025 प्रेगनेंसी कैलकुलेटर। केवल जानकारी के लिए। चिकित्सा सलाह के लिए हमेशा अपने डॉक्टर से परामर्श करें।',
+  'footer.quickLinks': 'त्वरित लिंक',
+  'footer.legal': 'कानूनी'
+};
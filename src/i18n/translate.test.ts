@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { formatLocaleDate, getCalendarWeek, translate } from './translate';
+import { matchLocale } from './locales';
+import { plainDate as date, toIsoDateString as ymd } from '../lib/plainDate';
+
+describe('translate', () => {
+  it('fills in placeholders', () => {
+    expect(translate('en', 'field.embryoAge.day', { age: 5 })).toBe('Day 5');
+    expect(translate('es', 'field.embryoAge.day', { age: 5 })).toBe('Día 5');
+  });
+
+  it('picks the plural form for the locale', () => {
+    expect(translate('en', 'unit.day', { count: 1 })).toBe('1 day');
+    expect(translate('en', 'unit.day', { count: 0 })).toBe('0 days');
+    expect(translate('es', 'results.daysRemaining', { count: 1 })).toBe('Falta 1 día');
+    expect(translate('es', 'results.daysRemaining', { count: 3 })).toBe('Faltan 3 días');
+    expect(translate('hi', 'unit.completedWeek', { count: 0 })).toBe('0 पूरा सप्ताह');
+  });
+
+  it('falls back to English for missing translations', () => {
+    expect(translate('es', 'footer.legal')).toBe('Legal');
+    expect(translate('hi', 'nonexistent' as never)).toBe('nonexistent');
+  });
+});
+
+describe('dates', () => {
+  it('formats dates in the locale', () => {
+    expect(formatLocaleDate(date(2024, 10, 7), 'en')).toBe('Monday, October 7, 2024');
+    expect(formatLocaleDate(date(2024, 10, 7), 'es', 'short')).toBe('7 oct 2024');
+  });
+
+  it('starts calendar weeks on the locale week start', () => {
+    // 2024-10-09 is a Wednesday
+    expect(ymd(getCalendarWeek(date(2024, 10, 9), 'en').start)).toBe('2024-10-06');
+    expect(ymd(getCalendarWeek(date(2024, 10, 9), 'es').start)).toBe('2024-10-07');
+    expect(ymd(getCalendarWeek(date(2024, 10, 6), 'es').end)).toBe('2024-10-06');
+  });
+});
+
+describe('matchLocale', () => {
+  it('matches on the language and falls back to English', () => {
+    expect(matchLocale(['es-MX', 'en'])).toBe('es');
+    expect(matchLocale(['fr-FR', 'hi-IN'])).toBe('hi');
+    expect(matchLocale(['fr-FR'])).toBe('en');
+    expect(matchLocale([])).toBe('en');
+  });
+});
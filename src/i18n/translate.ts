@@ -0,0 +1,49 @@
+import { PlainDate, addDays, toLocalDate } from '../lib/plainDate';
+import { LOCALES, Locale } from './locales';
+import { Catalog, MessageKey, en } from './messages/en';
+import { es } from './messages/es';
+import { hi } from './messages/hi';
+
+const catalogs: Record<Locale, Catalog> = { en, es, hi };
+
+// Plural messages are looked up by their base key, e.g. 'unit.day' for 'unit.day.one' / 'unit.day.other'
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.other` ? Base : never;
+}[MessageKey];
+
+export type MessageParams = Record<string, string | number>;
+
+const lookup = (locale: Locale, key: string): string | undefined =>
+  catalogs[locale][key as MessageKey] ?? en[key as MessageKey];
+
+// Missing translations fall back to English, and a missing key renders as the key so it is easy to spot
+export const translate = (locale: Locale, key: MessageKey | PluralKey, params: MessageParams = {}): string => {
+  let message: string | undefined;
+  if (typeof params.count === 'number') {
+    const category = new Intl.PluralRules(LOCALES[locale].intlLocale).select(params.count);
+    message = lookup(locale, `${key}.${category}`) ?? lookup(locale, `${key}.other`);
+  }
+  message ??= lookup(locale, key) ?? key;
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+export type DateStyle = 'long' | 'medium' | 'short';
+
+const dateStyles: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  long: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' },
+  medium: { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' },
+  short: { month: 'short', day: 'numeric', year: 'numeric' }
+};
+
+export const formatLocaleDate = (date: PlainDate, locale: Locale, style: DateStyle = 'long'): string =>
+  toLocalDate(date).toLocaleDateString(LOCALES[locale].intlLocale, dateStyles[style]);
+
+// The calendar week containing a date, starting on the locale's first day of the week
+export const getCalendarWeek = (date: PlainDate, locale: Locale) => {
+  const offset = (toLocalDate(date).getDay() - LOCALES[locale].weekStart + 7) % 7;
+  const start = addDays(date, -offset);
+  return { start, end: addDays(start, 6) };
+};
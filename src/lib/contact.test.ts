@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ContactMessage,
+  buildMailtoUrl,
+  createEndpointTransport,
+  createMailtoTransport,
+  validateContactForm
+} from './contact';
+
+const message: ContactMessage = {
+  category: 'technical',
+  message: 'The share button does nothing on my phone.',
+  email: 'me@example.com',
+  diagnostics: {
+    userAgent: 'TestBrowser/1.0',
+    language: 'en-US',
+    screen: '390×844 @3x',
+    viewport: '390×700',
+    page: '/contact',
+    sentAt: '2024-05-01T10:00:00.000Z'
+  }
+};
+
+describe('validateContactForm', () => {
+  it('requires a category and a message, and checks the email only when given', () => {
+    expect(validateContactForm({ category: '', message: ' hi ', email: 'nope' })).toEqual({
+      category: { message: 'contactForm.error.category' },
+      message: { message: 'contactForm.error.tooShort', params: { min: 10 } },
+      email: { message: 'contactForm.error.email' }
+    });
+    expect(validateContactForm({ category: 'feedback', message: 'Love the timeline view!', email: '' })).toEqual({});
+  });
+
+  it('rejects messages that are too long', () => {
+    expect(validateContactForm({ category: 'feedback', message: 'a'.repeat(5001), email: '' }).message)
+      .toEqual({ message: 'contactForm.error.tooLong', params: { max: 5000 } });
+  });
+});
+
+describe('transports', () => {
+  it('addresses mailto links by category and includes the diagnostics', () => {
+    const url = buildMailtoUrl(message);
+    expect(url.startsWith('mailto:tech@pregnancycalculator.com?subject=Technical%20issue')).toBe(true);
+    const body = decodeURIComponent(url.slice(url.indexOf('&body=') + 6));
+    expect(body).toContain('The share button does nothing on my phone.\nReply to: me@example.com');
+    expect(body).toContain('Browser: TestBrowser/1.0');
+  });
+
+  it('hands the message to the mail app', async () => {
+    const opened: string[] = [];
+    await expect(createMailtoTransport((url) => opened.push(url)).send(message)).resolves.toBe('handedOff');
+    expect(opened).toEqual([buildMailtoUrl(message)]);
+  });
+
+  it('posts JSON to the endpoint and rejects on an error response', async () => {
+    const requests: { url: string; init?: RequestInit }[] = [];
+    const fetchStub = (status: number) =>
+      (async (url: string, init?: RequestInit) => {
+        requests.push({ url, init });
+        return new Response(null, { status });
+      }) as typeof fetch;
+
+    await expect(createEndpointTransport('https://api.example.com/contact', fetchStub(204)).send(message)).resolves.toBe('sent');
+    expect(requests[0].init?.method).toBe('POST');
+    expect(JSON.parse(String(requests[0].init?.body))).toEqual(message);
+
+    await expect(createEndpointTransport('https://api.example.com/contact', fetchStub(500)).send(message)).rejects.toThrow('500');
+  });
+
+  it('gives up on an endpoint that does not answer in time', async () => {
+    const hangingFetch = ((_url: string, init?: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      })) as typeof fetch;
+
+    await expect(createEndpointTransport('https://api.example.com/contact', hangingFetch, 10).send(message)).rejects.toThrow('Aborted');
+  });
+});
@@ -0,0 +1,159 @@
+// The contact form: what a message contains, how it is checked, and the transports that can deliver it
+import { MessageKey } from '../i18n/messages/en';
+import { MessageParams, translate } from '../i18n/translate';
+
+export type ContactCategory = 'technical' | 'feedback' | 'medical' | 'accuracy';
+
+export const CONTACT_CATEGORIES: { id: ContactCategory; label: MessageKey; address: string }[] = [
+  { id: 'technical', label: 'contactForm.category.technical', address: 'tech@pregnancycalculator.com' },
+  { id: 'feedback', label: 'contactForm.category.feedback', address: 'feedback@pregnancycalculator.com' },
+  { id: 'medical', label: 'contactForm.category.medical', address: 'support@pregnancycalculator.com' },
+  { id: 'accuracy', label: 'contactForm.category.accuracy', address: 'support@pregnancycalculator.com' }
+];
+
+export const MESSAGE_LENGTH = { min: 10, max: 5000 };
+
+// Browser details for technical reports; the page path is included without its query, which can hold the user's dates
+export interface ContactDiagnostics {
+  userAgent: string;
+  language: string;
+  screen: string;
+  viewport: string;
+  page: string;
+  sentAt: string;
+}
+
+export interface ContactMessage {
+  category: ContactCategory;
+  message: string;
+  email?: string;
+  diagnostics?: ContactDiagnostics;
+}
+
+export interface ContactForm {
+  category: ContactCategory | '';
+  message: string;
+  email: string;
+}
+
+export interface ContactFieldError {
+  message: MessageKey;
+  params?: MessageParams;
+}
+
+export type ContactFieldErrors = Partial<Record<keyof ContactForm, ContactFieldError>>;
+
+// Deliberately loose: one @, something on each side and a dot in the domain
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const validateContactForm = ({ category, message, email }: ContactForm): ContactFieldErrors => {
+  const errors: ContactFieldErrors = {};
+  const trimmed = message.trim();
+
+  if (!category) errors.category = { message: 'contactForm.error.category' };
+  if (trimmed.length < MESSAGE_LENGTH.min) {
+    errors.message = { message: 'contactForm.error.tooShort', params: { min: MESSAGE_LENGTH.min } };
+  } else if (trimmed.length > MESSAGE_LENGTH.max) {
+    errors.message = { message: 'contactForm.error.tooLong', params: { max: MESSAGE_LENGTH.max } };
+  }
+  if (email.trim() && !EMAIL_PATTERN.test(email.trim())) errors.email = { message: 'contactForm.error.email' };
+
+  return errors;
+};
+
+export const collectDiagnostics = (now = new Date()): ContactDiagnostics => ({
+  userAgent: navigator.userAgent,
+  language: navigator.language,
+  screen: `${window.screen.width}×${window.screen.height} @${window.devicePixelRatio}x`,
+  viewport: `${window.innerWidth}×${window.innerHeight}`,
+  page: window.location.pathname,
+  sentAt: now.toISOString()
+});
+
+export const formatDiagnostics = (diagnostics: ContactDiagnostics): string =>
+  [
+    `Browser: ${diagnostics.userAgent}`,
+    `Language: ${diagnostics.language}`,
+    `Screen: ${diagnostics.screen}`,
+    `Window: ${diagnostics.viewport}`,
+    `Page: ${diagnostics.page}`,
+    `Sent: ${diagnostics.sentAt}`
+  ].join('\n');
+
+// 'sent' means the message reached us; 'handedOff' means the user's mail app was opened and they still have to send it
+export type ContactResult = 'sent' | 'handedOff';
+
+export interface ContactTransport {
+  send: (message: ContactMessage) => Promise<ContactResult>;
+}
+
+// Long enough for a slow mobile connection; after that the form offers the mailto link instead
+export const ENDPOINT_TIMEOUT_MS = 15000;
+
+// POSTs the message as JSON; any non-2xx response, network failure or timeout rejects
+export const createEndpointTransport = (
+  endpoint: string,
+  fetchImpl: typeof fetch = fetch,
+  timeoutMs = ENDPOINT_TIMEOUT_MS
+): ContactTransport => ({
+  send: async (message) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify(message),
+        signal: controller.signal
+      });
+      if (!response.ok) throw new Error(`Contact endpoint responded with ${response.status}`);
+      return 'sent';
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+});
+
+// The subject and diagnostics are read by us, so they stay in English whatever the page's language
+export const buildMailtoUrl = ({ category, message, email, diagnostics }: ContactMessage): string => {
+  const { label, address } = CONTACT_CATEGORIES.find((option) => option.id === category) ?? CONTACT_CATEGORIES[0];
+  const body = [
+    message.trim(),
+    email ? `\nReply to: ${email}` : '',
+    diagnostics ? `\n--\n${formatDiagnostics(diagnostics)}` : ''
+  ].join('');
+  return `mailto:${address}?subject=${encodeURIComponent(`${translate('en', label)} – Pregnancy Calculator`)}&body=${encodeURIComponent(body)}`;
+};
+
+// Without an endpoint the message is handed to the user's mail app, already addressed and filled in
+export const createMailtoTransport = (open: (url: string) => void = (url) => window.location.assign(url)): ContactTransport => ({
+  send: async (message) => {
+    open(buildMailtoUrl(message));
+    return 'handedOff';
+  }
+});
+
+// For local testing: logs instead of sending, and can be told to fail to try the error state
+export const createMockTransport = ({ delayMs = 600, fail = false } = {}): ContactTransport => ({
+  send: (message) =>
+    new Promise((resolve, reject) => {
+      setTimeout(() => {
+        console.info('Mock contact transport received', message);
+        if (fail) reject(new Error('Mock contact transport failure'));
+        else resolve('sent');
+      }, delayMs);
+    })
+});
+
+export interface ContactConfig {
+  VITE_CONTACT_ENDPOINT?: string;
+  VITE_CONTACT_TRANSPORT?: string;
+}
+
+// VITE_CONTACT_TRANSPORT=mock (or mock-fail) wins, then VITE_CONTACT_ENDPOINT, then mailto
+export const getContactTransport = (config: ContactConfig): ContactTransport => {
+  if (config.VITE_CONTACT_TRANSPORT === 'mock') return createMockTransport();
+  if (config.VITE_CONTACT_TRANSPORT === 'mock-fail') return createMockTransport({ fail: true });
+  if (config.VITE_CONTACT_ENDPOINT) return createEndpointTransport(config.VITE_CONTACT_ENDPOINT);
+  return createMailtoTransport();
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DISTRIBUTION_RANGE,
+  getChanceDeliveredBy,
+  getDeliveryDistribution,
+  getLikelyDeliveryRange
+} from './deliveryDistribution';
+import { addDays, plainDate as date } from './plainDate';
+
+const dueDate = date(2024, 10, 7);
+
+describe('getDeliveryDistribution', () => {
+  it('covers 34w0d to 42w6d with probabilities that add up to 1', () => {
+    const distribution = getDeliveryDistribution(dueDate);
+    expect(distribution).toHaveLength(DISTRIBUTION_RANGE.max - DISTRIBUTION_RANGE.min + 1);
+    expect(distribution[0].date).toEqual(addDays(dueDate, 34 * 7 - 280));
+    expect(distribution.reduce((sum, day) => sum + day.probability, 0)).toBeCloseTo(1, 10);
+    expect(distribution[distribution.length - 1].cumulative).toBeCloseTo(1, 10);
+  });
+
+  it('gives about a 3% chance of delivering on the due date itself, as the registry data does', () => {
+    const onDueDate = getDeliveryDistribution(dueDate).find((day) => day.gestationalAgeDays === 280);
+    expect(onDueDate?.probability).toBeGreaterThan(0.03);
+    expect(onDueDate?.probability).toBeLessThan(0.035);
+  });
+
+  it('puts the median for a first baby 5 days after the median for a later one', () => {
+    const median = (parity: 'first' | 'subsequent') =>
+      getDeliveryDistribution(dueDate, parity).find((day) => day.cumulative >= 0.5)?.gestationalAgeDays ?? 0;
+    expect(median('first') - median('subsequent')).toBe(5);
+    expect(getChanceDeliveredBy(getDeliveryDistribution(dueDate, 'first'), dueDate))
+      .toBeLessThan(getChanceDeliveredBy(getDeliveryDistribution(dueDate, 'subsequent'), dueDate));
+  });
+
+  it('mixes first and later births two to three when parity is not given', () => {
+    const [unknown, first, subsequent] = (['unknown', 'first', 'subsequent'] as const).map((parity) =>
+      getDeliveryDistribution(dueDate, parity)
+    );
+    unknown.forEach((day, index) =>
+      expect(day.cumulative).toBeCloseTo(0.4 * first[index].cumulative + 0.6 * subsequent[index].cumulative, 2)
+    );
+  });
+});
+
+describe('getLikelyDeliveryRange', () => {
+  it('widens the window for higher coverage and keeps the due date inside', () => {
+    const distribution = getDeliveryDistribution(dueDate);
+    const eighty = getLikelyDeliveryRange(distribution, 0.8);
+    const ninety = getLikelyDeliveryRange(distribution, 0.9);
+
+    expect(ninety.start.gestationalAgeDays).toBeLessThan(eighty.start.gestationalAgeDays);
+    expect(ninety.end.gestationalAgeDays).toBeGreaterThan(eighty.end.gestationalAgeDays);
+    expect(eighty.start.gestationalAgeDays).toBeLessThan(280);
+    expect(eighty.end.gestationalAgeDays).toBeGreaterThan(280);
+    expect(eighty.end.cumulative - eighty.start.cumulative + eighty.start.probability).toBeGreaterThanOrEqual(0.8);
+  });
+});
+
+describe('getChanceDeliveredBy', () => {
+  it('is 0 before the range, 1 after it and rises in between', () => {
+    const distribution = getDeliveryDistribution(dueDate);
+    expect(getChanceDeliveredBy(distribution, addDays(dueDate, -60))).toBe(0);
+    expect(getChanceDeliveredBy(distribution, addDays(dueDate, 30))).toBe(1);
+    expect(getChanceDeliveredBy(distribution, addDays(dueDate, 7)))
+      .toBeGreaterThan(getChanceDeliveredBy(distribution, dueDate));
+  });
+});
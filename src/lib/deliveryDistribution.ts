@@ -0,0 +1,121 @@
+import { PlainDate, addDays, diffDays } from './plainDate';
+import { PREGNANCY_LENGTH_DAYS } from './pregnancy';
+
+// The chance of birth on each gestational day, dated from the LMP. The curve is fitted to a registry, not drawn
+// by hand: Bergsjø et al. (Acta Obstet Gynecol Scand 1990;69:197-207) report the length of 427,581 singleton
+// pregnancies in the Medical Birth Registry of Norway as mean 281.2 days, mode 283 days and SD 13 days.
+// A split normal curve (a normal curve with a different spread on each side of its peak) has exactly one
+// shape with that mode, mean and SD, which is solved for below. The registry does not separate first births,
+// so parity comes from Mittendorf et al. (Obstet Gynecol 1990;75:929-32), whose medians for first and later
+// babies are 5 days apart; the two curves are the population curve moved apart by that much.
+
+export type Parity = 'unknown' | 'first' | 'subsequent';
+
+export const PARITY_OPTIONS: Parity[] = ['unknown', 'first', 'subsequent'];
+
+export const DISTRIBUTION_SOURCE = 'Bergsjø et al. 1990; Mittendorf et al. 1990';
+
+const POPULATION = { meanDays: 281.2, modeDays: 283, sdDays: 13 };
+
+// Difference between the median for a first baby and for a later one (Mittendorf et al.: 288 and 283 days)
+const FIRST_BIRTH_DELAY_DAYS = 5;
+
+// About two in five births are a first birth (US natality data, CDC NVSS); the shifts are weighted by it, so the
+// mixture of the two curves keeps the registry's mean
+const FIRST_BIRTH_SHARE = 0.4;
+
+interface CurveParameters {
+  peakDays: number;
+  spreadBeforeDays: number;
+  spreadAfterDays: number;
+}
+
+// For a split normal, mean - mode = sqrt(2/pi) * (after - before) and
+// variance = (1 - 2/pi) * (after - before)^2 + before * after
+const fitSplitNormal = ({ meanDays, modeDays, sdDays }: typeof POPULATION): CurveParameters => {
+  const difference = (meanDays - modeDays) * Math.sqrt(Math.PI / 2);
+  const product = sdDays ** 2 - (1 - 2 / Math.PI) * difference ** 2;
+  const spreadAfterDays = (difference + Math.sqrt(difference ** 2 + 4 * product)) / 2;
+  return { peakDays: modeDays, spreadBeforeDays: spreadAfterDays - difference, spreadAfterDays };
+};
+
+const POPULATION_CURVE = fitSplitNormal(POPULATION);
+
+const CURVES: Record<Exclude<Parity, 'unknown'>, CurveParameters> = {
+  first: { ...POPULATION_CURVE, peakDays: POPULATION_CURVE.peakDays + FIRST_BIRTH_DELAY_DAYS * (1 - FIRST_BIRTH_SHARE) },
+  subsequent: { ...POPULATION_CURVE, peakDays: POPULATION_CURVE.peakDays - FIRST_BIRTH_DELAY_DAYS * FIRST_BIRTH_SHARE }
+};
+
+// Births outside 34w0d-42w6d are rare without medical reasons (and 42 weeks is usually the limit for induction),
+// so the curve is cut there and rescaled to add up to 100%
+export const DISTRIBUTION_RANGE = { min: 34 * 7, max: 42 * 7 + 6 };
+
+export interface DeliveryDay {
+  gestationalAgeDays: number;
+  date: PlainDate;
+  probability: number;
+  // Chance of having delivered by the end of this day
+  cumulative: number;
+}
+
+// Abramowitz & Stegun 7.1.26; accurate to about 1e-7, far below the precision of the data
+const erf = (x: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return x >= 0 ? y : -y;
+};
+
+const normalCdf = (z: number) => (1 + erf(z / Math.SQRT2)) / 2;
+
+// Each side holds mass in proportion to its spread, so the curve is continuous at the peak
+const splitNormalCdf = (days: number, { peakDays, spreadBeforeDays, spreadAfterDays }: CurveParameters): number => {
+  const total = spreadBeforeDays + spreadAfterDays;
+  return days <= peakDays
+    ? (2 * spreadBeforeDays / total) * normalCdf((days - peakDays) / spreadBeforeDays)
+    : (spreadBeforeDays + spreadAfterDays * (2 * normalCdf((days - peakDays) / spreadAfterDays) - 1)) / total;
+};
+
+// When parity is not given, a birth is a first one with probability FIRST_BIRTH_SHARE
+const getCdf = (parity: Parity) => (days: number): number =>
+  parity === 'unknown'
+    ? FIRST_BIRTH_SHARE * splitNormalCdf(days, CURVES.first) + (1 - FIRST_BIRTH_SHARE) * splitNormalCdf(days, CURVES.subsequent)
+    : splitNormalCdf(days, CURVES[parity]);
+
+// Day d covers gestational ages from d to d + 1, e.g. 280 is the whole of the due date
+export const getDeliveryDistribution = (dueDate: PlainDate, parity: Parity = 'unknown'): DeliveryDay[] => {
+  const cdf = getCdf(parity);
+  const lmp = addDays(dueDate, -PREGNANCY_LENGTH_DAYS);
+  const rangeStart = cdf(DISTRIBUTION_RANGE.min);
+  const rangeMass = cdf(DISTRIBUTION_RANGE.max + 1) - rangeStart;
+
+  const days: DeliveryDay[] = [];
+  for (let day = DISTRIBUTION_RANGE.min; day <= DISTRIBUTION_RANGE.max; day++) {
+    days.push({
+      gestationalAgeDays: day,
+      date: addDays(lmp, day),
+      probability: (cdf(day + 1) - cdf(day)) / rangeMass,
+      cumulative: (cdf(day + 1) - rangeStart) / rangeMass
+    });
+  }
+  return days;
+};
+
+// The central range holding at least `coverage` of births, e.g. 0.8 leaves 10% before it and 10% after it
+export const getLikelyDeliveryRange = (
+  distribution: DeliveryDay[],
+  coverage: number
+): { start: DeliveryDay; end: DeliveryDay } => {
+  const tail = (1 - coverage) / 2;
+  const last = distribution[distribution.length - 1];
+  const start = distribution.find((day) => day.cumulative > tail) ?? distribution[0];
+  const end = distribution.find((day) => day.cumulative >= 1 - tail - 1e-9) ?? last;
+  return { start, end };
+};
+
+// Chance of having delivered on or before `date`; 0 before the modelled range and 1 after it
+export const getChanceDeliveredBy = (distribution: DeliveryDay[], date: PlainDate): number => {
+  if (distribution.length === 0) return 0;
+  const index = diffDays(distribution[0].date, date);
+  if (index < 0) return 0;
+  return index >= distribution.length ? 1 : distribution[index].cumulative;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { FAQ_SECTIONS, FAQ_TRANSLATIONS, FaqSection, getFaqSections } from '../content/faq';
+import { buildFaqJsonLd, findFaqEntry, getLinkedFaqId, searchFaq } from './faq';
+
+const sections: FaqSection[] = [
+  {
+    id: 'general',
+    title: 'General',
+    entries: [
+      { id: 'accuracy', question: 'How accurate is it?', answer: "It uses Naegele's rule." },
+      { id: 'scan', question: 'Can I use a scan?', answer: 'Yes, enter the ecografía result.' }
+    ]
+  },
+  {
+    id: 'medical',
+    title: 'Medical',
+    entries: [{ id: 'trimesters', question: 'What are the trimesters?', answer: 'There are three.' }]
+  }
+];
+
+describe('FAQ content', () => {
+  it('has unique, URL-safe ids so every question can be deep linked', () => {
+    const ids = FAQ_SECTIONS.flatMap((section) => [section.id, ...section.entries.map((entry) => entry.id)]);
+    expect(new Set(ids).size).toBe(ids.length);
+    ids.forEach((id) => expect(id).toMatch(/^[a-z0-9]+(-[a-z0-9]+)*$/));
+  });
+
+  it('translates every section and question, keeping the English ids', () => {
+    Object.values(FAQ_TRANSLATIONS).forEach((translation) => {
+      FAQ_SECTIONS.forEach((section) => {
+        expect(translation.sections[section.id]).toBeTruthy();
+        section.entries.forEach((entry) => {
+          expect(translation.entries[entry.id]?.question).toBeTruthy();
+          expect(translation.entries[entry.id]?.answer).toBeTruthy();
+        });
+      });
+    });
+    expect(findFaqEntry(getFaqSections('es'), 'offline')?.question).toBe('¿Funciona la calculadora sin conexión?');
+    expect(getFaqSections('en')).toBe(FAQ_SECTIONS);
+    expect(getFaqSections('hi')).toBe(getFaqSections('hi'));
+  });
+});
+
+describe('searchFaq', () => {
+  it('returns every section for a blank query', () => {
+    expect(searchFaq(sections, '  ')).toBe(sections);
+  });
+
+  it('matches questions and answers ignoring case and accents, dropping empty sections', () => {
+    expect(searchFaq(sections, 'NAEGELE')).toEqual([{ ...sections[0], entries: [sections[0].entries[0]] }]);
+    expect(searchFaq(sections, 'ecografia')[0].entries.map((entry) => entry.id)).toEqual(['scan']);
+  });
+
+  it('requires every word of the query to match', () => {
+    expect(searchFaq(sections, 'trimesters three')).toHaveLength(1);
+    expect(searchFaq(sections, 'trimesters scan')).toEqual([]);
+  });
+});
+
+describe('findFaqEntry', () => {
+  it('finds entries in any section by id', () => {
+    expect(findFaqEntry(sections, 'trimesters')?.question).toBe('What are the trimesters?');
+    expect(findFaqEntry(sections, 'missing')).toBeUndefined();
+  });
+});
+
+describe('getLinkedFaqId', () => {
+  it('decodes the hash, keeping a malformed one as typed', () => {
+    expect(getLinkedFaqId('#offline')).toBe('offline');
+    expect(getLinkedFaqId('#%E0%A4%86')).toBe('आ');
+    expect(getLinkedFaqId('#%E0%A4')).toBe('%E0%A4');
+    expect(getLinkedFaqId('')).toBe('');
+  });
+});
+
+describe('buildFaqJsonLd', () => {
+  it('lists every question with its answer as a schema.org FAQPage', () => {
+    const data = buildFaqJsonLd(sections);
+    expect(data['@type']).toBe('FAQPage');
+    expect(data.inLanguage).toBe('en');
+    expect(data.mainEntity).toHaveLength(3);
+    expect(data.mainEntity[2]).toEqual({
+      '@type': 'Question',
+      name: 'What are the trimesters?',
+      acceptedAnswer: { '@type': 'Answer', text: 'There are three.' }
+    });
+    expect(buildFaqJsonLd(sections, 'es').inLanguage).toBe('es');
+  });
+});
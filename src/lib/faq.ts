@@ -0,0 +1,51 @@
+import { FaqEntry, FaqSection } from '../content/faq';
+import { Locale } from '../i18n/locales';
+
+// Case and accents are ignored, so "naegele" finds "Naegele's" and "ecografia" finds "ecografía"
+const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+// Every word of the query has to appear in the question or the answer; sections left empty are dropped
+export const searchFaq = (sections: FaqSection[], query: string): FaqSection[] => {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return sections;
+
+  const matches = (entry: FaqEntry) => {
+    const text = normalize(`${entry.question} ${entry.answer}`);
+    return words.every((word) => text.includes(word));
+  };
+
+  return sections
+    .map((section) => ({ ...section, entries: section.entries.filter(matches) }))
+    .filter((section) => section.entries.length > 0);
+};
+
+export const findFaqEntry = (sections: FaqSection[], id: string): FaqEntry | undefined =>
+  sections.flatMap((section) => section.entries).find((entry) => entry.id === id);
+
+// A hand-edited or truncated link such as /faq#%E0%A4 can't be decoded; it is matched as typed and opens nothing
+export const getLinkedFaqId = (hash: string): string => {
+  const id = hash.replace(/^#/, '');
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return id;
+  }
+};
+
+// schema.org FAQPage structured data, see https://schema.org/FAQPage
+export const buildFaqJsonLd = (sections: FaqSection[], locale: Locale = 'en') => ({
+  '@context': 'https://schema.org',
+  '@type': 'FAQPage',
+  inLanguage: locale,
+  mainEntity: sections.flatMap((section) =>
+    section.entries.map((entry) => ({
+      '@type': 'Question',
+      name: entry.question,
+      acceptedAnswer: { '@type': 'Answer', text: entry.answer }
+    }))
+  )
+});
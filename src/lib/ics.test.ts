@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { buildPregnancyCalendar } from './ics';
+import { plainDate as date } from './plainDate';
+import { MILESTONES } from './timeline';
+import { translate } from '../i18n/translate';
+
+const now = new Date(Date.UTC(2024, 2, 1, 12, 30, 0));
+const dueDate = date(2024, 10, 7);
+
+describe('buildPregnancyCalendar', () => {
+  const calendar = buildPregnancyCalendar(dueDate, { now });
+  const lines = calendar.split('\r\n');
+
+  it('wraps events in a VCALENDAR with CRLF line endings', () => {
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('creates one all-day event per milestone', () => {
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(MILESTONES.length);
+    expect(lines).toContain('DTSTAMP:20240301T123000Z');
+  });
+
+  it('uses an exclusive end date for all-day events', () => {
+    const due = calendar.slice(calendar.indexOf('UID:due-date'));
+    expect(due).toMatch(/DTSTART;VALUE=DATE:20241007\r\nDTEND;VALUE=DATE:20241008/);
+
+    const nt = calendar.slice(calendar.indexOf('UID:nt-scan'));
+    expect(nt).toMatch(/DTSTART;VALUE=DATE:20240318\r\nDTEND;VALUE=DATE:20240408/);
+  });
+
+  it('writes the milestone text in the chosen language', () => {
+    expect(calendar).toContain('SUMMARY:Nuchal translucency (NT) scan');
+
+    const spanish = buildPregnancyCalendar(dueDate, { now, locale: 'es' });
+    expect(spanish).toContain(`SUMMARY:${translate('es', 'milestone.ntScan.label')}`);
+    expect(spanish).toContain(`X-WR-CALNAME:${translate('es', 'calendar.name')}`);
+  });
+
+  it('escapes text and folds long lines', () => {
+    // The Hindi GBS description has a comma and is long in UTF-8 octets
+    const gbs = MILESTONES.filter((milestone) => milestone.id === 'gbs');
+    const long = buildPregnancyCalendar(dueDate, { now, locale: 'hi', milestones: gbs });
+    expect(long.replace(/\r\n /g, '')).toContain('स्वैब टेस्ट\\, ताकि');
+    for (const line of long.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(long).toMatch(/\r\n \S/);
+  });
+});
@@ -0,0 +1,84 @@
+import { PlainDate, addDays, toIsoDateString } from './plainDate';
+import { MILESTONES, Milestone, getMilestoneDates } from './timeline';
+import { Locale } from '../i18n/locales';
+import { translate } from '../i18n/translate';
+
+// RFC 5545 iCalendar output for pregnancy milestones, built entirely in the browser
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// TEXT values escape backslashes, separators and newlines
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Long content lines are folded onto continuation lines that start with a space, without splitting characters
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+};
+
+const formatDateValue = (date: PlainDate): string => toIsoDateString(date).replace(/-/g, '');
+
+const formatTimestamp = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const buildEvent = (milestone: Milestone, dueDate: PlainDate, stamp: string, locale: Locale): string[] => {
+  const { start, end } = getMilestoneDates(milestone, dueDate);
+
+  return [
+    'BEGIN:VEVENT',
+    // Stable per pregnancy, so re-importing updates events instead of duplicating them
+    `UID:${milestone.id}-${formatDateValue(dueDate)}@pregnancy-calculator`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDateValue(start)}`,
+    // All-day DTEND is exclusive
+    `DTEND;VALUE=DATE:${formatDateValue(addDays(end, 1))}`,
+    `SUMMARY:${escapeText(translate(locale, milestone.label))}`,
+    `DESCRIPTION:${escapeText(translate(locale, milestone.description))}`,
+    `CATEGORIES:${escapeText(translate(locale, milestone.kind === 'screening' ? 'calendar.screening' : 'calendar.milestone'))}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ];
+};
+
+export const buildPregnancyCalendar = (
+  dueDate: PlainDate,
+  {
+    milestones = MILESTONES,
+    now = new Date(),
+    locale = 'en'
+  }: { milestones?: Milestone[]; now?: Date; locale?: Locale } = {}
+): string => {
+  const stamp = formatTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Pregnancy Calculator//Pregnancy Milestones//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(translate(locale, 'calendar.name'))}`,
+    ...milestones.flatMap((milestone) => buildEvent(milestone, dueDate, stamp, locale)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { SINGLETON, getDeliveryOutlook, getDeliveryWindow, getGestationMilestones } from './multiples';
+import { plainDate as date, toIsoDateString as ymd } from './plainDate';
+import { calculateFromDueDate } from './pregnancy';
+import { MILESTONES } from './timeline';
+
+const dueDate = date(2024, 10, 7);
+
+describe('getDeliveryWindow', () => {
+  it('has no separate window for a single baby', () => {
+    expect(getDeliveryWindow(SINGLETON)).toBeNull();
+  });
+
+  it('depends on chorionicity for twins and defaults to dichorionic', () => {
+    expect(getDeliveryWindow({ babies: 2 })?.startDays).toBe(37 * 7);
+    expect(getDeliveryWindow({ babies: 2, chorionicity: 'monochorionic' })?.startDays).toBe(34 * 7);
+    expect(getDeliveryWindow({ babies: 2, chorionicity: 'monoamniotic' })?.startDays).toBe(32 * 7);
+    expect(getDeliveryWindow({ babies: 3 })).toMatchObject({ startDays: 32 * 7, endDays: 34 * 7 + 6 });
+  });
+});
+
+describe('getDeliveryOutlook', () => {
+  it('counts down to the start of the window instead of the due date', () => {
+    // 2024-05-01 is 29w3d for a 2024-10-07 due date
+    const outlook = getDeliveryOutlook(calculateFromDueDate(dueDate, date(2024, 5, 1)), { babies: 2 });
+    expect(ymd(outlook!.start)).toBe('2024-09-16');
+    expect(ymd(outlook!.end)).toBe('2024-09-29');
+    expect(outlook!.daysUntilWindow).toBe(138);
+    expect(outlook!.status).toBe('before');
+  });
+
+  it('reports when the window is open or has passed', () => {
+    expect(getDeliveryOutlook(calculateFromDueDate(dueDate, date(2024, 9, 16)), { babies: 2 })?.status).toBe('within');
+    expect(getDeliveryOutlook(calculateFromDueDate(dueDate, date(2024, 9, 30)), { babies: 2 })?.status).toBe('after');
+  });
+});
+
+describe('getGestationMilestones', () => {
+  it('replaces the full-term marker with the delivery window for multiples', () => {
+    expect(getGestationMilestones(SINGLETON)).toBe(MILESTONES);
+
+    const milestones = getGestationMilestones({ babies: 3 });
+    expect(milestones.map((milestone) => milestone.id)).not.toContain('full-term');
+    expect(milestones.find((milestone) => milestone.id === 'delivery-window')?.startDays).toBe(32 * 7);
+    expect(milestones.map((milestone) => milestone.startDays)).toEqual(
+      [...milestones.map((milestone) => milestone.startDays)].sort((a, b) => a - b)
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { PlainDate, addDays } from './plainDate';
+import { CalculationResults, PREGNANCY_LENGTH_DAYS } from './pregnancy';
+import { MILESTONES, Milestone } from './timeline';
+
+export type BabyCount = 1 | 2 | 3;
+export const BABY_COUNTS: BabyCount[] = [1, 2, 3];
+
+// Whether twins share a placenta (monochorionic) or an amniotic sac (monoamniotic); set by early ultrasound
+export type TwinChorionicity = 'dichorionic' | 'monochorionic' | 'monoamniotic';
+
+export interface Gestation {
+  babies: BabyCount;
+  // Only meaningful for twins
+  chorionicity?: TwinChorionicity;
+}
+
+export const SINGLETON: Gestation = { babies: 1 };
+
+export interface DeliveryWindow {
+  // Gestational age in days; endDays is inclusive
+  startDays: number;
+  endDays: number;
+}
+
+// Typical timing of birth for uncomplicated multiples (NICE NG137, ACOG Committee Opinion 831);
+// the 40-week due date still anchors gestational age
+export const TWIN_DELIVERY_WINDOWS: Record<TwinChorionicity, DeliveryWindow> = {
+  dichorionic: { startDays: 37 * 7, endDays: 38 * 7 + 6 },
+  monochorionic: { startDays: 34 * 7, endDays: 37 * 7 + 6 },
+  monoamniotic: { startDays: 32 * 7, endDays: 33 * 7 + 6 }
+};
+
+export const TRIPLET_DELIVERY_WINDOW: DeliveryWindow = { startDays: 32 * 7, endDays: 34 * 7 + 6 };
+
+// Singletons have no separate window; they are measured against the due date itself
+export const getDeliveryWindow = ({ babies, chorionicity = 'dichorionic' }: Gestation): DeliveryWindow | null => {
+  switch (babies) {
+    case 1:
+      return null;
+    case 2:
+      return TWIN_DELIVERY_WINDOWS[chorionicity];
+    case 3:
+      return TRIPLET_DELIVERY_WINDOW;
+  }
+};
+
+export type DeliveryWindowStatus = 'before' | 'within' | 'after';
+
+export interface DeliveryOutlook {
+  window: DeliveryWindow;
+  start: PlainDate;
+  end: PlainDate;
+  // Days until the window opens; zero or negative once it has
+  daysUntilWindow: number;
+  status: DeliveryWindowStatus;
+}
+
+export const getDeliveryOutlook = (results: CalculationResults, gestation: Gestation): DeliveryOutlook | null => {
+  const window = getDeliveryWindow(gestation);
+  if (!window) return null;
+
+  const lmp = addDays(results.dueDate, -PREGNANCY_LENGTH_DAYS);
+  const daysUntilWindow = window.startDays - results.gestationalAgeDays;
+
+  return {
+    window,
+    start: addDays(lmp, window.startDays),
+    end: addDays(lmp, window.endDays),
+    daysUntilWindow,
+    status: daysUntilWindow > 0 ? 'before' : results.gestationalAgeDays <= window.endDays ? 'within' : 'after'
+  };
+};
+
+// Multiples swap the singleton full-term marker for their own delivery window
+export const getGestationMilestones = (gestation: Gestation): Milestone[] => {
+  const window = getDeliveryWindow(gestation);
+  if (!window) return MILESTONES;
+
+  const deliveryWindow: Milestone = {
+    id: 'delivery-window',
+    kind: 'milestone',
+    label: gestation.babies === 3 ? 'milestone.tripletWindow.label' : 'milestone.twinWindow.label',
+    description: gestation.babies === 3
+      ? 'milestone.deliveryWindow.triplets'
+      : `milestone.deliveryWindow.${gestation.chorionicity ?? 'dichorionic'}`,
+    startDays: window.startDays,
+    endDays: window.endDays
+  };
+
+  return [...MILESTONES.filter((milestone) => milestone.id !== 'full-term'), deliveryWindow]
+    .sort((a, b) => a.startDays - b.startDays);
+};
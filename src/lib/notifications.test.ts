@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NOTIFICATION_SETTINGS_KEY,
+  buildProgressNotifications,
+  loadNotificationSettings,
+  storeNotificationSettings
+} from './notifications';
+import { CalculationStorage } from './savedCalculations';
+import { addDays, plainDate as date } from './plainDate';
+import { getGestationMilestones } from './multiples';
+
+const dueDate = date(2024, 10, 7);
+const lmp = addDays(dueDate, -280);
+
+describe('buildProgressNotifications', () => {
+  it('sends one notification per week of pregnancy, starting from the given day', () => {
+    const notifications = buildProgressNotifications(dueDate, 'weekly', { from: addDays(lmp, 18 * 7 - 3) });
+    expect(notifications[0]).toEqual({
+      date: addDays(lmp, 18 * 7),
+      title: "You're 18 weeks today",
+      body: 'Opens this week: Anatomy scan. 154 days until your due date.'
+    });
+    expect(notifications).toHaveLength(25);
+    expect(notifications[notifications.length - 1].title).toBe("You're 42 weeks today");
+  });
+
+  it('sends daily notifications with milestones on the day they open', () => {
+    const notifications = buildProgressNotifications(dueDate, 'daily', { from: addDays(lmp, 23 * 7 + 6) });
+    expect(notifications.slice(0, 2).map(({ title, body }) => ({ title, body }))).toEqual([
+      { title: "You're 23w6d today", body: '113 days until your due date.' },
+      { title: "You're 24 weeks today", body: 'Opens today: Glucose tolerance test. 112 days until your due date.' }
+    ]);
+  });
+
+  it('counts past the due date and uses the delivery window for twins', () => {
+    const milestones = getGestationMilestones({ babies: 2, chorionicity: 'dichorionic' });
+    const notifications = buildProgressNotifications(dueDate, 'weekly', { from: addDays(lmp, 37 * 7), milestones });
+    expect(notifications[0].body).toBe('Opens this week: Typical twin delivery window. 21 days until your due date.');
+    expect(notifications[3].body).toBe('Today is your estimated due date.');
+    expect(notifications[4].body).toBe('7 days past your due date.');
+  });
+
+  it('writes the notifications in the given language', () => {
+    const notifications = buildProgressNotifications(dueDate, 'weekly', { from: addDays(lmp, 39 * 7), locale: 'es' });
+    expect(notifications[0]).toMatchObject({
+      title: 'Hoy cumples 39 semanas',
+      body: 'Esta semana: A término. Faltan 7 días para tu fecha probable de parto.'
+    });
+    expect(notifications[1].body).toBe('Hoy es tu fecha probable de parto.');
+  });
+
+  it('starts no earlier than 4 weeks and ends after 42 weeks', () => {
+    expect(buildProgressNotifications(dueDate, 'daily', { from: lmp })[0].title).toBe("You're 4 weeks today");
+    expect(buildProgressNotifications(dueDate, 'daily', { from: addDays(lmp, 42 * 7 + 1) })).toEqual([]);
+  });
+});
+
+describe('notification settings', () => {
+  const memoryStorage = (): CalculationStorage & { items: Map<string, string> } => {
+    const items = new Map<string, string>();
+    return {
+      items,
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => void items.set(key, value),
+      removeItem: (key) => void items.delete(key)
+    };
+  };
+
+  it('round-trips the settings and removes them when turned off', () => {
+    const storage = memoryStorage();
+    const settings = {
+      frequency: 'daily' as const,
+      calculation: { input: { method: 'dueDate' as const, dueDate } },
+      locale: 'hi' as const
+    };
+    expect(loadNotificationSettings(storage)).toBeNull();
+
+    expect(storeNotificationSettings(storage, settings)).toBe(true);
+    expect(loadNotificationSettings(storage)).toMatchObject(settings);
+
+    storeNotificationSettings(storage, null);
+    expect(storage.items.has(NOTIFICATION_SETTINGS_KEY)).toBe(false);
+  });
+
+  it('writes settings stored before notifications were translated in English', () => {
+    const storage = memoryStorage();
+    storage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify({ version: 1, frequency: 'weekly', params: 'method=dueDate&due=2024-10-07' }));
+    expect(loadNotificationSettings(storage)?.locale).toBe('en');
+  });
+
+  it('ignores corrupted settings', () => {
+    const storage = memoryStorage();
+    storage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify({ version: 1, frequency: 'hourly', params: 'method=dueDate&due=2024-10-07' }));
+    expect(loadNotificationSettings(storage)).toBeNull();
+    storage.setItem(NOTIFICATION_SETTINGS_KEY, '{');
+    expect(loadNotificationSettings(storage)).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { PlainDate, addDays, diffDays } from './plainDate';
+import { POST_TERM_DAYS, PREGNANCY_LENGTH_DAYS, formatGestationalAge } from './pregnancy';
+import { CalculationStorage } from './savedCalculations';
+import { SharedCalculation, fromShareParams, toShareParams } from './shareLink';
+import { MILESTONES, Milestone } from './timeline';
+import { Locale, isLocale } from '../i18n/locales';
+import { translate } from '../i18n/translate';
+
+export type NotificationFrequency = 'daily' | 'weekly';
+
+export const NOTIFICATION_FREQUENCIES: NotificationFrequency[] = ['weekly', 'daily'];
+
+export interface ProgressNotification {
+  date: PlainDate;
+  title: string;
+  body: string;
+}
+
+// Before this a pregnancy usually isn't known yet
+const FIRST_NOTIFIED_DAY = 4 * 7;
+
+const describeMilestone = (milestone: Milestone, when: 'today' | 'thisWeek', locale: Locale): string => {
+  const kind = milestone.endDays === undefined ? 'milestone' : 'window';
+  return translate(locale, `notifications.message.${kind}.${when}`, { label: translate(locale, milestone.label) });
+};
+
+const describeCountdown = (gestationalAgeDays: number, locale: Locale): string => {
+  const daysLeft = PREGNANCY_LENGTH_DAYS - gestationalAgeDays;
+  if (daysLeft === 0) return translate(locale, 'notifications.message.dueToday');
+  return translate(locale, daysLeft > 0 ? 'notifications.message.until' : 'notifications.message.past', {
+    count: Math.abs(daysLeft)
+  });
+};
+
+// Scheduled from the LMP the due date implies: weekly on each new week of pregnancy, or every day,
+// starting at `from` and ending at 42 weeks. Milestones opening that day (or week) lead the message, which is
+// written in `locale`.
+export const buildProgressNotifications = (
+  dueDate: PlainDate,
+  frequency: NotificationFrequency,
+  { from, milestones = MILESTONES, locale = 'en' }: { from: PlainDate; milestones?: Milestone[]; locale?: Locale }
+): ProgressNotification[] => {
+  const lmp = addDays(dueDate, -PREGNANCY_LENGTH_DAYS);
+  const notifications: ProgressNotification[] = [];
+
+  for (let days = Math.max(diffDays(lmp, from), FIRST_NOTIFIED_DAY); days <= POST_TERM_DAYS; days++) {
+    const isNewWeek = days % 7 === 0;
+    if (frequency === 'weekly' && !isNewWeek) continue;
+
+    const span = frequency === 'weekly' ? 7 : 1;
+    const opening = milestones
+      // The countdown already announces the due date
+      .filter((milestone) => milestone.id !== 'due-date' && milestone.startDays >= days && milestone.startDays < days + span)
+      .map((milestone) => describeMilestone(milestone, frequency === 'weekly' ? 'thisWeek' : 'today', locale));
+
+    notifications.push({
+      date: addDays(lmp, days),
+      title: isNewWeek
+        ? translate(locale, 'notifications.message.weeks', { weeks: days / 7 })
+        : translate(locale, 'notifications.message.age', { age: formatGestationalAge(days) }),
+      body: [...opening, describeCountdown(days, locale)].join(' ')
+    });
+  }
+
+  return notifications;
+};
+
+// Like saved calculations, the key only exists once the user turns notifications on
+export const NOTIFICATION_SETTINGS_KEY = 'pregnancy-calculator:notifications';
+
+export interface NotificationSettings {
+  frequency: NotificationFrequency;
+  calculation: SharedCalculation;
+  // The language notifications are written in, kept in step with the page's language
+  locale: Locale;
+}
+
+interface StoredSettings {
+  version: 1;
+  frequency: NotificationFrequency;
+  params: string;
+  // Missing from settings stored before notifications were translated
+  locale?: string;
+}
+
+// Returns null when notifications are off or the stored settings can't be read
+export const loadNotificationSettings = (storage: CalculationStorage): NotificationSettings | null => {
+  let data: Partial<StoredSettings> | null;
+  try {
+    data = JSON.parse(storage.getItem(NOTIFICATION_SETTINGS_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+
+  const frequency = NOTIFICATION_FREQUENCIES.find((option) => option === data?.frequency);
+  const calculation = typeof data?.params === 'string' ? fromShareParams(new URLSearchParams(data.params)) : null;
+  const locale = typeof data?.locale === 'string' && isLocale(data.locale) ? data.locale : 'en';
+  return frequency && calculation ? { frequency, calculation, locale } : null;
+};
+
+// Passing null turns notifications off; returns false when the browser refuses to store anything
+export const storeNotificationSettings = (storage: CalculationStorage, settings: NotificationSettings | null): boolean => {
+  try {
+    if (settings) {
+      const data: StoredSettings = {
+        version: 1,
+        frequency: settings.frequency,
+        params: toShareParams(settings.calculation).toString(),
+        locale: settings.locale
+      };
+      storage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify(data));
+    } else {
+      storage.removeItem(NOTIFICATION_SETTINGS_KEY);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+};
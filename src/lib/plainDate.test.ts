@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays,
+  diffDays,
+  fromLocalDate,
+  isSameDay,
+  parsePlainDate,
+  plainDate,
+  toIsoDateString,
+  toLocalDate
+} from './plainDate';
+
+describe('parsePlainDate', () => {
+  it('reads date input values as calendar days', () => {
+    expect(parsePlainDate('2024-02-29')).toEqual({ year: 2024, month: 2, day: 29 });
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    expect(parsePlainDate('')).toBeNull();
+    expect(parsePlainDate('2024-2-9')).toBeNull();
+    expect(parsePlainDate('2023-02-29')).toBeNull();
+    expect(parsePlainDate('2024-13-01')).toBeNull();
+    expect(parsePlainDate('2024-04-31')).toBeNull();
+  });
+});
+
+describe('plainDate', () => {
+  it('normalizes out-of-range parts', () => {
+    expect(toIsoDateString(plainDate(2024, 13, 1))).toBe('2025-01-01');
+    expect(toIsoDateString(plainDate(2024, 3, 0))).toBe('2024-02-29');
+  });
+
+  it('keeps two-digit years literal', () => {
+    expect(toIsoDateString(plainDate(99, 1, 1))).toBe('0099-01-01');
+  });
+});
+
+describe('addDays / diffDays', () => {
+  it('moves across leap days and year ends', () => {
+    expect(toIsoDateString(addDays(plainDate(2024, 2, 28), 1))).toBe('2024-02-29');
+    expect(toIsoDateString(addDays(plainDate(2023, 2, 28), 1))).toBe('2023-03-01');
+    expect(toIsoDateString(addDays(plainDate(2024, 12, 31), 1))).toBe('2025-01-01');
+    expect(toIsoDateString(addDays(plainDate(2025, 1, 1), -1))).toBe('2024-12-31');
+  });
+
+  it('is the inverse of addDays', () => {
+    const start = plainDate(2024, 3, 1);
+    expect(diffDays(start, addDays(start, 280))).toBe(280);
+    expect(diffDays(addDays(start, 280), start)).toBe(-280);
+    expect(isSameDay(addDays(start, 0), start)).toBe(true);
+  });
+});
+
+describe('local date conversion', () => {
+  // Runs in America/New_York (see vite.config.ts), west of Greenwich and with DST
+  it('takes the calendar day from local time, not UTC', () => {
+    expect(fromLocalDate(new Date(2024, 2, 10, 23, 30))).toEqual({ year: 2024, month: 3, day: 10 });
+  });
+
+  it('formats the entered day, not the day before', () => {
+    const date = toLocalDate(parsePlainDate('2024-03-10')!);
+    expect(date.getHours()).toBe(0);
+    expect(date.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })).toBe('March 10');
+  });
+
+  it('round-trips through a local Date', () => {
+    const date = plainDate(2024, 11, 3);
+    expect(fromLocalDate(toLocalDate(date))).toEqual(date);
+  });
+});
@@ -0,0 +1,67 @@
+// A calendar date with no time or timezone attached. Pregnancy dating counts calendar
+// days, so all arithmetic happens here rather than on millisecond timestamps.
+export interface PlainDate {
+  readonly year: number;
+  readonly month: number; // 1-12
+  readonly day: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// UTC has no DST, so whole-day offsets from the epoch are exact. setUTCFullYear (unlike
+// Date.UTC) does not map years 0-99 onto 1900-1999.
+const epochDayOf = (year: number, month: number, day: number): number => {
+  const utc = new Date(0);
+  utc.setUTCFullYear(year, month - 1, day);
+  return Math.round(utc.getTime() / MS_PER_DAY);
+};
+
+const toEpochDay = ({ year, month, day }: PlainDate): number => epochDayOf(year, month, day);
+
+const fromEpochDay = (epochDay: number): PlainDate => {
+  const utc = new Date(epochDay * MS_PER_DAY);
+  return { year: utc.getUTCFullYear(), month: utc.getUTCMonth() + 1, day: utc.getUTCDate() };
+};
+
+// Out-of-range parts roll over like the Date constructor (e.g. month 13 is January next year)
+export const plainDate = (year: number, month: number, day: number): PlainDate =>
+  fromEpochDay(epochDayOf(year, month, day));
+
+// Parses the `YYYY-MM-DD` value of an `<input type="date">`; returns null for anything else
+export const parsePlainDate = (value: string): PlainDate | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = plainDate(year, month, day);
+  return date.year === year && date.month === month && date.day === day ? date : null;
+};
+
+export const toIsoDateString = ({ year, month, day }: PlainDate): string =>
+  `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+export const addDays = (date: PlainDate, days: number): PlainDate =>
+  fromEpochDay(toEpochDay(date) + days);
+
+// Whole calendar days from `from` to `to` (negative when `to` is earlier)
+export const diffDays = (from: PlainDate, to: PlainDate): number =>
+  toEpochDay(to) - toEpochDay(from);
+
+export const isSameDay = (a: PlainDate, b: PlainDate): boolean => diffDays(a, b) === 0;
+
+// The calendar day a Date falls on in the user's own timezone
+export const fromLocalDate = (date: Date): PlainDate => ({
+  year: date.getFullYear(),
+  month: date.getMonth() + 1,
+  day: date.getDate()
+});
+
+// Local midnight of the given day, for handing to Intl/toLocaleDateString
+export const toLocalDate = ({ year, month, day }: PlainDate): Date => {
+  const date = new Date(0);
+  date.setFullYear(year, month - 1, day);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+export const today = (): PlainDate => fromLocalDate(new Date());
@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateFromConception,
+  calculateFromDueDate,
+  calculateFromEggRetrieval,
+  calculateFromEmbryoTransfer,
+  calculateFromLMP,
+  calculateFromUltrasound,
+  calculatePregnancy,
+  formatGestationalAge,
+  getOvulationDay,
+  getPregnancyStatus,
+  getTrimester
+} from './pregnancy';
+import { plainDate as date, toIsoDateString as ymd } from './plainDate';
+
+describe('calculateFromLMP', () => {
+  it('adds 280 days for the due date and 14 days for conception', () => {
+    const results = calculateFromLMP(date(2023, 1, 1), date(2023, 1, 1));
+    expect(ymd(results.dueDate)).toBe('2023-10-08');
+    expect(ymd(results.conceptionDate)).toBe('2023-01-15');
+  });
+
+  it('counts February 29 in leap years', () => {
+    expect(ymd(calculateFromLMP(date(2024, 1, 1), date(2024, 1, 1)).dueDate)).toBe('2024-10-07');
+    expect(ymd(calculateFromLMP(date(2023, 6, 1), date(2023, 6, 1)).dueDate)).toBe('2024-03-07');
+    expect(ymd(calculateFromLMP(date(2022, 6, 1), date(2022, 6, 1)).dueDate)).toBe('2023-03-08');
+  });
+
+  it('rolls over month and year boundaries', () => {
+    expect(ymd(calculateFromLMP(date(2024, 4, 15), date(2024, 4, 15)).dueDate)).toBe('2025-01-20');
+    expect(ymd(calculateFromLMP(date(2024, 12, 20), date(2024, 12, 20)).conceptionDate)).toBe('2025-01-03');
+    expect(ymd(calculateFromLMP(date(2023, 2, 20), date(2023, 2, 20)).conceptionDate)).toBe('2023-03-06');
+    expect(ymd(calculateFromLMP(date(2024, 2, 20), date(2024, 2, 20)).conceptionDate)).toBe('2024-03-05');
+  });
+
+  it('keeps calendar days intact across DST transitions', () => {
+    expect(ymd(calculateFromLMP(date(2024, 6, 1), date(2024, 6, 1)).dueDate)).toBe('2025-03-08');
+    expect(ymd(calculateFromLMP(date(2024, 1, 1), date(2024, 1, 1)).dueDate)).toBe('2024-10-07');
+    expect(calculateFromLMP(date(2024, 3, 1), date(2024, 3, 15)).gestationalAgeDays).toBe(14);
+  });
+
+  it('derives gestational age, days remaining and trimester from today', () => {
+    const results = calculateFromLMP(date(2024, 1, 1), date(2024, 4, 1));
+    expect(results.gestationalAgeDays).toBe(91);
+    expect(results.completedWeeks).toBe(13);
+    expect(results.currentWeek).toBe(14);
+    expect(results.daysRemaining).toBe(189);
+    expect(results.trimester).toBe(2);
+  });
+
+  it('reports progress as of any reference date without changing the dates', () => {
+    const atScan = calculateFromLMP(date(2024, 1, 1), date(2024, 3, 25));
+    const onWeddingDay = calculateFromLMP(date(2024, 1, 1), date(2024, 8, 17));
+    expect(atScan.dueDate).toEqual(onWeddingDay.dueDate);
+    expect(formatGestationalAge(atScan.gestationalAgeDays)).toBe('12w0d');
+    expect(formatGestationalAge(onWeddingDay.gestationalAgeDays)).toBe('32w5d');
+    expect(onWeddingDay.trimester).toBe(3);
+  });
+
+  it('keeps weeks and days apart', () => {
+    const results = calculateFromLMP(date(2024, 1, 1), date(2024, 6, 12));
+    expect(formatGestationalAge(results.gestationalAgeDays)).toBe('23w2d');
+    expect(results.completedWeeks).toBe(23);
+    expect(results.currentWeek).toBe(24);
+  });
+
+  it('counts days before the LMP as a negative gestational age, not started', () => {
+    const results = calculateFromLMP(date(2024, 1, 10), date(2024, 1, 1));
+    expect(results.gestationalAgeDays).toBe(-9);
+    expect(results.status).toBe('notStarted');
+    expect(getPregnancyStatus(0)).toBe('inProgress');
+  });
+
+  it('counts days past the due date as negative days remaining', () => {
+    const results = calculateFromLMP(date(2024, 1, 1), date(2024, 10, 12));
+    expect(results.daysRemaining).toBe(-5);
+    expect(formatGestationalAge(results.gestationalAgeDays)).toBe('40w5d');
+    expect(results.status).toBe('overdue');
+  });
+});
+
+describe('cycle length adjustment', () => {
+  it('shifts due and conception dates by the difference from a 28-day cycle', () => {
+    const results = calculateFromLMP(date(2023, 1, 1), date(2023, 1, 1), { cycleLength: 35 });
+    expect(ymd(results.dueDate)).toBe('2023-10-15');
+    expect(ymd(results.conceptionDate)).toBe('2023-01-22');
+
+    expect(ymd(calculateFromLMP(date(2023, 1, 1), date(2023, 1, 1), { cycleLength: 24 }).dueDate)).toBe('2023-10-04');
+  });
+
+  it('places ovulation one luteal phase before the next period', () => {
+    expect(getOvulationDay()).toBe(14);
+    expect(getOvulationDay({ cycleLength: 32 })).toBe(18);
+    expect(getOvulationDay({ cycleLength: 28, lutealPhaseLength: 12 })).toBe(16);
+
+    const results = calculateFromLMP(date(2023, 1, 1), date(2023, 1, 1), { lutealPhaseLength: 12 });
+    expect(ymd(results.dueDate)).toBe('2023-10-10');
+    expect(ymd(results.conceptionDate)).toBe('2023-01-17');
+  });
+
+  it('counts gestational age so the adjusted due date is 40w0d', () => {
+    const results = calculateFromLMP(date(2024, 1, 1), date(2024, 4, 8), { cycleLength: 35 });
+    expect(results.completedWeeks).toBe(13);
+    expect(results.daysRemaining).toBe(189);
+  });
+
+  it('matches Naegele for the default cycle', () => {
+    const today = date(2024, 4, 1);
+    expect(calculateFromLMP(date(2024, 1, 1), today, { cycleLength: 28, lutealPhaseLength: 14 }))
+      .toEqual(calculateFromLMP(date(2024, 1, 1), today));
+  });
+});
+
+describe('calculateFromDueDate', () => {
+  it('works backwards 280 days to the LMP', () => {
+    const results = calculateFromDueDate(date(2024, 10, 7), date(2024, 4, 1));
+    expect(ymd(results.dueDate)).toBe('2024-10-07');
+    expect(ymd(results.conceptionDate)).toBe('2024-01-15');
+    expect(results.completedWeeks).toBe(13);
+    expect(results.daysRemaining).toBe(189);
+  });
+});
+
+describe('conception and IVF methods', () => {
+  it('adds 266 days to a known conception or retrieval date', () => {
+    const today = date(2024, 4, 1);
+    const fromConception = calculateFromConception(date(2024, 1, 15), today);
+    expect(ymd(fromConception.dueDate)).toBe('2024-10-07');
+    expect(fromConception).toEqual(calculateFromLMP(date(2024, 1, 1), today));
+    expect(calculateFromEggRetrieval(date(2024, 1, 15), today)).toEqual(fromConception);
+  });
+
+  it('subtracts the embryo age from the transfer date', () => {
+    const today = date(2024, 4, 1);
+    expect(ymd(calculateFromEmbryoTransfer(date(2024, 1, 20), 5, today).dueDate)).toBe('2024-10-07');
+    expect(ymd(calculateFromEmbryoTransfer(date(2024, 1, 20), 5, today).conceptionDate)).toBe('2024-01-15');
+    expect(ymd(calculateFromEmbryoTransfer(date(2024, 1, 18), 3, today).dueDate)).toBe('2024-10-07');
+    expect(ymd(calculateFromEmbryoTransfer(date(2024, 1, 21), 6, today).dueDate)).toBe('2024-10-07');
+  });
+});
+
+describe('calculateFromUltrasound', () => {
+  it('counts back from the gestational age reported at the scan', () => {
+    const results = calculateFromUltrasound(date(2024, 3, 1), { kind: 'gestationalAge', weeks: 10, days: 0 }, date(2024, 3, 1));
+    expect(ymd(results.dueDate)).toBe('2024-09-27');
+    expect(ymd(results.conceptionDate)).toBe('2024-01-05');
+    expect(results.gestationalAgeDays).toBe(70);
+  });
+
+  it('dates from a CRL measurement', () => {
+    // 45 mm is 11w1d
+    const results = calculateFromUltrasound(date(2024, 3, 1), { kind: 'crl', crlMm: 45 }, date(2024, 3, 1));
+    expect(ymd(results.dueDate)).toBe(ymd(calculateFromLMP(date(2023, 12, 14), date(2024, 3, 1)).dueDate));
+    expect(results.gestationalAgeDays).toBe(78);
+  });
+});
+
+describe('calculatePregnancy', () => {
+  it('dispatches on the input method', () => {
+    const today = date(2024, 4, 1);
+    expect(calculatePregnancy({ method: 'lmp', lmp: date(2024, 1, 1) }, today))
+      .toEqual(calculatePregnancy({ method: 'dueDate', dueDate: date(2024, 10, 7) }, today));
+    expect(calculatePregnancy({ method: 'embryoTransfer', transferDate: date(2024, 1, 20), embryoAge: 5 }, today))
+      .toEqual(calculatePregnancy({ method: 'conception', conceptionDate: date(2024, 1, 15) }, today));
+  });
+});
+
+describe('getTrimester', () => {
+  it('splits at weeks 13 and 28', () => {
+    expect(getTrimester(0)).toBe(1);
+    expect(getTrimester(12)).toBe(1);
+    expect(getTrimester(13)).toBe(2);
+    expect(getTrimester(27)).toBe(2);
+    expect(getTrimester(28)).toBe(3);
+  });
+});
+
+describe('getPregnancyStatus', () => {
+  it('moves through due, overdue, late-term and post-term', () => {
+    expect(getPregnancyStatus(279)).toBe('inProgress');
+    expect(getPregnancyStatus(280)).toBe('dueToday');
+    expect(getPregnancyStatus(281)).toBe('overdue');
+    expect(getPregnancyStatus(41 * 7)).toBe('lateTerm');
+    expect(getPregnancyStatus(42 * 7 - 1)).toBe('lateTerm');
+    expect(getPregnancyStatus(42 * 7)).toBe('postTerm');
+    expect(getPregnancyStatus(43 * 7 + 6)).toBe('postTerm');
+  });
+
+  it('flags gestational ages from 44 weeks as beyond the plausible range', () => {
+    expect(getPregnancyStatus(44 * 7)).toBe('beyondRange');
+    expect(calculateFromLMP(date(2023, 1, 1), date(2024, 1, 1)).status).toBe('beyondRange');
+  });
+});
+
+describe('formatGestationalAge', () => {
+  it('writes days as weeks plus days', () => {
+    expect(formatGestationalAge(0)).toBe('0w0d');
+    expect(formatGestationalAge(86)).toBe('12w2d');
+    expect(formatGestationalAge(280)).toBe('40w0d');
+  });
+});
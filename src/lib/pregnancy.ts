@@ -0,0 +1,158 @@
+import { PlainDate, addDays, diffDays } from './plainDate';
+import { UltrasoundMeasurement, getScanGestationalAge } from './ultrasound';
+
+// Where the pregnancy stands relative to the due date; see getPregnancyStatus
+export type PregnancyStatus = 'notStarted' | 'inProgress' | 'dueToday' | 'overdue' | 'lateTerm' | 'postTerm' | 'beyondRange';
+
+export interface CalculationResults {
+  dueDate: PlainDate;
+  conceptionDate: PlainDate;
+  // Gestational age in days since the (equivalent) LMP; 163 days is 23w2d, and negative before the LMP
+  gestationalAgeDays: number;
+  // Whole weeks completed (23 at 23w2d) and the week in progress (the 24th week)
+  completedWeeks: number;
+  currentWeek: number;
+  // Negative once the due date has passed
+  daysRemaining: number;
+  trimester: number;
+  status: PregnancyStatus;
+}
+
+// Optional menstrual cycle details for the LMP method; omitted values fall back to the defaults
+export interface CycleOptions {
+  cycleLength?: number;
+  lutealPhaseLength?: number;
+}
+
+// Age of the embryo in days since fertilization on the day it was transferred
+export type EmbryoAge = 3 | 5 | 6;
+export const EMBRYO_AGES: EmbryoAge[] = [3, 5, 6];
+
+export type CalculationInput =
+  | ({ method: 'lmp'; lmp: PlainDate } & CycleOptions)
+  | { method: 'dueDate'; dueDate: PlainDate }
+  | { method: 'conception'; conceptionDate: PlainDate }
+  | { method: 'eggRetrieval'; retrievalDate: PlainDate }
+  | { method: 'embryoTransfer'; transferDate: PlainDate; embryoAge: EmbryoAge }
+  | { method: 'ultrasound'; scanDate: PlainDate; measurement: UltrasoundMeasurement };
+
+export type CalculationMethod = CalculationInput['method'];
+
+// Standard pregnancy length (Naegele's Rule) and average ovulation day
+export const PREGNANCY_LENGTH_DAYS = 280;
+export const OVULATION_DAY = 14;
+
+// Naegele's Rule assumes a 28-day cycle with a 14-day luteal phase (ovulation on day 14)
+export const DEFAULT_CYCLE_LENGTH = 28;
+export const DEFAULT_LUTEAL_PHASE_LENGTH = 14;
+export const CYCLE_LENGTH_RANGE = { min: 20, max: 45 };
+export const LUTEAL_PHASE_RANGE = { min: 9, max: 18 };
+
+// ACOG term definitions: late term from 41w0d, post-term from 42w0d. Beyond 44w0d an ongoing
+// pregnancy is implausible, so either the dates are wrong or the baby has been born.
+export const LATE_TERM_DAYS = 41 * 7;
+export const POST_TERM_DAYS = 42 * 7;
+export const MAX_PLAUSIBLE_GESTATION_DAYS = 44 * 7;
+
+// Pregnancy lasts 266 days from conception regardless of cycle length
+const CONCEPTION_TO_DUE_DAYS = PREGNANCY_LENGTH_DAYS - OVULATION_DAY;
+
+export const getTrimester = (week: number): number =>
+  week <= 12 ? 1 : week <= 27 ? 2 : 3;
+
+export const getPregnancyStatus = (gestationalAgeDays: number): PregnancyStatus => {
+  if (gestationalAgeDays < 0) return 'notStarted';
+  if (gestationalAgeDays < PREGNANCY_LENGTH_DAYS) return 'inProgress';
+  if (gestationalAgeDays === PREGNANCY_LENGTH_DAYS) return 'dueToday';
+  if (gestationalAgeDays < LATE_TERM_DAYS) return 'overdue';
+  if (gestationalAgeDays < POST_TERM_DAYS) return 'lateTerm';
+  if (gestationalAgeDays < MAX_PLAUSIBLE_GESTATION_DAYS) return 'postTerm';
+  return 'beyondRange';
+};
+
+// Obstetric shorthand, e.g. 86 days is "12w2d"
+export const formatGestationalAge = (days: number): string =>
+  `${Math.floor(days / 7)}w${days % 7}d`;
+
+// Ovulation happens one luteal phase before the next period is due
+export const getOvulationDay = ({
+  cycleLength = DEFAULT_CYCLE_LENGTH,
+  lutealPhaseLength = DEFAULT_LUTEAL_PHASE_LENGTH
+}: CycleOptions = {}): number => cycleLength - lutealPhaseLength;
+
+// Progress fields (gestational age, days remaining, trimester, status) are as of `asOf`, usually today
+const buildResults = (dueDate: PlainDate, conceptionDate: PlainDate, asOf: PlainDate): CalculationResults => {
+  // Gestational age counts from the LMP a standard cycle would have had, so 40w0d lands on the due date
+  const gestationalAgeDays = diffDays(addDays(dueDate, -PREGNANCY_LENGTH_DAYS), asOf);
+  const completedWeeks = Math.floor(gestationalAgeDays / 7);
+
+  // Days remaining until due date
+  const daysRemaining = diffDays(asOf, dueDate);
+
+  return {
+    dueDate,
+    conceptionDate,
+    gestationalAgeDays,
+    completedWeeks,
+    currentWeek: completedWeeks + 1,
+    daysRemaining,
+    trimester: getTrimester(completedWeeks),
+    status: getPregnancyStatus(gestationalAgeDays)
+  };
+};
+
+export const calculateFromLMP = (lmp: PlainDate, asOf: PlainDate, cycle: CycleOptions = {}): CalculationResults => {
+  // Conception follows ovulation, ~14 days after LMP for a 28-day cycle
+  const conceptionDate = addDays(lmp, getOvulationDay(cycle));
+
+  // Parikh's rule: due date is 280 days from LMP, shifted by the cycle's deviation from 28 days
+  const dueDate = addDays(conceptionDate, CONCEPTION_TO_DUE_DAYS);
+
+  return buildResults(dueDate, conceptionDate, asOf);
+};
+
+export const calculateFromDueDate = (dueDate: PlainDate, asOf: PlainDate): CalculationResults =>
+  // LMP is 280 days before due date, conception 266
+  buildResults(dueDate, addDays(dueDate, -CONCEPTION_TO_DUE_DAYS), asOf);
+
+// Known ovulation/conception date, e.g. from ovulation tracking or a single intercourse date
+export const calculateFromConception = (conceptionDate: PlainDate, asOf: PlainDate): CalculationResults =>
+  buildResults(addDays(conceptionDate, CONCEPTION_TO_DUE_DAYS), conceptionDate, asOf);
+
+// Eggs are fertilized on the day of retrieval, so retrieval dates like conception
+export const calculateFromEggRetrieval = (retrievalDate: PlainDate, asOf: PlainDate): CalculationResults =>
+  calculateFromConception(retrievalDate, asOf);
+
+// A day-N embryo was fertilized N days before transfer (day 5: due date = transfer + 261 days)
+export const calculateFromEmbryoTransfer = (
+  transferDate: PlainDate,
+  embryoAge: EmbryoAge,
+  asOf: PlainDate
+): CalculationResults => calculateFromConception(addDays(transferDate, -embryoAge), asOf);
+
+// The scan fixes gestational age on the scan date; the LMP-equivalent date follows from it
+export const calculateFromUltrasound = (
+  scanDate: PlainDate,
+  measurement: UltrasoundMeasurement,
+  asOf: PlainDate
+): CalculationResults => {
+  const lmp = addDays(scanDate, -getScanGestationalAge(measurement));
+  return buildResults(addDays(lmp, PREGNANCY_LENGTH_DAYS), addDays(lmp, OVULATION_DAY), asOf);
+};
+
+export const calculatePregnancy = (input: CalculationInput, asOf: PlainDate): CalculationResults => {
+  switch (input.method) {
+    case 'lmp':
+      return calculateFromLMP(input.lmp, asOf, input);
+    case 'dueDate':
+      return calculateFromDueDate(input.dueDate, asOf);
+    case 'conception':
+      return calculateFromConception(input.conceptionDate, asOf);
+    case 'eggRetrieval':
+      return calculateFromEggRetrieval(input.retrievalDate, asOf);
+    case 'embryoTransfer':
+      return calculateFromEmbryoTransfer(input.transferDate, input.embryoAge, asOf);
+    case 'ultrasound':
+      return calculateFromUltrasound(input.scanDate, input.measurement, asOf);
+  }
+};
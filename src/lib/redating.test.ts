@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { getRedatingThreshold, reconcileDating } from './redating';
+import { plainDate as date, toIsoDateString as ymd } from './plainDate';
+
+const weeks = (weeks: number, days = 0) => ({ kind: 'gestationalAge' as const, weeks, days });
+
+describe('getRedatingThreshold', () => {
+  it('widens the allowed discrepancy as pregnancy advances', () => {
+    expect(getRedatingThreshold(8 * 7 + 6).thresholdDays).toBe(5);
+    expect(getRedatingThreshold(9 * 7).thresholdDays).toBe(7);
+    expect(getRedatingThreshold(15 * 7 + 6).thresholdDays).toBe(7);
+    expect(getRedatingThreshold(16 * 7).thresholdDays).toBe(10);
+    expect(getRedatingThreshold(22 * 7).thresholdDays).toBe(14);
+    expect(getRedatingThreshold(28 * 7).thresholdDays).toBe(21);
+    expect(getRedatingThreshold(40 * 7).thresholdDays).toBe(21);
+  });
+});
+
+describe('reconcileDating', () => {
+  // LMP 2024-01-01 gives an EDD of 2024-10-07; on 2024-03-01 that is 8w4d
+  const lmp = date(2024, 1, 1);
+
+  it('keeps the LMP due date when the scan agrees', () => {
+    const decision = reconcileDating(lmp, date(2024, 3, 1), weeks(8, 4));
+    expect(decision.chosen).toBe('lmp');
+    expect(decision.discrepancyDays).toBe(0);
+    expect(ymd(decision.finalDueDate)).toBe('2024-10-07');
+  });
+
+  it('redates before 9w0d only beyond 5 days', () => {
+    const within = reconcileDating(lmp, date(2024, 3, 1), weeks(7, 6));
+    expect(within.discrepancyDays).toBe(-5);
+    expect(within.chosen).toBe('lmp');
+
+    const beyond = reconcileDating(lmp, date(2024, 3, 1), weeks(7, 5));
+    expect(beyond.chosen).toBe('ultrasound');
+    expect(ymd(beyond.ultrasoundDueDate)).toBe('2024-10-13');
+    expect(ymd(beyond.finalDueDate)).toBe('2024-10-13');
+  });
+
+  it('allows 7 days between 9w0d and 13w6d', () => {
+    expect(reconcileDating(lmp, date(2024, 3, 25), weeks(11, 0)).chosen).toBe('lmp');
+    expect(reconcileDating(lmp, date(2024, 3, 25), weeks(10, 6)).chosen).toBe('ultrasound');
+    expect(reconcileDating(lmp, date(2024, 3, 25), weeks(13, 1)).chosen).toBe('ultrasound');
+  });
+
+  it('compares against the cycle-adjusted LMP due date', () => {
+    // A 35-day cycle moves the LMP due date to 2024-10-14, which matches a scan of 7w4d on 2024-03-01
+    const decision = reconcileDating(lmp, date(2024, 3, 1), weeks(7, 4), { cycleLength: 35 });
+    expect(ymd(decision.lmpDueDate)).toBe('2024-10-14');
+    expect(decision.chosen).toBe('lmp');
+  });
+
+  it('uses the CRL-derived gestational age', () => {
+    // 10 mm is 7w0d, 7 days behind LMP dating on 2024-02-26
+    const decision = reconcileDating(lmp, date(2024, 2, 26), { kind: 'crl', crlMm: 10 });
+    expect(decision.scanGestationalAgeDays).toBe(49);
+    expect(decision.chosen).toBe('ultrasound');
+  });
+
+  it('flags scans from 22 weeks as suboptimal dating', () => {
+    expect(reconcileDating(lmp, date(2024, 6, 10), weeks(23)).isSuboptimallyDated).toBe(true);
+    expect(reconcileDating(lmp, date(2024, 3, 1), weeks(8, 4)).isSuboptimallyDated).toBe(false);
+  });
+});
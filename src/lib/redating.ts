@@ -0,0 +1,64 @@
+import { PlainDate, addDays, diffDays } from './plainDate';
+import { CycleOptions, PREGNANCY_LENGTH_DAYS, calculateFromLMP } from './pregnancy';
+import { UltrasoundMeasurement, getScanGestationalAge } from './ultrasound';
+
+// ACOG Committee Opinion 700 / SMFM: redate to the ultrasound when it differs from LMP dating
+// by more than the threshold for the gestational age (by ultrasound) at the scan
+export const REDATING_THRESHOLDS = [
+  { fromDays: 0, untilDays: 9 * 7, thresholdDays: 5 },
+  { fromDays: 9 * 7, untilDays: 14 * 7, thresholdDays: 7 },
+  { fromDays: 14 * 7, untilDays: 16 * 7, thresholdDays: 7 },
+  { fromDays: 16 * 7, untilDays: 22 * 7, thresholdDays: 10 },
+  { fromDays: 22 * 7, untilDays: 28 * 7, thresholdDays: 14 },
+  { fromDays: 28 * 7, untilDays: Infinity, thresholdDays: 21 }
+];
+
+export type RedatingBand = (typeof REDATING_THRESHOLDS)[number];
+
+// Without an ultrasound before 22w0d a pregnancy is considered suboptimally dated
+const SUBOPTIMAL_DATING_FROM_DAYS = 22 * 7;
+
+export interface RedatingDecision {
+  lmpDueDate: PlainDate;
+  ultrasoundDueDate: PlainDate;
+  finalDueDate: PlainDate;
+  chosen: 'lmp' | 'ultrasound';
+  // Gestational age at the scan by ultrasound, and how far it is ahead (+) or behind (-) LMP dating
+  scanGestationalAgeDays: number;
+  discrepancyDays: number;
+  // The gestational-age band of the scan, which sets the threshold
+  band: RedatingBand;
+  isSuboptimallyDated: boolean;
+}
+
+export const getRedatingThreshold = (scanGestationalAgeDays: number) =>
+  REDATING_THRESHOLDS.find((band) => scanGestationalAgeDays < band.untilDays) ??
+  REDATING_THRESHOLDS[REDATING_THRESHOLDS.length - 1];
+
+export const reconcileDating = (
+  lmp: PlainDate,
+  scanDate: PlainDate,
+  measurement: UltrasoundMeasurement,
+  cycle: CycleOptions = {}
+): RedatingDecision => {
+  const lmpDueDate = calculateFromLMP(lmp, scanDate, cycle).dueDate;
+
+  const scanGestationalAgeDays = getScanGestationalAge(measurement);
+  const ultrasoundDueDate = addDays(scanDate, PREGNANCY_LENGTH_DAYS - scanGestationalAgeDays);
+
+  // A later ultrasound due date means the baby measures smaller than LMP dating expects
+  const discrepancyDays = diffDays(ultrasoundDueDate, lmpDueDate);
+  const band = getRedatingThreshold(scanGestationalAgeDays);
+  const chosen = Math.abs(discrepancyDays) > band.thresholdDays ? 'ultrasound' : 'lmp';
+
+  return {
+    lmpDueDate,
+    ultrasoundDueDate,
+    finalDueDate: chosen === 'ultrasound' ? ultrasoundDueDate : lmpDueDate,
+    chosen,
+    scanGestationalAgeDays,
+    discrepancyDays,
+    band,
+    isSuboptimallyDated: scanGestationalAgeDays >= SUBOPTIMAL_DATING_FROM_DAYS
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ROUTES, getPageFromPath } from './routes';
+import { translate } from '../i18n/translate';
+
+describe('getPageFromPath', () => {
+  it('maps every route path back to its page', () => {
+    for (const [page, route] of Object.entries(ROUTES)) {
+      expect(getPageFromPath(route.path)).toBe(page);
+    }
+  });
+
+  it('ignores trailing slashes and case', () => {
+    expect(getPageFromPath('')).toBe('home');
+    expect(getPageFromPath('/faq/')).toBe('faq');
+    expect(getPageFromPath('/About')).toBe('about');
+  });
+
+  it('returns null for unknown paths', () => {
+    expect(getPageFromPath('/pricing')).toBeNull();
+    expect(getPageFromPath('/faq/extra')).toBeNull();
+  });
+});
+
+describe('ROUTES', () => {
+  it('titles each page in the chosen language', () => {
+    expect(translate('es', ROUTES.faq.title, { site: translate('es', 'app.name') }))
+      .toBe('Preguntas frecuentes sobre la calculadora de embarazo | Calculadora de Embarazo');
+    expect(translate('hi', ROUTES.contact.description)).not.toBe(translate('en', ROUTES.contact.description));
+  });
+});
@@ -0,0 +1,32 @@
+import { MessageKey } from '../i18n/messages/en';
+
+export type Page = 'home' | 'about' | 'disclaimer' | 'privacy' | 'faq' | 'contact';
+
+export interface Route {
+  path: string;
+  // Catalog keys; titles take the site name as {site}
+  title: MessageKey;
+  description: MessageKey;
+}
+
+// Paths, document titles and meta descriptions for each page; the home entry mirrors index.html
+export const ROUTES: Record<Page, Route> = {
+  home: { path: '/', title: 'meta.home.title', description: 'meta.home.description' },
+  about: { path: '/about', title: 'meta.about.title', description: 'meta.about.description' },
+  faq: { path: '/faq', title: 'meta.faq.title', description: 'meta.faq.description' },
+  disclaimer: { path: '/disclaimer', title: 'meta.disclaimer.title', description: 'meta.disclaimer.description' },
+  privacy: { path: '/privacy', title: 'meta.privacy.title', description: 'meta.privacy.description' },
+  contact: { path: '/contact', title: 'meta.contact.title', description: 'meta.contact.description' }
+};
+
+export const NOT_FOUND_ROUTE: Omit<Route, 'path'> = {
+  title: 'meta.notFound.title',
+  description: 'meta.notFound.description'
+};
+
+// Trailing slashes and letter case are ignored; unknown paths return null so a 404 can be shown
+export const getPageFromPath = (pathname: string): Page | null => {
+  const normalized = pathname.replace(/\/+$/, '').toLowerCase() || '/';
+  const match = (Object.keys(ROUTES) as Page[]).find((page) => ROUTES[page].path === normalized);
+  return match ?? null;
+};
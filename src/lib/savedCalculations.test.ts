@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CalculationStorage,
+  SAVED_CALCULATIONS_KEY,
+  SavedCalculation,
+  clearSavedCalculations,
+  loadSavedCalculations,
+  storeSavedCalculations
+} from './savedCalculations';
+import { plainDate as date } from './plainDate';
+
+const memoryStorage = (): CalculationStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key)
+  };
+};
+
+const saved: SavedCalculation = {
+  id: 'a',
+  name: "Sister's pregnancy",
+  savedAt: '2024-03-01T12:00:00.000Z',
+  calculation: { input: { method: 'embryoTransfer', transferDate: date(2024, 1, 20), embryoAge: 5 } }
+};
+
+describe('saved calculations', () => {
+  it('stores nothing until saving is turned on', () => {
+    const storage = memoryStorage();
+    expect(loadSavedCalculations(storage)).toBeNull();
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('round-trips saved calculations', () => {
+    const storage = memoryStorage();
+    expect(storeSavedCalculations(storage, [saved])).toBe(true);
+    expect(loadSavedCalculations(storage)).toEqual([{
+      ...saved,
+      calculation: { ...saved.calculation, scanLmp: undefined, asOf: undefined, gestation: undefined }
+    }]);
+  });
+
+  it('skips corrupted entries and survives malformed data', () => {
+    const storage = memoryStorage();
+    storage.setItem(SAVED_CALCULATIONS_KEY, JSON.stringify({
+      version: 1,
+      calculations: [{ id: 'b', name: 'Broken', savedAt: '', params: 'method=lmp' }, { id: 'c' }]
+    }));
+    expect(loadSavedCalculations(storage)).toEqual([]);
+
+    storage.setItem(SAVED_CALCULATIONS_KEY, 'not json');
+    expect(loadSavedCalculations(storage)).toEqual([]);
+  });
+
+  it('reports storage failures and deletes everything when turned off', () => {
+    const full: CalculationStorage = {
+      getItem: () => null,
+      setItem: () => { throw new Error('QuotaExceededError'); },
+      removeItem: () => undefined
+    };
+    expect(storeSavedCalculations(full, [saved])).toBe(false);
+
+    const storage = memoryStorage();
+    storeSavedCalculations(storage, [saved]);
+    clearSavedCalculations(storage);
+    expect(loadSavedCalculations(storage)).toBeNull();
+  });
+});
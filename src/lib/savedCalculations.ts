@@ -0,0 +1,93 @@
+import { SharedCalculation, fromShareParams, toShareParams } from './shareLink';
+
+// Saved calculations live in localStorage only after the user opts in; the key existing is the opt-in
+export const SAVED_CALCULATIONS_KEY = 'pregnancy-calculator:saved-calculations';
+
+export type CalculationStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface SavedCalculation {
+  id: string;
+  name: string;
+  savedAt: string;
+  calculation: SharedCalculation;
+}
+
+// Calculations are stored as share-link query strings, so loading reuses the link validation
+interface StoredCalculation {
+  id: string;
+  name: string;
+  savedAt: string;
+  params: string;
+}
+
+interface StoredData {
+  version: 1;
+  calculations: StoredCalculation[];
+}
+
+const isStoredCalculation = (value: unknown): value is StoredCalculation => {
+  const entry = value as StoredCalculation | null;
+  return typeof entry === 'object' && entry !== null &&
+    typeof entry.id === 'string' && typeof entry.name === 'string' &&
+    typeof entry.savedAt === 'string' && typeof entry.params === 'string';
+};
+
+// Returns null when saving is off; unreadable or corrupted entries are skipped rather than failing the list
+export const loadSavedCalculations = (storage: CalculationStorage): SavedCalculation[] | null => {
+  let raw: string | null;
+  try {
+    raw = storage.getItem(SAVED_CALCULATIONS_KEY);
+  } catch {
+    return null;
+  }
+  if (raw === null) return null;
+
+  let data: Partial<StoredData>;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+
+  return (Array.isArray(data?.calculations) ? data.calculations : []).flatMap((entry): SavedCalculation[] => {
+    if (!isStoredCalculation(entry)) return [];
+    const calculation = fromShareParams(new URLSearchParams(entry.params));
+    return calculation ? [{ id: entry.id, name: entry.name, savedAt: entry.savedAt, calculation }] : [];
+  });
+};
+
+// Returns false when the browser refuses to store anything (private mode, quota, disabled storage)
+export const storeSavedCalculations = (storage: CalculationStorage, calculations: SavedCalculation[]): boolean => {
+  const data: StoredData = {
+    version: 1,
+    calculations: calculations.map(({ id, name, savedAt, calculation }) => ({
+      id,
+      name,
+      savedAt,
+      params: toShareParams(calculation).toString()
+    }))
+  };
+
+  try {
+    storage.setItem(SAVED_CALCULATIONS_KEY, JSON.stringify(data));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Turning saving off deletes everything that was stored
+export const clearSavedCalculations = (storage: CalculationStorage) => {
+  try {
+    storage.removeItem(SAVED_CALCULATIONS_KEY);
+  } catch {
+    // Nothing could have been stored either
+  }
+};
+
+// Reads window.localStorage on every call, so browsers that block storage fail inside the try blocks above
+export const browserStorage: CalculationStorage = {
+  getItem: (key) => window.localStorage.getItem(key),
+  setItem: (key, value) => window.localStorage.setItem(key, value),
+  removeItem: (key) => window.localStorage.removeItem(key)
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { buildShareUrl, fromShareParams, getSharedDueDate, toShareParams, SharedCalculation } from './shareLink';
+import { plainDate as date, toIsoDateString } from './plainDate';
+
+const roundTrip = (shared: SharedCalculation) => fromShareParams(new URLSearchParams(toShareParams(shared).toString()));
+
+describe('share links', () => {
+  it('round-trips every calculation method', () => {
+    const cases: SharedCalculation[] = [
+      { input: { method: 'lmp', lmp: date(2024, 1, 1), cycleLength: 32, lutealPhaseLength: undefined } },
+      { input: { method: 'dueDate', dueDate: date(2024, 10, 7) }, asOf: date(2024, 5, 1) },
+      { input: { method: 'conception', conceptionDate: date(2024, 1, 15) } },
+      { input: { method: 'eggRetrieval', retrievalDate: date(2024, 1, 15) } },
+      { input: { method: 'embryoTransfer', transferDate: date(2024, 1, 20), embryoAge: 3 } },
+      {
+        input: { method: 'ultrasound', scanDate: date(2024, 3, 1), measurement: { kind: 'gestationalAge', weeks: 8, days: 4 } },
+        scanLmp: date(2024, 1, 1)
+      },
+      { input: { method: 'ultrasound', scanDate: date(2024, 3, 1), measurement: { kind: 'crl', crlMm: 17.5 } } },
+      { input: { method: 'dueDate', dueDate: date(2024, 10, 7) }, gestation: { babies: 2, chorionicity: 'monochorionic' } },
+      { input: { method: 'dueDate', dueDate: date(2024, 10, 7) }, gestation: { babies: 3 } }
+    ];
+
+    for (const shared of cases) {
+      expect(roundTrip(shared)).toEqual({ scanLmp: undefined, asOf: undefined, gestation: undefined, ...shared });
+    }
+  });
+
+  it('builds readable query strings', () => {
+    expect(buildShareUrl('https://example.com/', { input: { method: 'dueDate', dueDate: date(2024, 10, 7) } }))
+      .toBe('https://example.com/?method=dueDate&due=2024-10-07');
+  });
+
+  it('ignores links with an unknown method or a missing or malformed date', () => {
+    expect(fromShareParams(new URLSearchParams(''))).toBeNull();
+    expect(fromShareParams(new URLSearchParams('method=guess&lmp=2024-01-01'))).toBeNull();
+    expect(fromShareParams(new URLSearchParams('method=lmp'))).toBeNull();
+    expect(fromShareParams(new URLSearchParams('method=dueDate&due=2024-02-30'))).toBeNull();
+    expect(fromShareParams(new URLSearchParams('method=embryoTransfer&transfer=2024-01-20&embryo=4'))).toBeNull();
+    expect(fromShareParams(new URLSearchParams('method=ultrasound&scan=2024-03-01&weeks=2'))).toBeNull();
+  });
+
+  it('drops out-of-range optional values instead of rejecting the link', () => {
+    const shared = fromShareParams(new URLSearchParams('method=lmp&lmp=2024-01-01&cycle=90&luteal=12&asof=soon'));
+    expect(shared).toEqual({
+      input: { method: 'lmp', lmp: date(2024, 1, 1), cycleLength: undefined, lutealPhaseLength: 12 },
+      scanLmp: undefined,
+      asOf: undefined,
+      gestation: undefined
+    });
+  });
+
+  it('ignores an unknown number of babies and twin type', () => {
+    expect(fromShareParams(new URLSearchParams('method=dueDate&due=2024-10-07&babies=5'))?.gestation).toBeUndefined();
+    expect(fromShareParams(new URLSearchParams('method=dueDate&due=2024-10-07&babies=2&twins=x'))?.gestation)
+      .toEqual({ babies: 2 });
+  });
+
+  it('redates a scan with an LMP the same way as the calculator, using a 28-day cycle', () => {
+    // An LMP of 2024-01-01 puts a 2024-03-01 scan at 8w4d, in the under-9-week band with its 5-day threshold.
+    // 7w6d is 5 days behind, not more than the threshold, so the LMP date stands
+    const measurement = { kind: 'gestationalAge', weeks: 7, days: 6 } as const;
+    const shared: SharedCalculation = {
+      input: { method: 'ultrasound', scanDate: date(2024, 3, 1), measurement },
+      scanLmp: date(2024, 1, 1)
+    };
+    expect(toIsoDateString(getSharedDueDate(shared))).toBe('2024-10-07');
+    expect(toIsoDateString(getSharedDueDate({ input: shared.input }))).toBe('2024-10-12');
+  });
+
+  it('redates by the scan only once it differs from the LMP by more than the threshold', () => {
+    const sharedScan = (days: number): SharedCalculation => ({
+      input: { method: 'ultrasound', scanDate: date(2024, 3, 1), measurement: { kind: 'gestationalAge', weeks: 7, days } },
+      scanLmp: date(2024, 1, 1)
+    });
+    // 5 days behind: exactly at the threshold, the LMP date stands
+    expect(toIsoDateString(getSharedDueDate(sharedScan(6)))).toBe('2024-10-07');
+    // 6 days behind: over the threshold, the scan's own due date is used
+    expect(toIsoDateString(getSharedDueDate(sharedScan(5)))).toBe('2024-10-13');
+  });
+});
@@ -0,0 +1,170 @@
+import { PlainDate, parsePlainDate, toIsoDateString, today } from './plainDate';
+import {
+  CYCLE_LENGTH_RANGE,
+  CalculationInput,
+  EMBRYO_AGES,
+  LUTEAL_PHASE_RANGE,
+  calculatePregnancy
+} from './pregnancy';
+import { BABY_COUNTS, Gestation, TwinChorionicity, TWIN_DELIVERY_WINDOWS } from './multiples';
+import { reconcileDating } from './redating';
+import { CRL_RANGE_MM, SCAN_DAYS_RANGE, SCAN_WEEKS_RANGE, UltrasoundMeasurement } from './ultrasound';
+
+// A calculation as carried in a shared link's query string, e.g. ?method=lmp&lmp=2024-01-01&cycle=30
+export interface SharedCalculation {
+  input: CalculationInput;
+  // The LMP entered alongside an ultrasound, so the recipient sees the same redating decision
+  scanLmp?: PlainDate;
+  asOf?: PlainDate;
+  // Omitted for a single baby
+  gestation?: Gestation;
+}
+
+const inRange = (value: number, range: { min: number; max: number }) => value >= range.min && value <= range.max;
+
+// Missing, malformed or out-of-range numbers read as undefined
+const readNumber = (
+  params: URLSearchParams,
+  key: string,
+  range: { min: number; max: number },
+  integer = true
+): number | undefined => {
+  const value = params.get(key);
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return (integer ? Number.isInteger(number) : Number.isFinite(number)) && inRange(number, range) ? number : undefined;
+};
+
+const readDate = (params: URLSearchParams, key: string): PlainDate | undefined =>
+  parsePlainDate(params.get(key) ?? '') ?? undefined;
+
+const readMeasurement = (params: URLSearchParams): UltrasoundMeasurement | undefined => {
+  const crlMm = readNumber(params, 'crl', CRL_RANGE_MM, false);
+  if (crlMm !== undefined) return { kind: 'crl', crlMm };
+
+  const weeks = readNumber(params, 'weeks', SCAN_WEEKS_RANGE);
+  const days = params.has('days') ? readNumber(params, 'days', SCAN_DAYS_RANGE) : 0;
+  return weeks === undefined || days === undefined ? undefined : { kind: 'gestationalAge', weeks, days };
+};
+
+const readInput = (params: URLSearchParams): CalculationInput | undefined => {
+  switch (params.get('method')) {
+    case 'lmp': {
+      const lmp = readDate(params, 'lmp');
+      return lmp && {
+        method: 'lmp',
+        lmp,
+        cycleLength: readNumber(params, 'cycle', CYCLE_LENGTH_RANGE),
+        lutealPhaseLength: readNumber(params, 'luteal', LUTEAL_PHASE_RANGE)
+      };
+    }
+    case 'dueDate': {
+      const dueDate = readDate(params, 'due');
+      return dueDate && { method: 'dueDate', dueDate };
+    }
+    case 'conception': {
+      const conceptionDate = readDate(params, 'conception');
+      return conceptionDate && { method: 'conception', conceptionDate };
+    }
+    case 'eggRetrieval': {
+      const retrievalDate = readDate(params, 'retrieval');
+      return retrievalDate && { method: 'eggRetrieval', retrievalDate };
+    }
+    case 'embryoTransfer': {
+      const transferDate = readDate(params, 'transfer');
+      const embryoAge = EMBRYO_AGES.find((age) => String(age) === params.get('embryo'));
+      return transferDate && embryoAge && { method: 'embryoTransfer', transferDate, embryoAge };
+    }
+    case 'ultrasound': {
+      const scanDate = readDate(params, 'scan');
+      const measurement = readMeasurement(params);
+      return scanDate && measurement && { method: 'ultrasound', scanDate, measurement };
+    }
+    default:
+      return undefined;
+  }
+};
+
+const readGestation = (params: URLSearchParams): Gestation | undefined => {
+  const babies = BABY_COUNTS.find((count) => String(count) === params.get('babies'));
+  if (!babies || babies === 1) return undefined;
+
+  const chorionicity = (Object.keys(TWIN_DELIVERY_WINDOWS) as TwinChorionicity[]).find((kind) => kind === params.get('twins'));
+  return babies === 2 && chorionicity ? { babies, chorionicity } : { babies };
+};
+
+// Links that are incomplete or were edited by hand into something invalid are ignored
+export const fromShareParams = (params: URLSearchParams): SharedCalculation | null => {
+  const input = readInput(params);
+  if (!input) return null;
+
+  return {
+    input,
+    scanLmp: input.method === 'ultrasound' ? readDate(params, 'lmp') : undefined,
+    asOf: readDate(params, 'asof'),
+    gestation: readGestation(params)
+  };
+};
+
+export const toShareParams = ({ input, scanLmp, asOf, gestation }: SharedCalculation): URLSearchParams => {
+  const params = new URLSearchParams({ method: input.method });
+  const setDate = (key: string, date: PlainDate | undefined) => {
+    if (date) params.set(key, toIsoDateString(date));
+  };
+
+  switch (input.method) {
+    case 'lmp':
+      setDate('lmp', input.lmp);
+      if (input.cycleLength !== undefined) params.set('cycle', String(input.cycleLength));
+      if (input.lutealPhaseLength !== undefined) params.set('luteal', String(input.lutealPhaseLength));
+      break;
+    case 'dueDate':
+      setDate('due', input.dueDate);
+      break;
+    case 'conception':
+      setDate('conception', input.conceptionDate);
+      break;
+    case 'eggRetrieval':
+      setDate('retrieval', input.retrievalDate);
+      break;
+    case 'embryoTransfer':
+      setDate('transfer', input.transferDate);
+      params.set('embryo', String(input.embryoAge));
+      break;
+    case 'ultrasound':
+      setDate('scan', input.scanDate);
+      if (input.measurement.kind === 'crl') {
+        params.set('crl', String(input.measurement.crlMm));
+      } else {
+        params.set('weeks', String(input.measurement.weeks));
+        params.set('days', String(input.measurement.days));
+      }
+      setDate('lmp', scanLmp);
+      break;
+  }
+
+  if (gestation && gestation.babies > 1) {
+    params.set('babies', String(gestation.babies));
+    if (gestation.babies === 2 && gestation.chorionicity) params.set('twins', gestation.chorionicity);
+  }
+
+  setDate('asof', asOf);
+  return params;
+};
+
+export const buildShareUrl = (baseUrl: string, shared: SharedCalculation): string =>
+  `${baseUrl}?${toShareParams(shared).toString()}`;
+
+// The due-date-only share: the LMP, scan and cycle are swapped for the due date they give
+export const toDueDateOnly = ({ asOf, gestation }: SharedCalculation, dueDate: PlainDate): SharedCalculation => ({
+  input: { method: 'dueDate', dueDate },
+  asOf,
+  gestation
+});
+
+// Redated ultrasound calculations use the final due date, as on the results card.
+// The due date does not depend on the reference date, so any day will do for the calculation.
+export const getSharedDueDate = ({ input, scanLmp }: SharedCalculation): PlainDate =>
+  input.method === 'ultrasound' && scanLmp
+    ? reconcileDating(scanLmp, input.scanDate, input.measurement).finalDueDate
+    : calculatePregnancy(input, today()).dueDate;
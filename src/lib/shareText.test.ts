@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { plainDate as date } from './plainDate';
+import { calculateFromDueDate, calculateFromLMP } from './pregnancy';
+import { reconcileDating } from './redating';
+import { SharedCalculation, buildShareUrl, toDueDateOnly } from './shareLink';
+import { ShareTextDetails, buildShareText } from './shareText';
+
+const today = date(2024, 6, 15);
+
+describe('buildShareText', () => {
+  const cycleShare: SharedCalculation = { input: { method: 'lmp', lmp: date(2024, 1, 1), cycleLength: 32 } };
+  const cycleDetails: ShareTextDetails = {
+    results: calculateFromLMP(date(2024, 1, 1), today, { cycleLength: 32 }),
+    url: buildShareUrl('https://example.com/', cycleShare),
+    stage: 'Second Trimester',
+    cycle: { length: 32, ovulationDay: 18 }
+  };
+
+  it('lists the results with the link', () => {
+    const text = buildShareText(cycleDetails, 'en');
+    expect(text).toContain('📅 Estimated Due Date: Friday, October 11, 2024');
+    expect(text).toContain('🔄 Adjusted for a 32-day cycle (ovulation on day 18)');
+    expect(text).toContain('🌸 Stage: Second Trimester');
+    expect(text).toContain('See these results: https://example.com/?method=lmp&lmp=2024-01-01&cycle=32');
+  });
+
+  it('leaves out every line and parameter that gives back the LMP when sharing the due date only', () => {
+    const url = buildShareUrl('https://example.com/', toDueDateOnly(cycleShare, cycleDetails.results.dueDate));
+    const text = buildShareText({ ...cycleDetails, url }, 'en', { dueDateOnly: true });
+    expect(url).toBe('https://example.com/?method=dueDate&due=2024-10-11');
+    expect(text).toContain('📅 Estimated Due Date: Friday, October 11, 2024');
+    expect(text).toContain(`See these results: ${url}`);
+    expect(text).not.toContain('cycle');
+    expect(text).not.toContain('2024-01-01');
+
+    const measurement = { kind: 'gestationalAge', weeks: 7, days: 0 } as const;
+    const scanShare: SharedCalculation = {
+      input: { method: 'ultrasound', scanDate: date(2024, 3, 1), measurement },
+      scanLmp: date(2024, 1, 1)
+    };
+    const redating = reconcileDating(date(2024, 1, 1), date(2024, 3, 1), measurement);
+    const scanDetails: ShareTextDetails = {
+      results: calculateFromDueDate(redating.finalDueDate, today),
+      url: buildShareUrl('https://example.com/', toDueDateOnly(scanShare, redating.finalDueDate)),
+      stage: 'Second Trimester',
+      redating
+    };
+    expect(buildShareText(scanDetails, 'en')).toContain('LMP and scan differ by');
+    expect(buildShareText(scanDetails, 'en', { dueDateOnly: true })).not.toContain('LMP and scan differ by');
+    expect(scanDetails.url).not.toContain('lmp');
+    expect(scanDetails.url).not.toContain('scan');
+  });
+});
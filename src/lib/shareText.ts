@@ -0,0 +1,62 @@
+import { PlainDate } from './plainDate';
+import { CalculationResults, formatGestationalAge } from './pregnancy';
+import { RedatingDecision } from './redating';
+import { Locale } from '../i18n/locales';
+import { MessageKey } from '../i18n/messages/en';
+import { MessageParams, PluralKey, formatLocaleDate, translate } from '../i18n/translate';
+
+// What the results card shows, as plain values; labels (stage, twins or triplets) arrive already translated
+export interface ShareTextDetails {
+  results: CalculationResults;
+  url: string;
+  stage: string;
+  cycle?: { length: number; ovulationDay: number };
+  asOf?: PlainDate;
+  redating?: RedatingDecision;
+  deliveryWindow?: { label: string; start: PlainDate; end: PlainDate };
+}
+
+// With `dueDateOnly` the cycle and redating lines are left out: either one, with the due date, gives back the LMP
+export const buildShareText = (
+  { results, url, stage, cycle, asOf, redating, deliveryWindow }: ShareTextDetails,
+  locale: Locale,
+  { dueDateOnly = false }: { dueDateOnly?: boolean } = {}
+): string => {
+  const t = (key: MessageKey | PluralKey, params?: MessageParams) => translate(locale, key, params);
+  const formatDate = (date: PlainDate) => formatLocaleDate(date, locale);
+
+  const lines = [
+    t('shareText.dueDate', { date: formatDate(results.dueDate) }),
+    t('shareText.conception', { date: formatDate(results.conceptionDate) }),
+    !dueDateOnly && cycle && t('shareText.cycle', { length: cycle.length, day: cycle.ovulationDay }),
+    asOf && t('shareText.asOf', { date: formatDate(asOf) }),
+    !dueDateOnly && redating && t('shareText.datedBy', {
+      method: t(`redating.chosen.${redating.chosen}`),
+      days: t('unit.day', { count: Math.abs(redating.discrepancyDays) })
+    }),
+    deliveryWindow && t('shareText.deliveryWindow', {
+      label: deliveryWindow.label,
+      start: formatDate(deliveryWindow.start),
+      end: formatDate(deliveryWindow.end)
+    }),
+    t('shareText.gestationalAge', {
+      age: formatGestationalAge(results.gestationalAgeDays),
+      completed: t('unit.completedWeek', { count: results.completedWeeks }),
+      week: results.currentWeek
+    }),
+    results.daysRemaining >= 0
+      ? t('shareText.daysRemaining', { days: t('unit.day', { count: results.daysRemaining }) })
+      : t('shareText.daysPastDue', { days: t('unit.day', { count: Math.abs(results.daysRemaining) }) }),
+    t('shareText.stage', { stage })
+  ];
+
+  return [
+    t('shareText.heading'),
+    '',
+    ...lines.filter(Boolean),
+    '',
+    t('shareText.link', { url }),
+    '',
+    t('shareText.hashtags')
+  ].join('\n');
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { MILESTONES, TIMELINE_WEEKS, buildTimeline, getMilestoneDates } from './timeline';
+import { plainDate as date, toIsoDateString as ymd } from './plainDate';
+
+// LMP 2024-01-01
+const dueDate = date(2024, 10, 7);
+const milestone = (id: string) => MILESTONES.find((item) => item.id === id)!;
+
+describe('getMilestoneDates', () => {
+  it('turns gestational-age windows into calendar dates', () => {
+    const nt = getMilestoneDates(milestone('nt-scan'), dueDate);
+    expect(ymd(nt.start)).toBe('2024-03-18');
+    expect(ymd(nt.end)).toBe('2024-04-07');
+  });
+
+  it('uses the start date as the end of single-day milestones', () => {
+    const due = getMilestoneDates(milestone('due-date'), dueDate);
+    expect(ymd(due.start)).toBe('2024-10-07');
+    expect(ymd(due.end)).toBe('2024-10-07');
+  });
+});
+
+describe('buildTimeline', () => {
+  const timeline = buildTimeline(dueDate);
+
+  it('lists every week with its calendar range', () => {
+    expect(timeline).toHaveLength(TIMELINE_WEEKS);
+    expect(timeline[0].week).toBe(1);
+    expect(ymd(timeline[0].start)).toBe('2024-01-01');
+    expect(ymd(timeline[0].end)).toBe('2024-01-07');
+    expect(ymd(timeline[40].start)).toBe('2024-10-07');
+  });
+
+  it('runs to week 44, so every week results are shown for is on the timeline', () => {
+    expect(timeline[timeline.length - 1].week).toBe(44);
+    expect(ymd(timeline[43].end)).toBe('2024-11-03');
+  });
+
+  it('assigns trimesters by completed weeks', () => {
+    expect(timeline[12].trimester).toBe(1);
+    expect(timeline[13].trimester).toBe(2);
+    expect(timeline[28].trimester).toBe(3);
+  });
+
+  it('lists windows under every week they overlap', () => {
+    const weeksWith = (id: string) =>
+      timeline.filter((week) => week.milestones.some((item) => item.id === id)).map((week) => week.week);
+
+    expect(weeksWith('nt-scan')).toEqual([12, 13, 14]);
+    expect(weeksWith('anatomy-scan')).toEqual([19, 20, 21, 22, 23]);
+    expect(weeksWith('nipt')).toEqual([11]);
+    expect(weeksWith('due-date')).toEqual([41]);
+  });
+});
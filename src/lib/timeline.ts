@@ -0,0 +1,132 @@
+import { PlainDate, addDays } from './plainDate';
+import { MAX_PLAUSIBLE_GESTATION_DAYS, PREGNANCY_LENGTH_DAYS, getTrimester } from './pregnancy';
+import { MessageKey } from '../i18n/messages/en';
+
+export type MilestoneKind = 'screening' | 'milestone';
+
+// Gestational-age windows in days since LMP; endDays is inclusive and omitted for single-day milestones.
+// The label and description are catalog keys, so calendars and notifications can be built in any locale.
+export interface Milestone {
+  id: string;
+  kind: MilestoneKind;
+  label: MessageKey;
+  description: MessageKey;
+  startDays: number;
+  endDays?: number;
+}
+
+const weeks = (weeks: number, days = 0) => weeks * 7 + days;
+
+export const MILESTONES: Milestone[] = [
+  {
+    id: 'nipt',
+    kind: 'screening',
+    label: 'milestone.nipt.label',
+    description: 'milestone.nipt.description',
+    startDays: weeks(10)
+  },
+  {
+    id: 'nt-scan',
+    kind: 'screening',
+    label: 'milestone.ntScan.label',
+    description: 'milestone.ntScan.description',
+    startDays: weeks(11),
+    endDays: weeks(13, 6)
+  },
+  {
+    id: 'second-trimester',
+    kind: 'milestone',
+    label: 'milestone.secondTrimester.label',
+    description: 'milestone.secondTrimester.description',
+    startDays: weeks(13)
+  },
+  {
+    id: 'anatomy-scan',
+    kind: 'screening',
+    label: 'milestone.anatomyScan.label',
+    description: 'milestone.anatomyScan.description',
+    startDays: weeks(18),
+    endDays: weeks(22, 6)
+  },
+  {
+    id: 'glucose-test',
+    kind: 'screening',
+    label: 'milestone.glucoseTest.label',
+    description: 'milestone.glucoseTest.description',
+    startDays: weeks(24),
+    endDays: weeks(28, 6)
+  },
+  {
+    id: 'tdap',
+    kind: 'screening',
+    label: 'milestone.tdap.label',
+    description: 'milestone.tdap.description',
+    startDays: weeks(27),
+    endDays: weeks(36, 6)
+  },
+  {
+    id: 'third-trimester',
+    kind: 'milestone',
+    label: 'milestone.thirdTrimester.label',
+    description: 'milestone.thirdTrimester.description',
+    startDays: weeks(28)
+  },
+  {
+    id: 'gbs',
+    kind: 'screening',
+    label: 'milestone.gbs.label',
+    description: 'milestone.gbs.description',
+    startDays: weeks(36),
+    endDays: weeks(37, 6)
+  },
+  {
+    id: 'full-term',
+    kind: 'milestone',
+    label: 'milestone.fullTerm.label',
+    description: 'milestone.fullTerm.description',
+    startDays: weeks(39)
+  },
+  {
+    id: 'due-date',
+    kind: 'milestone',
+    label: 'milestone.dueDate.label',
+    description: 'milestone.dueDate.description',
+    startDays: PREGNANCY_LENGTH_DAYS
+  }
+];
+
+export interface TimelineWeek {
+  // The week in progress, counting from 1 (week 24 runs from 23w0d to 23w6d)
+  week: number;
+  start: PlainDate;
+  end: PlainDate;
+  trimester: number;
+  milestones: Milestone[];
+}
+
+// Runs to the last week results are shown for, so a late- or post-term pregnancy still has its week marked
+export const TIMELINE_WEEKS = MAX_PLAUSIBLE_GESTATION_DAYS / 7;
+
+const getLmp = (dueDate: PlainDate) => addDays(dueDate, -PREGNANCY_LENGTH_DAYS);
+
+export const getMilestoneDates = (milestone: Milestone, dueDate: PlainDate) => ({
+  start: addDays(getLmp(dueDate), milestone.startDays),
+  end: addDays(getLmp(dueDate), milestone.endDays ?? milestone.startDays)
+});
+
+// Windows are listed under every week they overlap; single-day milestones under the week they fall in
+export const buildTimeline = (dueDate: PlainDate, milestones: Milestone[] = MILESTONES): TimelineWeek[] =>
+  Array.from({ length: TIMELINE_WEEKS }, (_, index) => {
+    const firstDay = index * 7;
+    const lastDay = firstDay + 6;
+
+    return {
+      week: index + 1,
+      start: addDays(getLmp(dueDate), firstDay),
+      end: addDays(getLmp(dueDate), lastDay),
+      trimester: getTrimester(index),
+      milestones: milestones.filter(
+        (milestone) => milestone.startDays <= lastDay && (milestone.endDays ?? milestone.startDays) >= firstDay
+      )
+    };
+  });
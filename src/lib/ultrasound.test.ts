@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { gestationalAgeFromCRL, getScanGestationalAge } from './ultrasound';
+
+describe('gestationalAgeFromCRL', () => {
+  it('applies the Robinson & Fleming formula', () => {
+    expect(gestationalAgeFromCRL(10)).toBe(49);
+    expect(gestationalAgeFromCRL(45)).toBe(78);
+  });
+
+  it('reaches about 14 weeks at the top of the validated range', () => {
+    expect(gestationalAgeFromCRL(84)).toBe(98);
+  });
+});
+
+describe('getScanGestationalAge', () => {
+  it('converts reported weeks and days to days', () => {
+    expect(getScanGestationalAge({ kind: 'gestationalAge', weeks: 12, days: 3 })).toBe(87);
+  });
+
+  it('derives days from a CRL measurement', () => {
+    expect(getScanGestationalAge({ kind: 'crl', crlMm: 45 })).toBe(78);
+  });
+});
@@ -0,0 +1,24 @@
+// What the sonographer reported at a dating scan: either the gestational age read off the
+// report, or a crown-rump length (CRL) measurement we convert ourselves
+export type UltrasoundMeasurement =
+  | { kind: 'gestationalAge'; weeks: number; days: number }
+  | { kind: 'crl'; crlMm: number };
+
+// Robinson & Fleming (1975) is validated for CRLs up to 84 mm, i.e. until ~14 weeks
+export const CRL_RANGE_MM = { min: 3, max: 84 };
+export const SCAN_WEEKS_RANGE = { min: 4, max: 42 };
+export const SCAN_DAYS_RANGE = { min: 0, max: 6 };
+
+// Robinson & Fleming: gestational age (days) = 8.052 × √CRL(mm) + 23.73
+export const gestationalAgeFromCRL = (crlMm: number): number =>
+  Math.round(8.052 * Math.sqrt(crlMm) + 23.73);
+
+// Gestational age at the time of the scan, in days
+export const getScanGestationalAge = (measurement: UltrasoundMeasurement): number => {
+  switch (measurement.kind) {
+    case 'gestationalAge':
+      return measurement.weeks * 7 + measurement.days;
+    case 'crl':
+      return gestationalAgeFromCRL(measurement.crlMm);
+  }
+};
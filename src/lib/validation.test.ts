@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { checkDateInput, checkNumberInput, checkResults } from './validation';
+import { calculateFromDueDate, calculateFromLMP } from './pregnancy';
+import { plainDate as date } from './plainDate';
+
+const today = date(2024, 6, 15);
+
+describe('checkDateInput', () => {
+  it('ignores blank inputs', () => {
+    expect(checkDateInput('', today)).toBeNull();
+  });
+
+  it('rejects malformed dates', () => {
+    expect(checkDateInput('2024-02-30', today)?.severity).toBe('error');
+    expect(checkDateInput('15/06/2024', today)?.severity).toBe('error');
+  });
+
+  it('rejects future dates unless allowed', () => {
+    expect(checkDateInput('2024-06-15', today)).toBeNull();
+    expect(checkDateInput('2024-06-16', today)?.message).toBe('validation.futureDate');
+    expect(checkDateInput('2024-12-01', today, { allowFuture: true })).toBeNull();
+  });
+});
+
+describe('checkNumberInput', () => {
+  const range = { min: 20, max: 45 };
+
+  it('accepts values in range', () => {
+    expect(checkNumberInput('', range)).toBeNull();
+    expect(checkNumberInput('32', range)).toBeNull();
+    expect(checkNumberInput('12.5', { min: 3, max: 84 }, { integer: false })).toBeNull();
+  });
+
+  it('rejects out-of-range and fractional values', () => {
+    expect(checkNumberInput('60', range)?.severity).toBe('error');
+    expect(checkNumberInput('30.5', range)?.severity).toBe('error');
+  });
+
+  it('only warns for optional fields', () => {
+    expect(checkNumberInput('60', range, { optional: true })?.severity).toBe('warning');
+  });
+
+  it('describes the expected range in the unit of the field', () => {
+    expect(checkNumberInput('90', { min: 3, max: 84 }, { integer: false, unit: 'mm' })).toEqual({
+      severity: 'error',
+      message: 'validation.range.mm',
+      params: { min: 3, max: 84 }
+    });
+  });
+});
+
+describe('checkResults', () => {
+  it('passes ordinary, overdue and post-term pregnancies', () => {
+    expect(checkResults(calculateFromLMP(date(2024, 1, 1), today))).toBeNull();
+    expect(checkResults(calculateFromLMP(date(2023, 8, 20), today))).toBeNull();
+  });
+
+  it('rejects gestational ages of 44 weeks or more', () => {
+    expect(checkResults(calculateFromLMP(date(2023, 8, 10), today))).toEqual({
+      severity: 'error',
+      message: 'validation.beyondRange',
+      params: { age: '44w2d', weeks: 44 }
+    });
+    expect(checkResults(calculateFromLMP(date(2021, 6, 15), today))?.severity).toBe('error');
+  });
+
+  it('rejects reference dates before the LMP', () => {
+    expect(checkResults(calculateFromLMP(date(2024, 6, 15), today))).toBeNull();
+    expect(checkResults(calculateFromLMP(date(2024, 6, 16), today))).toEqual({
+      severity: 'error',
+      message: 'validation.beforeLmp'
+    });
+  });
+
+  it('rejects due dates more than 42 weeks away', () => {
+    expect(checkResults(calculateFromDueDate(date(2025, 3, 1), today))).toBeNull();
+    expect(checkResults(calculateFromDueDate(date(2025, 5, 1), today))).toEqual({
+      severity: 'error',
+      message: 'validation.dueDateTooFar',
+      params: { weeks: 42 }
+    });
+  });
+});
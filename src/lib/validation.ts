@@ -0,0 +1,69 @@
+import { PlainDate, diffDays, parsePlainDate } from './plainDate';
+import { CalculationResults, MAX_PLAUSIBLE_GESTATION_DAYS, POST_TERM_DAYS, formatGestationalAge } from './pregnancy';
+import { MessageKey } from '../i18n/messages/en';
+import { MessageParams } from '../i18n/translate';
+
+// Errors block the results; warnings are shown next to the input but the calculation still runs.
+// The message is a catalog key, translated where the issue is shown.
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  message: MessageKey;
+  params?: MessageParams;
+}
+
+// Blank fields are incomplete rather than invalid, so they produce no issue
+export const checkDateInput = (
+  value: string,
+  today: PlainDate,
+  { allowFuture = false }: { allowFuture?: boolean } = {}
+): ValidationIssue | null => {
+  if (value.trim() === '') return null;
+
+  const date = parsePlainDate(value);
+  if (!date) {
+    return { severity: 'error', message: 'validation.invalidDate' };
+  }
+  if (!allowFuture && diffDays(today, date) > 0) {
+    return { severity: 'error', message: 'validation.futureDate' };
+  }
+  return null;
+};
+
+export const checkNumberInput = (
+  value: string,
+  range: { min: number; max: number },
+  {
+    integer = true,
+    unit = 'days',
+    optional = false
+  }: { integer?: boolean; unit?: 'days' | 'weeks' | 'mm'; optional?: boolean } = {}
+): ValidationIssue | null => {
+  if (value.trim() === '') return null;
+
+  const number = Number(value);
+  const valid = (integer ? Number.isInteger(number) : Number.isFinite(number)) &&
+    number >= range.min && number <= range.max;
+  if (valid) return null;
+
+  return optional
+    ? { severity: 'warning', message: `validation.optionalRange.${unit}`, params: range }
+    : { severity: 'error', message: `validation.range.${unit}`, params: range };
+};
+
+// Catches dates that parse fine but put the pregnancy outside any plausible range
+export const checkResults = (results: CalculationResults): ValidationIssue | null => {
+  if (results.status === 'beyondRange') {
+    return {
+      severity: 'error',
+      message: 'validation.beyondRange',
+      params: { age: formatGestationalAge(results.gestationalAgeDays), weeks: MAX_PLAUSIBLE_GESTATION_DAYS / 7 }
+    };
+  }
+  if (results.daysRemaining > POST_TERM_DAYS) {
+    return { severity: 'error', message: 'validation.dueDateTooFar', params: { weeks: POST_TERM_DAYS / 7 } };
+  }
+  if (results.status === 'notStarted') {
+    return { severity: 'error', message: 'validation.beforeLmp' };
+  }
+  return null;
+};
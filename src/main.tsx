@@ -1,10 +1,19 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import I18nProvider from './i18n/I18nProvider';
+import ThemeProvider from './theme/ThemeProvider';
+import { registerServiceWorker } from './pwa/registerServiceWorker';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <I18nProvider>
+      <ThemeProvider>
+        <App />
+      </ThemeProvider>
+    </I18nProvider>
   </StrictMode>
 );
+
+registerServiceWorker();
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getCacheVersion, getPrecacheUrls } from './precache';
+
+describe('getPrecacheUrls', () => {
+  it('prefixes the base path and leaves out source maps and the worker itself', () => {
+    expect(
+      getPrecacheUrls(['index.html', 'assets/index-abc.js', 'assets/index-abc.js.map', 'sw.js', 'icons/icon.svg'], '/app/')
+    ).toEqual(['/app/assets/index-abc.js', '/app/icons/icon.svg', '/app/index.html']);
+  });
+
+  it('lists each file once', () => {
+    expect(getPrecacheUrls(['icons/icon.svg', 'icons/icon.svg'])).toEqual(['/icons/icon.svg']);
+  });
+});
+
+describe('getCacheVersion', () => {
+  const outputs = [
+    { fileName: 'index.html', source: '<!doctype html>' },
+    { fileName: 'assets/index-abc.js', source: new Uint8Array([1, 2, 3]) }
+  ];
+
+  it('does not depend on the order of the build output', () => {
+    expect(getCacheVersion(outputs)).toBe(getCacheVersion([...outputs].reverse()));
+    expect(getCacheVersion(outputs)).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('changes when a file changes, but not for source maps', () => {
+    const version = getCacheVersion(outputs);
+    expect(getCacheVersion([outputs[0], { fileName: 'assets/index-abc.js', source: new Uint8Array([1, 2, 4]) }])).not.toBe(version);
+    expect(getCacheVersion([...outputs, { fileName: 'assets/index-abc.js.map', source: '{}' }])).toBe(version);
+  });
+});
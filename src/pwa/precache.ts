@@ -0,0 +1,47 @@
+// Decides what the service worker stores at install time. Used by the build (vite.config.ts), not the app.
+
+export interface BuildOutput {
+  fileName: string;
+  source: string | Uint8Array;
+}
+
+export const SERVICE_WORKER_FILE = 'sw.js';
+
+// Files in public/ are copied as-is and never pass through the bundle, so they are listed here.
+// They keep their names between builds: rename one when changing it so installed apps fetch the new copy.
+export const PUBLIC_ASSETS = [
+  'manifest.webmanifest',
+  'icons/icon.svg',
+  'icons/icon-192.png',
+  'icons/icon-512.png',
+  'icons/maskable-512.png',
+  'icons/apple-touch-icon.png'
+];
+
+// Source maps are only fetched by devtools, and the worker must never cache itself
+const isPrecached = (fileName: string) => !fileName.endsWith('.map') && fileName !== SERVICE_WORKER_FILE;
+
+export const getPrecacheUrls = (fileNames: string[], base = '/'): string[] =>
+  [...new Set(fileNames.filter(isPrecached))].sort().map((fileName) => `${base}${fileName}`);
+
+// FNV-1a over every file name and its contents; any change produces a new cache, and so a new worker.
+// Text is hashed by UTF-16 code unit, which keeps this free of TextEncoder for the Node build config.
+export const getCacheVersion = (outputs: BuildOutput[]): string => {
+  let hash = 0x811c9dc5;
+  const update = (units: string | Uint8Array) => {
+    for (let i = 0; i < units.length; i++) {
+      hash ^= typeof units === 'string' ? units.charCodeAt(i) : units[i];
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+  };
+
+  [...outputs]
+    .filter((output) => isPrecached(output.fileName))
+    .sort((a, b) => (a.fileName < b.fileName ? -1 : a.fileName > b.fileName ? 1 : 0))
+    .forEach(({ fileName, source }) => {
+      update(fileName);
+      update(source);
+    });
+
+  return hash.toString(16).padStart(8, '0');
+};
@@ -0,0 +1,73 @@
+import { ProgressNotification } from '../lib/notifications';
+import { toIsoDateString } from '../lib/plainDate';
+import { isServiceWorkerEnabled } from './registerServiceWorker';
+
+// The service worker can't import app modules, so serviceWorker.ts repeats these names: keep them in sync
+const SCHEDULE_CACHE = 'progress-notifications';
+const SCHEDULE_PATH = 'progress-notifications.json';
+const CHECK_MESSAGE = 'check-progress-notifications';
+const PERIODIC_SYNC_TAG = 'progress-notifications';
+const NOTIFICATION_TAG = 'progress';
+
+// Read by the service worker, which shows the latest notification that is due and remembers it in lastShown
+interface StoredSchedule {
+  lastShown?: string;
+  notifications: { date: string; title: string; body: string }[];
+}
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncManager {
+  register: (tag: string, options: { minInterval: number }) => Promise<void>;
+  unregister: (tag: string) => Promise<void>;
+}
+
+const getPeriodicSync = (registration: ServiceWorkerRegistration) =>
+  (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+
+const scheduleUrl = () => `${import.meta.env.BASE_URL}${SCHEDULE_PATH}`;
+
+export type NotificationAccess = NotificationPermission | 'unsupported';
+
+export const getNotificationAccess = (): NotificationAccess =>
+  isServiceWorkerEnabled() && 'Notification' in window && 'caches' in window ? Notification.permission : 'unsupported';
+
+// Browsers only prompt while the permission is undecided; a denial has to be undone in site settings
+export const requestNotificationAccess = async (): Promise<NotificationAccess> => {
+  const access = getNotificationAccess();
+  return access === 'default' ? Notification.requestPermission() : access;
+};
+
+const readSchedule = async (cache: Cache): Promise<StoredSchedule | null> => {
+  try {
+    return (await (await cache.match(scheduleUrl()))?.json()) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Everything stays on the device: the schedule is written to Cache Storage, where the service worker reads it.
+// Rescheduling keeps lastShown, so reopening the app never repeats a notification.
+export const scheduleProgressNotifications = async (notifications: ProgressNotification[]) => {
+  const cache = await caches.open(SCHEDULE_CACHE);
+  const schedule: StoredSchedule = {
+    lastShown: (await readSchedule(cache))?.lastShown,
+    notifications: notifications.map(({ date, title, body }) => ({ date: toIsoDateString(date), title, body }))
+  };
+  await cache.put(scheduleUrl(), new Response(JSON.stringify(schedule), { headers: { 'Content-Type': 'application/json' } }));
+
+  const registration = await navigator.serviceWorker.ready;
+  // Chrome can wake an installed app roughly once a day; elsewhere the check runs whenever the app is opened
+  await getPeriodicSync(registration)
+    ?.register(PERIODIC_SYNC_TAG, { minInterval: 12 * 60 * 60 * 1000 })
+    .catch(() => undefined);
+  registration.active?.postMessage({ type: CHECK_MESSAGE });
+};
+
+export const cancelProgressNotifications = async () => {
+  if (getNotificationAccess() === 'unsupported') return;
+
+  await caches.delete(SCHEDULE_CACHE);
+  const registration = await navigator.serviceWorker.ready;
+  await getPeriodicSync(registration)?.unregister(PERIODIC_SYNC_TAG).catch(() => undefined);
+  (await registration.getNotifications({ tag: NOTIFICATION_TAG })).forEach((notification) => notification.close());
+};
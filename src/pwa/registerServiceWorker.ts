@@ -0,0 +1,14 @@
+import { SERVICE_WORKER_FILE } from './precache';
+
+// The dev server serves unbundled modules the worker knows nothing about, so only production builds register it
+export const isServiceWorkerEnabled = () => import.meta.env.PROD && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = () => {
+  if (!isServiceWorkerEnabled()) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}${SERVICE_WORKER_FILE}`).catch(() => {
+      // Offline support is an enhancement; the calculator works the same without it
+    });
+  });
+};
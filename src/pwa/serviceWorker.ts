@@ -0,0 +1,106 @@
+// Offline support: everything the calculator needs is stored at install time, so it opens with no connection.
+// Built as its own entry; the build replaces the two placeholders below (see vite.config.ts).
+declare const __PRECACHE_URLS__: string[];
+declare const __CACHE_VERSION__: string;
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const CACHE_PREFIX = 'pregnancy-calculator-';
+const CACHE_NAME = `${CACHE_PREFIX}${__CACHE_VERSION__}`;
+// The worker is served from the app's base path, next to index.html
+const APP_SHELL_URL = new URL('index.html', sw.location.href).pathname;
+
+// Written by the page in src/pwa/progressNotifications.ts; keep these names in sync with it
+const SCHEDULE_CACHE = 'progress-notifications';
+const SCHEDULE_URL = new URL('progress-notifications.json', sw.location.href).pathname;
+const CHECK_MESSAGE = 'check-progress-notifications';
+const PERIODIC_SYNC_TAG = 'progress-notifications';
+const NOTIFICATION_TAG = 'progress';
+
+interface StoredSchedule {
+  lastShown?: string;
+  notifications: { date: string; title: string; body: string }[];
+}
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(__PRECACHE_URLS__))
+      .then(() => sw.skipWaiting())
+  );
+});
+
+// Drop the files of earlier builds once this one is in charge
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => sw.clients.claim())
+  );
+});
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== sw.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    // Pages and share links are routed in the browser, so the cached app shell can answer any of them.
+    // The network still comes first so a new deployment is picked up as soon as there is a connection.
+    // The shell is installed with everything else in one addAll, so a worker that is running always has it.
+    event.respondWith(fetch(request).catch(async () => (await caches.match(APP_SHELL_URL)) ?? Response.error()));
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy is always current
+  event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)));
+});
+
+const getLocalIsoDate = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((part) => String(part).padStart(2, '0')).join('-');
+
+// Shows only the most recent notification that has come due, so a phone that was off for a week gets one, not seven
+const showProgressNotification = async () => {
+  const cache = await caches.open(SCHEDULE_CACHE);
+  const response = await cache.match(SCHEDULE_URL);
+  if (!response) return;
+
+  const schedule: StoredSchedule = await response.json();
+  const today = getLocalIsoDate(new Date());
+  const due = schedule.notifications.filter(
+    ({ date }) => date <= today && (schedule.lastShown === undefined || date > schedule.lastShown)
+  );
+  const latest = due[due.length - 1];
+  if (!latest) return;
+
+  await sw.registration.showNotification(latest.title, {
+    body: latest.body,
+    tag: NOTIFICATION_TAG,
+    icon: new URL('icons/icon-192.png', sw.location.href).pathname
+  });
+  await cache.put(SCHEDULE_URL, new Response(JSON.stringify({ ...schedule, lastShown: latest.date })));
+};
+
+sw.addEventListener('message', (event) => {
+  if (event.data?.type === CHECK_MESSAGE) event.waitUntil(showProgressNotification());
+});
+
+// Periodic Background Sync isn't in the WebWorker typings yet
+sw.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as ExtendableEvent & { tag: string };
+  if (syncEvent.tag === PERIODIC_SYNC_TAG) syncEvent.waitUntil(showProgressNotification());
+});
+
+sw.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    sw.clients
+      .matchAll({ type: 'window' })
+      .then((windows) => (windows[0] ? windows[0].focus() : sw.clients.openWindow(sw.registration.scope)))
+  );
+});
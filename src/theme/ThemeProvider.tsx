@@ -0,0 +1,60 @@
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { ThemeContext, ThemeContextValue } from './context';
+import { THEME_COLORS, THEME_STORAGE_KEY, ThemePreference, isThemePreference, resolveTheme } from './themes';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const CONTRAST_QUERY = '(prefers-contrast: more)';
+
+const getSystemSettings = () => ({
+  prefersDark: window.matchMedia(DARK_QUERY).matches,
+  prefersContrast: window.matchMedia(CONTRAST_QUERY).matches
+});
+
+const getInitialPreference = (): ThemePreference => {
+  try {
+    const stored = window.localStorage.getItem(THEME_STORAGE_KEY);
+    if (isThemePreference(stored)) return stored;
+  } catch {
+    // Storage blocked; follow the device
+  }
+  return 'system';
+};
+
+function ThemeProvider({ children }: { children: ReactNode }) {
+  const [preference, setPreferenceState] = useState(getInitialPreference);
+  const [system, setSystem] = useState(getSystemSettings);
+  const theme = resolveTheme(preference, system);
+
+  // Switching the device to dark mode at night updates an open page too
+  useEffect(() => {
+    const queries = [window.matchMedia(DARK_QUERY), window.matchMedia(CONTRAST_QUERY)];
+    const handleChange = () => setSystem(getSystemSettings());
+    queries.forEach((query) => query.addEventListener('change', handleChange));
+    return () => queries.forEach((query) => query.removeEventListener('change', handleChange));
+  }, []);
+
+  // The colour variables hang off data-theme; color-scheme darkens form controls and scrollbars to match
+  useEffect(() => {
+    const root = document.documentElement;
+    root.dataset.theme = theme;
+    root.style.colorScheme = theme === 'dark' ? 'dark' : 'light';
+    document.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEME_COLORS[theme]);
+  }, [theme]);
+
+  const value = useMemo((): ThemeContextValue => ({
+    preference,
+    theme,
+    setPreference: (next) => {
+      setPreferenceState(next);
+      try {
+        window.localStorage.setItem(THEME_STORAGE_KEY, next);
+      } catch {
+        // The choice still applies for this visit
+      }
+    }
+  }), [preference, theme]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export default ThemeProvider;
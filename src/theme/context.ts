@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import { Theme, ThemePreference } from './themes';
+
+export interface ThemeContextValue {
+  preference: ThemePreference;
+  // The theme in use, with 'system' resolved against the device settings
+  theme: Theme;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+export const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export const useTheme = (): ThemeContextValue => {
+  const context = useContext(ThemeContext);
+  if (!context) throw new Error('useTheme must be used inside a ThemeProvider');
+  return context;
+};
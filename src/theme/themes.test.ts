@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { isThemePreference, resolveTheme } from './themes';
+
+describe('resolveTheme', () => {
+  it('uses an explicit choice whatever the device settings', () => {
+    expect(resolveTheme('light', { prefersDark: true, prefersContrast: true })).toBe('light');
+    expect(resolveTheme('dark', { prefersDark: false, prefersContrast: false })).toBe('dark');
+  });
+
+  it('follows the device when set to system, preferring contrast over dark', () => {
+    expect(resolveTheme('system', { prefersDark: false, prefersContrast: false })).toBe('light');
+    expect(resolveTheme('system', { prefersDark: true, prefersContrast: false })).toBe('dark');
+    expect(resolveTheme('system', { prefersDark: true, prefersContrast: true })).toBe('contrast');
+  });
+});
+
+describe('isThemePreference', () => {
+  it('accepts stored preferences and rejects anything else', () => {
+    expect(isThemePreference('system')).toBe(true);
+    expect(isThemePreference('contrast')).toBe(true);
+    expect(isThemePreference('sepia')).toBe(false);
+    expect(isThemePreference(null)).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+export type Theme = 'light' | 'dark' | 'contrast';
+
+// 'system' follows the device's light/dark and contrast settings
+export type ThemePreference = Theme | 'system';
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark', 'contrast'];
+
+// index.html reads this key before the app loads so the page never flashes the wrong theme; keep them in sync
+export const THEME_STORAGE_KEY = 'pregnancy-calculator:theme';
+
+// Browser toolbar colour for each theme, matching the header
+export const THEME_COLORS: Record<Theme, string> = {
+  light: '#ec4899',
+  dark: '#1c1f2b',
+  contrast: '#000000'
+};
+
+export interface SystemThemeSettings {
+  prefersDark: boolean;
+  prefersContrast: boolean;
+}
+
+export const isThemePreference = (value: string | null): value is ThemePreference =>
+  (THEME_PREFERENCES as (string | null)[]).includes(value);
+
+// A request for more contrast wins over dark mode, as the high-contrast theme is the more legible of the two
+export const resolveTheme = (preference: ThemePreference, system: SystemThemeSettings): Theme => {
+  if (preference !== 'system') return preference;
+  if (system.prefersContrast) return 'contrast';
+  return system.prefersDark ? 'dark' : 'light';
+};
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the contact form POSTs messages; without it the form opens the user's mail app
+  readonly VITE_CONTACT_ENDPOINT?: string;
+  // 'mock' or 'mock-fail' to try the contact form locally without sending anything
+  readonly VITE_CONTACT_TRANSPORT?: string;
+}
@@ -1,8 +1,114 @@
+import colors from 'tailwindcss/colors';
+import plugin from 'tailwindcss/plugin';
+
+// Every colour class reads a CSS variable, so the same markup renders in each theme. The variables are
+// generated below from Tailwind's palette; html[data-theme] (set by src/theme/ThemeProvider) picks the set.
+// Only the hues listed here exist: add one here before using it in a class.
+const HUES = ['gray', 'red', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'];
+const SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+
+const toChannels = (hex) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Blends a palette colour into the dark page background
+const DARK_BASE = [15, 17, 26];
+const mix = (hex, amount) => toChannels(hex).map((channel, i) => Math.round(DARK_BASE[i] + (channel - DARK_BASE[i]) * amount));
+
+// Dark: the scale is flipped, so light tints become deep backgrounds and dark text turns light.
+// Grays are hand-tuned so cards (white) sit just above the page and borders stay visible.
+const DARK_GRAYS = {
+  50: [36, 40, 54],
+  100: [44, 49, 64],
+  200: [60, 66, 82],
+  300: [82, 89, 106],
+  400: [113, 121, 138],
+  500: [150, 157, 171],
+  600: [184, 190, 201],
+  700: [209, 213, 220],
+  800: [229, 231, 236],
+  900: [243, 244, 246],
+  950: [249, 250, 251]
+};
+const darkShade = (hue, shade) => {
+  const palette = colors[hue];
+  switch (shade) {
+    case '50': return mix(palette[900], 0.22);
+    case '100': return mix(palette[900], 0.45);
+    case '200': return mix(palette[800], 0.75);
+    case '300': return toChannels(palette[700]);
+    case '400': return toChannels(palette[500]);
+    case '500':
+    case '600': return toChannels(palette[400]);
+    case '700': return toChannels(palette[300]);
+    case '800': return toChannels(palette[200]);
+    case '900': return toChannels(palette[100]);
+    default: return toChannels(palette[50]);
+  }
+};
+
+// High contrast: light backgrounds stay, while text, borders and buttons move two or three shades darker
+const CONTRAST_SHADES = {
+  hue: { 50: 50, 100: 100, 200: 200, 300: 500, 400: 700, 500: 700, 600: 800, 700: 800, 800: 900, 900: 950, 950: 950 },
+  gray: { 50: 50, 100: 100, 200: 400, 300: 500, 400: 700, 500: 800, 600: 900, 700: 900, 800: 950, 900: 950, 950: 950 }
+};
+
+const THEMES = {
+  light: {
+    white: [255, 255, 255],
+    black: [0, 0, 0],
+    shade: (hue, shade) => toChannels(colors[hue][shade])
+  },
+  dark: {
+    white: [28, 31, 43],
+    black: [0, 0, 0],
+    shade: (hue, shade) => (hue === 'gray' ? DARK_GRAYS[shade] : darkShade(hue, shade))
+  },
+  contrast: {
+    white: [255, 255, 255],
+    black: [0, 0, 0],
+    shade: (hue, shade) => toChannels(colors[hue][CONTRAST_SHADES[hue === 'gray' ? 'gray' : 'hue'][shade]])
+  }
+};
+
+const toVariables = ({ white, black, shade }) => ({
+  '--color-white': white.join(' '),
+  '--color-black': black.join(' '),
+  ...Object.fromEntries(
+    HUES.flatMap((hue) => SHADES.map((value) => [`--color-${hue}-${value}`, shade(hue, value).join(' ')]))
+  )
+});
+
+const themed = (name) => `rgb(var(--color-${name}) / <alpha-value>)`;
+
+// Trimester colours are set once here rather than in each component
+const trimester = (hue) => ({ DEFAULT: themed(`${hue}-600`), soft: themed(`${hue}-100`), line: themed(`${hue}-300`) });
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
   theme: {
+    colors: {
+      transparent: 'transparent',
+      current: 'currentColor',
+      white: themed('white'),
+      black: themed('black'),
+      ...Object.fromEntries(HUES.map((hue) => [hue, Object.fromEntries(SHADES.map((shade) => [shade, themed(`${hue}-${shade}`)]))])),
+      trimester: { 1: trimester('pink'), 2: trimester('blue'), 3: trimester('purple') }
+    },
     extend: {},
   },
-  plugins: [],
+  plugins: [
+    // Printing always uses the light theme, so dark and high-contrast only apply on screen
+    plugin(({ addBase }) =>
+      addBase({
+        ':root': toVariables(THEMES.light),
+        '@media screen': {
+          ':root[data-theme="dark"]': toVariables(THEMES.dark),
+          ':root[data-theme="contrast"]': toVariables(THEMES.contrast)
+        }
+      })
+    )
+  ],
 };
@@ -1,10 +1,59 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { Plugin, defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { PUBLIC_ASSETS, SERVICE_WORKER_FILE, getCacheVersion, getPrecacheUrls } from './src/pwa/precache';
+
+// Bakes the list of built files and a hash of their contents into the service worker,
+// so every build that changes anything installs as a new worker with a fresh cache
+const precacheManifest = (): Plugin => {
+  let base = '/';
+
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle(_, bundle) {
+      const worker = bundle[SERVICE_WORKER_FILE];
+      if (worker?.type !== 'chunk') return;
+
+      const outputs = Object.values(bundle).map((output) => ({
+        fileName: output.fileName,
+        source: output.type === 'chunk' ? output.code : output.source
+      }));
+      const urls = getPrecacheUrls([...outputs.map((output) => output.fileName), ...PUBLIC_ASSETS], base);
+      const version = getCacheVersion([...outputs, ...PUBLIC_ASSETS.map((fileName) => ({ fileName, source: '' }))]);
+
+      worker.code = worker.code
+        .replace(/__PRECACHE_URLS__/g, JSON.stringify(urls))
+        .replace(/__CACHE_VERSION__/g, JSON.stringify(version));
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  build: {
+    rollupOptions: {
+      // The service worker is built alongside the app
+      input: {
+        main: 'index.html',
+        sw: 'src/pwa/serviceWorker.ts',
+      },
+      output: {
+        // Served from the root with a fixed name, so its scope covers the whole app and browsers can check it for updates
+        entryFileNames: (chunk) => (chunk.name === 'sw' ? SERVICE_WORKER_FILE : 'assets/[name]-[hash].js'),
+      },
+    },
+  },
+  test: {
+    // Pin a timezone with DST so date tests are deterministic on every machine
+    env: { TZ: 'America/New_York' },
+  },
 });